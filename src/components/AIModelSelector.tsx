@@ -1,5 +1,6 @@
-
 import React from 'react';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AI_MODEL_OPTIONS } from '@/utils/aiProviders';
 
 interface AIModelSelectorProps {
   selectedModel: string;
@@ -7,15 +8,26 @@ interface AIModelSelectorProps {
 }
 
 const AIModelSelector: React.FC<AIModelSelectorProps> = ({ selectedModel, onModelChange }) => {
-  // Set Gemini AI as default if it's not already selected
-  React.useEffect(() => {
-    if (selectedModel !== "gemini") {
-      onModelChange("gemini");
-    }
-  }, [selectedModel, onModelChange]);
+  // Map "provider:model" values back to their provider option
+  const selectedProvider = selectedModel.split(':')[0].startsWith('gemini') ? 'gemini' : selectedModel.split(':')[0];
 
-  // Return null since we don't want to render anything
-  return null;
+  return (
+    <div className="flex items-center gap-2">
+      <span className="text-sm font-medium text-gray-700">AI Model</span>
+      <Select value={selectedProvider} onValueChange={onModelChange}>
+        <SelectTrigger className="w-[220px] h-8 text-sm">
+          <SelectValue placeholder="Select AI model" />
+        </SelectTrigger>
+        <SelectContent>
+          {AI_MODEL_OPTIONS.map(option => (
+            <SelectItem key={option.value} value={option.value} title={option.description}>
+              {option.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
 };
 
 export default AIModelSelector;
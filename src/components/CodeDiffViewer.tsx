@@ -1,11 +1,16 @@
-
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/hooks/use-toast';
+import { SourceMapEntry } from '@/types';
 import CodeEditor from './CodeEditor';
+import SyncedCodePanes from './SyncedCodePanes';
 
 interface CodeDiffViewerProps {
   originalCode: string;
   convertedCode: string;
+  sourceMap?: SourceMapEntry[];
   onUpdateConvertedCode?: (updatedCode: string) => void;
   readOnly?: boolean;
 }
@@ -13,36 +18,100 @@ interface CodeDiffViewerProps {
 const CodeDiffViewer: React.FC<CodeDiffViewerProps> = ({
   originalCode,
   convertedCode,
+  sourceMap,
   onUpdateConvertedCode,
   readOnly = false,
 }) => {
+  const { toast } = useToast();
+  const [code, setCode] = useState(convertedCode);
+  const [draft, setDraft] = useState(convertedCode);
+  const [isEditing, setIsEditing] = useState(false);
+
+  useEffect(() => {
+    setCode(convertedCode);
+    setIsEditing(false);
+  }, [convertedCode]);
+
+  const handleEdit = () => {
+    setDraft(code);
+    setIsEditing(true);
+  };
+
+  const handleSave = () => {
+    if (!onUpdateConvertedCode) return;
+    onUpdateConvertedCode(draft);
+    setCode(draft);
+    setIsEditing(false);
+
+    toast({
+      title: 'Changes Saved',
+      description: 'Your code changes have been saved.',
+    });
+  };
+
+  const handleCancel = () => {
+    setIsEditing(false);
+
+    toast({
+      title: 'Changes Discarded',
+      description: 'Your code changes have been discarded.',
+    });
+  };
+
+  // A source map passed in describes the code as converted; after an edit here it is recomputed
+  const currentSourceMap = code === convertedCode ? sourceMap : undefined;
+
   return (
     <Card className="w-full">
-      <CardHeader>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
         <CardTitle className="text-lg">Code Comparison</CardTitle>
+        {!readOnly && (
+          isEditing ? (
+            <div className="flex gap-2">
+              <Button variant="ghost" size="sm" onClick={handleCancel}>
+                Cancel
+              </Button>
+              <Button variant="default" size="sm" onClick={handleSave}>
+                Save
+              </Button>
+            </div>
+          ) : (
+            <Button variant="ghost" size="sm" onClick={handleEdit}>
+              Edit
+            </Button>
+          )
+        )}
       </CardHeader>
       <CardContent>
-        <div className="grid grid-cols-2 gap-4">
-          <div>
-            <h3 className="text-sm font-medium mb-2 text-muted-foreground">Original (Sybase)</h3>
-            <CodeEditor 
-              initialCode={originalCode} 
-              readOnly={true} 
-              height="500px"
-              language="sql"
-            />
-          </div>
-          <div>
-            <h3 className="text-sm font-medium mb-2 text-muted-foreground">Converted (Oracle)</h3>
-            <CodeEditor 
-              initialCode={convertedCode} 
-              readOnly={readOnly} 
-              onSave={onUpdateConvertedCode}
-              height="500px"
-              language="plsql"
-            />
+        {isEditing ? (
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <h3 className="text-sm font-medium mb-2 text-muted-foreground">Original (Sybase)</h3>
+              <CodeEditor
+                initialCode={originalCode}
+                readOnly={true}
+                height="500px"
+                language="sql"
+              />
+            </div>
+            <div>
+              <h3 className="text-sm font-medium mb-2 text-muted-foreground">Converted (Oracle)</h3>
+              <Textarea
+                value={draft}
+                onChange={e => setDraft(e.target.value)}
+                className="font-mono text-sm resize-none"
+                style={{ height: '500px' }}
+              />
+            </div>
           </div>
-        </div>
+        ) : (
+          <SyncedCodePanes
+            originalCode={originalCode}
+            convertedCode={code}
+            sourceMap={currentSourceMap}
+            height="500px"
+          />
+        )}
       </CardContent>
     </Card>
   );
@@ -5,6 +5,13 @@ import { Label } from '@/components/ui/label';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { UploadCloud, File, Trash2, Plus, Folder, Info, Download } from 'lucide-react';
 import { CodeFile } from '@/types';
+import DataTypeRulesEditor from '@/components/DataTypeRulesEditor';
+import IdentityColumnsPanel from '@/components/IdentityColumnsPanel';
+import TempTablesPanel from '@/components/TempTablesPanel';
+import ResultSetsPanel from '@/components/ResultSetsPanel';
+import IdentifiersPanel from '@/components/IdentifiersPanel';
+import ErrorNumbersPanel from '@/components/ErrorNumbersPanel';
+import PromptTemplateEditor from '@/components/PromptTemplateEditor';
 import { useToast } from '@/hooks/use-toast';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
@@ -21,7 +28,7 @@ interface CodeUploaderProps {
 const CodeUploader: React.FC<CodeUploaderProps> = ({ onComplete }) => {
   const { toast } = useToast();
   const [files, setFiles] = useState<CodeFile[]>([]);
-  const [activeTab, setActiveTab] = useState<'upload' | 'manual' | 'mapping' | 'syntax'>('upload');
+  const [activeTab, setActiveTab] = useState<'upload' | 'manual' | 'mapping' | 'prompts' | 'syntax'>('upload');
   const [manualContent, setManualContent] = useState<string>('');
   const [manualFileName, setManualFileName] = useState<string>('');
   const [templateType, setTemplateType] = useState<'table' | 'procedure' | 'trigger'>('table');
@@ -369,19 +376,6 @@ END`;
     setTemplateType(type);
   };
 
-  const dataTypeMappings = [
-    { tsql: 'INT', plsql: 'NUMBER(10)', usage: 'Primary keys, counters', notes: 'Oracle NUMBER is more flexible' },
-    { tsql: 'VARCHAR(n)', plsql: 'VARCHAR2(n)', usage: 'Variable length strings', notes: 'VARCHAR2 recommended in Oracle' },
-    { tsql: 'CHAR(n)', plsql: 'CHAR(n)', usage: 'Fixed length strings', notes: 'Same in both databases' },
-    { tsql: 'TEXT', plsql: 'CLOB', usage: 'Large text data', notes: 'CLOB for large character data' },
-    { tsql: 'DATETIME', plsql: 'DATE', usage: 'Date and time', notes: 'Oracle DATE includes time' },
-    { tsql: 'BIT', plsql: 'NUMBER(1)', usage: 'Boolean values', notes: 'Use CHECK constraint (0,1)' },
-    { tsql: 'FLOAT', plsql: 'BINARY_FLOAT', usage: 'Floating point', notes: 'Oracle has BINARY_FLOAT/DOUBLE' },
-    { tsql: 'DECIMAL(p,s)', plsql: 'NUMBER(p,s)', usage: 'Precise decimal', notes: 'NUMBER is Oracle standard' },
-    { tsql: 'IDENTITY', plsql: 'SEQUENCE + TRIGGER', usage: 'Auto-increment', notes: 'Oracle 12c+ has IDENTITY' },
-    { tsql: 'UNIQUEIDENTIFIER', plsql: 'RAW(16)', usage: 'GUID/UUID', notes: 'Use SYS_GUID() function' }
-  ];
-
   const syntaxDifferences = [
     { category: 'Variables', tsql: 'DECLARE @var INT', plsql: 'DECLARE var NUMBER;', example: '@customer_id vs customer_id' },
     { category: 'String Concat', tsql: 'str1 + str2', plsql: 'str1 || str2', example: "'Hello' + 'World' vs 'Hello' || 'World'" },
@@ -405,10 +399,11 @@ END`;
         
         <CardContent>
           <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as any)}>
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-5">
               <TabsTrigger value="upload">Upload Files</TabsTrigger>
               <TabsTrigger value="manual">Manual Input</TabsTrigger>
               <TabsTrigger value="mapping">Data Type Mapping</TabsTrigger>
+              <TabsTrigger value="prompts">Prompt Templates</TabsTrigger>
               <TabsTrigger value="syntax">Syntax Differences</TabsTrigger>
             </TabsList>
             
@@ -528,24 +523,34 @@ END`;
             <TabsContent value="mapping" className="space-y-4">
               <div>
                 <h3 className="text-lg font-semibold mb-4">T-SQL to PL/SQL Data Type Mapping</h3>
-                <div className="border rounded-lg overflow-hidden">
-                  <div className="grid grid-cols-4 gap-4 p-3 bg-gray-50 font-semibold text-sm">
-                    <div>T-SQL (Sybase)</div>
-                    <div>PL/SQL (Oracle)</div>
-                    <div>Usage in Code</div>
-                    <div>Notes</div>
-                  </div>
-                  <ScrollArea className="max-h-96">
-                    {dataTypeMappings.map((mapping, index) => (
-                      <div key={index} className="grid grid-cols-4 gap-4 p-3 border-t text-sm">
-                        <div className="font-mono bg-red-50 px-2 py-1 rounded">{mapping.tsql}</div>
-                        <div className="font-mono bg-green-50 px-2 py-1 rounded">{mapping.plsql}</div>
-                        <div className="text-gray-600">{mapping.usage}</div>
-                        <div className="text-gray-500 text-xs">{mapping.notes}</div>
-                      </div>
-                    ))}
-                  </ScrollArea>
-                </div>
+                <DataTypeRulesEditor files={files} />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold mb-4">Identity Columns</h3>
+                <IdentityColumnsPanel files={files} />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold mb-4">Temporary Tables</h3>
+                <TempTablesPanel files={files} />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold mb-4">Result Sets</h3>
+                <ResultSetsPanel files={files} />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold mb-4">Identifiers</h3>
+                <IdentifiersPanel files={files} />
+              </div>
+              <div>
+                <h3 className="text-lg font-semibold mb-4">Error Numbers</h3>
+                <ErrorNumbersPanel files={files} />
+              </div>
+            </TabsContent>
+
+            <TabsContent value="prompts" className="space-y-4">
+              <div>
+                <h3 className="text-lg font-semibold mb-4">Conversion Prompt Templates</h3>
+                <PromptTemplateEditor />
               </div>
             </TabsContent>
 
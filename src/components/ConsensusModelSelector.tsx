@@ -0,0 +1,58 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Scale } from 'lucide-react';
+import { AI_MODEL_OPTIONS } from '@/utils/aiProviders';
+
+interface ConsensusModelSelectorProps {
+  selectedModel: string;
+  consensusModels: string[];
+  onConsensusModelsChange: (models: string[]) => void;
+}
+
+// Extra models that convert procedures and triggers alongside the selected one
+const ConsensusModelSelector: React.FC<ConsensusModelSelectorProps> = ({
+  selectedModel,
+  consensusModels,
+  onConsensusModelsChange,
+}) => {
+  const options = AI_MODEL_OPTIONS.filter(option => option.value !== selectedModel);
+  const activeCount = consensusModels.filter(model => model !== selectedModel).length;
+
+  const toggleModel = (model: string, checked: boolean) => {
+    onConsensusModelsChange(checked
+      ? [...consensusModels, model]
+      : consensusModels.filter(value => value !== model));
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="h-8 text-sm">
+          <Scale className="h-4 w-4 mr-1" />
+          {activeCount > 0 ? `Consensus: +${activeCount} model${activeCount === 1 ? '' : 's'}` : 'Consensus: off'}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72">
+        <div className="space-y-3">
+          <p className="text-xs text-muted-foreground">
+            Procedures and triggers are also converted with these models. Statements where their output
+            differs from the selected model are reported as consensus issues.
+          </p>
+          {options.map(option => (
+            <label key={option.value} className="flex items-center gap-2 text-sm" title={option.description}>
+              <Checkbox
+                checked={consensusModels.includes(option.value)}
+                onCheckedChange={checked => toggleModel(option.value, checked === true)}
+              />
+              {option.label}
+            </label>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ConsensusModelSelector;
@@ -0,0 +1,71 @@
+import React, { useMemo, useState } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { ConsensusReport } from '@/types';
+import { compareConversions } from '@/utils/consensus';
+
+interface ConsensusPanelProps {
+  convertedCode: string;
+  consensus: ConsensusReport;
+}
+
+// What the other consensus models made of the file, and the statements where each differs from the result
+const ConsensusPanel: React.FC<ConsensusPanelProps> = ({ convertedCode, consensus }) => {
+  const [selected, setSelected] = useState(0);
+  const alternative = consensus.alternatives[selected];
+  const comparison = useMemo(
+    () => (alternative && !alternative.error ? compareConversions(convertedCode, alternative.convertedCode) : null),
+    [convertedCode, alternative],
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center gap-2 text-sm">
+        <span className="font-semibold">Consensus</span>
+        <Badge variant={consensus.agreement === 100 ? 'secondary' : 'outline'}>{consensus.agreement}% agreement</Badge>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {consensus.alternatives.map((option, index) => (
+          <Button
+            key={option.requestedModel}
+            variant={index === selected ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => setSelected(index)}
+          >
+            {option.aiModel ?? option.requestedModel}
+            <span className="ml-2 text-xs">{option.error ? 'failed' : `${option.agreement}%`}</span>
+          </Button>
+        ))}
+      </div>
+
+      {alternative?.error && (
+        <div className="p-3 border rounded-lg text-sm text-red-600">{alternative.error}</div>
+      )}
+
+      {comparison && (comparison.regions.length === 0 ? (
+        <div className="p-3 border rounded-lg text-sm text-gray-500">Both conversions do the same thing.</div>
+      ) : (
+        <div className="border rounded-lg overflow-hidden">
+          <div className="grid grid-cols-[auto_1fr_1fr] gap-4 p-3 bg-gray-50 font-semibold text-sm">
+            <div>Line</div>
+            <div>Result</div>
+            <div>{alternative.aiModel ?? alternative.requestedModel}</div>
+          </div>
+          <ScrollArea className="max-h-96">
+            {comparison.regions.map(region => (
+              <div key={`${region.line}:${region.primaryCode}`} className="grid grid-cols-[auto_1fr_1fr] gap-4 p-3 border-t text-xs">
+                <div className="text-gray-500">{region.line}</div>
+                <pre className="font-mono whitespace-pre-wrap bg-red-50 px-2 py-1 rounded">{region.primaryCode || '(nothing)'}</pre>
+                <pre className="font-mono whitespace-pre-wrap bg-green-50 px-2 py-1 rounded">{region.alternativeCode || '(nothing)'}</pre>
+              </div>
+            ))}
+          </ScrollArea>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ConsensusPanel;
@@ -232,6 +232,7 @@ const ConversionResults: React.FC<ConversionResultsProps> = ({
                       <CodeDiffViewer 
                         originalCode={selectedResult.originalFile.content}
                         convertedCode={selectedResult.convertedCode}
+                        sourceMap={selectedResult.sourceMap}
                         onUpdateConvertedCode={(updatedCode) => handleUpdateConvertedCode(selectedResult.id, updatedCode)}
                       />
                     </TabsContent>
@@ -4,14 +4,15 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
-import { Edit, Save, Clock, ArrowLeft, ArrowRight } from 'lucide-react';
+import { Edit, Save, Clock, ArrowLeft, ArrowRight, Loader2, Square } from 'lucide-react';
 import ConversionIssuesPanel from './ConversionIssuesPanel';
 import FileDownloader from './FileDownloader';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
 import { useUnreviewedFiles } from '@/hooks/useUnreviewedFiles';
-import CodeDiffViewer from './CodeDiffViewer';
+import SyncedCodePanes from './SyncedCodePanes';
 import { diffChars } from 'diff';
+import { ConversionProgress } from '@/types';
 
 interface DataTypeMapping {
   sybaseType: string;
@@ -77,6 +78,9 @@ interface ConversionViewerProps {
   onNextFile?: () => void;
   hasPrev?: boolean;
   hasNext?: boolean;
+  isConverting?: boolean; // Show the live output instead of the stored conversion
+  liveProgress?: ConversionProgress;
+  onCancelConversion?: () => void;
 }
 
 const ConversionViewer: React.FC<ConversionViewerProps> = ({
@@ -89,6 +93,9 @@ const ConversionViewer: React.FC<ConversionViewerProps> = ({
   onNextFile,
   hasPrev,
   hasNext,
+  isConverting,
+  liveProgress,
+  onCancelConversion,
 }) => {
   const { toast } = useToast();
   const { addUnreviewedFile } = useUnreviewedFiles();
@@ -100,6 +107,20 @@ const ConversionViewer: React.FC<ConversionViewerProps> = ({
     setEditedContent(file.convertedContent || '');
   }, [file.convertedContent]);
 
+  // Tick the elapsed time while a conversion is running
+  const [convertingSince, setConvertingSince] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now());
+  useEffect(() => {
+    if (!isConverting) {
+      setConvertingSince(null);
+      return;
+    }
+    setConvertingSince(Date.now());
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isConverting]);
+  const elapsedSeconds = Math.max(0, Math.floor((now - (liveProgress?.startedAt ?? convertingSince ?? now)) / 1000));
+
   // Helper to calculate human edit percentage (character-based)
   function getEditPercentage(aiCode: string, finalCode: string): number {
     if (!aiCode || !finalCode) return 0;
@@ -157,92 +178,119 @@ const ConversionViewer: React.FC<ConversionViewerProps> = ({
         </TabsList>
         
         <TabsContent value="code" className="space-y-4">
-          {file.convertedContent ? (
-            <div className="relative grid grid-cols-2 gap-4">
-              {/* Left Column: Original Sybase Code with Prev Arrow */}
-              <div className="flex items-start">
-                {hasPrev && onPrevFile && (
-                  <button
-                    className="mr-2 bg-white border rounded-full shadow p-1 hover:bg-gray-100"
-                    onClick={onPrevFile}
-                    aria-label="Previous file"
-                  >
-                    <ArrowLeft className="h-6 w-6" />
-                  </button>
-                )}
-                <div className="flex-1">
-                  <h3 className="text-sm font-medium mb-2">Original Sybase Code:</h3>
-                  <pre className="bg-gray-100 p-4 rounded text-sm overflow-auto max-h-64 whitespace-pre-wrap">
-                    {file.content}
-                  </pre>
-                </div>
+          {isConverting ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <h3 className="text-sm font-medium mb-2">Original Sybase Code:</h3>
+                <pre className="bg-gray-100 p-4 rounded text-sm overflow-auto max-h-64 whitespace-pre-wrap">
+                  {file.content}
+                </pre>
               </div>
-              {/* Right Column: Converted Oracle Code with Next Arrow */}
-              <div className="flex items-start">
-                <div className="flex-1">
-                  <h3 className="text-sm font-medium mb-2 text-green-700">Converted Oracle Code:</h3>
-                  {/* Human Edits Metric */}
-                  {isEditing ? (
-                    hideEdit ? (
-                      <pre className="bg-green-50 p-4 rounded text-sm overflow-auto max-h-64 whitespace-pre-wrap">
-                        {file.convertedContent}
-                      </pre>
-                    ) : (
-                      <>
-                        <Textarea
-                          value={editedContent}
-                          onChange={e => setEditedContent(e.target.value)}
-                          className="min-h-64 font-mono text-sm mb-2"
-                        />
-                        <div className="flex items-center gap-2 mt-2">
-                          <Button
-                            size="sm"
-                            variant="default"
-                            onClick={handleSaveEdit}
-                          >
-                            <Save className="h-4 w-4 mr-1" />
-                            Save
-                          </Button>
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => setIsEditing(false)}
-                          >
-                            Cancel
-                          </Button>
-                        </div>
-                      </>
-                    )
-                  ) : (
-                    <>
-                      <pre className="bg-green-50 p-4 rounded text-sm overflow-auto max-h-64 whitespace-pre-wrap">
-                        {file.convertedContent}
-                      </pre>
-                      {!hideEdit && (
-                        <div className="flex items-center gap-2 mt-2">
-                          <Button
-                            size="sm"
-                            variant="outline"
-                            onClick={() => setIsEditing(true)}
-                          >
-                            <Edit className="h-4 w-4 mr-1" />
-                            Edit
-                          </Button>
-                        </div>
-                      )}
-                    </>
+              <div>
+                <div className="flex items-center justify-between mb-2">
+                  <h3 className="text-sm font-medium text-blue-700 flex items-center gap-2">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Converting...
+                  </h3>
+                  {onCancelConversion && (
+                    <Button size="sm" variant="outline" onClick={onCancelConversion}>
+                      <Square className="h-3 w-3 mr-1" />
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+                <div className="flex flex-wrap gap-3 text-xs text-gray-500 mb-2">
+                  <span className="flex items-center gap-1"><Clock className="h-3 w-3" />{Math.floor(elapsedSeconds / 60)}:{String(elapsedSeconds % 60).padStart(2, '0')}</span>
+                  <span>~{liveProgress?.tokenCount ?? 0} tokens</span>
+                  {liveProgress && liveProgress.chunkCount > 1 && (
+                    <span>Chunk {liveProgress.chunkIndex + 1} of {liveProgress.chunkCount}</span>
                   )}
                 </div>
-                {hasNext && onNextFile && (
-                  <button
-                    className="ml-2 bg-white border rounded-full shadow p-1 hover:bg-gray-100"
-                    onClick={onNextFile}
-                    aria-label="Next file"
-                  >
-                    <ArrowRight className="h-6 w-6" />
-                  </button>
+                <pre className="bg-blue-50 p-4 rounded text-sm overflow-auto max-h-64 whitespace-pre-wrap">
+                  {liveProgress?.partialCode || 'Waiting for the model...'}
+                </pre>
+              </div>
+            </div>
+          ) : file.convertedContent ? (
+            <div className="flex items-start">
+              {hasPrev && onPrevFile && (
+                <button
+                  className="mr-2 bg-white border rounded-full shadow p-1 hover:bg-gray-100"
+                  onClick={onPrevFile}
+                  aria-label="Previous file"
+                >
+                  <ArrowLeft className="h-6 w-6" />
+                </button>
+              )}
+              <div className="flex-1 min-w-0">
+                {isEditing && !hideEdit ? (
+                  <div className="grid grid-cols-2 gap-4">
+                    <div>
+                      <h3 className="text-sm font-medium mb-2">Original Sybase Code:</h3>
+                      <pre className="bg-gray-100 p-4 rounded text-sm overflow-auto max-h-64 whitespace-pre-wrap">
+                        {file.content}
+                      </pre>
+                    </div>
+                    <div>
+                      <h3 className="text-sm font-medium mb-2 text-green-700">Converted Oracle Code:</h3>
+                      <Textarea
+                        value={editedContent}
+                        onChange={e => setEditedContent(e.target.value)}
+                        className="min-h-64 font-mono text-sm mb-2"
+                      />
+                      <div className="flex items-center gap-2 mt-2">
+                        <Button
+                          size="sm"
+                          variant="default"
+                          onClick={handleSaveEdit}
+                        >
+                          <Save className="h-4 w-4 mr-1" />
+                          Save
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setIsEditing(false)}
+                        >
+                          Cancel
+                        </Button>
+                      </div>
+                    </div>
+                  </div>
+                ) : (
+                  <>
+                    {/* Clicking a line highlights its counterpart; both panes scroll together */}
+                    <SyncedCodePanes
+                      originalCode={file.content}
+                      convertedCode={file.convertedContent}
+                      height="24rem"
+                      originalTitle="Original Sybase Code:"
+                      convertedTitle="Converted Oracle Code:"
+                    />
+                    {!hideEdit && (
+                      <div className="flex items-center justify-end gap-2 mt-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setIsEditing(true)}
+                        >
+                          <Edit className="h-4 w-4 mr-1" />
+                          Edit
+                        </Button>
+                      </div>
+                    )}
+                  </>
                 )}
               </div>
+              {hasNext && onNextFile && (
+                <button
+                  className="ml-2 bg-white border rounded-full shadow p-1 hover:bg-gray-100"
+                  onClick={onNextFile}
+                  aria-label="Next file"
+                >
+                  <ArrowRight className="h-6 w-6" />
+                </button>
+              )}
             </div>
           ) : (
             <div>
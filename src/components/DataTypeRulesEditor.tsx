@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Pencil, Trash2, Download } from 'lucide-react';
+import { CodeFile, DataTypeRule } from '@/types';
+import { useDataTypeRules } from '@/hooks/useDataTypeRules';
+import { SYBASE_TYPE_RULES, createTypeMapper, extractUserDefinedTypes, mergeTypeRules } from '@/utils/sybaseTypes';
+
+interface DataTypeRulesEditorProps {
+  files?: CodeFile[]; // Uploaded files to import sp_addtype user types from
+}
+
+interface MappingRow {
+  sybaseType: string;
+  oracleType: string;
+  description: string;
+  rule?: DataTypeRule; // Set for project rules
+}
+
+// Built-in rules shown as "varchar(n) -> VARCHAR2(n)"
+const BUILT_IN_ROWS: MappingRow[] = SYBASE_TYPE_RULES.map(rule => {
+  const name = rule.pattern.source.match(/^\\b(\w+)/)?.[1] ?? rule.pattern.source;
+  const argCount = (rule.pattern.source.match(/\(\\d\+\)/g) ?? []).length;
+  const argNames = argCount === 2 ? ['p', 's'] : ['n'];
+  return {
+    sybaseType: argCount > 0 ? `${name}(${argNames.slice(0, argCount).join(',')})` : name,
+    oracleType: rule.oracle.replace(/\$(\d)/g, (_, index) => argNames[parseInt(index) - 1] ?? 'n'),
+    description: rule.desc,
+  };
+});
+
+const typeName = (sybaseType: string) => sybaseType.replace(/\s*\(.*$/, '').toLowerCase();
+
+const DataTypeRulesEditor: React.FC<DataTypeRulesEditorProps> = ({ files = [] }) => {
+  const { projectName, projectNames, setProjectName, rules, isLoading, saveRules, deleteRule } = useDataTypeRules();
+  const [newProject, setNewProject] = useState('');
+  const [sybaseType, setSybaseType] = useState('');
+  const [oracleType, setOracleType] = useState('');
+  const [description, setDescription] = useState('');
+
+  const mapType = createTypeMapper(rules);
+  const overridden = new Set(rules.map(rule => typeName(rule.sybaseType)));
+  const rows: MappingRow[] = [
+    ...rules.map(rule => ({
+      sybaseType: rule.sybaseType,
+      oracleType: rule.oracleType || mapType(rule.sybaseType)?.oracleType || '',
+      description: rule.description || (rule.baseType ? `User-defined type based on ${rule.baseType}` : ''),
+      rule,
+    })),
+    ...BUILT_IN_ROWS.filter(row => !overridden.has(typeName(row.sybaseType))),
+  ];
+
+  const savedTypes = new Set(rules.map(rule => rule.sybaseType.toLowerCase()));
+  const userTypes = mergeTypeRules(files.flatMap(file => extractUserDefinedTypes(file.content)))
+    .filter(rule => !savedTypes.has(rule.sybaseType.toLowerCase()));
+
+  const editRow = (row: MappingRow) => {
+    setSybaseType(row.rule?.sybaseType ?? typeName(row.sybaseType));
+    setOracleType(row.rule ? row.rule.oracleType : row.oracleType.replace(/\bn\b/, () => '$1').replace(/\bp,s\b/, () => '$1,$2'));
+    setDescription(row.description);
+  };
+
+  const handleSave = async () => {
+    if (!sybaseType.trim()) return;
+    const existing = rules.find(rule => rule.sybaseType.toLowerCase() === sybaseType.trim().toLowerCase());
+    const saved = await saveRules([{
+      sybaseType,
+      oracleType,
+      description: description.trim() || undefined,
+      source: existing?.source ?? 'custom',
+      baseType: existing?.baseType,
+    }]);
+    if (saved) {
+      setSybaseType('');
+      setOracleType('');
+      setDescription('');
+    }
+  };
+
+  const handleAddProject = () => {
+    if (!newProject.trim()) return;
+    setProjectName(newProject);
+    setNewProject('');
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label>Project</Label>
+          <Select value={projectName} onValueChange={setProjectName}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {projectNames.map(name => (
+                <SelectItem key={name} value={name}>{name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex gap-2">
+          <Input
+            placeholder="New project name"
+            value={newProject}
+            onChange={(e) => setNewProject(e.target.value)}
+            className="w-48"
+          />
+          <Button variant="outline" onClick={handleAddProject} disabled={!newProject.trim()}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Project
+          </Button>
+        </div>
+        {userTypes.length > 0 && (
+          <Button variant="outline" onClick={() => saveRules(userTypes)}>
+            <Download className="h-4 w-4 mr-1" />
+            Import {userTypes.length} sp_addtype type{userTypes.length === 1 ? '' : 's'}
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+        <div className="space-y-1">
+          <Label>Sybase type</Label>
+          <Input placeholder="datetime, bit, ssn_type" value={sybaseType} onChange={(e) => setSybaseType(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>Oracle type</Label>
+          <Input placeholder="VARCHAR2($1 CHAR)" value={oracleType} onChange={(e) => setOracleType(e.target.value)} />
+        </div>
+        <div className="space-y-1">
+          <Label>Description</Label>
+          <Input value={description} onChange={(e) => setDescription(e.target.value)} />
+        </div>
+        <Button onClick={handleSave} disabled={!sybaseType.trim() || isLoading}>
+          Save Rule
+        </Button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Use $1 and $2 for the Sybase length or precision and scale. Leave the Oracle type empty on an sp_addtype
+        type to map it through its base type.
+      </p>
+
+      <div className="border rounded-lg overflow-hidden">
+        <div className="grid grid-cols-[1fr_1fr_2fr_auto] gap-4 p-3 bg-gray-50 font-semibold text-sm">
+          <div>T-SQL (Sybase)</div>
+          <div>PL/SQL (Oracle)</div>
+          <div>Notes</div>
+          <div className="w-20" />
+        </div>
+        <ScrollArea className="h-96">
+          {rows.map(row => (
+            <div key={row.sybaseType} className="grid grid-cols-[1fr_1fr_2fr_auto] gap-4 p-3 border-t text-sm items-center">
+              <div className="font-mono bg-red-50 px-2 py-1 rounded">{row.sybaseType}</div>
+              <div className="font-mono bg-green-50 px-2 py-1 rounded">{row.oracleType}</div>
+              <div className="text-gray-600 flex items-center gap-2">
+                {row.rule && (
+                  <Badge variant="outline" className="text-xs">
+                    {row.rule.source === 'sp_addtype' ? 'sp_addtype' : 'Project'}
+                  </Badge>
+                )}
+                {row.description}
+              </div>
+              <div className="flex gap-1 w-20 justify-end">
+                <Button variant="ghost" size="sm" onClick={() => editRow(row)} title={row.rule ? 'Edit' : 'Override'}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                {row.rule?.id && (
+                  <Button variant="ghost" size="sm" onClick={() => deleteRule(row.rule!.id!)} title="Delete">
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            </div>
+          ))}
+        </ScrollArea>
+      </div>
+    </div>
+  );
+};
+
+export default DataTypeRulesEditor;
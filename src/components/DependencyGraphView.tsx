@@ -0,0 +1,82 @@
+import React from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { AlertTriangle, ArrowRight } from 'lucide-react';
+import { DependencyGraph } from '@/utils/dependencyGraph';
+
+interface DependencyGraphViewProps {
+  graph: DependencyGraph;
+  onFileSelect?: (fileId: string) => void;
+}
+
+// Files laid out in columns by dependency depth: everything in a column only depends on columns to its left
+const DependencyGraphView: React.FC<DependencyGraphViewProps> = ({ graph, onFileSelect }) => {
+  const names = new Map(graph.nodes.map(node => [node.fileId, node.fileName]));
+  const position = new Map(graph.order.map((id, index) => [id, index]));
+  const levels: (typeof graph.nodes)[] = [];
+  graph.nodes.forEach(node => {
+    (levels[node.level] ??= []).push(node);
+  });
+  levels.forEach(level => level.sort((a, b) => position.get(a.fileId)! - position.get(b.fileId)!));
+
+  if (graph.nodes.length === 0) {
+    return <p className="text-sm text-gray-500">No files uploaded.</p>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {graph.cycles.length > 0 && (
+        <div className="flex items-start gap-2 bg-yellow-50 text-yellow-800 rounded p-3 text-sm">
+          <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+          <div>
+            <p className="font-medium">Circular dependencies</p>
+            {graph.cycles.map((cycle, index) => (
+              <p key={index}>{cycle.map(id => names.get(id)).join(' → ')} → {names.get(cycle[0])}</p>
+            ))}
+          </div>
+        </div>
+      )}
+      <p className="text-xs text-gray-500">
+        Conversion order: {graph.order.map(id => names.get(id)).join(', ')}
+      </p>
+      <div className="flex gap-4 overflow-x-auto pb-2">
+        {levels.map((level, levelIndex) => (
+          <React.Fragment key={levelIndex}>
+            {levelIndex > 0 && <ArrowRight className="h-5 w-5 text-gray-400 self-center flex-shrink-0" />}
+            <div className="flex flex-col gap-2 min-w-56">
+              <span className="text-xs font-semibold text-gray-500 uppercase">
+                {levelIndex === 0 ? 'No dependencies' : `Level ${levelIndex}`}
+              </span>
+              {level.map(node => {
+                const uses = Array.from(new Set(graph.edges.filter(edge => edge.from === node.fileId).map(edge => edge.object)));
+                return (
+                  <Card
+                    key={node.fileId}
+                    className={onFileSelect ? 'cursor-pointer hover:border-blue-400' : undefined}
+                    onClick={() => onFileSelect?.(node.fileId)}
+                  >
+                    <CardContent className="p-3 space-y-1">
+                      <p className="text-sm font-medium break-all">{node.fileName}</p>
+                      <div className="flex flex-wrap gap-1">
+                        {node.objects.map(object => (
+                          <Badge key={`${object.kind}:${object.name}`} variant="outline" className="text-xs">
+                            {object.kind} {object.name}
+                          </Badge>
+                        ))}
+                      </div>
+                      {uses.length > 0 && (
+                        <p className="text-xs text-gray-500 break-all">Uses: {uses.join(', ')}</p>
+                      )}
+                    </CardContent>
+                  </Card>
+                );
+              })}
+            </div>
+          </React.Fragment>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DependencyGraphView;
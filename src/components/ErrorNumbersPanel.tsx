@@ -0,0 +1,69 @@
+import React, { useMemo } from 'react';
+import { Download } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CodeFile } from '@/types';
+import { findErrorNumberMappings, formatErrorNumbersCsv, formatOracleErrorCode } from '@/utils/errorNumbers';
+
+interface ErrorNumbersPanelProps {
+  files: CodeFile[];
+}
+
+// Error numbers the uploaded files raise or add with sp_addmessage, and the Oracle code each one gets in every file
+const ErrorNumbersPanel: React.FC<ErrorNumbersPanelProps> = ({ files }) => {
+  const mappings = useMemo(() => findErrorNumberMappings(files), [files]);
+
+  const handleExport = () => {
+    const blob = new Blob([formatErrorNumbersCsv({ mappings })], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = 'oracle-error-numbers.csv';
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <p className="text-xs text-gray-500 max-w-xl">
+          RAISE_APPLICATION_ERROR only accepts -20000 to -20999. Sybase numbers in 20000 - 20999 keep their value, the
+          others get the free codes in ascending order, and every converted file raises the same code.
+        </p>
+        <Button onClick={handleExport} variant="outline" size="sm" disabled={mappings.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export CSV
+        </Button>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        <div className="grid grid-cols-[1fr_1fr_2fr_1fr] gap-4 p-3 bg-gray-50 font-semibold text-sm">
+          <div>Sybase number</div>
+          <div>Oracle code</div>
+          <div>Message</div>
+          <div>File</div>
+        </div>
+        <ScrollArea className="max-h-64">
+          {mappings.length === 0 ? (
+            <div className="p-3 border-t text-sm text-gray-500">The uploaded files raise no numbered errors.</div>
+          ) : mappings.map(mapping => (
+            <div key={mapping.sybaseNumber} className="grid grid-cols-[1fr_1fr_2fr_1fr] gap-4 p-3 border-t text-sm items-center">
+              <div className="font-mono bg-red-50 px-2 py-1 rounded">{mapping.sybaseNumber}</div>
+              <div className="flex items-center gap-2">
+                <span className="font-mono bg-green-50 px-2 py-1 rounded">{formatOracleErrorCode(mapping.oracleNumber)}</span>
+                {mapping.oracleNumber === null && <Badge variant="destructive" className="text-xs">No code left</Badge>}
+              </div>
+              <div className="text-gray-600 break-words">{mapping.message ?? mapping.formats.join('; ')}</div>
+              <div className="text-gray-600 truncate" title={mapping.files.join(', ')}>{mapping.files.join(', ')}</div>
+            </div>
+          ))}
+        </ScrollArea>
+      </div>
+    </div>
+  );
+};
+
+export default ErrorNumbersPanel;
@@ -19,6 +19,8 @@ import {
   Loader2
 } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import { ConfidenceScore } from '@/types';
+import { getConfidenceLevel } from '@/utils/confidence';
 
 interface FileItem {
   id: string;
@@ -29,8 +31,15 @@ interface FileItem {
   conversionStatus: 'pending' | 'success' | 'failed';
   convertedContent?: string;
   errorMessage?: string;
+  confidence?: ConfidenceScore;
 }
 
+const CONFIDENCE_BADGE_CLASSES = {
+  low: 'bg-red-100 text-red-700',
+  medium: 'bg-yellow-100 text-yellow-700',
+  high: 'bg-green-100 text-green-700',
+};
+
 interface FileTreeViewProps {
   files: FileItem[];
   onFileSelect: (file: FileItem) => void;
@@ -49,6 +58,7 @@ interface FileTreeViewProps {
   onSearchTermChange?: (term: string) => void;
   onStatusFilterChange?: (status: string) => void;
   onResetMigration?: () => void;
+  groupByType?: boolean; // false lists the files in the given order without type sections
 }
 
 const FileTreeView: React.FC<FileTreeViewProps> = ({
@@ -69,6 +79,7 @@ const FileTreeView: React.FC<FileTreeViewProps> = ({
   onSearchTermChange,
   onStatusFilterChange,
   onResetMigration,
+  groupByType = true,
 }) => {
   const [expandedSections, setExpandedSections] = useState<Set<string>>(() => {
     if (defaultExpandedSections && defaultExpandedSections.length > 0) {
@@ -128,6 +139,71 @@ const FileTreeView: React.FC<FileTreeViewProps> = ({
     return null;
   };
 
+  const renderFile = (file: FileItem) => (
+    <div
+      key={file.id}
+      className={cn(
+        "flex items-center justify-between p-2 rounded hover:bg-gray-50 cursor-pointer group",
+        selectedFile?.id === file.id && "bg-blue-50 border border-blue-200"
+      )}
+      onClick={() => onFileSelect(file)}
+    >
+      <div className="flex items-center gap-2 flex-1 min-w-0">
+        <FileText className="h-4 w-4 text-gray-500 flex-shrink-0" />
+        <span className={cn(
+          "text-sm truncate",
+          file.conversionStatus === 'success' && "text-green-700",
+          file.conversionStatus === 'failed' && "text-red-700"
+        )}>
+          {file.name}
+        </span>
+      </div>
+      {file.confidence && (
+        <span
+          className={cn(
+            "text-xs font-mono px-1.5 rounded flex-shrink-0 mr-1",
+            CONFIDENCE_BADGE_CLASSES[getConfidenceLevel(file.confidence.score)]
+          )}
+          title={file.confidence.factors.map(factor => factor.detail).join('\n')}
+        >
+          {Math.round(file.confidence.score * 100)}%
+        </span>
+      )}
+      {!hideActions && (
+        <div className="flex items-center gap-2 flex-shrink-0">
+          {onConvertFile && getStatusIcon(file.conversionStatus, file.id)}
+          {file.conversionStatus === 'pending' && onConvertFile && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={(e) => {
+                e.stopPropagation();
+                onConvertFile(file.id);
+              }}
+              className="opacity-0 group-hover:opacity-100 transition-opacity text-xs px-2 py-1 h-6"
+            >
+              Convert
+            </Button>
+          )}
+          {file.conversionStatus === 'failed' && onFixFile && (
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={(e) => {
+                e.stopPropagation();
+                onFixFile(file.id);
+              }}
+              className="opacity-0 group-hover:opacity-100 transition-opacity text-xs px-2 py-1 h-6 text-red-600 border-red-200 hover:bg-red-50"
+            >
+              <AlertTriangle className="h-3 w-3 mr-1" />
+              Fix
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+
   const renderSection = (sectionKey: string, sectionTitle: string, sectionFiles: FileItem[]) => {
     const isExpanded = expandedSections.has(sectionKey);
     const pendingCount = sectionFiles.filter(f => f.conversionStatus === 'pending').length;
@@ -164,59 +240,7 @@ const FileTreeView: React.FC<FileTreeViewProps> = ({
         </div>
         {isExpanded && (
           <div className="ml-4 space-y-1">
-            {sectionFiles.map((file) => (
-              <div
-                key={file.id}
-                className={cn(
-                  "flex items-center justify-between p-2 rounded hover:bg-gray-50 cursor-pointer group",
-                  selectedFile?.id === file.id && "bg-blue-50 border border-blue-200"
-                )}
-                onClick={() => onFileSelect(file)}
-              >
-                <div className="flex items-center gap-2 flex-1 min-w-0">
-                  <FileText className="h-4 w-4 text-gray-500 flex-shrink-0" />
-                  <span className={cn(
-                    "text-sm truncate",
-                    file.conversionStatus === 'success' && "text-green-700",
-                    file.conversionStatus === 'failed' && "text-red-700"
-                  )}>
-                    {file.name}
-                  </span>
-                </div>
-                {!hideActions && (
-                  <div className="flex items-center gap-2 flex-shrink-0">
-                    {onConvertFile && getStatusIcon(file.conversionStatus, file.id)}
-                    {file.conversionStatus === 'pending' && onConvertFile && (
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onConvertFile(file.id);
-                        }}
-                        className="opacity-0 group-hover:opacity-100 transition-opacity text-xs px-2 py-1 h-6"
-                      >
-                        Convert
-                      </Button>
-                    )}
-                    {file.conversionStatus === 'failed' && onFixFile && (
-                      <Button
-                        size="sm"
-                        variant="outline"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          onFixFile(file.id);
-                        }}
-                        className="opacity-0 group-hover:opacity-100 transition-opacity text-xs px-2 py-1 h-6 text-red-600 border-red-200 hover:bg-red-50"
-                      >
-                        <AlertTriangle className="h-3 w-3 mr-1" />
-                        Fix
-                      </Button>
-                    )}
-                  </div>
-                )}
-              </div>
-            ))}
+            {sectionFiles.map(renderFile)}
           </div>
         )}
       </div>
@@ -251,10 +275,16 @@ const FileTreeView: React.FC<FileTreeViewProps> = ({
       )}
       <CardContent className="p-0">
         <div className="space-y-1 px-4 pb-4 overflow-y-auto" style={{ maxHeight: 320 }}>
-          {renderSection('tables', 'Tables', tables)}
-          {renderSection('procedures', 'Procedures', procedures)}
-          {renderSection('triggers', 'Triggers', triggers)}
-          {others.length > 0 && renderSection('other', 'Other Files', others)}
+          {groupByType ? (
+            <>
+              {renderSection('tables', 'Tables', tables)}
+              {renderSection('procedures', 'Procedures', procedures)}
+              {renderSection('triggers', 'Triggers', triggers)}
+              {others.length > 0 && renderSection('other', 'Other Files', others)}
+            </>
+          ) : (
+            filteredFiles.map(renderFile)
+          )}
         </div>
       </CardContent>
     </div>
@@ -0,0 +1,58 @@
+import React, { useMemo } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { CodeFile } from '@/types';
+import { useTargetOracleVersion } from '@/hooks/useTargetOracleVersion';
+import { describeRenameReasons, findIdentifierRenames, formatRenamedName, getIdentifierMaxLength } from '@/utils/identifiers';
+
+interface IdentifiersPanelProps {
+  files: CodeFile[];
+}
+
+// Identifiers of the uploaded files Oracle would reject, and the Oracle name each one gets in every file
+const IdentifiersPanel: React.FC<IdentifiersPanelProps> = ({ files }) => {
+  const { oracleVersion } = useTargetOracleVersion();
+  const maxLength = getIdentifierMaxLength(oracleVersion);
+
+  const renames = useMemo(() => findIdentifierRenames(files, maxLength), [files, maxLength]);
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-gray-500 max-w-xl">
+        Oracle {oracleVersion} allows identifiers of up to {maxLength} characters. Names that are too long, Oracle reserved
+        words and names differing only by case are renamed the same way in every converted file.
+      </p>
+
+      <div className="border rounded-lg overflow-hidden">
+        <div className="grid grid-cols-[1fr_1fr_1fr_2fr] gap-4 p-3 bg-gray-50 font-semibold text-sm">
+          <div>Sybase name</div>
+          <div>Oracle name</div>
+          <div>File</div>
+          <div>Reason</div>
+        </div>
+        <ScrollArea className="max-h-64">
+          {renames.length === 0 ? (
+            <div className="p-3 border-t text-sm text-gray-500">Every identifier in the uploaded files is valid in Oracle.</div>
+          ) : renames.map(rename => (
+            <div key={`${rename.kind}:${rename.scope ?? ''}:${rename.name}`} className="grid grid-cols-[1fr_1fr_1fr_2fr] gap-4 p-3 border-t text-sm items-center">
+              <div>
+                <div className="font-mono bg-red-50 px-2 py-1 rounded break-all">{formatRenamedName(rename)}</div>
+                <div className="text-xs text-gray-500 mt-1">{rename.kind}</div>
+              </div>
+              <div className="font-mono bg-green-50 px-2 py-1 rounded break-all">{rename.oracleName}</div>
+              <div className="text-gray-600 truncate" title={rename.files.join(', ')}>{rename.files.join(', ')}</div>
+              <div className="flex items-center gap-2">
+                <span>{describeRenameReasons(rename, maxLength)}</span>
+                {(rename.reasons.includes('case') || rename.reasons.includes('collision')) && (
+                  <Badge variant="destructive" className="text-xs">Conflict</Badge>
+                )}
+              </div>
+            </div>
+          ))}
+        </ScrollArea>
+      </div>
+    </div>
+  );
+};
+
+export default IdentifiersPanel;
@@ -0,0 +1,107 @@
+import React, { useMemo } from 'react';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CodeFile, OracleVersion } from '@/types';
+import { ORACLE_VERSIONS, useTargetOracleVersion } from '@/hooks/useTargetOracleVersion';
+import { findIdentityColumns, findIdentityUsages, getIdentityStrategy, IdentityRewrite } from '@/utils/identityColumns';
+
+interface IdentityColumnsPanelProps {
+  files: CodeFile[];
+}
+
+const REWRITE_LABELS: Record<IdentityRewrite, string> = {
+  returning: 'RETURNING INTO',
+  currval: 'CURRVAL',
+  unresolved: 'Manual',
+};
+
+// IDENTITY columns found in the uploaded tables, how the target version converts them, and what
+// happens to every @@identity read in the uploaded procedures and triggers
+const IdentityColumnsPanel: React.FC<IdentityColumnsPanelProps> = ({ files }) => {
+  const { oracleVersion, setOracleVersion } = useTargetOracleVersion();
+  const strategy = getIdentityStrategy(oracleVersion);
+
+  const columns = useMemo(() => findIdentityColumns(files), [files]);
+  const usages = useMemo(
+    () => files.flatMap(file => findIdentityUsages(file.content, { strategy, columns }).map(usage => ({ file, usage }))),
+    [files, strategy, columns]
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label>Target Oracle version</Label>
+          <Select value={oracleVersion} onValueChange={value => setOracleVersion(value as OracleVersion)}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ORACLE_VERSIONS.map(version => (
+                <SelectItem key={version} value={version}>Oracle {version}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-gray-500 max-w-xl">
+          {strategy === 'identity'
+            ? 'IDENTITY columns become GENERATED BY DEFAULT ON NULL AS IDENTITY. @@identity after a single-row INSERT becomes RETURNING INTO on that INSERT.'
+            : 'IDENTITY columns become a sequence filled in by a BEFORE INSERT trigger. @@identity becomes RETURNING INTO after a single-row INSERT and the sequence CURRVAL elsewhere.'}
+        </p>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        <div className="grid grid-cols-[1fr_1fr_2fr] gap-4 p-3 bg-gray-50 font-semibold text-sm">
+          <div>IDENTITY column</div>
+          <div>File</div>
+          <div>PL/SQL (Oracle)</div>
+        </div>
+        <ScrollArea className="max-h-64">
+          {columns.length === 0 ? (
+            <div className="p-3 border-t text-sm text-gray-500">No IDENTITY columns in the uploaded tables.</div>
+          ) : columns.map(column => (
+            <div key={`${column.table}.${column.column}`} className="grid grid-cols-[1fr_1fr_2fr] gap-4 p-3 border-t text-sm items-center">
+              <div className="font-mono bg-red-50 px-2 py-1 rounded">{column.table}.{column.column}</div>
+              <div className="text-gray-600 truncate" title={column.fileName}>{column.fileName}</div>
+              <div className="font-mono bg-green-50 px-2 py-1 rounded">
+                {strategy === 'identity'
+                  ? 'GENERATED BY DEFAULT ON NULL AS IDENTITY'
+                  : `${column.sequenceName} + ${column.triggerName}`}
+              </div>
+            </div>
+          ))}
+        </ScrollArea>
+      </div>
+
+      {usages.length > 0 && (
+        <div className="border rounded-lg overflow-hidden">
+          <div className="grid grid-cols-[1fr_2fr_auto] gap-4 p-3 bg-gray-50 font-semibold text-sm">
+            <div>@@identity</div>
+            <div>Conversion</div>
+            <div className="w-32" />
+          </div>
+          <ScrollArea className="max-h-64">
+            {usages.map(({ file, usage }) => (
+              <div key={`${file.id}:${usage.line}`} className="grid grid-cols-[1fr_2fr_auto] gap-4 p-3 border-t text-sm items-center">
+                <div>
+                  <div className="font-mono">{usage.code}</div>
+                  <div className="text-xs text-gray-500">{file.name}, line {usage.line}</div>
+                </div>
+                <div className="text-gray-600">{usage.detail}</div>
+                <div className="w-32 flex justify-end">
+                  <Badge variant={usage.rewrite === 'unresolved' ? 'destructive' : 'outline'} className="text-xs">
+                    {REWRITE_LABELS[usage.rewrite]}
+                  </Badge>
+                </div>
+              </div>
+            ))}
+          </ScrollArea>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default IdentityColumnsPanel;
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -6,12 +6,15 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Clock, Check, Edit3, Trash2, FileText, Folder, ChevronDown, ChevronUp, Download } from 'lucide-react';
 import { useUnreviewedFiles } from '@/hooks/useUnreviewedFiles';
+import { useTranslationMemory } from '@/hooks/useTranslationMemory';
 import { UnreviewedFile } from '@/types/unreviewedFiles';
 import MarkedForReviewPanel from './MarkedForReviewPanel';
 import FileTreeView from '@/components/FileTreeView';
 import ConversionViewer from '@/components/ConversionViewer';
 import { cn } from '@/lib/utils';
 import { Progress } from '@/components/ui/progress';
+import { ConfidenceScore } from '@/types';
+import { ConfidenceLevel, getConfidenceLevel, scoreConversion } from '@/utils/confidence';
 
 interface DevReviewPanelProps {
   canCompleteMigration: boolean;
@@ -21,6 +24,7 @@ interface DevReviewPanelProps {
 
 const DevReviewPanel: React.FC<DevReviewPanelProps> = ({ canCompleteMigration, onCompleteMigration, onFileReviewed }) => {
   const { unreviewedFiles, isLoading, markAsReviewed, deleteUnreviewedFile, updateUnreviewedFile, refreshUnreviewedFiles } = useUnreviewedFiles();
+  const { learnFromReview } = useTranslationMemory();
   const [editingFile, setEditingFile] = useState<string | null>(null);
   const [editedContent, setEditedContent] = useState<string>('');
   const [selectedFileId, setSelectedFileId] = useState<string | null>(null);
@@ -28,6 +32,9 @@ const DevReviewPanel: React.FC<DevReviewPanelProps> = ({ canCompleteMigration, o
   const [showReviewed, setShowReviewed] = useState(false);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('All');
+  // Riskiest first by default so low-confidence conversions get human attention before the rest
+  const [sortBy, setSortBy] = useState<'confidence' | 'type'>('confidence');
+  const [confidenceFilter, setConfidenceFilter] = useState<'All' | ConfidenceLevel>('All');
 
   // Ref and state for sticky offset
   const searchCardRef = useRef<HTMLDivElement>(null);
@@ -44,6 +51,15 @@ const DevReviewPanel: React.FC<DevReviewPanelProps> = ({ canCompleteMigration, o
     return () => window.removeEventListener('resize', updateOffset);
   }, []);
 
+  // Files added before confidence was stored are scored from their code and issues
+  const confidenceById = useMemo(() => new Map<string, ConfidenceScore>(unreviewedFiles.map(file => [
+    file.id,
+    file.confidence != null
+      ? { score: file.confidence, factors: file.confidence_factors ?? [] }
+      : scoreConversion(file.original_code || '', file.ai_generated_code || file.converted_code, file.issues || []),
+  ])), [unreviewedFiles]);
+  const getConfidence = (file: UnreviewedFile) => confidenceById.get(file.id)?.score ?? 0;
+
   // Split files into pending and reviewed
   const pendingFiles = unreviewedFiles.filter(f => f.status !== 'reviewed');
   const reviewedFiles = unreviewedFiles.filter(f => f.status === 'reviewed');
@@ -61,11 +77,17 @@ const DevReviewPanel: React.FC<DevReviewPanelProps> = ({ canCompleteMigration, o
       statusFilter === 'All' ? true :
       statusFilter === 'Pending' ? file.status !== 'reviewed' :
       statusFilter === 'Reviewed' ? file.status === 'reviewed' : true;
-    return matchesSearch && matchesStatus;
+    const matchesConfidence = confidenceFilter === 'All' || getConfidenceLevel(getConfidence(file)) === confidenceFilter;
+    return matchesSearch && matchesStatus && matchesConfidence;
   };
+  const byConfidence = (a: UnreviewedFile, b: UnreviewedFile) => getConfidence(a) - getConfidence(b);
 
   const filteredPendingFiles = pendingFiles.filter(filterFile);
   const filteredReviewedFiles = reviewedFiles.filter(filterFile);
+  if (sortBy === 'confidence') {
+    filteredPendingFiles.sort(byConfidence);
+    filteredReviewedFiles.sort(byConfidence);
+  }
 
   // Map to FileItem for type property
   const mapToFileItem = (f: UnreviewedFile): any => {
@@ -87,6 +109,7 @@ const DevReviewPanel: React.FC<DevReviewPanelProps> = ({ canCompleteMigration, o
       dataTypeMapping: f.data_type_mapping || [],
       issues: f.issues || [],
       performanceMetrics: f.performance_metrics || {},
+      confidence: confidenceById.get(f.id),
     };
   };
 
@@ -100,7 +123,8 @@ const DevReviewPanel: React.FC<DevReviewPanelProps> = ({ canCompleteMigration, o
   const reviewedProcedures = mappedReviewedFiles.filter(f => f.type === 'procedure');
   const reviewedTriggers = mappedReviewedFiles.filter(f => f.type === 'trigger');
   const reviewedOther = mappedReviewedFiles.filter(f => f.type === 'other');
-  const allFilteredFiles = [
+  // Navigation follows the order of the sidebar
+  const allFilteredFiles = sortBy === 'confidence' ? [...mappedPendingFiles, ...mappedReviewedFiles] : [
     ...filteredTables,
     ...filteredProcedures,
     ...filteredTriggers,
@@ -161,6 +185,10 @@ const DevReviewPanel: React.FC<DevReviewPanelProps> = ({ canCompleteMigration, o
     const codeToSave = editingFile === file.id ? editedContent : file.converted_code;
     const originalCode = file.original_code || '';
     const success = await markAsReviewed(file.id, file.file_name, codeToSave, originalCode);
+    // What the reviewer changed in the AI output becomes translation memory for later conversions
+    if (success && file.ai_generated_code) {
+      await learnFromReview(file.file_name, originalCode, file.ai_generated_code, codeToSave);
+    }
     if (success && editingFile === file.id) {
       setEditingFile(null);
       setEditedContent('');
@@ -265,6 +293,26 @@ const DevReviewPanel: React.FC<DevReviewPanelProps> = ({ canCompleteMigration, o
                   <option value="Reviewed">Reviewed</option>
                 </select>
               </div>
+              <div className="flex gap-2 w-full mt-2">
+                <select
+                  value={sortBy}
+                  onChange={e => setSortBy(e.target.value as 'confidence' | 'type')}
+                  className="flex-1 px-2 py-2 rounded border border-gray-200 focus:ring-2 focus:ring-orange-400 focus:outline-none text-sm bg-white dark:bg-slate-800"
+                >
+                  <option value="confidence">Riskiest first</option>
+                  <option value="type">By object type</option>
+                </select>
+                <select
+                  value={confidenceFilter}
+                  onChange={e => setConfidenceFilter(e.target.value as 'All' | ConfidenceLevel)}
+                  className="flex-1 px-2 py-2 rounded border border-gray-200 focus:ring-2 focus:ring-orange-400 focus:outline-none text-sm bg-white dark:bg-slate-800"
+                >
+                  <option value="All">Any confidence</option>
+                  <option value="low">Low confidence</option>
+                  <option value="medium">Medium confidence</option>
+                  <option value="high">High confidence</option>
+                </select>
+              </div>
             </div>
           </div>
         </div>
@@ -293,6 +341,7 @@ const DevReviewPanel: React.FC<DevReviewPanelProps> = ({ canCompleteMigration, o
                 statusFilter={statusFilter}
                 onSearchTermChange={setSearchTerm}
                 onStatusFilterChange={setStatusFilter}
+                groupByType={sortBy === 'type'}
                 // Remove any inner scroll or maxHeight props
               />
             )}
@@ -323,6 +372,7 @@ const DevReviewPanel: React.FC<DevReviewPanelProps> = ({ canCompleteMigration, o
                 statusFilter={statusFilter}
                 onSearchTermChange={setSearchTerm}
                 onStatusFilterChange={setStatusFilter}
+                groupByType={sortBy === 'type'}
                 // Remove any inner scroll or maxHeight props
               />
             )}
@@ -348,6 +398,14 @@ const DevReviewPanel: React.FC<DevReviewPanelProps> = ({ canCompleteMigration, o
               <CardHeader className="flex flex-row items-center justify-between gap-2 pb-2 border-b border-green-100 dark:border-green-800">
                 <span className="text-xl font-bold">{selectedFile.file_name}</span>
                 <div className="flex items-center gap-3">
+                  {confidenceById.has(selectedFile.id) && (
+                    <span
+                      className="text-xs px-2 py-1 rounded bg-slate-100 text-slate-700"
+                      title={confidenceById.get(selectedFile.id)!.factors.map(factor => factor.detail).join('\n')}
+                    >
+                      Confidence {Math.round(getConfidence(selectedFile) * 100)}%
+                    </span>
+                  )}
                   <span className={`text-xs px-2 py-1 rounded ${selectedFile.status === 'reviewed' ? 'bg-green-100 text-green-700' : 'bg-yellow-100 text-yellow-700'}`}>{selectedFile.status}</span>
                   <Button
                     size="icon"
@@ -430,7 +430,7 @@ const PerformanceMetricsDashboard: React.FC<PerformanceMetricsDashboardProps> =
                   </div>
                   <div className="text-center">
                     <p className="text-sm font-medium text-orange-600">{result.performance?.conversionTimeMs || 0}ms</p>
-                    <p className="text-xs text-muted-foreground">Time</p>
+                    <p className="text-xs text-muted-foreground">{result.performance?.cached ? 'Cached' : 'Time'}</p>
                   </div>
                   <div className="text-center">
                     <p className="text-sm font-medium text-purple-600">{editPercent}%</p>
@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { AlertTriangle, History, RotateCcw, Save } from 'lucide-react';
+import { CodeFile } from '@/types';
+import { usePromptTemplates } from '@/hooks/usePromptTemplates';
+import { getBuiltInPromptTemplate, PROMPT_OBJECT_TYPES, PROMPT_PLACEHOLDERS, validatePromptTemplate } from '@/utils/promptTemplates';
+
+const PromptTemplateEditor: React.FC = () => {
+  const { projectName, history, activeTemplates, isLoading, saveTemplate } = usePromptTemplates();
+  const [objectType, setObjectType] = useState<CodeFile['type']>('procedure');
+  // null while the editor shows the active template unchanged
+  const [draft, setDraft] = useState<string | null>(null);
+  const [notes, setNotes] = useState('');
+
+  const active = activeTemplates[objectType];
+  const content = draft ?? active.content;
+  const problems = validatePromptTemplate(content);
+
+  const selectType = (type: CodeFile['type']) => {
+    setObjectType(type);
+    setDraft(null);
+    setNotes('');
+  };
+
+  const handleSave = async () => {
+    if (await saveTemplate(objectType, content, notes)) {
+      setDraft(null);
+      setNotes('');
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        {PROMPT_OBJECT_TYPES.map(type => (
+          <Button
+            key={type}
+            variant={type === objectType ? 'default' : 'outline'}
+            size="sm"
+            onClick={() => selectType(type)}
+            className="capitalize"
+          >
+            {type}
+          </Button>
+        ))}
+        <span className="text-sm text-gray-500 ml-auto">
+          Project {projectName}: active {active.version > 0 ? `version ${active.version}` : 'built-in template'}
+        </span>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <div className="lg:col-span-2 space-y-2">
+          <Textarea
+            value={content}
+            onChange={(e) => setDraft(e.target.value)}
+            className="font-mono text-sm min-h-72"
+          />
+          {problems.map(problem => (
+            <p key={problem} className="flex items-center gap-1 text-sm text-yellow-700">
+              <AlertTriangle className="h-4 w-4" />
+              {problem}
+            </p>
+          ))}
+          <div className="flex flex-wrap gap-2">
+            <Input
+              placeholder="What changed in this version?"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              className="flex-1 min-w-48"
+            />
+            <Button onClick={handleSave} disabled={draft === null || !content.trim() || isLoading}>
+              <Save className="h-4 w-4 mr-1" />
+              Save as Version {(history[objectType][0]?.version ?? 0) + 1}
+            </Button>
+            <Button variant="outline" onClick={() => setDraft(getBuiltInPromptTemplate(objectType).content)}>
+              <RotateCcw className="h-4 w-4 mr-1" />
+              Load Built-in
+            </Button>
+          </div>
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Placeholders</Label>
+            <div className="mt-2 space-y-1">
+              {Object.entries(PROMPT_PLACEHOLDERS).map(([name, description]) => (
+                <div key={name} className="text-xs">
+                  <code className="bg-gray-100 px-1 rounded">{`{{${name}}}`}</code>
+                  <span className="text-gray-600 ml-1">{description}</span>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <Label className="flex items-center gap-1">
+              <History className="h-4 w-4" />
+              Version History
+            </Label>
+            <ScrollArea className="h-48 mt-2">
+              {history[objectType].length === 0 && (
+                <p className="text-sm text-gray-500">No saved versions; the built-in template is used.</p>
+              )}
+              {history[objectType].map(template => (
+                <div key={template.id} className="flex items-start justify-between gap-2 border-t py-2 text-sm">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={template.id === active.id ? 'default' : 'outline'}>v{template.version}</Badge>
+                      {template.createdAt && (
+                        <span className="text-xs text-gray-500">{new Date(template.createdAt).toLocaleString()}</span>
+                      )}
+                    </div>
+                    {template.notes && <p className="text-xs text-gray-600 mt-1">{template.notes}</p>}
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => setDraft(template.content)}>
+                    Load
+                  </Button>
+                </div>
+              ))}
+            </ScrollArea>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
@@ -1,12 +1,15 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Badge } from '@/components/ui/badge';
-import { Check, AlertTriangle, X, Download, Upload, Database, FileText, Info, Lightbulb } from 'lucide-react';
+import { Check, AlertTriangle, X, Download, Upload, Database, FileText, Info, Lightbulb, ArrowRightLeft, Tags, Hash } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { ConversionReport } from '@/types';
 import { deployToOracle } from '@/utils/databaseUtils';
+import { findSignatureChanges } from '@/utils/signatureChanges';
+import { describeRenameReasons, formatRenamedName } from '@/utils/identifiers';
+import { formatErrorNumbersCsv, formatOracleErrorCode } from '@/utils/errorNumbers';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/hooks/useAuth';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
@@ -28,6 +31,7 @@ interface DeploymentLog {
 const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
   const { user } = useAuth();
   const { toast } = useToast();
+  const signatureChanges = useMemo(() => findSignatureChanges(report.results), [report.results]);
   const [isDeploying, setIsDeploying] = useState(false);
   const [deploymentLogs, setDeploymentLogs] = useState<DeploymentLog[]>([]);
   
@@ -111,6 +115,19 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
     });
   };
 
+  const handleDownloadErrorNumbers = () => {
+    if (!report.errorNumbers) return;
+    const blob = new Blob([formatErrorNumbersCsv(report.errorNumbers)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `oracle-error-numbers-${report.timestamp.split('T')[0]}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
   const handleDeploy = async () => {
     setIsDeploying(true);
     try {
@@ -312,6 +329,116 @@ const ReportViewer: React.FC<ReportViewerProps> = ({ report, onBack }) => {
         </CardContent>
       </Card>
 
+      {/* Rename Map: identifiers Oracle would reject, renamed the same way in every file */}
+      {report.identifiers && report.identifiers.renames.length > 0 && (
+        <Card className="shadow-none border bg-white/80 dark:bg-slate-900/60">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Tags className="h-5 w-5 text-purple-500" />
+              <CardTitle className="text-lg">Rename Map</CardTitle>
+              <span className="ml-2 text-gray-400 text-sm">({report.identifiers.renames.length})</span>
+            </div>
+            <CardDescription>These identifiers were renamed in every converted file; application code and dynamic SQL must use the Oracle names.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="max-h-96 border rounded-md">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50 dark:bg-slate-800">
+                    <th className="px-4 py-2 text-left">Kind</th>
+                    <th className="px-4 py-2 text-left">Sybase</th>
+                    <th className="px-4 py-2 text-left">Oracle</th>
+                    <th className="px-4 py-2 text-left">Reason</th>
+                    <th className="px-4 py-2 text-left">Files</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.identifiers.renames.map(rename => (
+                    <tr key={`${rename.kind}:${rename.scope ?? ''}:${rename.name}`} className="border-t">
+                      <td className="px-4 py-2">{rename.kind}</td>
+                      <td className="px-4 py-2 font-mono">{formatRenamedName(rename)}</td>
+                      <td className="px-4 py-2 font-mono">{rename.oracleName}</td>
+                      <td className="px-4 py-2 text-gray-600 dark:text-gray-300">{describeRenameReasons(rename, report.identifiers!.maxLength)}</td>
+                      <td className="px-4 py-2 text-gray-600 dark:text-gray-300">{rename.files.join(', ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Error Number Map: Oracle codes the application catches instead of the Sybase error numbers */}
+      {report.errorNumbers && report.errorNumbers.mappings.length > 0 && (
+        <Card className="shadow-none border bg-white/80 dark:bg-slate-900/60">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <Hash className="h-5 w-5 text-red-500" />
+              <CardTitle className="text-lg">Error Number Map</CardTitle>
+              <span className="ml-2 text-gray-400 text-sm">({report.errorNumbers.mappings.length})</span>
+              <Button onClick={handleDownloadErrorNumbers} variant="outline" size="sm" className="ml-auto">
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+            </div>
+            <CardDescription>Every converted file raises these codes; the application must catch the Oracle codes instead of the Sybase numbers.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="max-h-96 border rounded-md">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr className="bg-gray-50 dark:bg-slate-800">
+                    <th className="px-4 py-2 text-left">Sybase</th>
+                    <th className="px-4 py-2 text-left">Oracle</th>
+                    <th className="px-4 py-2 text-left">Message</th>
+                    <th className="px-4 py-2 text-left">Files</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.errorNumbers.mappings.map(mapping => (
+                    <tr key={mapping.sybaseNumber} className="border-t">
+                      <td className="px-4 py-2 font-mono">{mapping.sybaseNumber}</td>
+                      <td className="px-4 py-2 font-mono">{formatOracleErrorCode(mapping.oracleNumber)}</td>
+                      <td className="px-4 py-2 text-gray-600 dark:text-gray-300">{mapping.message ?? mapping.formats.join('; ')}</td>
+                      <td className="px-4 py-2 text-gray-600 dark:text-gray-300">{mapping.files.join(', ')}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Signature Changes: procedures whose callers have to change */}
+      {signatureChanges.length > 0 && (
+        <Card className="shadow-none border bg-white/80 dark:bg-slate-900/60">
+          <CardHeader>
+            <div className="flex items-center gap-2">
+              <ArrowRightLeft className="h-5 w-5 text-orange-500" />
+              <CardTitle className="text-lg">Signature Changes</CardTitle>
+              <span className="ml-2 text-gray-400 text-sm">({signatureChanges.length})</span>
+            </div>
+            <CardDescription>These procedures have a different parameter list in Oracle; every caller must be changed.</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScrollArea className="max-h-96 border rounded-md">
+              {signatureChanges.map(change => (
+                <div key={`${change.fileName}:${change.procedure}`} className="p-4 border-b last:border-b-0 text-sm space-y-1">
+                  <div className="font-medium">{change.procedure} <span className="text-gray-400 font-normal">({change.fileName})</span></div>
+                  <div className="font-mono text-xs bg-red-50 dark:bg-red-900/20 px-2 py-1 rounded">{change.sybaseSignature}</div>
+                  <div className="font-mono text-xs bg-green-50 dark:bg-green-900/20 px-2 py-1 rounded">{change.oracleSignature}</div>
+                  <ul className="list-disc pl-6 text-gray-600 dark:text-gray-300">
+                    {change.changes.map(description => <li key={description}>{description}</li>)}
+                  </ul>
+                </div>
+              ))}
+            </ScrollArea>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Deployment Section */}
       <Card className="shadow-none border bg-white/80 dark:bg-slate-900/60">
         <CardHeader>
@@ -0,0 +1,85 @@
+import React, { useMemo } from 'react';
+import { Label } from '@/components/ui/label';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CodeFile, ResultSetStrategy } from '@/types';
+import { useTargetOracleVersion } from '@/hooks/useTargetOracleVersion';
+import { RESULT_SET_STRATEGIES, useResultSetStrategy } from '@/hooks/useResultSetStrategy';
+import { findResultSetProcedures, getCursorName, getResultSetStrategy } from '@/utils/resultSets';
+
+interface ResultSetsPanelProps {
+  files: CodeFile[];
+}
+
+const STRATEGY_LABELS: Record<ResultSetStrategy, string> = {
+  refcursor: 'OUT SYS_REFCURSOR parameters',
+  implicit: 'DBMS_SQL.RETURN_RESULT (12c+)',
+};
+
+const STRATEGY_NOTES: Record<ResultSetStrategy, string> = {
+  refcursor: 'Each result set becomes an OUT SYS_REFCURSOR parameter added after the existing parameters, including result sets passed on from called procedures. Every caller changes; see Signature Changes in the report.',
+  implicit: 'Each result set is opened as a local cursor and returned with DBMS_SQL.RETURN_RESULT. Parameter lists stay the same, but clients must read implicit results.',
+};
+
+// Procedures of the uploaded files that return result sets, and how the converted ones return them
+const ResultSetsPanel: React.FC<ResultSetsPanelProps> = ({ files }) => {
+  const { oracleVersion } = useTargetOracleVersion();
+  const { resultSetStrategy, setResultSetStrategy } = useResultSetStrategy();
+  const strategy = getResultSetStrategy(resultSetStrategy, oracleVersion);
+
+  const procedures = useMemo(() => findResultSetProcedures(files, strategy), [files, strategy]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label>Return result sets through</Label>
+          <Select value={resultSetStrategy} onValueChange={value => setResultSetStrategy(value as ResultSetStrategy)}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {RESULT_SET_STRATEGIES.map(option => (
+                <SelectItem key={option} value={option}>{STRATEGY_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-gray-500 max-w-xl">
+          {strategy !== resultSetStrategy && `Oracle ${oracleVersion} has no implicit results, so cursor parameters are used. `}
+          {STRATEGY_NOTES[strategy]}
+        </p>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        <div className="grid grid-cols-[1fr_1fr_2fr] gap-4 p-3 bg-gray-50 font-semibold text-sm">
+          <div>Procedure</div>
+          <div>File</div>
+          <div>{strategy === 'refcursor' ? 'Added parameters' : 'Returned cursors'}</div>
+        </div>
+        <ScrollArea className="max-h-64">
+          {procedures.length === 0 ? (
+            <div className="p-3 border-t text-sm text-gray-500">No procedures in the uploaded files return result sets.</div>
+          ) : procedures.map(procedure => (
+            <div key={`${procedure.fileName}:${procedure.name}`} className="grid grid-cols-[1fr_1fr_2fr] gap-4 p-3 border-t text-sm items-center">
+              <div className="font-mono bg-red-50 px-2 py-1 rounded">{procedure.name}</div>
+              <div className="text-gray-600 truncate" title={procedure.fileName}>{procedure.fileName}</div>
+              <div>
+                <div className="font-mono bg-green-50 px-2 py-1 rounded">
+                  {procedure.cursors.length > 0
+                    ? procedure.cursors.map(cursor => `${getCursorName(cursor, strategy)}${strategy === 'refcursor' ? ' OUT SYS_REFCURSOR' : ''}`).join(', ')
+                    : 'None of its own'}
+                </div>
+                {procedure.forwards.length > 0 && (
+                  <div className="text-xs text-gray-500 mt-1">Passes on the result sets of {procedure.forwards.join(', ')}</div>
+                )}
+              </div>
+            </div>
+          ))}
+        </ScrollArea>
+      </div>
+    </div>
+  );
+};
+
+export default ResultSetsPanel;
@@ -0,0 +1,141 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Switch } from '@/components/ui/switch';
+import { cn } from '@/lib/utils';
+import { SourceMapEntry } from '@/types';
+import { buildSourceMap, findMappedEntries, mapLine, SourceMapSide } from '@/utils/sourceMap';
+
+// Every line is rendered at a fixed height so scroll offsets convert to line numbers
+const LINE_HEIGHT = 20;
+
+interface SyncedCodePanesProps {
+  originalCode: string;
+  convertedCode: string;
+  sourceMap?: SourceMapEntry[]; // Computed from the code when missing
+  height?: string;
+  originalTitle?: string;
+  convertedTitle?: string;
+}
+
+const otherSide = (side: SourceMapSide): SourceMapSide => (side === 'source' ? 'target' : 'source');
+
+const SyncedCodePanes: React.FC<SyncedCodePanesProps> = ({
+  originalCode,
+  convertedCode,
+  sourceMap,
+  height = '500px',
+  originalTitle = 'Original (Sybase)',
+  convertedTitle = 'Converted (Oracle)',
+}) => {
+  const sourceRef = useRef<HTMLDivElement>(null);
+  const targetRef = useRef<HTMLDivElement>(null);
+  // Side being scrolled by the other pane, whose next scroll event must not echo back
+  const programmaticScroll = useRef<SourceMapSide | null>(null);
+  const [selected, setSelected] = useState<{ side: SourceMapSide; line: number } | null>(null);
+  const [syncScroll, setSyncScroll] = useState(true);
+
+  const lines = useMemo(() => ({
+    source: originalCode.split('\n'),
+    target: convertedCode.split('\n'),
+  }), [originalCode, convertedCode]);
+  const map = useMemo(
+    () => sourceMap ?? buildSourceMap(originalCode, convertedCode),
+    [sourceMap, originalCode, convertedCode]
+  );
+
+  useEffect(() => {
+    setSelected(null);
+  }, [originalCode, convertedCode]);
+
+  const highlighted = selected ? findMappedEntries(map, selected.side, selected.line) : [];
+  const isHighlighted = (side: SourceMapSide, line: number) => highlighted.some(entry =>
+    side === 'source'
+      ? line >= entry.sourceStart && line <= entry.sourceEnd
+      : line >= entry.targetStart && line <= entry.targetEnd);
+
+  const scrollPane = (side: SourceMapSide, top: number) => {
+    const pane = (side === 'source' ? sourceRef : targetRef).current;
+    if (!pane) return;
+    const before = pane.scrollTop;
+    pane.scrollTop = Math.max(0, top);
+    // No scroll event fires when the position did not change (already there, or clamped)
+    if (pane.scrollTop !== before) programmaticScroll.current = side;
+  };
+
+  const handleScroll = (side: SourceMapSide) => (event: React.UIEvent<HTMLDivElement>) => {
+    if (programmaticScroll.current === side) {
+      programmaticScroll.current = null;
+      return;
+    }
+    if (!syncScroll) return;
+    const other = otherSide(side);
+    const topLine = event.currentTarget.scrollTop / LINE_HEIGHT + 1;
+    const otherLine = mapLine(map, side, topLine, lines[side].length, lines[other].length);
+    scrollPane(other, (otherLine - 1) * LINE_HEIGHT);
+  };
+
+  // Select a line and bring the corresponding region of the other pane level with it
+  const handleLineClick = (side: SourceMapSide, line: number) => {
+    setSelected(current => (current?.side === side && current.line === line ? null : { side, line }));
+    const entries = findMappedEntries(map, side, line);
+    const pane = (side === 'source' ? sourceRef : targetRef).current;
+    if (entries.length === 0 || !pane) return;
+    const otherStart = Math.min(...entries.map(entry => (side === 'source' ? entry.targetStart : entry.sourceStart)));
+    const offsetInView = (line - 1) * LINE_HEIGHT - pane.scrollTop;
+    scrollPane(otherSide(side), (otherStart - 1) * LINE_HEIGHT - offsetInView);
+  };
+
+  const renderPane = (side: SourceMapSide, title: string) => (
+    <div className="min-w-0">
+      <h3 className="text-sm font-medium mb-2 text-muted-foreground">{title}</h3>
+      <div
+        ref={side === 'source' ? sourceRef : targetRef}
+        onScroll={handleScroll(side)}
+        className="overflow-auto rounded-md border bg-slate-900 text-white font-mono text-sm"
+        style={{ height }}
+      >
+        <div className="min-w-max py-2">
+          {lines[side].map((text, index) => {
+            const line = index + 1;
+            const isSelected = selected?.side === side && selected.line === line;
+            return (
+              <div
+                key={index}
+                onClick={() => handleLineClick(side, line)}
+                className={cn(
+                  'flex cursor-pointer whitespace-pre',
+                  isSelected ? 'bg-yellow-500/50' : isHighlighted(side, line) ? 'bg-yellow-500/25' : 'hover:bg-white/10'
+                )}
+                style={{ height: LINE_HEIGHT, lineHeight: `${LINE_HEIGHT}px` }}
+              >
+                <span className="w-12 shrink-0 select-none pr-3 text-right text-slate-500">{line}</span>
+                <span className="pr-4">{text || ' '}</span>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-muted-foreground">
+        <span>
+          {map.length > 0
+            ? 'Click a line to highlight the code it corresponds to on the other side.'
+            : 'No line mapping could be derived for this conversion.'}
+        </span>
+        <label className="flex items-center gap-2">
+          <Switch checked={syncScroll} onCheckedChange={setSyncScroll} />
+          Sync scrolling
+        </label>
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        {renderPane('source', originalTitle)}
+        {renderPane('target', convertedTitle)}
+      </div>
+    </div>
+  );
+};
+
+export default SyncedCodePanes;
@@ -0,0 +1,108 @@
+import React, { useMemo } from 'react';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import FileDownloader from './FileDownloader';
+import { CodeFile, TempTableStrategy } from '@/types';
+import { useTargetOracleVersion } from '@/hooks/useTargetOracleVersion';
+import { TEMP_TABLE_STRATEGIES, useTempTableStrategy } from '@/hooks/useTempTableStrategy';
+import { useDataTypeRules } from '@/hooks/useDataTypeRules';
+import { extractUserDefinedTypes, mergeTypeRules } from '@/utils/sybaseTypes';
+import { buildTempTableDDL, findTempTables, getTempTableStrategy } from '@/utils/tempTables';
+
+interface TempTablesPanelProps {
+  files: CodeFile[];
+}
+
+const STRATEGY_LABELS: Record<TempTableStrategy, string> = {
+  global: 'Global temporary tables',
+  private: 'Private temporary tables (18c+)',
+  collection: 'PL/SQL collections',
+};
+
+const STRATEGY_NOTES: Record<TempTableStrategy, string> = {
+  global: 'Each #temp table becomes one global temporary table created once. Procedures clear it with DELETE where Sybase created or dropped it; rows stay until the session deletes them.',
+  private: 'Each #temp table becomes a private temporary table created inside the procedure. Static SQL cannot see it, so statements using it must run through EXECUTE IMMEDIATE.',
+  collection: 'Each #temp table becomes a nested table of an object type and lives in a PL/SQL variable. Queries use TABLE() and the rows are held in session memory.',
+};
+
+// #temp tables used across the uploaded files, the replacement chosen for them and the DDL that
+// has to be deployed before the converted procedures
+const TempTablesPanel: React.FC<TempTablesPanelProps> = ({ files }) => {
+  const { oracleVersion } = useTargetOracleVersion();
+  const { tempTableStrategy, setTempTableStrategy } = useTempTableStrategy();
+  const { rules } = useDataTypeRules();
+  const strategy = getTempTableStrategy(tempTableStrategy, oracleVersion);
+
+  const tables = useMemo(() => findTempTables(files, strategy), [files, strategy]);
+  const ddl = useMemo(() => {
+    const typeRules = mergeTypeRules(rules, files.flatMap(file => extractUserDefinedTypes(file.content)));
+    return buildTempTableDDL({ strategy, tables }, typeRules);
+  }, [rules, files, strategy, tables]);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-end gap-3">
+        <div className="space-y-1">
+          <Label>Replace #temp tables with</Label>
+          <Select value={tempTableStrategy} onValueChange={value => setTempTableStrategy(value as TempTableStrategy)}>
+            <SelectTrigger className="w-64">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TEMP_TABLE_STRATEGIES.map(option => (
+                <SelectItem key={option} value={option}>{STRATEGY_LABELS[option]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="text-xs text-gray-500 max-w-xl">
+          {strategy !== tempTableStrategy && `Oracle ${oracleVersion} has no private temporary tables, so global temporary tables are used. `}
+          {STRATEGY_NOTES[strategy]}
+        </p>
+      </div>
+
+      <div className="border rounded-lg overflow-hidden">
+        <div className="grid grid-cols-[1fr_1fr_2fr_auto] gap-4 p-3 bg-gray-50 font-semibold text-sm">
+          <div>#temp table</div>
+          <div>PL/SQL (Oracle)</div>
+          <div>Used in</div>
+          <div className="w-24" />
+        </div>
+        <ScrollArea className="max-h-64">
+          {tables.length === 0 ? (
+            <div className="p-3 border-t text-sm text-gray-500">No #temp tables in the uploaded files.</div>
+          ) : tables.map(table => (
+            <div key={table.name} className="grid grid-cols-[1fr_1fr_2fr_auto] gap-4 p-3 border-t text-sm items-center">
+              <div className="font-mono bg-red-50 px-2 py-1 rounded">{table.name}</div>
+              <div className="font-mono bg-green-50 px-2 py-1 rounded">{table.oracleName}</div>
+              <div className="text-gray-600 truncate" title={table.files.join(', ')}>{table.files.join(', ')}</div>
+              <div className="w-24 flex justify-end">
+                {table.conflicting ? (
+                  <Badge variant="destructive" className="text-xs">Conflicting</Badge>
+                ) : table.columns.length === 0 ? (
+                  <Badge variant="outline" className="text-xs">No columns</Badge>
+                ) : null}
+              </div>
+            </div>
+          ))}
+        </ScrollArea>
+      </div>
+
+      {tables.length > 0 && (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label>Supporting DDL</Label>
+            <FileDownloader fileName="temp_tables.sql" content={ddl} fileType="other" />
+          </div>
+          <ScrollArea className="max-h-64 border rounded-lg">
+            <pre className="p-3 text-xs font-mono whitespace-pre">{ddl}</pre>
+          </ScrollArea>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TempTablesPanel;
@@ -1,10 +1,24 @@
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef, useMemo } from 'react';
 import { useToast } from '@/hooks/use-toast';
-import { convertSybaseToOracle, generateConversionReport } from '@/utils/conversionUtils';
+import { convertSybaseToOracle, convertWithConsensus, generateConversionReport, repairConversion, DEFAULT_REPAIR_ROUNDS } from '@/utils/conversionUtils';
+import { conversionQueue } from '@/utils/jobQueue';
+import { buildDependencyGraph, getDependencies } from '@/utils/dependencyGraph';
+import { extractUserDefinedTypes, mergeTypeRules } from '@/utils/sybaseTypes';
+import { buildCacheKey, restoreCachedConversion } from '@/utils/conversionCache';
+import { selectTranslationExamples } from '@/utils/translationMemory';
+import { findIdentityColumns, getIdentityStrategy } from '@/utils/identityColumns';
+import { findTempTables, getTempTableStrategy } from '@/utils/tempTables';
+import { findResultSetProcedures, getResultSetStrategy } from '@/utils/resultSets';
+import { findIdentifierRenames, getIdentifierMaxLength } from '@/utils/identifiers';
+import { findErrorNumberMappings } from '@/utils/errorNumbers';
 import { supabase } from '@/integrations/supabase/client';
-import { ConversionResult, ConversionReport } from '@/types';
+import { ConfidenceScore, ConsensusReport, ConversionResult, ConversionReport, ConversionOptions, ConversionProgress, ConvertedDependency, DataTypeRule, ErrorNumberOptions, IdentifierOptions, IdentityOptions, PromptTemplate, CodeFile, ResultSetOptions, TempTableOptions, TranslationExample } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 import { useAuth } from '@/hooks/useAuth';
+import { useConversionCache } from '@/hooks/useConversionCache';
+import { useTargetOracleVersion } from '@/hooks/useTargetOracleVersion';
+import { useTempTableStrategy } from '@/hooks/useTempTableStrategy';
+import { useResultSetStrategy } from '@/hooks/useResultSetStrategy';
 
 interface FileItem {
   id: string;
@@ -18,18 +32,39 @@ interface FileItem {
   dataTypeMapping?: any[];
   issues?: any[];
   performanceMetrics?: any;
+  confidence?: ConfidenceScore;
+  consensus?: ConsensusReport;
 }
 
+// Minimum interval between live progress re-renders while a model streams
+const PROGRESS_THROTTLE_MS = 100;
+
+// High-risk objects converted by every consensus model; other files use the selected model only
+const CONSENSUS_OBJECT_TYPES: CodeFile['type'][] = ['procedure', 'trigger'];
+
 export const useConversionLogic = (
   files: FileItem[],
   setFiles: React.Dispatch<React.SetStateAction<FileItem[]>>,
   setConversionResults: React.Dispatch<React.SetStateAction<ConversionResult[]>>,
-  selectedAiModel: string
+  selectedAiModel: string,
+  projectTypeRules: DataTypeRule[],
+  promptTemplates: Record<CodeFile['type'], PromptTemplate>,
+  translationMemory: TranslationExample[]
 ) => {
   const { toast } = useToast();
   const { user } = useAuth();
   const [isConverting, setIsConverting] = useState(false);
   const [convertingFileIds, setConvertingFileIds] = useState<string[]>([]);
+  const [conversionProgress, setConversionProgress] = useState<Record<string, ConversionProgress>>({});
+  const abortControllersRef = useRef(new Map<string, AbortController>());
+  // Off forces a fresh model call for every file, refreshing the cached results
+  const [cacheEnabled, setCacheEnabled] = useState(true);
+  const { lookupConversion, storeConversion, clearConversionCache } = useConversionCache();
+  // Models that also convert procedures and triggers so their outputs can be compared
+  const [consensusModels, setConsensusModels] = useState<string[]>([]);
+  const { oracleVersion } = useTargetOracleVersion();
+  const { tempTableStrategy } = useTempTableStrategy();
+  const { resultSetStrategy } = useResultSetStrategy();
 
   const mapConversionStatus = (status: 'success' | 'warning' | 'error'): 'pending' | 'success' | 'failed' => {
     switch (status) {
@@ -43,6 +78,146 @@ export const useConversionLogic = (
     }
   };
 
+  // Which uploaded objects reference which; conversions run dependencies first
+  const dependencyGraph = useMemo(() => buildDependencyGraph(files), [files]);
+  const conversionOrder = useCallback((batch: FileItem[]) => {
+    const position = new Map(dependencyGraph.order.map((id, index) => [id, index]));
+    return [...batch].sort((a, b) => (position.get(a.id) ?? 0) - (position.get(b.id) ?? 0));
+  }, [dependencyGraph]);
+
+  // Already converted code of the files `fileId` depends on (`converted` maps fileId -> Oracle code)
+  const collectDependencies = useCallback((fileId: string, converted: Map<string, string>): ConvertedDependency[] =>
+    getDependencies(dependencyGraph, fileId)
+      .filter(id => converted.has(id))
+      .map(id => {
+        const node = dependencyGraph.nodes.find(n => n.fileId === id)!;
+        return {
+          name: node.objects.map(object => object.name).join(', '),
+          kind: node.objects[0]?.kind ?? 'table',
+          code: converted.get(id)!,
+        };
+      }), [dependencyGraph]);
+
+  // Saved project rules win over sp_addtype types found in the uploaded files
+  const typeRules = useMemo(
+    () => mergeTypeRules(projectTypeRules, files.flatMap(file => extractUserDefinedTypes(file.content))),
+    [projectTypeRules, files]
+  );
+
+  // IDENTITY columns of every uploaded table, so @@identity is rewritten the same way in every file
+  const identity = useMemo<IdentityOptions>(
+    () => ({ strategy: getIdentityStrategy(oracleVersion), columns: findIdentityColumns(files) }),
+    [oracleVersion, files]
+  );
+
+  // #temp tables of every uploaded file, so each one gets the same replacement in every file
+  const tempTables = useMemo<TempTableOptions>(() => {
+    const strategy = getTempTableStrategy(tempTableStrategy, oracleVersion);
+    return { strategy, tables: findTempTables(files, strategy) };
+  }, [tempTableStrategy, oracleVersion, files]);
+
+  // Result set procedures of every uploaded file, so callers in other files pass the same cursors
+  const resultSets = useMemo<ResultSetOptions>(() => {
+    const strategy = getResultSetStrategy(resultSetStrategy, oracleVersion);
+    return { strategy, procedures: findResultSetProcedures(files, strategy) };
+  }, [resultSetStrategy, oracleVersion, files]);
+
+  // One rename map for the whole project, so every file uses the same Oracle name for an identifier
+  const identifiers = useMemo<IdentifierOptions>(() => {
+    const maxLength = getIdentifierMaxLength(oracleVersion);
+    return { maxLength, renames: findIdentifierRenames(files, maxLength) };
+  }, [oracleVersion, files]);
+
+  // One error map for the whole project, so every file raises the same Oracle code for a Sybase error
+  const errorNumbers = useMemo<ErrorNumberOptions>(() => ({ mappings: findErrorNumberMappings(files) }), [files]);
+
+  const convertedCodeById = useCallback(() =>
+    new Map(files.filter(f => f.convertedContent).map(f => [f.id, f.convertedContent!])), [files]);
+
+  // Convert one file while streaming progress into state, reusing the cached result of identical
+  // input when there is one. Resolves to null if the user cancelled.
+  const runConversion = useCallback(async (file: FileItem, dependencies: ConvertedDependency[] = []) => {
+    const controller = new AbortController();
+    abortControllersRef.current.set(file.id, controller);
+    let lastUpdate = 0;
+    try {
+      const promptTemplate = promptTemplates[file.type];
+      const examples = selectTranslationExamples(translationMemory, file.content);
+      const models = CONSENSUS_OBJECT_TYPES.includes(file.type)
+        ? [selectedAiModel, ...consensusModels.filter(model => model !== selectedAiModel)]
+        : [selectedAiModel];
+      const options: ConversionOptions = {
+        signal: controller.signal,
+        dependencies,
+        typeRules,
+        promptTemplate,
+        examples,
+        identity,
+        tempTables,
+        resultSets,
+        identifiers,
+        errorNumbers,
+        onProgress: progress => {
+          const now = Date.now();
+          if (now - lastUpdate < PROGRESS_THROTTLE_MS) return;
+          lastUpdate = now;
+          setConversionProgress(prev => ({ ...prev, [file.id]: progress }));
+        },
+      };
+      // A key that cannot be computed is a miss, never a failed conversion
+      const cacheKey = cacheEnabled
+        ? await buildCacheKey(file, models.join('+'), options).catch(error => {
+            console.warn('[CACHE] Key computation failed', error);
+            return null;
+          })
+        : null;
+      if (cacheKey) {
+        const lookupStart = Date.now();
+        const cached = await lookupConversion(cacheKey.key);
+        if (cached) {
+          console.log(`[CACHE] Hit for file: ${file.name} (${cacheKey.promptVersion})`);
+          return restoreCachedConversion(cached, file, Date.now() - lookupStart);
+        }
+      }
+
+      const result = models.length > 1
+        ? await convertWithConsensus(file, models, undefined, true, options)
+        : await convertSybaseToOracle(file, selectedAiModel, undefined, true, options);
+      // Failed conversions are retried next time rather than replayed
+      if (cacheKey && result.status !== 'error') storeConversion(cacheKey, result);
+      return result;
+    } catch (error) {
+      if (controller.signal.aborted) {
+        toast({ title: 'Conversion Cancelled', description: `Stopped converting ${file.name}` });
+        return null;
+      }
+      throw error;
+    } finally {
+      abortControllersRef.current.delete(file.id);
+      setConversionProgress(prev => {
+        const next = { ...prev };
+        delete next[file.id];
+        return next;
+      });
+    }
+  }, [selectedAiModel, consensusModels, typeRules, identity, tempTables, resultSets, identifiers, errorNumbers, promptTemplates, translationMemory, cacheEnabled, lookupConversion, storeConversion, toast]);
+
+  // Keep the failure reason on the file so it can be investigated or retried
+  const markFileFailed = useCallback(async (file: FileItem, error: unknown) => {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    setFiles(prev => prev.map(f =>
+      f.id === file.id ? { ...f, conversionStatus: 'failed', errorMessage } : f
+    ));
+    await supabase.from('migration_files').update({
+      conversion_status: 'failed',
+      error_message: errorMessage
+    }).eq('file_name', file.name);
+  }, [setFiles]);
+
+  const handleCancelConversion = useCallback((fileId: string) => {
+    abortControllersRef.current.get(fileId)?.abort();
+  }, []);
+
   const handleConvertFile = useCallback(async (fileId: string) => {
     const file = files.find(f => f.id === fileId);
     if (!file) return;
@@ -51,10 +226,12 @@ export const useConversionLogic = (
     setIsConverting(true);
     
     try {
-      const result = await convertSybaseToOracle(file, selectedAiModel);
+      const result = await runConversion(file, collectDependencies(file.id, convertedCodeById()));
+      if (!result) return;
       
+      // Everything the conversion returned (consensus, source map, confidence, repair attempts, ...)
       const conversionResult: ConversionResult = {
-        id: result.id,
+        ...result,
         originalFile: {
           id: file.id,
           name: file.name,
@@ -63,11 +240,6 @@ export const useConversionLogic = (
           status: 'pending'
         },
         aiGeneratedCode: result.convertedCode, // Store original AI output
-        convertedCode: result.convertedCode,
-        issues: result.issues,
-        dataTypeMapping: result.dataTypeMapping,
-        performance: result.performance,
-        status: result.status
       };
       
       setConversionResults(prev => [...prev, conversionResult]);
@@ -78,41 +250,47 @@ export const useConversionLogic = (
               ...f, 
               conversionStatus: mapConversionStatus(result.status),
               convertedContent: result.convertedCode,
+              errorMessage: undefined,
               dataTypeMapping: result.dataTypeMapping,
               issues: result.issues,
-              performanceMetrics: result.performance
+              performanceMetrics: result.performance,
+              confidence: result.confidence,
+              consensus: result.consensus
             }
           : f
       ));
 
       await supabase.from('migration_files').update({
         conversion_status: mapConversionStatus(result.status),
-        converted_content: result.convertedCode
+        converted_content: result.convertedCode,
+        error_message: null
       }).eq('file_name', file.name);
     } catch (error) {
       console.error('Conversion failed:', error);
-      setFiles(prev => prev.map(f => 
-        f.id === fileId ? { ...f, conversionStatus: 'failed' } : f
-      ));
+      await markFileFailed(file, error);
     } finally {
       setConvertingFileIds([]);
       setIsConverting(false);
     }
-  }, [files, selectedAiModel, setFiles, setConversionResults]);
+  }, [files, runConversion, collectDependencies, convertedCodeById, markFileFailed, setFiles, setConversionResults]);
 
   const handleConvertAllByType = useCallback(async (type: 'table' | 'procedure' | 'trigger' | 'other') => {
     const typeFiles = files.filter(f => f.type === type && f.conversionStatus === 'pending');
     if (typeFiles.length === 0) return;
 
     setIsConverting(true);
+    const converted = convertedCodeById();
     
-    for (const file of typeFiles) {
+    for (const file of conversionOrder(typeFiles)) {
       setConvertingFileIds([file.id]);
       try {
-        const result = await convertSybaseToOracle(file, selectedAiModel);
+        const result = await runConversion(file, collectDependencies(file.id, converted));
+        if (!result) continue;
+        converted.set(file.id, result.convertedCode);
         
+        // Everything the conversion returned (consensus, source map, confidence, repair attempts, ...)
         const conversionResult: ConversionResult = {
-          id: result.id,
+          ...result,
           originalFile: {
             id: file.id,
             name: file.name,
@@ -121,11 +299,6 @@ export const useConversionLogic = (
             status: 'pending'
           },
           aiGeneratedCode: result.convertedCode, // Store original AI output
-          convertedCode: result.convertedCode,
-          issues: result.issues,
-          dataTypeMapping: result.dataTypeMapping,
-          performance: result.performance,
-          status: result.status
         };
         
         setConversionResults(prev => [...prev, conversionResult]);
@@ -136,113 +309,121 @@ export const useConversionLogic = (
                 ...f, 
                 conversionStatus: mapConversionStatus(result.status),
                 convertedContent: result.convertedCode,
+                errorMessage: undefined,
                 dataTypeMapping: result.dataTypeMapping,
                 issues: result.issues,
-                performanceMetrics: result.performance
+                performanceMetrics: result.performance,
+                confidence: result.confidence,
+                consensus: result.consensus
               }
             : f
         ));
 
         await supabase.from('migration_files').update({
           conversion_status: mapConversionStatus(result.status),
-          converted_content: result.convertedCode
+          converted_content: result.convertedCode,
+          error_message: null
         }).eq('file_name', file.name);
       } catch (error) {
         console.error(`Conversion failed for ${file.name}:`, error);
-        setFiles(prev => prev.map(f => 
-          f.id === file.id ? { ...f, conversionStatus: 'failed' } : f
-        ));
+        await markFileFailed(file, error);
       }
     }
     
     setConvertingFileIds([]);
     setIsConverting(false);
-  }, [files, selectedAiModel, setFiles, setConversionResults]);
+  }, [files, runConversion, conversionOrder, collectDependencies, convertedCodeById, markFileFailed, setFiles, setConversionResults]);
 
   const handleConvertAll = useCallback(async () => {
     const pendingFiles = files.filter(f => f.conversionStatus === 'pending');
     if (pendingFiles.length === 0) return;
 
     setIsConverting(true);
+    const converted = convertedCodeById();
 
-    // Helper to process a batch of files in parallel
-    const processBatch = async (batch: FileItem[]) => {
-      setConvertingFileIds(prev => [...prev, ...batch.map(f => f.id)]);
-      await Promise.all(
-        batch.map(async (file) => {
-          try {
-            const result = await convertSybaseToOracle(file, selectedAiModel);
-
-            const conversionResult: ConversionResult = {
-              id: result.id,
-              originalFile: {
-                id: file.id,
-                name: file.name,
-                content: file.content,
-                type: file.type,
-                status: 'pending'
-              },
-              aiGeneratedCode: result.convertedCode, // Store original AI output
-              convertedCode: result.convertedCode,
-              issues: result.issues,
-              dataTypeMapping: result.dataTypeMapping,
-              performance: result.performance,
-              status: result.status
-            };
-
-            setConversionResults(prev => [...prev, conversionResult]);
-
-            setFiles(prev => prev.map(f =>
-              f.id === file.id
-                ? {
-                    ...f,
-                    conversionStatus: mapConversionStatus(result.status),
-                    convertedContent: result.convertedCode,
-                    dataTypeMapping: result.dataTypeMapping,
-                    issues: result.issues,
-                    performanceMetrics: result.performance
-                  }
-                : f
-            ));
-
-            await supabase.from('migration_files').update({
-              conversion_status: mapConversionStatus(result.status),
-              converted_content: result.convertedCode
-            }).eq('file_name', file.name);
-          } catch (error) {
-            console.error(`Conversion failed for ${file.name}:`, error);
-            setFiles(prev => prev.map(f =>
-              f.id === file.id ? { ...f, conversionStatus: 'failed' } : f
-            ));
-          } finally {
-            setConvertingFileIds(prev => prev.filter(id => id !== file.id));
-          }
-        })
-      );
-    };
+    // Files enter the shared queue in dependency order and once their dependencies have finished,
+    // so each prompt sees the converted DDL it references. Only running files show as converting.
+    const finished = new Map<string, Promise<void>>();
+    conversionOrder(pendingFiles).forEach(file => {
+      const dependenciesDone = Promise.all(getDependencies(dependencyGraph, file.id).map(id => finished.get(id)));
+      finished.set(file.id, dependenciesDone.then(() => conversionQueue.add(async () => {
+        setConvertingFileIds(prev => [...prev, file.id]);
+        try {
+          const result = await runConversion(file, collectDependencies(file.id, converted));
+          if (!result) return;
+          converted.set(file.id, result.convertedCode);
 
-    // Process in batches of 5
-    for (let i = 0; i < pendingFiles.length; i += 5) {
-      const batch = pendingFiles.slice(i, i + 5);
-      await processBatch(batch);
-    }
+          // Everything the conversion returned (consensus, source map, confidence, repair attempts, ...)
+          const conversionResult: ConversionResult = {
+            ...result,
+            originalFile: {
+              id: file.id,
+              name: file.name,
+              content: file.content,
+              type: file.type,
+              status: 'pending'
+            },
+            aiGeneratedCode: result.convertedCode, // Store original AI output
+          };
+
+          setConversionResults(prev => [...prev, conversionResult]);
+
+          setFiles(prev => prev.map(f =>
+            f.id === file.id
+              ? {
+                  ...f,
+                  conversionStatus: mapConversionStatus(result.status),
+                  convertedContent: result.convertedCode,
+                  errorMessage: undefined,
+                  dataTypeMapping: result.dataTypeMapping,
+                  issues: result.issues,
+                  performanceMetrics: result.performance,
+                  confidence: result.confidence,
+                  consensus: result.consensus
+                }
+              : f
+          ));
+
+          await supabase.from('migration_files').update({
+            conversion_status: mapConversionStatus(result.status),
+            converted_content: result.convertedCode,
+            error_message: null
+          }).eq('file_name', file.name);
+        } catch (error) {
+          console.error(`Conversion failed for ${file.name}:`, error);
+          await markFileFailed(file, error);
+        } finally {
+          setConvertingFileIds(prev => prev.filter(id => id !== file.id));
+        }
+      })));
+    });
+    await Promise.all(finished.values());
 
     setIsConverting(false);
-  }, [files, selectedAiModel, setFiles, setConversionResults]);
+  }, [files, dependencyGraph, runConversion, conversionOrder, collectDependencies, convertedCodeById, markFileFailed, setFiles, setConversionResults]);
 
-  const handleFixFile = useCallback(async (fileId: string) => {
+  const handleFixFile = useCallback(async (fileId: string, maxRounds: number = DEFAULT_REPAIR_ROUNDS) => {
     setIsConverting(true);
     setConvertingFileIds([fileId]);
+    // Cancelled like a conversion, through handleCancelConversion
+    const controller = new AbortController();
     try {
       const fileToFix = files.find(file => file.id === fileId);
       if (!fileToFix) {
         console.error('File not found');
         return;
       }
-      // Re-run the conversion logic for the failed file
-      const result = await convertSybaseToOracle(fileToFix, selectedAiModel);
+      // Convert first if there is no output yet, then repair it using the validation errors as feedback
+      const convertedCode = fileToFix.convertedContent
+        ?? (await runConversion(fileToFix, collectDependencies(fileToFix.id, convertedCodeById())))?.convertedCode;
+      if (convertedCode === undefined) return;
+      abortControllersRef.current.set(fileId, controller);
+      const result = await repairConversion(fileToFix, convertedCode, selectedAiModel, {
+        signal: controller.signal, maxRounds, typeRules, identity, tempTables, resultSets, identifiers, errorNumbers
+      });
+      // Everything the conversion returned (consensus, source map, confidence, repair attempts, ...)
       const conversionResult: ConversionResult = {
-        id: result.id,
+        ...result,
         originalFile: {
           id: fileToFix.id,
           name: fileToFix.name,
@@ -251,11 +432,6 @@ export const useConversionLogic = (
           status: 'pending'
         },
         aiGeneratedCode: result.convertedCode, // Store original AI output
-        convertedCode: result.convertedCode,
-        issues: result.issues,
-        dataTypeMapping: result.dataTypeMapping,
-        performance: result.performance,
-        status: result.status
       };
       setConversionResults(prev => [...prev, conversionResult]);
       setFiles(prev => prev.map(f =>
@@ -264,33 +440,50 @@ export const useConversionLogic = (
               ...f,
               conversionStatus: mapConversionStatus(result.status),
               convertedContent: result.convertedCode,
+              errorMessage: undefined,
               dataTypeMapping: result.dataTypeMapping,
               issues: result.issues,
-              performanceMetrics: result.performance
+              performanceMetrics: result.performance,
+              confidence: result.confidence,
+              consensus: result.consensus
             }
           : f
       ));
       await supabase.from('migration_files').update({
         conversion_status: mapConversionStatus(result.status),
-        converted_content: result.convertedCode
+        converted_content: result.convertedCode,
+        error_message: null
       }).eq('id', fileId);
-      toast({
-        title: 'File Fixed',
-        description: `Successfully fixed ${fileToFix.name}`,
-      });
+      const rounds = result.repairAttempts?.length ?? 0;
+      const remainingErrors = result.issues.filter(issue => issue.severity === 'error').length;
+      toast(remainingErrors === 0
+        ? {
+            title: 'File Fixed',
+            description: `Successfully fixed ${fileToFix.name}${rounds > 0 ? ` after ${rounds} repair round${rounds === 1 ? '' : 's'}` : ''}`,
+          }
+        : {
+            title: 'Repair Incomplete',
+            description: `${remainingErrors} error${remainingErrors === 1 ? '' : 's'} remain in ${fileToFix.name} after ${rounds} repair round${rounds === 1 ? '' : 's'}`,
+            variant: 'destructive',
+          });
     } catch (error: any) {
+      if (controller.signal.aborted) {
+        toast({ title: 'Repair Cancelled', description: 'The file was left as it was' });
+        return;
+      }
       console.error('Error fixing file:', error);
-      setFiles(prev => prev.map(f => f.id === fileId ? { ...f, conversionStatus: 'failed' } : f));
+      setFiles(prev => prev.map(f => f.id === fileId ? { ...f, conversionStatus: 'failed', errorMessage: error.message } : f));
       toast({
         title: 'Fix Failed',
         description: error.message || 'Failed to fix the file',
         variant: 'destructive',
       });
     } finally {
+      if (abortControllersRef.current.get(fileId) === controller) abortControllersRef.current.delete(fileId);
       setConvertingFileIds([]);
       setIsConverting(false);
     }
-  }, [files, selectedAiModel, setFiles, setConversionResults, toast, mapConversionStatus]);
+  }, [files, selectedAiModel, typeRules, identity, tempTables, resultSets, identifiers, errorNumbers, runConversion, collectDependencies, convertedCodeById, setFiles, setConversionResults, toast, mapConversionStatus]);
 
   const handleGenerateReport = useCallback(async (): Promise<ConversionReport & { id: string }> => {
     const conversionResults: ConversionResult[] = files.map(file => ({
@@ -309,9 +502,11 @@ export const useConversionLogic = (
       status: file.conversionStatus === 'success' ? 'success' : 
               file.conversionStatus === 'failed' ? 'error' : 'warning',
       dataTypeMapping: file.dataTypeMapping || [],
+      confidence: file.confidence,
+      consensus: file.consensus,
     }));
 
-    const reportSummary = generateConversionReport(conversionResults);
+    const reportSummary = generateConversionReport(conversionResults, identifiers, errorNumbers);
 
     const report = {
       timestamp: new Date().toISOString(),
@@ -321,6 +516,8 @@ export const useConversionLogic = (
       errorCount: files.filter(f => f.conversionStatus === 'failed').length,
       results: conversionResults,
       summary: reportSummary,
+      identifiers,
+      errorNumbers,
     };
 
     // Save to Supabase migration_reports
@@ -335,15 +532,23 @@ export const useConversionLogic = (
 
     if (error) throw error;
     return { ...report, id: data.id };
-  }, [files, user]);
+  }, [files, identifiers, errorNumbers, user]);
 
   return {
     isConverting,
     convertingFileIds,
+    conversionProgress,
     handleConvertFile,
+    handleCancelConversion,
     handleConvertAllByType,
     handleConvertAll,
     handleFixFile,
     handleGenerateReport,
+    dependencyGraph,
+    cacheEnabled,
+    setCacheEnabled,
+    clearConversionCache,
+    consensusModels,
+    setConsensusModels,
   };
 };
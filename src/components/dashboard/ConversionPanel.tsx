@@ -2,11 +2,17 @@
 import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { FileText, Download } from 'lucide-react';
+import { FileText, Download, Network, DatabaseZap } from 'lucide-react';
 import FileTreeView from '@/components/FileTreeView';
 import ConversionViewer from '@/components/ConversionViewer';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import { ConfidenceScore, ConsensusReport, ConversionProgress } from '@/types';
+import DependencyGraphView from '@/components/DependencyGraphView';
+import ConsensusPanel from '@/components/ConsensusPanel';
+import { CONCURRENCY_OPTIONS, useConversionConcurrency } from '@/hooks/useConversionConcurrency';
+import { DependencyGraph } from '@/utils/dependencyGraph';
 
 interface FileItem {
   id: string;
@@ -20,6 +26,8 @@ interface FileItem {
   dataTypeMapping?: any[];
   issues?: any[];
   performanceMetrics?: any;
+  confidence?: ConfidenceScore;
+  consensus?: ConsensusReport;
 }
 
 interface ConversionPanelProps {
@@ -27,8 +35,14 @@ interface ConversionPanelProps {
   selectedFile: FileItem | null;
   isConverting: boolean;
   convertingFileIds: string[];
+  conversionProgress: Record<string, ConversionProgress>;
+  dependencyGraph: DependencyGraph;
+  cacheEnabled: boolean;
+  onCacheEnabledChange: (enabled: boolean) => void;
+  onClearCache: () => void;
   onFileSelect: (file: FileItem) => void;
   onConvertFile: (fileId: string) => void;
+  onCancelConversion: (fileId: string) => void;
   onConvertAllByType: (type: 'table' | 'procedure' | 'trigger' | 'other') => void;
   onConvertAll: () => void;
   onFixFile: (fileId: string) => void;
@@ -46,8 +60,14 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
   selectedFile,
   isConverting,
   convertingFileIds,
+  conversionProgress,
+  dependencyGraph,
+  cacheEnabled,
+  onCacheEnabledChange,
+  onClearCache,
   onFileSelect,
   onConvertFile,
+  onCancelConversion,
   onConvertAllByType,
   onConvertAll,
   onFixFile,
@@ -59,6 +79,10 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
   onMoveToDevReview,
   canCompleteMigration,
 }) => {
+  const [showDependencies, setShowDependencies] = React.useState(false);
+  const { concurrency, setConcurrency } = useConversionConcurrency();
+  const concurrencyOptions = Array.from(new Set([...CONCURRENCY_OPTIONS, concurrency])).sort((a, b) => a - b);
+
   if (files.length === 0) {
     return (
       <Card className="max-w-2xl mx-auto">
@@ -138,6 +162,10 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
                 Files to Convert
               </CardTitle>
               <div className="flex gap-2">
+                <Button variant="outline" onClick={() => setShowDependencies(true)} className="text-xs px-3 py-1 h-7" title="Show which objects reference which">
+                  <Network className="h-3 w-3 mr-1" />
+                  Dependencies
+                </Button>
                 <Button variant="destructive" onClick={handleResetMigration} className="text-xs px-3 py-1 h-7">
                   Reset
                 </Button>
@@ -162,6 +190,28 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
                 <option value="Failed">Failed</option>
               </select>
             </div>
+            <div className="flex items-center justify-between w-full text-xs text-gray-600">
+              <label className="flex items-center gap-2" title="Turn off to force a fresh conversion of unchanged files">
+                <Switch checked={cacheEnabled} onCheckedChange={onCacheEnabledChange} />
+                Reuse cached conversions
+              </label>
+              <label className="flex items-center gap-2" title="Files a batch conversion converts at the same time">
+                Parallel
+                <select
+                  value={concurrency}
+                  onChange={e => setConcurrency(Number(e.target.value))}
+                  className="px-1 py-0.5 rounded border border-gray-200 focus:ring-2 focus:ring-blue-400 focus:outline-none text-xs bg-white dark:bg-slate-800"
+                >
+                  {concurrencyOptions.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              </label>
+              <Button variant="ghost" onClick={onClearCache} className="text-xs px-2 py-1 h-7">
+                <DatabaseZap className="h-3 w-3 mr-1" />
+                Clear Cache
+              </Button>
+            </div>
           </CardHeader>
           <CardContent className="pt-2 pb-4">
             <FileTreeView
@@ -184,6 +234,22 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
             />
           </CardContent>
         </Card>
+        {/* Dependency graph of the uploaded objects */}
+        <Dialog open={showDependencies} onOpenChange={setShowDependencies}>
+          <DialogContent className="max-w-5xl">
+            <DialogHeader>
+              <DialogTitle>Object Dependencies</DialogTitle>
+            </DialogHeader>
+            <DependencyGraphView
+              graph={dependencyGraph}
+              onFileSelect={fileId => {
+                const file = files.find(f => f.id === fileId);
+                if (file) onFileSelect(file);
+                setShowDependencies(false);
+              }}
+            />
+          </DialogContent>
+        </Dialog>
         {/* Confirmation Dialog for Reset Migration */}
         <Dialog open={showResetDialog} onOpenChange={setShowResetDialog}>
           <DialogContent>
@@ -249,7 +315,19 @@ const ConversionPanel: React.FC<ConversionPanelProps> = ({
                   onNextFile={hasNext ? () => onFileSelect(allFilteredFiles[currentIndex + 1]) : undefined}
                   hasPrev={hasPrev}
                   hasNext={hasNext}
+                  isConverting={convertingFileIds.includes(selectedFile.id)}
+                  liveProgress={conversionProgress[selectedFile.id]}
+                  onCancelConversion={() => onCancelConversion(selectedFile.id)}
                 />
+                {selectedFile.consensus && selectedFile.convertedContent && (
+                  <div className="mt-4">
+                    <ConsensusPanel
+                      key={selectedFile.id}
+                      convertedCode={selectedFile.convertedContent}
+                      consensus={selectedFile.consensus}
+                    />
+                  </div>
+                )}
               </CardContent>
             </Card>
             {files.some(f => f.conversionStatus === 'success') && (
@@ -0,0 +1,110 @@
+import { useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { ConversionResult } from '@/types';
+import {
+  CachedConversion,
+  ConversionCacheKey,
+  clearLocalCache,
+  readLocalCache,
+  writeLocalCache,
+} from '@/utils/conversionCache';
+
+// Conversion cache stored in Supabase and mirrored in IndexedDB. Lookups try the local mirror
+// first; cache failures are logged and treated as misses so they never block a conversion.
+export const useConversionCache = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  // The local mirror is kept per user, like the Supabase table
+  const localUserId = user?.id ?? '';
+
+  const lookupConversion = useCallback(async (key: string): Promise<CachedConversion | null> => {
+    const local = await readLocalCache(localUserId, key);
+    if (local || !user) return local;
+
+    try {
+      const { data, error } = await supabase
+        .from('conversion_cache')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('cache_key', key)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (!data) return null;
+
+      const entry: CachedConversion = {
+        key: data.cache_key,
+        sourceHash: data.source_hash,
+        aiModel: data.ai_model,
+        promptVersion: data.prompt_version,
+        result: data.result as unknown as ConversionResult,
+        createdAt: data.created_at,
+      };
+      await writeLocalCache(localUserId, entry);
+      return entry;
+    } catch (error) {
+      console.warn('[CACHE] Lookup failed', error);
+      return null;
+    }
+  }, [user, localUserId]);
+
+  const storeConversion = useCallback(async (cacheKey: ConversionCacheKey, result: ConversionResult) => {
+    // Keep only the CodeFile part of the source file; callers often pass richer file items
+    const { id, name, content, type } = result.originalFile;
+    const entry: CachedConversion = {
+      ...cacheKey,
+      result: { ...result, originalFile: { id, name, content, type } },
+      createdAt: new Date().toISOString(),
+    };
+    await writeLocalCache(localUserId, entry);
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('conversion_cache')
+        .upsert({
+          user_id: user.id,
+          cache_key: cacheKey.key,
+          source_hash: cacheKey.sourceHash,
+          ai_model: cacheKey.aiModel,
+          prompt_version: cacheKey.promptVersion,
+          result: entry.result as unknown as Json,
+          created_at: entry.createdAt,
+        }, { onConflict: 'user_id,cache_key' });
+
+      if (error) throw error;
+    } catch (error) {
+      console.warn('[CACHE] Store failed', error);
+    }
+  }, [user, localUserId]);
+
+  const clearConversionCache = useCallback(async () => {
+    await clearLocalCache(localUserId);
+    if (!user) return;
+
+    try {
+      const { error } = await supabase
+        .from('conversion_cache')
+        .delete()
+        .eq('user_id', user.id);
+
+      if (error) throw error;
+      toast({
+        title: "Cache Cleared",
+        description: "All cached conversions were removed.",
+      });
+    } catch (error) {
+      console.error('Error clearing conversion cache:', error);
+      toast({
+        title: "Error",
+        description: "Failed to clear the conversion cache",
+        variant: "destructive",
+      });
+    }
+  }, [user, localUserId, toast]);
+
+  return { lookupConversion, storeConversion, clearConversionCache };
+};
@@ -0,0 +1,27 @@
+import { useState, useEffect } from 'react';
+import { CONCURRENCY_STORAGE_KEY, conversionQueue, getStoredConcurrency } from '@/utils/jobQueue';
+
+export const CONCURRENCY_OPTIONS = [1, 2, 3, 4, 6, 8];
+
+// Every mounted instance follows a change made through any of them
+const listeners = new Set<(concurrency: number) => void>();
+
+// Files a batch conversion converts at once; the queue itself starts with the stored value
+export const useConversionConcurrency = () => {
+  const [concurrency, setConcurrencyState] = useState(getStoredConcurrency);
+
+  useEffect(() => {
+    listeners.add(setConcurrencyState);
+    return () => {
+      listeners.delete(setConcurrencyState);
+    };
+  }, []);
+
+  const setConcurrency = (value: number) => {
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(value));
+    conversionQueue.setConcurrency(value);
+    listeners.forEach(listener => listener(value));
+  };
+
+  return { concurrency, setConcurrency };
+};
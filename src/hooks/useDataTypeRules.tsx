@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { DEFAULT_PROJECT, useProjectName } from '@/hooks/useProjectName';
+import { DataTypeRule } from '@/types';
+
+// Every mounted instance reloads when rules change through any of them
+const listeners = new Set<() => void>();
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+const toRule = (row: Tables<'data_type_rules'>): DataTypeRule => ({
+  id: row.id,
+  sybaseType: row.sybase_type,
+  oracleType: row.oracle_type,
+  description: row.description ?? undefined,
+  source: row.source === 'sp_addtype' ? 'sp_addtype' : 'custom',
+  baseType: row.base_type ?? undefined,
+});
+
+export const useDataTypeRules = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { projectName, setProjectName } = useProjectName();
+  const [rows, setRows] = useState<Tables<'data_type_rules'>[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  // Fetch the rules of every project; the selected one is filtered below
+  const fetchRules = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('data_type_rules')
+        .select('*')
+        .eq('user_id', user.id)
+        .order('sybase_type', { ascending: true });
+
+      if (error) throw error;
+      setRows(data || []);
+    } catch (error) {
+      console.error('Error fetching data type rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch data type rules",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, toast]);
+
+  const rules = useMemo(() => rows.filter(row => row.project_name === projectName).map(toRule), [rows, projectName]);
+  const projectNames = useMemo(
+    () => Array.from(new Set([DEFAULT_PROJECT, projectName, ...rows.map(row => row.project_name)])).sort(),
+    [rows, projectName]
+  );
+
+  // Add or replace the rule for a Sybase type in the selected project
+  const saveRules = async (newRules: DataTypeRule[]) => {
+    if (!user || newRules.length === 0) return false;
+
+    try {
+      const { error } = await supabase
+        .from('data_type_rules')
+        .upsert(newRules.map(rule => ({
+          user_id: user.id,
+          project_name: projectName,
+          sybase_type: rule.sybaseType.trim(),
+          oracle_type: rule.oracleType.trim(),
+          description: rule.description || null,
+          source: rule.source,
+          base_type: rule.baseType || null,
+        })), { onConflict: 'user_id,project_name,sybase_type' });
+
+      if (error) throw error;
+
+      toast({
+        title: "Data Type Rules Saved",
+        description: `${newRules.length} rule${newRules.length === 1 ? '' : 's'} saved to project ${projectName}.`,
+      });
+      notifyListeners();
+      return true;
+    } catch (error) {
+      console.error('Error saving data type rules:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save data type rules",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  const deleteRule = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('data_type_rules')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      notifyListeners();
+      return true;
+    } catch (error) {
+      console.error('Error deleting data type rule:', error);
+      toast({
+        title: "Error",
+        description: "Failed to delete data type rule",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    listeners.add(fetchRules);
+    fetchRules();
+    return () => {
+      listeners.delete(fetchRules);
+    };
+  }, [fetchRules]);
+
+  return {
+    projectName,
+    projectNames,
+    setProjectName,
+    rules,
+    isLoading,
+    saveRules,
+    deleteRule,
+    refreshRules: fetchRules,
+  };
+};
@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+
+export const DEFAULT_PROJECT = 'default';
+const PROJECT_STORAGE_KEY = 'conversion.project';
+
+// Every mounted instance follows a project switch made through any of them
+const listeners = new Set<(projectName: string) => void>();
+
+const readProjectName = () => localStorage.getItem(PROJECT_STORAGE_KEY) || DEFAULT_PROJECT;
+
+// Project whose data type rules and prompt templates are used, remembered per browser
+export const useProjectName = () => {
+  const [projectName, setProjectNameState] = useState(readProjectName);
+
+  useEffect(() => {
+    listeners.add(setProjectNameState);
+    return () => {
+      listeners.delete(setProjectNameState);
+    };
+  }, []);
+
+  const setProjectName = (name: string) => {
+    const next = name.trim() || DEFAULT_PROJECT;
+    localStorage.setItem(PROJECT_STORAGE_KEY, next);
+    listeners.forEach(listener => listener(next));
+  };
+
+  return { projectName, setProjectName };
+};
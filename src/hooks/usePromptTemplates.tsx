@@ -0,0 +1,118 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useProjectName } from '@/hooks/useProjectName';
+import { CodeFile, PromptTemplate } from '@/types';
+import { getBuiltInPromptTemplate, PROMPT_OBJECT_TYPES } from '@/utils/promptTemplates';
+
+// Every mounted instance reloads when a template is saved through any of them
+const listeners = new Set<() => void>();
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+const toTemplate = (row: Tables<'prompt_templates'>): PromptTemplate => ({
+  id: row.id,
+  objectType: PROMPT_OBJECT_TYPES.includes(row.object_type as CodeFile['type']) ? row.object_type as CodeFile['type'] : 'other',
+  version: row.version,
+  content: row.content,
+  notes: row.notes ?? undefined,
+  createdAt: row.created_at,
+});
+
+export const usePromptTemplates = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { projectName } = useProjectName();
+  const [templates, setTemplates] = useState<PromptTemplate[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const fetchTemplates = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('prompt_templates')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('project_name', projectName)
+        .order('version', { ascending: false });
+
+      if (error) throw error;
+      setTemplates((data || []).map(toTemplate));
+    } catch (error) {
+      console.error('Error fetching prompt templates:', error);
+      toast({
+        title: "Error",
+        description: "Failed to fetch prompt templates",
+        variant: "destructive",
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, projectName, toast]);
+
+  // Version history per object type, newest first
+  const history = useMemo(() => Object.fromEntries(PROMPT_OBJECT_TYPES.map(objectType =>
+    [objectType, templates.filter(template => template.objectType === objectType)]
+  )) as Record<CodeFile['type'], PromptTemplate[]>, [templates]);
+
+  // The newest saved version, or the built-in template when none has been saved
+  const activeTemplates = useMemo(() => Object.fromEntries(PROMPT_OBJECT_TYPES.map(objectType =>
+    [objectType, history[objectType][0] ?? getBuiltInPromptTemplate(objectType)]
+  )) as Record<CodeFile['type'], PromptTemplate>, [history]);
+
+  // Saving never overwrites: the template becomes the next version of its object type
+  const saveTemplate = async (objectType: CodeFile['type'], content: string, notes?: string) => {
+    if (!user) return false;
+
+    const version = (history[objectType][0]?.version ?? 0) + 1;
+    try {
+      const { error } = await supabase
+        .from('prompt_templates')
+        .insert({
+          user_id: user.id,
+          project_name: projectName,
+          object_type: objectType,
+          version,
+          content,
+          notes: notes?.trim() || null,
+        });
+
+      if (error) throw error;
+
+      toast({
+        title: "Prompt Template Saved",
+        description: `${objectType} template version ${version} is now active for project ${projectName}.`,
+      });
+      notifyListeners();
+      return true;
+    } catch (error) {
+      console.error('Error saving prompt template:', error);
+      toast({
+        title: "Error",
+        description: "Failed to save prompt template",
+        variant: "destructive",
+      });
+      return false;
+    }
+  };
+
+  useEffect(() => {
+    listeners.add(fetchTemplates);
+    fetchTemplates();
+    return () => {
+      listeners.delete(fetchTemplates);
+    };
+  }, [fetchTemplates]);
+
+  return {
+    projectName,
+    history,
+    activeTemplates,
+    isLoading,
+    saveTemplate,
+    refreshTemplates: fetchTemplates,
+  };
+};
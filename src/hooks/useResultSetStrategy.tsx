@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { ResultSetStrategy } from '@/types';
+
+export const RESULT_SET_STRATEGIES: ResultSetStrategy[] = ['refcursor', 'implicit'];
+const STRATEGY_STORAGE_KEY = 'conversion.resultSetStrategy';
+
+// Every mounted instance follows a change made through any of them
+const listeners = new Set<(strategy: ResultSetStrategy) => void>();
+
+const readStrategy = (): ResultSetStrategy => {
+  const stored = localStorage.getItem(STRATEGY_STORAGE_KEY);
+  return RESULT_SET_STRATEGIES.find(strategy => strategy === stored) ?? 'refcursor';
+};
+
+// How converted procedures return result sets, remembered per browser
+export const useResultSetStrategy = () => {
+  const [resultSetStrategy, setResultSetStrategyState] = useState(readStrategy);
+
+  useEffect(() => {
+    listeners.add(setResultSetStrategyState);
+    return () => {
+      listeners.delete(setResultSetStrategyState);
+    };
+  }, []);
+
+  const setResultSetStrategy = (strategy: ResultSetStrategy) => {
+    localStorage.setItem(STRATEGY_STORAGE_KEY, strategy);
+    listeners.forEach(listener => listener(strategy));
+  };
+
+  return { resultSetStrategy, setResultSetStrategy };
+};
@@ -0,0 +1,33 @@
+import { useState, useEffect } from 'react';
+import { OracleVersion } from '@/types';
+
+export const ORACLE_VERSIONS: OracleVersion[] = ['11g', '12c', '18c', '19c', '21c', '23ai'];
+export const DEFAULT_ORACLE_VERSION: OracleVersion = '19c';
+const VERSION_STORAGE_KEY = 'conversion.oracleVersion';
+
+// Every mounted instance follows a change made through any of them
+const listeners = new Set<(version: OracleVersion) => void>();
+
+const readVersion = (): OracleVersion => {
+  const stored = localStorage.getItem(VERSION_STORAGE_KEY);
+  return ORACLE_VERSIONS.find(version => version === stored) ?? DEFAULT_ORACLE_VERSION;
+};
+
+// Oracle release the conversions target, remembered per browser
+export const useTargetOracleVersion = () => {
+  const [oracleVersion, setOracleVersionState] = useState(readVersion);
+
+  useEffect(() => {
+    listeners.add(setOracleVersionState);
+    return () => {
+      listeners.delete(setOracleVersionState);
+    };
+  }, []);
+
+  const setOracleVersion = (version: OracleVersion) => {
+    localStorage.setItem(VERSION_STORAGE_KEY, version);
+    listeners.forEach(listener => listener(version));
+  };
+
+  return { oracleVersion, setOracleVersion };
+};
@@ -0,0 +1,32 @@
+import { useState, useEffect } from 'react';
+import { TempTableStrategy } from '@/types';
+
+export const TEMP_TABLE_STRATEGIES: TempTableStrategy[] = ['global', 'private', 'collection'];
+const STRATEGY_STORAGE_KEY = 'conversion.tempTableStrategy';
+
+// Every mounted instance follows a change made through any of them
+const listeners = new Set<(strategy: TempTableStrategy) => void>();
+
+const readStrategy = (): TempTableStrategy => {
+  const stored = localStorage.getItem(STRATEGY_STORAGE_KEY);
+  return TEMP_TABLE_STRATEGIES.find(strategy => strategy === stored) ?? 'global';
+};
+
+// What replaces #temp tables in the converted code, remembered per browser
+export const useTempTableStrategy = () => {
+  const [tempTableStrategy, setTempTableStrategyState] = useState(readStrategy);
+
+  useEffect(() => {
+    listeners.add(setTempTableStrategyState);
+    return () => {
+      listeners.delete(setTempTableStrategyState);
+    };
+  }, []);
+
+  const setTempTableStrategy = (strategy: TempTableStrategy) => {
+    localStorage.setItem(STRATEGY_STORAGE_KEY, strategy);
+    listeners.forEach(listener => listener(strategy));
+  };
+
+  return { tempTableStrategy, setTempTableStrategy };
+};
@@ -0,0 +1,114 @@
+import { useState, useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Tables } from '@/integrations/supabase/types';
+import { useAuth } from '@/hooks/useAuth';
+import { useToast } from '@/hooks/use-toast';
+import { useProjectName } from '@/hooks/useProjectName';
+import { TranslationExample } from '@/types';
+import { correctionFingerprint, mineCorrections } from '@/utils/translationMemory';
+
+// Every mounted instance reloads when corrections are learned through any of them
+const listeners = new Set<() => void>();
+const notifyListeners = () => listeners.forEach(listener => listener());
+
+const toExample = (row: Tables<'translation_memory'>): TranslationExample => ({
+  id: row.id,
+  constructs: row.constructs,
+  sybaseCode: row.sybase_code,
+  aiCode: row.ai_code,
+  correctedCode: row.corrected_code,
+  occurrences: row.occurrences,
+  sourceFile: row.source_file ?? undefined,
+});
+
+export const useTranslationMemory = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { projectName } = useProjectName();
+  const [examples, setExamples] = useState<TranslationExample[]>([]);
+
+  const fetchExamples = useCallback(async () => {
+    if (!user) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('translation_memory')
+        .select('*')
+        .eq('user_id', user.id)
+        .eq('project_name', projectName)
+        .order('occurrences', { ascending: false });
+
+      if (error) throw error;
+      setExamples((data || []).map(toExample));
+    } catch (error) {
+      console.error('Error fetching translation memory:', error);
+    }
+  }, [user, projectName]);
+
+  // Store the corrections a reviewer made to the AI output of one file
+  const learnFromReview = async (fileName: string, sybaseCode: string, aiCode: string, reviewedCode: string) => {
+    if (!user || !aiCode.trim() || aiCode === reviewedCode) return 0;
+
+    const mined = mineCorrections(sybaseCode, aiCode, reviewedCode, fileName);
+    if (mined.length === 0) return 0;
+
+    try {
+      // The same fix repeated within one file is stored once
+      const byFingerprint = new Map<string, TranslationExample>();
+      for (const correction of mined) {
+        byFingerprint.set(await correctionFingerprint(correction), correction);
+      }
+      const fingerprints = Array.from(byFingerprint.keys());
+      const corrections = Array.from(byFingerprint.values());
+      const { data: existing, error: fetchError } = await supabase
+        .from('translation_memory')
+        .select('fingerprint, occurrences')
+        .eq('user_id', user.id)
+        .eq('project_name', projectName)
+        .in('fingerprint', fingerprints);
+
+      if (fetchError) throw fetchError;
+      const seen = new Map((existing || []).map(row => [row.fingerprint, row.occurrences]));
+
+      const { error } = await supabase
+        .from('translation_memory')
+        .upsert(corrections.map((correction, index) => ({
+          user_id: user.id,
+          project_name: projectName,
+          fingerprint: fingerprints[index],
+          constructs: correction.constructs,
+          sybase_code: correction.sybaseCode,
+          ai_code: correction.aiCode,
+          corrected_code: correction.correctedCode,
+          occurrences: (seen.get(fingerprints[index]) ?? 0) + 1,
+          source_file: correction.sourceFile ?? null,
+        })), { onConflict: 'user_id,project_name,fingerprint' });
+
+      if (error) throw error;
+
+      toast({
+        title: "Corrections Learned",
+        description: `${corrections.length} correction${corrections.length === 1 ? '' : 's'} from ${fileName} will guide future conversions.`,
+      });
+      notifyListeners();
+      return corrections.length;
+    } catch (error) {
+      console.error('Error saving translation memory:', error);
+      return 0;
+    }
+  };
+
+  useEffect(() => {
+    listeners.add(fetchExamples);
+    fetchExamples();
+    return () => {
+      listeners.delete(fetchExamples);
+    };
+  }, [fetchExamples]);
+
+  return {
+    examples,
+    learnFromReview,
+    refreshExamples: fetchExamples,
+  };
+};
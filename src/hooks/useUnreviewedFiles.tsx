@@ -1,5 +1,6 @@
 import { useState, useEffect } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import { Json } from '@/integrations/supabase/types';
 import { useAuth } from '@/hooks/useAuth';
 import { useToast } from '@/hooks/use-toast';
 import { UnreviewedFile, UnreviewedFileInsert, UnreviewedFileUpdate } from '@/types/unreviewedFiles';
@@ -24,7 +25,7 @@ export const useUnreviewedFiles = () => {
         .order('created_at', { ascending: false });
 
       if (error) throw error;
-      setUnreviewedFiles((data || []) as UnreviewedFile[]);
+      setUnreviewedFiles((data || []) as unknown as UnreviewedFile[]);
     } catch (error) {
       console.error('Error fetching unreviewed files:', error);
       toast({
@@ -54,6 +55,7 @@ export const useUnreviewedFiles = () => {
           data_type_mapping: fileData.data_type_mapping || [],
           issues: fileData.issues || [],
           performance_metrics: fileData.performance_metrics || {},
+          confidence_factors: (fileData.confidence_factors ?? null) as unknown as Json,
         });
 
       if (error) throw error;
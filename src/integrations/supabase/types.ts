@@ -14,6 +14,78 @@ export type Database = {
   }
   public: {
     Tables: {
+      conversion_cache: {
+        Row: {
+          ai_model: string
+          cache_key: string
+          created_at: string
+          id: string
+          prompt_version: string
+          result: Json
+          source_hash: string
+          user_id: string
+        }
+        Insert: {
+          ai_model: string
+          cache_key: string
+          created_at?: string
+          id?: string
+          prompt_version: string
+          result: Json
+          source_hash: string
+          user_id: string
+        }
+        Update: {
+          ai_model?: string
+          cache_key?: string
+          created_at?: string
+          id?: string
+          prompt_version?: string
+          result?: Json
+          source_hash?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      data_type_rules: {
+        Row: {
+          base_type: string | null
+          created_at: string
+          description: string | null
+          id: string
+          oracle_type: string
+          project_name: string
+          source: string
+          sybase_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          base_type?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          oracle_type?: string
+          project_name?: string
+          source?: string
+          sybase_type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          base_type?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          oracle_type?: string
+          project_name?: string
+          source?: string
+          sybase_type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       deployment_logs: {
         Row: {
           created_at: string
@@ -184,8 +256,88 @@ export type Database = {
         }
         Relationships: []
       }
+      prompt_templates: {
+        Row: {
+          content: string
+          created_at: string
+          id: string
+          notes: string | null
+          object_type: string
+          project_name: string
+          user_id: string
+          version: number
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          object_type: string
+          project_name?: string
+          user_id: string
+          version: number
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          id?: string
+          notes?: string | null
+          object_type?: string
+          project_name?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      translation_memory: {
+        Row: {
+          ai_code: string
+          constructs: string[]
+          corrected_code: string
+          created_at: string
+          fingerprint: string
+          id: string
+          occurrences: number
+          project_name: string
+          source_file: string | null
+          sybase_code: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          ai_code: string
+          constructs?: string[]
+          corrected_code: string
+          created_at?: string
+          fingerprint: string
+          id?: string
+          occurrences?: number
+          project_name?: string
+          source_file?: string | null
+          sybase_code?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          ai_code?: string
+          constructs?: string[]
+          corrected_code?: string
+          created_at?: string
+          fingerprint?: string
+          id?: string
+          occurrences?: number
+          project_name?: string
+          source_file?: string | null
+          sybase_code?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       unreviewed_files: {
         Row: {
+          confidence: number | null
+          confidence_factors: Json | null
           converted_code: string
           created_at: string
           file_name: string
@@ -196,6 +348,8 @@ export type Database = {
           user_id: string
         }
         Insert: {
+          confidence?: number | null
+          confidence_factors?: Json | null
           converted_code: string
           created_at?: string
           file_name: string
@@ -206,6 +360,8 @@ export type Database = {
           user_id: string
         }
         Update: {
+          confidence?: number | null
+          confidence_factors?: Json | null
           converted_code?: string
           created_at?: string
           file_name?: string
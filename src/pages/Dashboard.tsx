@@ -5,7 +5,7 @@ import { Database, FileText, Upload, Clock, BarChart3 } from 'lucide-react';
 import { useAuth } from '@/hooks/useAuth';
 import { useNavigate, useLocation } from 'react-router-dom';
 import { useToast } from '@/hooks/use-toast';
-import { ConversionResult, ConversionReport } from '@/types';
+import { ConfidenceScore, ConsensusReport, ConversionResult, ConversionReport } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
@@ -17,9 +17,15 @@ import DashboardHeader from '@/components/dashboard/DashboardHeader';
 import ConversionPanel from '@/components/dashboard/ConversionPanel';
 import DevReviewPanel from '@/components/PendingActionsPanel';
 import PerformanceMetricsDashboard from '@/components/PerformanceMetricsDashboard';
+import AIModelSelector from '@/components/AIModelSelector';
+import ConsensusModelSelector from '@/components/ConsensusModelSelector';
 import { useConversionLogic } from '@/components/dashboard/ConversionLogic';
 import { useMigrationManager } from '@/components/dashboard/MigrationManager';
 import { useUnreviewedFiles } from '@/hooks/useUnreviewedFiles';
+import { useDataTypeRules } from '@/hooks/useDataTypeRules';
+import { usePromptTemplates } from '@/hooks/usePromptTemplates';
+import { useTranslationMemory } from '@/hooks/useTranslationMemory';
+import { useTargetOracleVersion } from '@/hooks/useTargetOracleVersion';
 
 interface FileItem {
   id: string;
@@ -33,6 +39,8 @@ interface FileItem {
   dataTypeMapping?: any[];
   issues?: any[];
   performanceMetrics?: any;
+  confidence?: ConfidenceScore;
+  consensus?: ConsensusReport;
 }
 
 const Dashboard = () => {
@@ -40,6 +48,7 @@ const Dashboard = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const { toast } = useToast();
+  const { oracleVersion } = useTargetOracleVersion();
   
   const initialTab = (location.state?.activeTab as 'upload' | 'conversion' | 'devReview' | 'metrics') || 'upload';
   
@@ -47,22 +56,33 @@ const Dashboard = () => {
   const [files, setFiles] = useState<FileItem[]>([]);
   const [selectedFile, setSelectedFile] = useState<FileItem | null>(null);
   const [conversionResults, setConversionResults] = useState<ConversionResult[]>([]);
-  const [selectedAiModel, setSelectedAiModel] = useState<string>('gemini-2.5-pro');
+  const [selectedAiModel, setSelectedAiModel] = useState<string>('gemini');
   const [showHelp, setShowHelp] = useState(false);
   const [showConfirmModal, setShowConfirmModal] = useState(false);
   const [pendingCompleteMigration, setPendingCompleteMigration] = useState(false);
 
   const { handleCodeUpload } = useMigrationManager();
   const { unreviewedFiles, addUnreviewedFile, refreshUnreviewedFiles } = useUnreviewedFiles();
+  const { rules: typeRules } = useDataTypeRules();
+  const { activeTemplates } = usePromptTemplates();
+  const { examples: translationMemory } = useTranslationMemory();
   const {
     isConverting,
     convertingFileIds,
+    conversionProgress,
     handleConvertFile,
+    handleCancelConversion,
     handleConvertAllByType,
     handleConvertAll,
     handleFixFile,
     handleGenerateReport,
-  } = useConversionLogic(files, setFiles, setConversionResults, selectedAiModel);
+    dependencyGraph,
+    cacheEnabled,
+    setCacheEnabled,
+    clearConversionCache,
+    consensusModels,
+    setConsensusModels,
+  } = useConversionLogic(files, setFiles, setConversionResults, selectedAiModel, typeRules, activeTemplates, translationMemory);
 
   // Enable Complete Migration in Conversion tab if there is at least one successfully converted file
   const canCompleteMigration = activeTab === 'conversion'
@@ -234,6 +254,8 @@ const Dashboard = () => {
           data_type_mapping: file.dataTypeMapping,
           issues: file.issues,
           performance_metrics: file.performanceMetrics || {},
+          confidence: file.confidence?.score ?? null,
+          confidence_factors: file.confidence?.factors ?? null,
         });
       }
     }
@@ -271,6 +293,7 @@ const Dashboard = () => {
             performance: f.performance_metrics || {},
             status: 'success',
             explanations: [],
+            confidence: typeof f.confidence === 'number' ? { score: f.confidence, factors: f.confidence_factors ?? [] } : undefined,
           }));
       } else {
         // fallback to files state (conversion tab)
@@ -290,10 +313,19 @@ const Dashboard = () => {
           performance: file.performanceMetrics || {},
           status: file.conversionStatus === 'success' ? 'success' : file.conversionStatus === 'failed' ? 'error' : 'warning',
           explanations: [],
+          confidence: file.confidence,
+          consensus: file.consensus,
         }));
       }
+      // Rename map of the files in the report
+      const { findIdentifierRenames, getIdentifierMaxLength } = await import('@/utils/identifiers');
+      const maxLength = getIdentifierMaxLength(oracleVersion);
+      const identifiers = { maxLength, renames: findIdentifierRenames(reportResults.map(result => result.originalFile), maxLength) };
+      // Error number map of the files in the report
+      const { findErrorNumberMappings } = await import('@/utils/errorNumbers');
+      const errorNumbers = { mappings: findErrorNumberMappings(reportResults.map(result => result.originalFile)) };
       // Generate summary
-      const reportSummary = (await import('@/utils/conversionUtils')).generateConversionReport(reportResults);
+      const reportSummary = (await import('@/utils/conversionUtils')).generateConversionReport(reportResults, identifiers, errorNumbers);
       const report = {
         timestamp: new Date().toISOString(),
         filesProcessed: reportResults.length,
@@ -302,6 +334,8 @@ const Dashboard = () => {
         errorCount: reportResults.filter(r => r.status === 'error').length,
         results: reportResults,
         summary: reportSummary,
+        identifiers,
+        errorNumbers,
       };
       // Save to Supabase migration_reports
       const { data, error } = await (await import('@/integrations/supabase/client')).supabase
@@ -381,13 +415,29 @@ const Dashboard = () => {
           </TabsContent>
 
           <TabsContent value="conversion">
+            {files.length > 0 && (
+              <div className="flex justify-end items-center gap-2 mb-4">
+                <AIModelSelector selectedModel={selectedAiModel} onModelChange={setSelectedAiModel} />
+                <ConsensusModelSelector
+                  selectedModel={selectedAiModel}
+                  consensusModels={consensusModels}
+                  onConsensusModelsChange={setConsensusModels}
+                />
+              </div>
+            )}
             <ConversionPanel
               files={files}
               selectedFile={selectedFile}
               isConverting={isConverting}
               convertingFileIds={convertingFileIds}
+              conversionProgress={conversionProgress}
+              dependencyGraph={dependencyGraph}
+              cacheEnabled={cacheEnabled}
+              onCacheEnabledChange={setCacheEnabled}
+              onClearCache={clearConversionCache}
               onFileSelect={handleFileSelect}
               onConvertFile={handleConvertFile}
+              onCancelConversion={handleCancelConversion}
               onConvertAllByType={handleConvertAllByType}
               onConvertAll={handleConvertAll}
               onFixFile={handleFixFile}
@@ -28,6 +28,225 @@ export interface ConversionResult {
   performance?: PerformanceMetrics;
   status: 'success' | 'warning' | 'error';
   explanations?: string[];
+  aiProvider?: string; // Provider that produced convertedCode (gemini, openai, ollama, ...)
+  aiModel?: string; // Model name reported by that provider
+  repairAttempts?: RepairAttempt[]; // Self-repair rounds, oldest first
+  promptTemplate?: PromptTemplateRef; // Prompt template the AI was given
+  sourceMap?: SourceMapEntry[]; // Which lines of convertedCode came from which lines of originalFile.content
+  consensus?: ConsensusReport; // Set when other models converted the same file for comparison
+  confidence?: ConfidenceScore; // How far the conversion can be trusted; low scores are reviewed first
+}
+
+export interface ConfidenceScore {
+  score: number; // 0-1, weighted average of the factors
+  factors: ConfidenceFactor[];
+}
+
+export interface ConfidenceFactor {
+  name: 'validity' | 'unsupported' | 'agreement' | 'size' | 'risk';
+  score: number; // 0-1
+  weight: number;
+  detail: string; // e.g. "2 syntax errors"
+}
+
+// Conversions of the same file by other models, compared with convertedCode statement by statement
+export interface ConsensusReport {
+  agreement: number; // 0-100, lowest agreement of any other model with convertedCode
+  alternatives: ConsensusAlternative[];
+}
+
+export interface ConsensusAlternative {
+  requestedModel: string; // aiModel string the conversion was requested with
+  aiProvider?: string;
+  aiModel?: string;
+  convertedCode: string;
+  agreement: number; // 0-100, share of statements both conversions have in common
+  disagreements: number; // Regions reported as consensus issues
+  error?: string; // Set when this model failed to convert the file
+}
+
+// A region of the Sybase source and the Oracle lines it was converted to (1-based, inclusive)
+export interface SourceMapEntry {
+  sourceStart: number;
+  sourceEnd: number;
+  targetStart: number;
+  targetEnd: number;
+}
+
+// One round of feeding validation errors back to the model
+export interface RepairAttempt {
+  round: number;
+  prompt: string;
+  output: string;
+  issues: ConversionIssue[]; // Errors still reported for `output`
+  timestamp: string;
+  error?: string; // Set when the model call itself failed
+}
+
+// Live state of an in-flight conversion, reported while the model streams its output
+export interface ConversionProgress {
+  fileId: string;
+  partialCode: string; // Output received so far, all chunks reassembled
+  tokenCount: number; // Estimated output tokens received so far
+  startedAt: number; // Epoch ms
+  chunkIndex: number; // 0-based chunk currently being converted
+  chunkCount: number;
+}
+
+export interface ConversionOptions {
+  signal?: AbortSignal; // Aborting cancels the in-flight model request
+  onProgress?: (progress: ConversionProgress) => void;
+  dependencies?: ConvertedDependency[]; // Referenced objects that were converted first
+  typeRules?: DataTypeRule[]; // Project rules, applied before the built-in type mapping
+  promptTemplate?: PromptTemplate; // Defaults to the built-in template for the file's type
+  examples?: TranslationExample[]; // Reviewer corrections shown to the model as few-shot examples
+  identity?: IdentityOptions; // IDENTITY columns of the whole project and how to convert them
+  tempTables?: TempTableOptions; // #temp tables of the whole project and what replaces them
+  resultSets?: ResultSetOptions; // Procedures of the whole project returning result sets
+  identifiers?: IdentifierOptions; // Oracle names of the project's identifiers Oracle would reject
+  errorNumbers?: ErrorNumberOptions; // Oracle codes of the user error numbers the project raises
+}
+
+export interface RepairOptions extends ConversionOptions {
+  maxRounds?: number; // Defaults to DEFAULT_REPAIR_ROUNDS
+}
+
+export type OracleVersion = '11g' | '12c' | '18c' | '19c' | '21c' | '23ai';
+
+// IDENTITY columns become 12c+ identity columns, or a sequence filled in by a BEFORE INSERT trigger
+export type IdentityStrategy = 'identity' | 'sequence';
+
+export interface IdentityColumn {
+  table: string; // As written in the CREATE TABLE
+  column: string;
+  fileName: string;
+  line: number;
+  sequenceName: string; // Used by the sequence strategy and @@identity -> CURRVAL
+  triggerName: string;
+}
+
+export interface IdentityOptions {
+  strategy: IdentityStrategy;
+  columns: IdentityColumn[];
+}
+
+// #temp tables become global temporary tables created once, 18c+ private temporary tables created
+// where the #temp table was, or collections of a schema-level object type
+export type TempTableStrategy = 'global' | 'private' | 'collection';
+
+export interface TempTableColumn {
+  name: string;
+  dataType: string; // Sybase type as written
+  nullable: boolean | null;
+}
+
+export interface TempTable {
+  name: string; // As written, with the leading #
+  oracleName: string; // Table, or collection type for the collection strategy
+  columns: TempTableColumn[]; // Empty when it is only created by SELECT INTO
+  files: string[]; // Files using it
+  createdIn: string[]; // Files creating it with CREATE TABLE or SELECT INTO
+  conflicting: boolean; // Created with different columns in different places
+}
+
+export interface TempTableOptions {
+  strategy: TempTableStrategy;
+  tables: TempTable[];
+}
+
+// Result sets of a procedure become OUT SYS_REFCURSOR parameters added after the existing ones, or
+// 12c+ implicit results returned with DBMS_SQL.RETURN_RESULT, which keep the parameter list
+export type ResultSetStrategy = 'refcursor' | 'implicit';
+
+export interface ResultSetProcedure {
+  name: string;
+  fileName: string;
+  line: number;
+  cursors: string[]; // One cursor per result set in source order, without the @ or the Oracle prefix
+  forwards: string[]; // Called procedures whose result sets it passes on to the client
+}
+
+export interface ResultSetOptions {
+  strategy: ResultSetStrategy;
+  procedures: ResultSetProcedure[];
+}
+
+// Identifiers Oracle rejects or folds together: longer than the target allows, reserved words, or
+// names differing only by case. Each gets one Oracle name, used in every file.
+export type RenameReason = 'length' | 'reserved' | 'case' | 'collision';
+
+export interface IdentifierRename {
+  kind: 'table' | 'view' | 'procedure' | 'function' | 'trigger' | 'column' | 'parameter';
+  name: string; // As written in Sybase, parameters without the @
+  oracleName: string; // Parameters with the p_ prefix the converter gives them
+  scope?: string; // Table of a column, procedure or function of a parameter
+  reasons: RenameReason[];
+  conflictsWith: string[]; // Names that would have become the same Oracle name
+  files: string[]; // Files defining it
+}
+
+export interface IdentifierOptions {
+  maxLength: number; // 30 before Oracle 12.2, 128 from 12.2 on
+  renames: IdentifierRename[];
+}
+
+// A Sybase user error number (raiserror, rollback trigger with raiserror, sp_addmessage) and the
+// RAISE_APPLICATION_ERROR code it gets in every file
+export interface ErrorNumberMapping {
+  sybaseNumber: number;
+  oracleNumber: number | null; // -20000 .. -20999; null once the range is used up
+  message?: string; // Text added with sp_addmessage
+  formats: string[]; // Distinct format strings it is raised with
+  files: string[]; // Files raising or adding it
+}
+
+export interface ErrorNumberOptions {
+  mappings: ErrorNumberMapping[];
+}
+
+// A procedure whose converted parameter list differs from the Sybase one, so its callers change
+export interface SignatureChange {
+  procedure: string;
+  fileName: string;
+  sybaseSignature: string;
+  oracleSignature: string;
+  changes: string[];
+}
+
+// Versioned conversion prompt for one kind of object; see src/utils/promptTemplates.ts for placeholders
+export interface PromptTemplate {
+  id?: string;
+  objectType: CodeFile['type'];
+  version: number; // 0 for the built-in template
+  content: string;
+  notes?: string;
+  createdAt?: string;
+}
+
+// Which template produced a result; `custom` is an ad hoc prompt passed by the caller
+export interface PromptTemplateRef {
+  id?: string;
+  objectType: CodeFile['type'];
+  version: number;
+  source: 'built-in' | 'library' | 'custom';
+}
+
+// Oracle code of an object the file references, given to the model as context
+export interface ConvertedDependency {
+  name: string;
+  kind: 'table' | 'procedure' | 'function' | 'trigger' | 'view';
+  code: string;
+}
+
+// Reviewer correction of an AI conversion, kept in the translation memory
+export interface TranslationExample {
+  id?: string;
+  constructs: string[]; // Sybase constructs involved, e.g. "@@error", "convert()"
+  sybaseCode: string; // Source statement the correction belongs to; empty if it could not be located
+  aiCode: string; // What the model produced
+  correctedCode: string; // What the reviewer changed it to
+  occurrences: number; // Times reviewers made the same correction
+  sourceFile?: string;
 }
 
 export interface ConversionIssue {
@@ -37,6 +256,19 @@ export interface ConversionIssue {
   severity: 'info' | 'warning' | 'error';
   suggestedFix?: string;
   originalCode?: string;
+  category?: string; // e.g. 'syntax' for PL/SQL validation errors
+}
+
+// Project data type rule, overriding the built-in mapping. `oracleType` may use $1, $2 for the
+// Sybase type's length/precision. sp_addtype user types record their `baseType`; an empty
+// `oracleType` maps them through the base type.
+export interface DataTypeRule {
+  id?: string;
+  sybaseType: string; // type name ("datetime", "ssn_type") or exact type text ("numeric(1,0)")
+  oracleType: string;
+  description?: string;
+  source: 'custom' | 'sp_addtype';
+  baseType?: string;
 }
 
 export interface DataTypeMapping {
@@ -50,6 +282,8 @@ export interface PerformanceMetrics {
   convertedComplexity?: number;
   improvementPercentage?: number;
   conversionTimeMs?: number;
+  cached?: boolean; // Result reused from the conversion cache; conversionTimeMs is the lookup time
+  cachedAt?: string; // When the cached result was first produced
   performanceScore?: number;
   maintainabilityIndex?: number;
   codeQuality?: {
@@ -77,6 +311,8 @@ export interface ConversionReport {
   errorCount: number;
   results: ConversionResult[];
   summary: string;
+  identifiers?: IdentifierOptions; // Project-wide rename map the files were converted with
+  errorNumbers?: ErrorNumberOptions; // Project-wide error number map the files were converted with
 }
 
 export type ConversionStep = 'connection' | 'upload' | 'review' | 'report';
@@ -1,3 +1,5 @@
+import { ConfidenceFactor } from '@/types';
+
 export interface UnreviewedFile {
   id: string;
   user_id: string;
@@ -11,6 +13,8 @@ export interface UnreviewedFile {
   data_type_mapping?: any;
   issues?: any;
   performance_metrics?: any;
+  confidence?: number | null; // 0-1 conversion confidence; missing on files added before it was scored
+  confidence_factors?: ConfidenceFactor[] | null;
 }
 
 export interface UnreviewedFileInsert {
@@ -23,6 +27,8 @@ export interface UnreviewedFileInsert {
   data_type_mapping?: any;
   issues?: any;
   performance_metrics?: any;
+  confidence?: number | null;
+  confidence_factors?: ConfidenceFactor[] | null;
 }
 
 export interface UnreviewedFileUpdate {
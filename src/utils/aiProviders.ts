@@ -0,0 +1,246 @@
+import { GoogleGenerativeAI } from "@google/generative-ai";
+import { getProviderBucket, retryWithBackoff } from "./jobQueue";
+
+// Pluggable AI provider layer used by the conversion pipeline.
+// The `aiModel` string selects a provider and (optionally) a model, e.g.
+//   'gemini', 'gemini-2.5-pro', 'openai:gpt-4o', 'ollama:codellama', 'llamacpp', 'mock'
+
+export type AIProviderId = 'gemini' | 'openai' | 'ollama' | 'llamacpp' | 'mock';
+
+export interface AIProvider {
+  id: AIProviderId;
+  model: string;
+  label: string;
+  generate: (prompt: string, options?: GenerateOptions) => Promise<string>;
+}
+
+export interface GenerateOptions {
+  signal?: AbortSignal;
+  onToken?: (text: string) => void; // When set the provider streams and reports each piece of output as it arrives
+  onRetry?: (attempt: number, error: unknown) => void; // The request starts over; discard anything streamed so far
+}
+
+export interface AIModelOption {
+  value: string;
+  label: string;
+  description: string;
+}
+
+// Options shown in the model selector
+export const AI_MODEL_OPTIONS: AIModelOption[] = [
+  { value: 'gemini', label: 'Gemini', description: 'Google Gemini (cloud)' },
+  { value: 'openai', label: 'OpenAI-compatible', description: 'OpenAI, Azure OpenAI, vLLM or any /chat/completions endpoint' },
+  { value: 'ollama', label: 'Local (Ollama)', description: 'Self-hosted Ollama server' },
+  { value: 'llamacpp', label: 'Local (llama.cpp)', description: 'Self-hosted llama.cpp server' },
+  { value: 'mock', label: 'Mock (offline)', description: 'Deterministic provider for offline testing' },
+  { value: 'rules', label: 'Rules only (no AI)', description: 'Deterministic rule engine; unhandled constructs are flagged for review' },
+];
+
+const env = import.meta.env;
+
+const DEFAULT_MODELS: Record<AIProviderId, string> = {
+  gemini: env.VITE_GEMINI_MODEL || 'gemini-2.5-pro',
+  openai: env.VITE_OPENAI_MODEL || 'gpt-4o',
+  ollama: env.VITE_OLLAMA_MODEL || 'codellama',
+  llamacpp: env.VITE_LLAMACPP_MODEL || 'local-model',
+  mock: 'mock-v1',
+};
+
+// Strip markdown code fences that models like to wrap around SQL
+export const stripCodeFences = (text: string): string =>
+  text.replace(/^\s*```[a-zA-Z]*\s*\n?|\n?```\s*$/g, '').trim();
+
+// Read a streamed response body line by line (server-sent events and NDJSON)
+const readLines = async (response: Response, onLine: (line: string) => void) => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffered += decoder.decode(value, { stream: !done });
+    const lines = buffered.split('\n');
+    buffered = done ? '' : lines.pop()!;
+    lines.map(line => line.trim()).filter(Boolean).forEach(onLine);
+    if (done) return;
+  }
+};
+
+let genAI: GoogleGenerativeAI | null = null;
+
+const createGeminiProvider = (model: string): AIProvider => ({
+  id: 'gemini',
+  model,
+  label: `Gemini (${model})`,
+  generate: async (prompt, { signal, onToken } = {}) => {
+    if (!genAI) genAI = new GoogleGenerativeAI(env.VITE_GEMINI_API_KEY);
+    const generativeModel = genAI.getGenerativeModel({ model });
+    if (!onToken) {
+      const result = await generativeModel.generateContent(prompt, { signal });
+      const response = await result.response;
+      return response.text();
+    }
+    const result = await generativeModel.generateContentStream(prompt, { signal });
+    let text = '';
+    for await (const chunk of result.stream) {
+      const delta = chunk.text();
+      text += delta;
+      onToken(delta);
+    }
+    return text;
+  },
+});
+
+// Any endpoint speaking the OpenAI chat completions protocol (OpenAI, Azure, vLLM, llama.cpp server)
+const createOpenAICompatibleProvider = (
+  id: AIProviderId,
+  model: string,
+  baseUrl: string,
+  apiKey?: string
+): AIProvider => ({
+  id,
+  model,
+  label: `${id === 'llamacpp' ? 'llama.cpp' : 'OpenAI-compatible'} (${model})`,
+  generate: async (prompt, { signal, onToken } = {}) => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0,
+        stream: Boolean(onToken),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`${id} request failed with status ${response.status}`);
+    }
+    if (!onToken) {
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    }
+    // Server-sent events: "data: {...}" lines terminated by "data: [DONE]"
+    let text = '';
+    await readLines(response, line => {
+      const payload = line.replace(/^data:\s*/, '');
+      if (!line.startsWith('data:') || payload === '[DONE]') return;
+      const delta: string = JSON.parse(payload).choices?.[0]?.delta?.content ?? '';
+      if (!delta) return;
+      text += delta;
+      onToken(delta);
+    });
+    return text;
+  },
+});
+
+const createOllamaProvider = (model: string): AIProvider => ({
+  id: 'ollama',
+  model,
+  label: `Ollama (${model})`,
+  generate: async (prompt, { signal, onToken } = {}) => {
+    const baseUrl = (env.VITE_OLLAMA_URL || 'http://localhost:11434').replace(/\/$/, '');
+    const response = await fetch(`${baseUrl}/api/generate`, {
+      method: 'POST',
+      signal,
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model, prompt, stream: Boolean(onToken), options: { temperature: 0 } }),
+    });
+    if (!response.ok) {
+      throw new Error(`ollama request failed with status ${response.status}`);
+    }
+    if (!onToken) {
+      const data = await response.json();
+      return data.response ?? '';
+    }
+    // One JSON object per line, each carrying the next piece of the response
+    let text = '';
+    await readLines(response, line => {
+      const delta: string = JSON.parse(line).response ?? '';
+      if (!delta) return;
+      text += delta;
+      onToken(delta);
+    });
+    return text;
+  },
+});
+
+// Deterministic provider: echoes the code at the end of the prompt (Sybase code for conversions,
+// Oracle code for repairs) under a fixed header so the pipeline can be exercised without
+// network access or API keys
+const createMockProvider = (model: string): AIProvider => ({
+  id: 'mock',
+  model,
+  label: 'Mock provider',
+  generate: async (prompt, { signal, onToken } = {}) => {
+    const [marker] = ['Sybase code:\n', 'Oracle code:\n']
+      .filter(label => prompt.includes(label))
+      .sort((a, b) => prompt.lastIndexOf(b) - prompt.lastIndexOf(a));
+    const source = marker ? prompt.slice(prompt.lastIndexOf(marker) + marker.length) : prompt;
+    const output = `-- Converted by mock provider (${model})\n${source.trim()}`;
+    // Stream line by line, yielding between lines so cancellation can be exercised
+    if (onToken) {
+      for (const line of output.match(/[^\n]*\n?/g)!.filter(Boolean)) {
+        signal?.throwIfAborted();
+        onToken(line);
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+    signal?.throwIfAborted();
+    return output;
+  },
+});
+
+// Every request waits for its provider's rate limit and is retried with backoff on transient errors
+const withRateLimit = (provider: AIProvider): AIProvider => {
+  if (provider.id === 'mock') return provider;
+  const bucket = getProviderBucket(provider.id);
+  return {
+    ...provider,
+    generate: (prompt, options = {}) => retryWithBackoff(async () => {
+      await bucket.take(options.signal);
+      return provider.generate(prompt, options);
+    }, {
+      signal: options.signal,
+      onRetry: (attempt, _delayMs, error) => options.onRetry?.(attempt, error),
+    }),
+  };
+};
+
+// Resolve an aiModel string to a provider instance
+const createProvider = (aiModel: string): AIProvider => {
+  const [rawProvider, ...rest] = aiModel.trim().split(':');
+  const providerKey = rawProvider.toLowerCase();
+  const explicitModel = rest.join(':') || undefined;
+
+  if (providerKey === 'openai') {
+    return createOpenAICompatibleProvider(
+      'openai',
+      explicitModel || DEFAULT_MODELS.openai,
+      env.VITE_OPENAI_BASE_URL || 'https://api.openai.com/v1',
+      env.VITE_OPENAI_API_KEY
+    );
+  }
+  if (providerKey === 'ollama' || providerKey === 'local') {
+    return createOllamaProvider(explicitModel || DEFAULT_MODELS.ollama);
+  }
+  if (providerKey === 'llamacpp') {
+    return createOpenAICompatibleProvider(
+      'llamacpp',
+      explicitModel || DEFAULT_MODELS.llamacpp,
+      env.VITE_LLAMACPP_URL || 'http://localhost:8080/v1'
+    );
+  }
+  if (providerKey === 'mock') {
+    return createMockProvider(explicitModel || DEFAULT_MODELS.mock);
+  }
+  // 'default', 'gemini', 'gemini:<model>' or a bare Gemini model name like 'gemini-2.5-pro'
+  if (providerKey.startsWith('gemini-')) {
+    return createGeminiProvider(rawProvider);
+  }
+  return createGeminiProvider(explicitModel || DEFAULT_MODELS.gemini);
+};
+
+export const getAIProvider = (aiModel: string = 'default'): AIProvider => withRateLimit(createProvider(aiModel));
@@ -0,0 +1,104 @@
+import { getCreatedObject, objectBaseName, parseSybase } from './sybaseParser';
+
+// Object-level chunking for large scripts: files are split on `go` batches, batches are
+// grouped up to a size budget, and each chunk carries the table DDL it references so the
+// model sees the column types without receiving the whole script.
+
+export const MAX_CHUNK_CHARS = Number(import.meta.env.VITE_MAX_CHUNK_CHARS) || 12000;
+const MAX_CONTEXT_CHARS = 4000;
+
+export interface ConversionChunk {
+  index: number;
+  startLine: number; // 1-based, inclusive, in the source file
+  endLine: number;
+  content: string;
+  objectNames: string[]; // objects created in this chunk
+  context: string; // DDL of tables defined elsewhere in the file that this chunk references
+  oversized: boolean; // a single batch larger than MAX_CHUNK_CHARS
+}
+
+export const splitIntoChunks = (code: string, maxChars: number = MAX_CHUNK_CHARS): ConversionChunk[] => {
+  const lines = code.split('\n');
+  const wholeFile = (): ConversionChunk[] => [{
+    index: 0, startLine: 1, endLine: lines.length, content: code, objectNames: [], context: '', oversized: false,
+  }];
+  if (code.length <= maxChars) return wholeFile();
+
+  const script = parseSybase(code);
+  if (script.batches.length <= 1) return [{ ...wholeFile()[0], oversized: true }];
+
+  // Table DDL by name, for the shared context
+  const tableDdl = new Map<string, string>();
+  script.batches.forEach(batch => batch.statements.forEach(statement => {
+    if (statement.kind === 'createTable') {
+      tableDdl.set(objectBaseName(statement.name), lines.slice(statement.line - 1, statement.endLine).join('\n'));
+    }
+  }));
+
+  // Line ranges per batch: comments and the "go" line stay with the batch they follow
+  const ranges = script.batches.map((batch, i) => ({
+    batch,
+    startLine: i === 0 ? 1 : (script.batches[i - 1].separatorLine ?? script.batches[i - 1].endLine) + 1,
+    endLine: batch.separatorLine ?? (i === script.batches.length - 1 ? lines.length : batch.endLine),
+  }));
+
+  // Group consecutive batches up to the size budget
+  const groups: (typeof ranges)[] = [];
+  let size = 0;
+  ranges.forEach(range => {
+    const rangeSize = lines.slice(range.startLine - 1, range.endLine).join('\n').length;
+    if (groups.length === 0 || size + rangeSize > maxChars) {
+      groups.push([]);
+      size = 0;
+    }
+    groups[groups.length - 1].push(range);
+    size += rangeSize;
+  });
+
+  return groups.map((group, index) => {
+    const startLine = group[0].startLine;
+    const endLine = group[group.length - 1].endLine;
+    const content = lines.slice(startLine - 1, endLine).join('\n');
+    const objectNames = group.flatMap(({ batch }) =>
+      batch.statements.flatMap(statement => getCreatedObject(statement)?.name ?? [])
+    );
+
+    // Tables referenced here but defined in another chunk
+    const defined = new Set(objectNames.map(objectBaseName));
+    const referenced = new Set<string>();
+    script.tokens.forEach(token => {
+      if (token.line < startLine || token.line > endLine || token.type !== 'word') return;
+      const name = objectBaseName(token.value);
+      if (tableDdl.has(name) && !defined.has(name)) referenced.add(name);
+    });
+    let context = '';
+    referenced.forEach(name => {
+      const ddl = tableDdl.get(name)!;
+      if (context.length + ddl.length <= MAX_CONTEXT_CHARS) context += `${context ? '\n\n' : ''}${ddl}`;
+    });
+
+    return { index, startLine, endLine, content, objectNames, context, oversized: content.length > maxChars };
+  });
+};
+
+export interface ChunkProblem {
+  message: string;
+  severity: 'warning' | 'error';
+}
+
+// Problems with the converted output of one chunk: nothing returned, objects missing, or cut off mid-statement
+export const detectChunkProblems = (chunk: ConversionChunk, output: string): ChunkProblem[] => {
+  const code = output.replace(/--[^\n]*|\/\*[\s\S]*?\*\//g, '').trim();
+  if (!code) return [{ message: 'returned no code', severity: 'error' }];
+
+  const problems: ChunkProblem[] = [];
+  chunk.objectNames.forEach(name => {
+    const pattern = new RegExp(`(^|[^\\w$#])${objectBaseName(name).replace(/[$#]/g, '\\$&')}([^\\w$#]|$)`, 'i');
+    if (!pattern.test(code)) problems.push({ message: `${name} is missing from the converted output`, severity: 'error' });
+  });
+  // Complete scripts end with ";" or a "/" line
+  if (!/[;/]$/.test(code)) {
+    problems.push({ message: 'output ends mid-statement and appears truncated', severity: 'warning' });
+  }
+  return problems;
+};
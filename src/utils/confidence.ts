@@ -0,0 +1,85 @@
+import { ConfidenceFactor, ConfidenceScore, ConsensusReport, ConversionIssue } from '@/types';
+import { tokenize } from './sybaseParser';
+import { detectConstructs } from './translationMemory';
+
+// Conversion confidence: a 0-1 score combining whether the output is valid, Sybase constructs left
+// in it, agreement between models, the output/input size ratio and risky constructs in the source.
+// The Dev Review queue puts the lowest scores first.
+
+const WEIGHTS: Record<ConfidenceFactor['name'], number> = {
+  validity: 0.3,
+  unsupported: 0.25,
+  agreement: 0.2,
+  size: 0.1,
+  risk: 0.15,
+};
+
+export const LOW_CONFIDENCE = 0.5;
+export const HIGH_CONFIDENCE = 0.8;
+
+export type ConfidenceLevel = 'low' | 'medium' | 'high';
+
+// Detected constructs that are also valid Oracle (CAST, EXECUTE IMMEDIATE, SET TRANSACTION, cursors, identity columns)
+const ORACLE_CONSTRUCTS = new Set(['cast()', 'exec', 'transaction', 'cursor', 'identity']);
+
+// Source constructs whose Oracle equivalent behaves differently often enough to need a close look
+const RISKY_CONSTRUCTS = new Set([
+  '@@error', '@@rowcount', '@@trancount', '@@identity', 'cursor', '#temp table', 'transaction',
+  'outer join (*=)', 'exec', 'raiserror', 'top',
+]);
+
+// Output lines that are code, not blank lines or comments
+const countCodeLines = (code: string): number =>
+  code.split('\n').filter(line => line.replace(/--.*$/, '').trim() && !/^\s*\/\s*$/.test(line)).length;
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`;
+
+// Sybase constructs still present in converted code
+export const findUnconvertedConstructs = (convertedCode: string): string[] => {
+  const tokens = tokenize(convertedCode);
+  const constructs = detectConstructs(tokens).filter(construct => !ORACLE_CONSTRUCTS.has(construct));
+  if (tokens.some(token => token.type === 'variable' && !token.value.startsWith('@@'))) constructs.push('@variable');
+  return constructs;
+};
+
+export const scoreConversion = (
+  sourceCode: string,
+  convertedCode: string,
+  issues: ConversionIssue[],
+  consensus?: ConsensusReport
+): ConfidenceScore => {
+  const factors: ConfidenceFactor[] = [];
+  const addFactor = (name: ConfidenceFactor['name'], score: number, detail: string) =>
+    factors.push({ name, score: Math.max(0, Math.min(1, score)), weight: WEIGHTS[name], detail });
+
+  // Disagreements are weighed by the agreement factor, not counted again as errors
+  const errors = issues.filter(issue => issue.severity === 'error' && issue.category !== 'consensus').length;
+  const validity = errors === 0 ? 1 : 0.45 - 0.1 * (errors - 1);
+  addFactor('validity', validity, errors === 0 ? 'No errors' : plural(errors, 'error'));
+
+  const unconverted = findUnconvertedConstructs(convertedCode);
+  addFactor('unsupported', 1 - 0.2 * unconverted.length,
+    unconverted.length === 0 ? 'No Sybase constructs left' : `Sybase constructs left: ${unconverted.join(', ')}`);
+
+  const compared = consensus?.alternatives.filter(alternative => !alternative.error) ?? [];
+  if (compared.length > 0) {
+    addFactor('agreement', consensus!.agreement / 100, `${consensus!.agreement}% agreement with ${plural(compared.length, 'other model')}`);
+  }
+
+  // Much shorter output usually means dropped logic, much longer output invented logic
+  const sourceLines = countCodeLines(sourceCode);
+  const ratio = sourceLines > 0 ? countCodeLines(convertedCode) / sourceLines : 1;
+  addFactor('size', ratio < 0.5 ? ratio / 0.5 : ratio > 2.5 ? 2.5 / ratio : 1, `Output is ${ratio.toFixed(1)}x the source size`);
+
+  const risky = detectConstructs(tokenize(sourceCode)).filter(construct => RISKY_CONSTRUCTS.has(construct));
+  addFactor('risk', Math.max(0.3, 1 - 0.1 * risky.length),
+    risky.length === 0 ? 'No risky constructs' : `Risky constructs: ${risky.join(', ')}`);
+
+  const totalWeight = factors.reduce((sum, factor) => sum + factor.weight, 0);
+  // Output with errors is low confidence however well it does on the other factors
+  const score = Math.min(Math.max(0, validity), factors.reduce((sum, factor) => sum + factor.score * factor.weight, 0) / totalWeight);
+  return { score: Math.round(score * 100) / 100, factors };
+};
+
+export const getConfidenceLevel = (score: number): ConfidenceLevel =>
+  score < LOW_CONFIDENCE ? 'low' : score < HIGH_CONFIDENCE ? 'medium' : 'high';
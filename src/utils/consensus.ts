@@ -0,0 +1,85 @@
+import { diffArrays } from 'diff';
+import { splitOracleStatements } from './sourceMap';
+
+// Comparison of two Oracle conversions of the same source. Both outputs are reduced to statements
+// whose text ignores layout, comments and keyword case, and the statement sequences are diffed, so
+// only differences in what the code does are reported.
+
+export interface NormalizedStatement {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// A run of statements where the two conversions differ
+export interface DisagreementRegion {
+  line: number; // First line of the region in the primary code (where it would be, if it is empty there)
+  primaryCode: string;
+  alternativeCode: string;
+}
+
+export interface ConversionComparison {
+  agreement: number; // 0-100
+  regions: DisagreementRegion[];
+}
+
+export const normalizeStatements = (code: string): NormalizedStatement[] =>
+  splitOracleStatements(code).map(tokens => ({
+    // Unquoted identifiers and keywords are case-insensitive in Oracle; literals are not
+    text: tokens.map(token => (token.type === 'string' || token.type === 'quotedIdentifier' ? token.value : token.upper)).join(' '),
+    start: tokens[0].line,
+    end: tokens[tokens.length - 1].endLine,
+  }));
+
+const snippet = (lines: string[], statements: NormalizedStatement[]): string =>
+  statements.length === 0
+    ? ''
+    : lines.slice(statements[0].start - 1, statements[statements.length - 1].end).join('\n').trim();
+
+export const compareConversions = (primaryCode: string, alternativeCode: string): ConversionComparison => {
+  const primary = normalizeStatements(primaryCode);
+  const alternative = normalizeStatements(alternativeCode);
+  if (primary.length === 0 && alternative.length === 0) return { agreement: 100, regions: [] };
+
+  const primaryLines = primaryCode.split('\n');
+  const alternativeLines = alternativeCode.split('\n');
+  const regions: DisagreementRegion[] = [];
+  let common = 0;
+  let primaryIndex = 0;
+  let alternativeIndex = 0;
+  let removed: NormalizedStatement[] = [];
+  let added: NormalizedStatement[] = [];
+
+  const flush = () => {
+    if (removed.length === 0 && added.length === 0) return;
+    regions.push({
+      line: removed[0]?.start ?? primary[primaryIndex]?.start ?? primaryLines.length,
+      primaryCode: snippet(primaryLines, removed),
+      alternativeCode: snippet(alternativeLines, added),
+    });
+    removed = [];
+    added = [];
+  };
+
+  diffArrays(primary.map(statement => statement.text), alternative.map(statement => statement.text)).forEach(change => {
+    const count = change.value.length;
+    if (change.removed) {
+      removed.push(...primary.slice(primaryIndex, primaryIndex + count));
+      primaryIndex += count;
+    } else if (change.added) {
+      added.push(...alternative.slice(alternativeIndex, alternativeIndex + count));
+      alternativeIndex += count;
+    } else {
+      flush();
+      common += count;
+      primaryIndex += count;
+      alternativeIndex += count;
+    }
+  });
+  flush();
+
+  return {
+    agreement: Math.round((200 * common) / (primary.length + alternative.length)),
+    regions,
+  };
+};
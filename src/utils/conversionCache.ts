@@ -0,0 +1,166 @@
+import { CodeFile, ConversionOptions, ConversionResult, PromptTemplate } from '@/types';
+import { v4 as uuidv4 } from 'uuid';
+import { isRulesOnlyModel, RULES_ENGINE_VERSION } from './ruleBasedConverter';
+import { getAIProvider } from './aiProviders';
+import { getBuiltInPromptTemplate } from './promptTemplates';
+
+// Conversion cache keys and the IndexedDB mirror of the cache. A key covers everything that shapes
+// the output: the normalized source, the model, the prompt template and its context (type rules,
+// converted dependencies, few-shot examples, identity columns, #temp tables, result set procedures),
+// so changing any of them is a miss rather than a stale hit.
+
+const DB_NAME = 'sybase-oracle-conversion-cache';
+const DB_VERSION = 2; // 2: entries are kept per user
+const STORE_NAME = 'conversions';
+// Bump when ConversionResult changes shape so old entries are ignored
+const CACHE_FORMAT_VERSION = 3;
+
+export interface ConversionCacheKey {
+  key: string;
+  sourceHash: string;
+  aiModel: string;
+  promptVersion: string; // e.g. "procedure@v3" or "procedure@built-in"
+}
+
+export interface CachedConversion extends ConversionCacheKey {
+  result: ConversionResult;
+  createdAt: string;
+}
+
+// Line endings and trailing whitespace never change the conversion
+export const normalizeSource = (code: string): string =>
+  code.replace(/\r\n?/g, '\n').split('\n').map(line => line.trimEnd()).join('\n').trim();
+
+// crypto.subtle only exists in secure contexts; pages served over plain HTTP get four 32-bit FNV-1a
+// lanes with different offsets instead. Keys from the two never match, which is only a miss.
+const fallbackHash = (text: string): string =>
+  [0x811c9dc5, 0x050c5d1f, 0x9e3779b9, 0x85ebca6b].map(offset => {
+    let hash = offset;
+    for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+    return (hash >>> 0).toString(16).padStart(8, '0');
+  }).join('');
+
+export const hashText = async (text: string): Promise<string> => {
+  if (typeof crypto === 'undefined' || !crypto.subtle) return fallbackHash(text);
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getPromptVersion = (template: PromptTemplate): string =>
+  `${template.objectType}@${template.version > 0 ? `v${template.version}` : 'built-in'}`;
+
+// The models that actually run: 'default' or 'gemini' follow the configured default model, so a new
+// default is a miss. Consensus conversions pass their models joined with '+'.
+const resolveCacheModel = (aiModel: string): string =>
+  aiModel.split('+').map(model => {
+    if (isRulesOnlyModel(model)) return RULES_ENGINE_VERSION;
+    const provider = getAIProvider(model);
+    return `${provider.id}:${provider.model}`;
+  }).join('+');
+
+export const buildCacheKey = async (
+  file: CodeFile,
+  aiModel: string,
+  options: ConversionOptions = {}
+): Promise<ConversionCacheKey> => {
+  const { typeRules = [], dependencies = [], examples = [], identity, tempTables, resultSets, identifiers, errorNumbers } = options;
+  const template = options.promptTemplate ?? getBuiltInPromptTemplate(file.type);
+  const model = resolveCacheModel(aiModel);
+  const sourceHash = await hashText(normalizeSource(file.content));
+  const key = await hashText(JSON.stringify([
+    CACHE_FORMAT_VERSION,
+    RULES_ENGINE_VERSION,
+    sourceHash,
+    model,
+    template.content,
+    typeRules.map(rule => [rule.sybaseType, rule.oracleType, rule.baseType ?? '']),
+    dependencies.map(dependency => dependency.code),
+    examples.map(example => [example.aiCode, example.correctedCode]),
+    identity ? [identity.strategy, identity.columns.map(column => [column.table, column.column, column.sequenceName])] : [],
+    tempTables ? [tempTables.strategy, tempTables.tables.map(table => [table.name, table.oracleName, table.columns, table.createdIn, table.conflicting])] : [],
+    resultSets ? [resultSets.strategy, resultSets.procedures.map(procedure => [procedure.name, procedure.cursors])] : [],
+    identifiers ? [identifiers.maxLength, identifiers.renames.map(rename => [rename.kind, rename.scope ?? '', rename.name, rename.oracleName])] : [],
+    errorNumbers ? errorNumbers.mappings.map(mapping => [mapping.sybaseNumber, mapping.oracleNumber, mapping.message ?? '']) : [],
+  ]));
+  return { key, sourceHash, aiModel: model, promptVersion: getPromptVersion(template) };
+};
+
+// A cached result presented as a fresh conversion of `file`
+export const restoreCachedConversion = (entry: CachedConversion, file: CodeFile, lookupTimeMs: number): ConversionResult => ({
+  ...entry.result,
+  id: uuidv4(),
+  originalFile: file,
+  performance: {
+    ...entry.result.performance,
+    conversionTimeMs: lookupTimeMs,
+    cached: true,
+    cachedAt: entry.createdAt,
+  },
+});
+
+// Entries of different users sharing a browser never answer each other's lookups
+interface LocalCacheRecord extends CachedConversion {
+  userId: string; // '' when signed out
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      // Version 1 entries have no owner and are dropped
+      if (request.result.objectStoreNames.contains(STORE_NAME)) request.result.deleteObjectStore(STORE_NAME);
+      request.result.createObjectStore(STORE_NAME, { keyPath: ['userId', 'key'] });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const runTransaction = async <T>(mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// The local mirror is best effort: without IndexedDB (private windows, tests) every lookup misses
+export const readLocalCache = async (userId: string, key: string): Promise<CachedConversion | null> => {
+  if (typeof indexedDB === 'undefined') return null;
+  try {
+    const record = await runTransaction<LocalCacheRecord | undefined>('readonly', store => store.get([userId, key]));
+    if (!record) return null;
+    const { userId: _owner, ...entry } = record;
+    return entry;
+  } catch (error) {
+    console.warn('[CACHE] Local cache read failed', error);
+    return null;
+  }
+};
+
+export const writeLocalCache = async (userId: string, entry: CachedConversion): Promise<void> => {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    const record: LocalCacheRecord = { ...entry, userId };
+    await runTransaction('readwrite', store => store.put(record));
+  } catch (error) {
+    console.warn('[CACHE] Local cache write failed', error);
+  }
+};
+
+// Removes the entries of one user only
+export const clearLocalCache = async (userId: string): Promise<void> => {
+  if (typeof indexedDB === 'undefined') return;
+  try {
+    await runTransaction('readwrite', store => store.delete(IDBKeyRange.bound([userId, ''], [userId, '\uffff'])));
+  } catch (error) {
+    console.warn('[CACHE] Local cache clear failed', error);
+  }
+};
@@ -1,78 +1,207 @@
-import { ConversionResult, CodeFile, ConversionIssue, DataTypeMapping } from '@/types';
-import { GoogleGenerativeAI } from "@google/generative-ai";
+import { ConfidenceScore, ConsensusReport, ConversionResult, CodeFile, ConversionIssue, DataTypeMapping, DataTypeRule, RepairAttempt, RepairOptions, ConversionOptions, ConvertedDependency, PromptTemplate, ConsensusAlternative, ErrorNumberMapping, ErrorNumberOptions, IdentifierOptions, IdentifierRename, IdentityOptions, ResultSetOptions, SignatureChange, TempTableOptions } from '@/types';
 import { v4 as uuidv4 } from 'uuid';
-
-const GEMINI_API_KEY = import.meta.env.VITE_GEMINI_API_KEY;
-const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
+import { AIProvider, GenerateOptions, getAIProvider, stripCodeFences } from './aiProviders';
+import { createTypeMapper, describeTypeRules, extractUserDefinedTypes, mergeTypeRules, TypeMapper } from './sybaseTypes';
+import { collectDataTypes, parseSybase, SqlScript, walkScript } from './sybaseParser';
+import { validatePlsql } from './plsqlValidator';
+import { convertWithRules, isRulesOnlyModel, RuleConversionResult, RuleOptions, RULES_ENGINE_VERSION, RULES_MODEL_ID } from './ruleBasedConverter';
+import { ConversionChunk, detectChunkProblems, splitIntoChunks } from './chunking';
+import { conversionQueue } from './jobQueue';
+import { formatTranslationExamples } from './translationMemory';
+import { createCustomPromptTemplate, getBuiltInPromptTemplate, getPromptTemplateRef, renderPromptTemplate } from './promptTemplates';
+import { buildSourceMap } from './sourceMap';
+import { compareConversions } from './consensus';
+import { DEFAULT_IDENTITY_OPTIONS, describeIdentityConversion, findIdentityUsages } from './identityColumns';
+import { DEFAULT_TEMP_TABLE_OPTIONS, describeTempTableConversion, findTempTableNotes } from './tempTables';
+import { findTransactionNotes } from './transactionSemantics';
+import { DEFAULT_RESULT_SET_OPTIONS, describeResultSetConversion, findResultSetNotes } from './resultSets';
+import { findSignatureChanges } from './signatureChanges';
+import { describeTriggerConversion, findTriggerNotes } from './triggers';
+import { findEmptyStringNotes } from './emptyStrings';
+import { findDateFunctionNotes } from './dateFunctions';
+import { applyErrorNumbers, DEFAULT_ERROR_NUMBER_OPTIONS, describeErrorNumbers, findErrorNumberNotes, formatOracleErrorCode } from './errorNumbers';
+import { DEFAULT_IDENTIFIER_OPTIONS, describeIdentifierRenames, describeRenameReasons, findIdentifierNotes, formatRenamedName } from './identifiers';
+import { scoreConversion } from './confidence';
 
 // Enhanced AI-based code conversion with comprehensive Sybase to Oracle rules
 export const convertSybaseToOracle = async (
   file: CodeFile,
   aiModel: string = 'default',
   customPrompt?: string,
-  skipExplanation: boolean = true
+  skipExplanation: boolean = true,
+  options: ConversionOptions = {}
 ): Promise<ConversionResult> => {
+  const {
+    signal, onProgress, dependencies = [],
+    identity = DEFAULT_IDENTITY_OPTIONS, tempTables = DEFAULT_TEMP_TABLE_OPTIONS, resultSets = DEFAULT_RESULT_SET_OPTIONS,
+    identifiers = DEFAULT_IDENTIFIER_OPTIONS, errorNumbers = DEFAULT_ERROR_NUMBER_OPTIONS
+  } = options;
+  // Project rules, then sp_addtype user types defined in this file
+  const typeRules = mergeTypeRules(options.typeRules ?? [], extractUserDefinedTypes(file.content));
   console.log(`[CONVERT] Starting conversion for file: ${file.name} with model: ${aiModel}`);
   const startTime = Date.now();
 
-  // Extract data type mappings from original code
-  const dataTypeMapping = extractDataTypeMappings(file.content);
-
-  // Analyze code complexity before conversion
-  const originalComplexity = analyzeCodeComplexity(file.content);
-
-  // Use custom prompt if provided, otherwise use default
-  const prompt = customPrompt && customPrompt.trim().length > 0
-    ? `${customPrompt}\n\nSybase code:\n${file.content}`
-    : `Convert the following Sybase SQL code to Oracle PL/SQL. Ensure 100% accuracy and best practices. Output only the converted Oracle code.\n\nSybase code:\n${file.content}`;
-  const model = genAI.getGenerativeModel({ model: "gemini-2.5-pro" });
-  let convertedCode = '';
-  try {
-    const result = await model.generateContent(prompt);
-    const response = await result.response;
-    convertedCode = response.text().replace(/^```[a-zA-Z]*|```$/g, '').trim();
-  } catch (e) {
-    console.error(`[CONVERT] Error converting file: ${file.name}`, e);
-    throw new Error(`Conversion failed for file: ${file.name}`);
+  // Large scripts are converted object by object and reassembled in source order
+  const chunks = splitIntoChunks(file.content);
+  const chunked = chunks.length > 1;
+  if (chunked) console.log(`[CONVERT] Split ${file.name} into ${chunks.length} chunks`);
+
+  // A caller-supplied prompt replaces the template's instructions for this call only
+  const custom = Boolean(customPrompt?.trim());
+  const template = custom
+    ? createCustomPromptTemplate(file.type, customPrompt!)
+    : options.promptTemplate ?? getBuiltInPromptTemplate(file.type);
+  const fileContext: FileContext = {
+    template,
+    fileName: file.name,
+    objectType: file.type,
+    typeMappings: buildTypeMappingSection(typeRules),
+    dependencies: buildDependencySection(dependencies),
+    examples: formatTranslationExamples(options.examples ?? []),
+    typeRules,
+    identity,
+    tempTables,
+    resultSets,
+    identifiers,
+    errorNumbers,
+  };
+  let provider: AIProvider | null = null;
+  const outputs: ChunkOutput[] = [];
+  // Live progress: finished chunks plus whatever the model has streamed for the current one
+  let assembled = '';
+  let tokenCount = 0;
+  const reportProgress = (chunkIndex: number, partial: string) => onProgress?.({
+    fileId: file.id,
+    partialCode: assembled && partial ? `${assembled}\n\n${partial}` : assembled || partial,
+    tokenCount,
+    startedAt: startTime,
+    chunkIndex,
+    chunkCount: chunks.length,
+  });
+
+  for (const chunk of chunks) {
+    signal?.throwIfAborted();
+    let partial = '';
+    const onToken = onProgress && ((delta: string) => {
+      partial += delta;
+      tokenCount += estimateTokens(delta);
+      reportProgress(chunk.index, partial);
+    });
+    // A retried request streams from the start again
+    const onRetry = () => {
+      tokenCount -= estimateTokens(partial);
+      partial = '';
+      reportProgress(chunk.index, partial);
+    };
+    try {
+      const output = await convertChunk(chunk, chunks.length, aiModel, fileContext, { signal, onToken, onRetry });
+      provider = output.provider ?? provider;
+      outputs.push(output);
+    } catch (e) {
+      // Cancellation ends the whole conversion, never just one chunk
+      if (signal?.aborted) throw e;
+      console.error(`[CONVERT] Error converting ${chunked ? `chunk ${chunk.index + 1} of ` : ''}file: ${file.name}`, e);
+      if (!chunked) throw new Error(`Conversion failed for file: ${file.name}: ${e instanceof Error ? e.message : String(e)}`);
+      // Keep the other chunks; the gap is reported below
+      outputs.push({
+        code: `-- Chunk ${chunk.index + 1} (source lines ${chunk.startLine}-${chunk.endLine}) failed to convert`,
+        ruleResult: null,
+        provider: null,
+        error: e instanceof Error ? e.message : String(e),
+      });
+    }
+    assembled = outputs.map(output => output.code).join('\n\n');
+    reportProgress(chunk.index, '');
   }
+  const convertedCode = assembled;
 
   const conversionTime = Date.now() - startTime;
+  const { dataTypeMapping, performanceMetrics, issues } = evaluateConversion(file, convertedCode, conversionTime, fileContext);
 
-  // Analyze converted code complexity
-  const convertedComplexity = analyzeCodeComplexity(convertedCode);
+  let outputLine = 1;
+  outputs.forEach((output, i) => {
+    const chunk = chunks[i];
+    const lineNumber = outputLine;
+    outputLine += output.code.split('\n').length + 1;
+    const where = chunked ? ` in chunk ${i + 1} of ${chunks.length} (source lines ${chunk.startLine}-${chunk.endLine})` : '';
 
-  // Generate quantitative performance analysis
-  const performanceMetrics = generatePerformanceMetrics(
-    originalComplexity,
-    convertedComplexity,
-    conversionTime,
-    file.content,
-    convertedCode
-  );
+    if (output.error) {
+      issues.push({
+        id: uuidv4(),
+        lineNumber,
+        description: `Chunk ${i + 1} of ${chunks.length} (source lines ${chunk.startLine}-${chunk.endLine}) failed to convert: ${output.error}`,
+        severity: 'error',
+        originalCode: chunk.content,
+        suggestedFix: 'Convert the file again or convert these objects separately',
+        category: 'chunking'
+      });
+      return;
+    }
 
-  // Generate issues based on quantitative analysis
-  const issues: ConversionIssue[] = generateQuantitativeIssues(
-    originalComplexity,
-    convertedComplexity,
-    file.content,
-    convertedCode
-  );
+    // Rules-only conversions that left constructs behind need manual attention
+    if (!output.provider && output.ruleResult) {
+      output.ruleResult.unhandledConstructs.forEach(construct => {
+        issues.push({
+          id: uuidv4(),
+          lineNumber,
+          description: `Not converted by the rule engine${where}: ${construct}. Convert manually or re-run with an AI model.`,
+          severity: 'warning',
+          originalCode: construct,
+          suggestedFix: 'Select an AI model and convert again'
+        });
+      });
+    }
+
+    // Truncated or incomplete model output
+    if (output.provider) {
+      detectChunkProblems(chunk, output.code).forEach(problem => {
+        issues.push({
+          id: uuidv4(),
+          lineNumber,
+          description: chunked
+            ? `Chunk ${i + 1} of ${chunks.length} (source lines ${chunk.startLine}-${chunk.endLine}): ${problem.message}`
+            : `Converted output: ${problem.message}`,
+          severity: problem.severity,
+          originalCode: chunk.content,
+          suggestedFix: 'Convert again; if it keeps happening lower VITE_MAX_CHUNK_CHARS',
+          category: 'chunking'
+        });
+      });
+    }
+
+    if (chunk.oversized) {
+      issues.push({
+        id: uuidv4(),
+        lineNumber,
+        description: `Source lines ${chunk.startLine}-${chunk.endLine} form a single batch larger than the chunk size and were sent in one prompt`,
+        severity: 'warning',
+        originalCode: chunk.content.split('\n')[0],
+        suggestedFix: 'Add "go" separators between objects so the script can be split',
+        category: 'chunking'
+      });
+    }
+  });
 
   // Optionally skip AI explanation for speed
   let explanations: string[] = [];
-  if (!skipExplanation) {
+  const appliedRules = Array.from(new Set(outputs.flatMap(output => output.ruleResult?.appliedRules ?? [])));
+  if (!provider) {
+    explanations = [`Converted by deterministic rules: ${appliedRules.join(', ') || 'no changes required'}.`];
+  } else if (chunked) {
+    explanations = [`Converted in ${chunks.length} chunks split on "go" batches; each chunk was sent with the table definitions it references.`];
+  } else if (!skipExplanation) {
     try {
       const explanationPrompt = `Explain the main changes and rationale for converting the following Sybase SQL code to Oracle PL/SQL. Highlight any complex rewrites, data type changes, and best practices applied.\n\nSybase code:\n${file.content}\n\nOracle code:\n${convertedCode}`;
-      const explanationResult = await model.generateContent(explanationPrompt);
-      const explanationResponse = await explanationResult.response;
-      const explanationText = explanationResponse.text().replace(/^```[a-zA-Z]*|```$/g, '').trim();
-      explanations = [explanationText];
+      explanations = [stripCodeFences(await provider.generate(explanationPrompt, { signal }))];
     } catch (e) {
+      if (signal?.aborted) throw e;
       explanations = ["Explanation not available due to an error."];
     }
   }
 
-  console.log(`[CONVERT] Success for file: ${file.name} in ${conversionTime}ms`);
+  const aiProvider = provider ? provider.id : RULES_MODEL_ID;
+  const modelUsed = provider ? provider.model : RULES_ENGINE_VERSION;
+  console.log(`[CONVERT] Success for file: ${file.name} in ${conversionTime}ms using ${aiProvider}:${modelUsed}`);
   return {
     id: uuidv4(),
     originalFile: file,
@@ -81,119 +210,549 @@ export const convertSybaseToOracle = async (
     issues,
     dataTypeMapping,
     performance: performanceMetrics,
-    status: issues.some(i => i.severity === 'error') ? 'error' : 
-            issues.length > 0 ? 'warning' : 'success',
+    status: getResultStatus(issues),
     explanations,
+    aiProvider,
+    aiModel: modelUsed,
+    promptTemplate: provider ? getPromptTemplateRef(template, custom) : undefined,
+    sourceMap: buildSourceMap(file.content, convertedCode),
+    confidence: scoreConversion(file.content, convertedCode, issues),
+  };
+};
+
+interface ChunkOutput {
+  code: string;
+  ruleResult: RuleConversionResult | null;
+  provider: AIProvider | null; // null when the rule engine produced the code
+  error?: string;
+}
+
+// Prompt template and context shared by every chunk of a file
+interface FileContext {
+  template: PromptTemplate;
+  fileName: string;
+  objectType: CodeFile['type'];
+  typeMappings: string; // Prompt sections, empty when there is nothing to say
+  dependencies: string;
+  examples: string;
+  typeRules: DataTypeRule[];
+  identity: IdentityOptions;
+  tempTables: TempTableOptions;
+  resultSets: ResultSetOptions;
+  identifiers: IdentifierOptions;
+  errorNumbers: ErrorNumberOptions;
+}
+
+// Convert one chunk: deterministic rule pre-pass, then the AI for whatever the rules could not finish
+const convertChunk = async (
+  chunk: ConversionChunk,
+  chunkCount: number,
+  aiModel: string,
+  fileContext: FileContext,
+  generateOptions: GenerateOptions
+): Promise<ChunkOutput> => {
+  // Fully handled chunks never reach the AI
+  const ruleResult = convertWithRules(chunk.content, fileContext);
+  if (isRulesOnlyModel(aiModel) || ruleResult.complete) {
+    return { code: ruleResult.code, ruleResult, provider: null };
+  }
+
+  // Hand the partially converted code to the AI so it only has to finish the hard parts
+  const sourceSection = ruleResult.appliedRules.length > 0
+    ? `The Sybase code below has already been partially converted by deterministic rules (${ruleResult.appliedRules.join(', ')}). Keep those conversions and finish the remaining constructs: ${ruleResult.unhandledConstructs.join(', ')}.\n\nSybase code:\n${ruleResult.code}`
+    : `Sybase code:\n${chunk.content}`;
+  const chunkContext = chunkCount > 1
+    ? `This is part ${chunk.index + 1} of ${chunkCount} of a larger script (source lines ${chunk.startLine}-${chunk.endLine}). Convert only this part.\n\n${chunk.context ? `Referenced table definitions (context only, do not output):\n${chunk.context}\n\n` : ''}`
+    : '';
+
+  const prompt = renderPromptTemplate(fileContext.template.content, {
+    source: sourceSection,
+    typeMappings: fileContext.typeMappings,
+    identity: buildIdentitySection(chunk.content, fileContext.identity),
+    tempTables: buildTempTableSection(chunk.content, fileContext.tempTables, fileContext.typeRules),
+    resultSets: buildResultSetSection(chunk.content, fileContext.resultSets),
+    triggers: fileContext.objectType === 'trigger' ? buildTriggerSection(chunk.content, fileContext.errorNumbers) : '',
+    renames: buildRenameSection(chunk.content, fileContext.identifiers),
+    errorNumbers: buildErrorNumberSection(chunk.content, fileContext.errorNumbers),
+    dependencies: fileContext.dependencies,
+    examples: fileContext.examples,
+    chunkContext,
+    fileName: fileContext.fileName,
+    objectType: fileContext.objectType,
+  });
+  const provider = getAIProvider(aiModel);
+  // Whatever codes the model chose, the application catches the ones in the project's error map
+  const code = applyErrorNumbers(chunk.content, stripCodeFences(await provider.generate(prompt, generateOptions)), fileContext.errorNumbers);
+  return { code, ruleResult, provider };
+};
+
+const MAX_DEPENDENCY_CONTEXT_CHARS = 6000;
+
+const buildTypeMappingSection = (typeRules: DataTypeRule[]): string => {
+  const ruleLines = describeTypeRules(typeRules);
+  return ruleLines.length > 0 ? `Mandatory data type mappings (project standard; use these instead of the usual defaults):\n${ruleLines.join('\n')}\n\n` : '';
+};
+
+const buildIdentitySection = (code: string, identity: IdentityOptions): string => {
+  const identityLines = describeIdentityConversion(code, identity);
+  return identityLines.length > 0 ? `IDENTITY columns and @@identity (project standard, applied the same way in every file):\n${identityLines.join('\n')}\n\n` : '';
+};
+
+const buildTempTableSection = (code: string, tempTables: TempTableOptions, typeRules: DataTypeRule[]): string => {
+  const tempTableLines = describeTempTableConversion(code, tempTables, typeRules);
+  return tempTableLines.length > 0 ? `#temp tables (project standard, applied the same way in every file):\n${tempTableLines.join('\n')}\n\n` : '';
+};
+
+const buildResultSetSection = (code: string, resultSets: ResultSetOptions): string => {
+  const resultSetLines = describeResultSetConversion(code, resultSets);
+  return resultSetLines.length > 0 ? `Result sets (project standard, applied the same way in every file):\n${resultSetLines.join('\n')}\n\n` : '';
+};
+
+const buildTriggerSection = (code: string, errorNumbers: ErrorNumberOptions): string => {
+  const triggerLines = describeTriggerConversion(code, errorNumbers);
+  return triggerLines.length > 0 ? `Triggers (Oracle form chosen from how each trigger uses inserted and deleted):\n${triggerLines.join('\n')}\n\n` : '';
+};
+
+const buildErrorNumberSection = (code: string, errorNumbers: ErrorNumberOptions): string => {
+  const errorLines = describeErrorNumbers(code, errorNumbers);
+  return errorLines.length > 0 ? `Error numbers (project-wide error map; the application catches these codes, so raise exactly these):\n${errorLines.join('\n')}\n\n` : '';
+};
+
+const buildRenameSection = (code: string, identifiers: IdentifierOptions): string => {
+  const renameLines = describeIdentifierRenames(code, identifiers);
+  return renameLines.length > 0 ? `Renamed identifiers (project-wide rename map; use the Oracle names everywhere, including calls and dynamic SQL):\n${renameLines.join('\n')}\n\n` : '';
+};
+
+const buildDependencySection = (dependencies: ConvertedDependency[]): string => {
+  const dependencyContext = buildDependencyContext(dependencies);
+  return dependencyContext ? `Already converted Oracle definitions of objects this code references (context only, do not output; use their column types and signatures):\n${dependencyContext}\n\n` : '';
+};
+
+// Tables and views are passed whole; routines only need their signature (everything before IS/AS)
+const buildDependencyContext = (dependencies: ConvertedDependency[]): string => {
+  let context = '';
+  dependencies.forEach(dependency => {
+    const header = dependency.code.replace(/--[^\n]*/g, '').split(/\b(?:IS|AS)\b/i)[0];
+    const code = (dependency.kind === 'table' || dependency.kind === 'view' ? dependency.code : `${header.trim()} ...`).trim();
+    if (context.length + code.length <= MAX_DEPENDENCY_CONTEXT_CHARS) context += `${context ? '\n\n' : ''}${code}`;
+  });
+  return context;
+};
+
+// Rough output token count for progress display (about four characters per token for code)
+const estimateTokens = (text: string) => Math.ceil(text.length / 4);
+
+// Disagreements reported per model; beyond this the outputs differ throughout and one issue says so
+const MAX_CONSENSUS_ISSUES = 20;
+
+// Multi-model consensus: convert the file with every model in parallel. The first model that succeeds
+// provides the result; each region where another model's output differs becomes a 'consensus' issue.
+export const convertWithConsensus = async (
+  file: CodeFile,
+  aiModels: string[],
+  customPrompt?: string,
+  skipExplanation: boolean = true,
+  options: ConversionOptions = {}
+): Promise<ConversionResult> => {
+  console.log(`[CONSENSUS] Converting ${file.name} with ${aiModels.join(', ')}`);
+  const outcomes = await Promise.allSettled(aiModels.map((aiModel, index) =>
+    // Only the primary conversion streams progress and is explained
+    convertSybaseToOracle(file, aiModel, customPrompt, index === 0 ? skipExplanation : true, {
+      ...options,
+      onProgress: index === 0 ? options.onProgress : undefined,
+    })
+  ));
+  options.signal?.throwIfAborted();
+
+  const primaryIndex = outcomes.findIndex(outcome => outcome.status === 'fulfilled');
+  if (primaryIndex < 0) throw (outcomes[0] as PromiseRejectedResult).reason;
+  const primary = (outcomes[primaryIndex] as PromiseFulfilledResult<ConversionResult>).value;
+
+  const issues: ConversionIssue[] = [...primary.issues];
+  const alternatives: ConsensusAlternative[] = [];
+  outcomes.forEach((outcome, index) => {
+    if (index === primaryIndex) return;
+    const requestedModel = aiModels[index];
+    if (outcome.status === 'rejected') {
+      const error = outcome.reason instanceof Error ? outcome.reason.message : String(outcome.reason);
+      alternatives.push({ requestedModel, convertedCode: '', agreement: 0, disagreements: 0, error });
+      issues.push({
+        id: uuidv4(),
+        description: `Consensus model ${requestedModel} failed to convert the file: ${error}`,
+        severity: 'info',
+        category: 'consensus'
+      });
+      return;
+    }
+
+    const alternative = outcome.value;
+    const label = `${alternative.aiProvider}:${alternative.aiModel}`;
+    const { agreement, regions } = compareConversions(primary.convertedCode, alternative.convertedCode);
+    alternatives.push({
+      requestedModel,
+      aiProvider: alternative.aiProvider,
+      aiModel: alternative.aiModel,
+      convertedCode: alternative.convertedCode,
+      agreement,
+      disagreements: regions.length,
+    });
+    regions.slice(0, MAX_CONSENSUS_ISSUES).forEach(region => {
+      issues.push({
+        id: uuidv4(),
+        lineNumber: region.line,
+        description: !region.primaryCode
+          ? `${label} has statements here that this conversion lacks`
+          : !region.alternativeCode
+            ? `${label} has no equivalent of these statements`
+            : `${label} converted these statements differently`,
+        severity: 'warning',
+        originalCode: region.primaryCode || undefined,
+        suggestedFix: region.alternativeCode ? `${label} produced:\n${region.alternativeCode}` : 'Check whether these statements are needed',
+        category: 'consensus'
+      });
+    });
+    if (regions.length > MAX_CONSENSUS_ISSUES) {
+      issues.push({
+        id: uuidv4(),
+        description: `${label} differs in ${regions.length - MAX_CONSENSUS_ISSUES} more places (${agreement}% of statements agree)`,
+        severity: 'warning',
+        category: 'consensus'
+      });
+    }
+  });
+
+  const compared = alternatives.filter(alternative => !alternative.error);
+  const agreement = compared.length > 0 ? Math.min(...compared.map(alternative => alternative.agreement)) : 100;
+  console.log(`[CONSENSUS] ${file.name}: ${agreement}% agreement across ${compared.length + 1} models`);
+  const consensus = { agreement, alternatives };
+  return {
+    ...primary,
+    issues,
+    status: getResultStatus(issues),
+    consensus,
+    confidence: scoreConversion(file.content, primary.convertedCode, issues, consensus),
   };
 };
 
-// Convert multiple files in parallel with support for customPrompt and skipExplanation
+// Convert multiple files through the shared job queue with support for customPrompt and skipExplanation
 export const convertMultipleFiles = async (
   files: CodeFile[],
   aiModel: string = 'default',
   customPrompt?: string,
   skipExplanation: boolean = true
 ): Promise<ConversionResult[]> => {
-  // Map each file to a conversion promise using the improved convertSybaseToOracle
+  // The queue caps concurrency; provider calls are rate limited and retried underneath
   const conversionPromises = files.map(file =>
-    convertSybaseToOracle(file, aiModel, customPrompt, skipExplanation)
+    conversionQueue.add(() => convertSybaseToOracle(file, aiModel, customPrompt, skipExplanation))
   );
   return Promise.all(conversionPromises);
 };
 
-// Helper: extract data type mappings from code
-const extractDataTypeMappings = (code: string): DataTypeMapping[] => {
+// Rounds of targeted repair run by repairConversion unless the caller asks otherwise
+export const DEFAULT_REPAIR_ROUNDS = Number(import.meta.env.VITE_MAX_REPAIR_ROUNDS) || 3;
+
+// Iterative self-repair: feed the validation errors of the converted code back to the model
+// until it validates, a round leaves no fewer errors or `maxRounds` is reached. Each round works on
+// the best code so far and every attempt is recorded on the result. Aborting `signal` cancels the repair.
+export const repairConversion = async (
+  file: CodeFile,
+  convertedCode: string,
+  aiModel: string = 'default',
+  options: RepairOptions = {}
+): Promise<ConversionResult> => {
+  const { signal, maxRounds = DEFAULT_REPAIR_ROUNDS, errorNumbers = DEFAULT_ERROR_NUMBER_OPTIONS } = options;
+  const typeRules = mergeTypeRules(options.typeRules ?? [], extractUserDefinedTypes(file.content));
+  console.log(`[REPAIR] Starting repair for file: ${file.name} (max ${maxRounds} rounds)`);
+  const startTime = Date.now();
+  const repairAttempts: RepairAttempt[] = [];
+  let bestCode = convertedCode;
+  let bestErrors = validateConvertedCode(convertedCode);
+
+  // The rule engine cannot take feedback; only AI models are asked to repair
+  const provider = isRulesOnlyModel(aiModel) ? null : getAIProvider(aiModel);
+
+  for (let round = 1; provider && round <= maxRounds && bestErrors.length > 0; round++) {
+    const prompt = buildRepairPrompt(file, bestCode, bestErrors, typeRules);
+    const timestamp = new Date().toISOString();
+    let output: string;
+    try {
+      output = applyErrorNumbers(file.content, stripCodeFences(await provider.generate(prompt, { signal })), errorNumbers);
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      console.error(`[REPAIR] Round ${round} failed for file: ${file.name}`, e);
+      repairAttempts.push({ round, prompt, output: '', issues: bestErrors, timestamp, error: e instanceof Error ? e.message : String(e) });
+      break;
+    }
+    const errors = validateConvertedCode(output);
+    repairAttempts.push({ round, prompt, output, issues: errors, timestamp });
+    console.log(`[REPAIR] Round ${round} for file: ${file.name} left ${errors.length} errors`);
+    // The next round would send the same prompt again
+    if (errors.length >= bestErrors.length) {
+      console.log(`[REPAIR] Round ${round} made no progress for file: ${file.name}, stopping`);
+      break;
+    }
+    bestCode = output;
+    bestErrors = errors;
+  }
+
+  const { dataTypeMapping, performanceMetrics, issues } = evaluateConversion(file, bestCode, Date.now() - startTime, { ...options, typeRules });
+  return {
+    id: uuidv4(),
+    originalFile: file,
+    convertedCode: bestCode,
+    aiGeneratedCode: '',
+    issues,
+    dataTypeMapping,
+    performance: performanceMetrics,
+    status: getResultStatus(issues),
+    explanations: [],
+    aiProvider: provider ? provider.id : RULES_MODEL_ID,
+    aiModel: provider ? provider.model : RULES_ENGINE_VERSION,
+    repairAttempts,
+    sourceMap: buildSourceMap(file.content, bestCode),
+    confidence: scoreConversion(file.content, bestCode, issues),
+  };
+};
+
+const buildRepairPrompt = (file: CodeFile, convertedCode: string, errors: ConversionIssue[], typeRules: DataTypeRule[]): string => {
+  const problems = errors
+    .map(e => `- Line ${e.lineNumber}: ${e.description}${e.suggestedFix ? ` (${e.suggestedFix})` : ''}`)
+    .join('\n');
+  const ruleLines = describeTypeRules(typeRules);
+  const rules = ruleLines.length > 0 ? `Keep these mandatory data type mappings:\n${ruleLines.join('\n')}\n\n` : '';
+  return `The Oracle PL/SQL below was converted from Sybase but fails validation with these errors:\n${problems}\n\nFix these errors without changing anything else. Output only the corrected Oracle code.\n\n${rules}Original Sybase source:\n${file.content}\n\nOracle code:\n${convertedCode}`;
+};
+
+const getResultStatus = (issues: ConversionIssue[]): ConversionResult['status'] =>
+  issues.some(i => i.severity === 'error') ? 'error' :
+  issues.length > 0 ? 'warning' : 'success';
+
+// Analyze converted code against its source: data types, metrics and issues (including PL/SQL syntax errors)
+const evaluateConversion = (
+  file: CodeFile,
+  convertedCode: string,
+  conversionTime: number,
+  options: RuleOptions
+) => {
+  const {
+    typeRules = [], identity = DEFAULT_IDENTITY_OPTIONS, tempTables = DEFAULT_TEMP_TABLE_OPTIONS,
+    resultSets = DEFAULT_RESULT_SET_OPTIONS, identifiers = DEFAULT_IDENTIFIER_OPTIONS, errorNumbers = DEFAULT_ERROR_NUMBER_OPTIONS
+  } = options;
+  // Parse once; the analyzers work on the AST rather than raw text
+  const originalScript = parseSybase(file.content);
+
+  // Extract data type mappings from original code
+  const dataTypeMapping = extractDataTypeMappings(originalScript, createTypeMapper(typeRules));
+
+  // Analyze code complexity before and after conversion (the tokenizer handles PL/SQL as well)
+  const originalComplexity = analyzeCodeComplexity(originalScript);
+  const convertedScript = parseSybase(convertedCode);
+  const convertedComplexity = analyzeCodeComplexity(convertedScript);
+
+  // Generate quantitative performance analysis
+  const performanceMetrics = generatePerformanceMetrics(
+    originalComplexity,
+    convertedComplexity,
+    conversionTime,
+    originalScript,
+    convertedScript
+  );
+
+  // Generate issues based on quantitative analysis
+  const issues: ConversionIssue[] = generateQuantitativeIssues(
+    originalComplexity,
+    convertedComplexity,
+    file.content,
+    convertedCode
+  );
+
+  // Syntax-check the converted code so output that won't compile is caught before review
+  issues.push(...validateConvertedCode(convertedCode));
+  issues.push(...findIdentityIssues(file.content, identity));
+  issues.push(...findTempTableIssues(file.content, tempTables));
+  issues.push(...findTransactionIssues(file.content, convertedCode));
+  issues.push(...findEmptyStringIssues(file.content, convertedCode));
+  issues.push(...findDateFunctionIssues(file.content, convertedCode, typeRules));
+  issues.push(...findResultSetIssues(file.content, convertedCode, resultSets));
+  if (file.type === 'trigger') issues.push(...findTriggerIssues(file.content, convertedCode, errorNumbers));
+  issues.push(...findIdentifierIssues(file.content, convertedCode, identifiers));
+  issues.push(...findErrorNumberIssues(file.content, convertedCode, errorNumbers));
+
+  return { dataTypeMapping, performanceMetrics, issues };
+};
+
+// Renamed identifiers, names differing only by case and names Oracle still rejects
+const findIdentifierIssues = (sourceCode: string, convertedCode: string, identifiers: IdentifierOptions): ConversionIssue[] =>
+  findIdentifierNotes(sourceCode, convertedCode, identifiers).map(note => ({
+    id: uuidv4(),
+    description: note.description,
+    severity: note.severity,
+    category: 'naming',
+    originalCode: note.code,
+    suggestedFix: note.suggestedFix
+  }));
+
+// Raises without an Oracle code, renumbered errors and converted code raising another code than the map
+const findErrorNumberIssues = (sourceCode: string, convertedCode: string, errorNumbers: ErrorNumberOptions): ConversionIssue[] =>
+  findErrorNumberNotes(sourceCode, convertedCode, errorNumbers).map(note => ({
+    id: uuidv4(),
+    lineNumber: note.targetLine,
+    description: note.description,
+    severity: note.severity,
+    category: 'error-number',
+    originalCode: note.code,
+    suggestedFix: note.suggestedFix
+  }));
+
+// Trigger form, mutating table access and rollback trigger checked against the converted trigger
+const findTriggerIssues = (sourceCode: string, convertedCode: string, errorNumbers: ErrorNumberOptions): ConversionIssue[] =>
+  findTriggerNotes(sourceCode, convertedCode, errorNumbers).map(note => ({
+    id: uuidv4(),
+    lineNumber: note.targetLine,
+    description: note.description,
+    severity: note.severity,
+    category: 'trigger',
+    originalCode: note.code,
+    suggestedFix: note.suggestedFix
+  }));
+
+// Result set procedures whose signature changed or whose result sets were lost
+const findResultSetIssues = (sourceCode: string, convertedCode: string, resultSets: ResultSetOptions): ConversionIssue[] =>
+  findResultSetNotes(sourceCode, convertedCode, resultSets).map(note => ({
+    id: uuidv4(),
+    description: note.description,
+    severity: note.severity,
+    category: 'result-set',
+    originalCode: note.procedure,
+    suggestedFix: note.suggestedFix
+  }));
+
+// @@error, @@rowcount and transaction control whose semantics did not survive the conversion
+const findTransactionIssues = (sourceCode: string, convertedCode: string): ConversionIssue[] =>
+  findTransactionNotes(sourceCode, convertedCode).map(note => ({
+    id: uuidv4(),
+    lineNumber: note.targetLine,
+    description: note.description,
+    severity: note.severity,
+    category: note.category,
+    originalCode: note.code,
+    suggestedFix: note.suggestedFix
+  }));
+
+// convert() styles and date functions translated differently from the date function library
+const findDateFunctionIssues = (sourceCode: string, convertedCode: string, typeRules: DataTypeRule[]): ConversionIssue[] =>
+  findDateFunctionNotes(sourceCode, convertedCode, createTypeMapper(typeRules)).map(note => ({
+    id: uuidv4(),
+    lineNumber: note.targetLine,
+    description: note.description,
+    severity: note.severity,
+    category: 'date-function',
+    originalCode: note.code,
+    suggestedFix: note.suggestedFix
+  }));
+
+// Comparisons, lengths and values that change meaning now that '' is NULL
+const findEmptyStringIssues = (sourceCode: string, convertedCode: string): ConversionIssue[] =>
+  findEmptyStringNotes(sourceCode, convertedCode).map(note => ({
+    id: uuidv4(),
+    lineNumber: note.targetLine,
+    description: note.description,
+    severity: note.severity,
+    category: 'semantics',
+    originalCode: note.code,
+    suggestedFix: note.suggestedFix
+  }));
+
+// Semantic differences between the #temp tables and what replaces them
+const findTempTableIssues = (sourceCode: string, tempTables: TempTableOptions): ConversionIssue[] =>
+  findTempTableNotes(sourceCode, tempTables).map(note => ({
+    id: uuidv4(),
+    description: note.description,
+    severity: note.severity,
+    category: 'temp-table',
+    originalCode: note.table.name,
+    suggestedFix: note.suggestedFix
+  }));
+
+// @@identity reads that cannot be rewritten mechanically, whoever converted the code
+const findIdentityIssues = (sourceCode: string, identity: IdentityOptions): ConversionIssue[] =>
+  findIdentityUsages(sourceCode, identity)
+    .filter(usage => usage.rewrite === 'unresolved')
+    .map(usage => ({
+      id: uuidv4(),
+      description: `@@identity at source line ${usage.line} has no direct Oracle equivalent: ${usage.detail}`,
+      severity: 'warning',
+      category: 'identity',
+      originalCode: usage.code,
+      suggestedFix: identity.strategy === 'identity'
+        ? 'Assign @@identity to a variable right after a single-row INSERT, or target Oracle 11g to use sequences'
+        : 'Insert into a table with an IDENTITY column before reading @@identity'
+    }));
+
+// PL/SQL syntax errors as error-level issues with line numbers
+const validateConvertedCode = (convertedCode: string): ConversionIssue[] => {
+  const convertedLines = convertedCode.split('\n');
+  return validatePlsql(convertedCode).map(syntaxError => ({
+    id: uuidv4(),
+    lineNumber: syntaxError.line,
+    description: syntaxError.message,
+    severity: 'error',
+    category: 'syntax',
+    originalCode: convertedLines[syntaxError.line - 1]?.trim(),
+    suggestedFix: syntaxError.suggestedFix
+  }));
+};
+
+// Helper: extract data type mappings from the types declared in the code
+// (columns, parameters, variables) - keywords in comments, strings or column names are ignored
+const extractDataTypeMappings = (script: SqlScript, mapType: TypeMapper): DataTypeMapping[] => {
   const mappings: DataTypeMapping[] = [];
-  const sybaseTypes = [
-    // Numeric types
-    { pattern: /\bint\b/gi, oracle: 'NUMBER(10)', desc: 'Integer type' },
-    { pattern: /\bsmallint\b/gi, oracle: 'NUMBER(5)', desc: 'Small integer type' },
-    { pattern: /\bbigint\b/gi, oracle: 'NUMBER(19)', desc: 'Big integer type' },
-    { pattern: /\btinyint\b/gi, oracle: 'NUMBER(3)', desc: 'Tiny integer type' },
-    { pattern: /\bdecimal\s*\(\s*(\d+)\s*,\s*(\d+)\s*\)/gi, oracle: 'NUMBER($1,$2)', desc: 'Decimal with precision and scale' },
-    { pattern: /\bnumeric\s*\(\s*(\d+)\s*,\s*(\d+)\s*\)/gi, oracle: 'NUMBER($1,$2)', desc: 'Numeric with precision and scale' },
-    { pattern: /\bfloat\b/gi, oracle: 'BINARY_FLOAT', desc: 'Floating point number' },
-    { pattern: /\breal\b/gi, oracle: 'BINARY_FLOAT', desc: 'Real number' },
-    { pattern: /\bmoney\b/gi, oracle: 'NUMBER(19,4)', desc: 'Money type' },
-    { pattern: /\bsmallmoney\b/gi, oracle: 'NUMBER(10,4)', desc: 'Small money type' },
-    
-    // Character types
-    { pattern: /\bchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'CHAR($1)', desc: 'Fixed-length character string' },
-    { pattern: /\bvarchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'VARCHAR2($1)', desc: 'Variable-length character string' },
-    { pattern: /\bnchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'NCHAR($1)', desc: 'Fixed-length Unicode string' },
-    { pattern: /\bnvarchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'NVARCHAR2($1)', desc: 'Variable-length Unicode string' },
-    { pattern: /\btext\b/gi, oracle: 'CLOB', desc: 'Large text data' },
-    { pattern: /\bntext\b/gi, oracle: 'NCLOB', desc: 'Large Unicode text data' },
-    
-    // Binary types
-    { pattern: /\bbinary\s*\(\s*(\d+)\s*\)/gi, oracle: 'RAW($1)', desc: 'Fixed-length binary data' },
-    { pattern: /\bvarbinary\s*\(\s*(\d+)\s*\)/gi, oracle: 'RAW($1)', desc: 'Variable-length binary data' },
-    { pattern: /\bimage\b/gi, oracle: 'BLOB', desc: 'Large binary data' },
-    
-    // Date/Time types
-    { pattern: /\bdatetime\b/gi, oracle: 'TIMESTAMP', desc: 'Date and time' },
-    { pattern: /\bsmalldatetime\b/gi, oracle: 'TIMESTAMP', desc: 'Small date and time' },
-    { pattern: /\bdate\b/gi, oracle: 'DATE', desc: 'Date only' },
-    { pattern: /\btime\b/gi, oracle: 'TIMESTAMP', desc: 'Time only' },
-    { pattern: /\btimestamp\b/gi, oracle: 'TIMESTAMP', desc: 'Timestamp' },
-    
-    // Boolean type
-    { pattern: /\bbit\b/gi, oracle: 'NUMBER(1)', desc: 'Boolean type (0 or 1)' },
-    
-    // Other types
-    { pattern: /\buniqueidentifier\b/gi, oracle: 'RAW(16)', desc: 'Unique identifier' },
-    { pattern: /\bsql_variant\b/gi, oracle: 'VARCHAR2(4000)', desc: 'SQL variant type' },
-    { pattern: /\bxml\b/gi, oracle: 'XMLTYPE', desc: 'XML data type' }
-  ];
 
   const foundTypes = new Set<string>();
-  
-  sybaseTypes.forEach(({ pattern, oracle, desc }) => {
-    const matches = code.match(pattern);
-    if (matches) {
-      matches.forEach(match => {
-        const sybaseType = match.toLowerCase();
-        if (!foundTypes.has(sybaseType)) {
-          foundTypes.add(sybaseType);
-          
-          // Handle parameterized types
-          let oracleType = oracle;
-          if (match.includes('(')) {
-            const params = match.match(/\(([^)]+)\)/);
-            if (params) {
-              oracleType = oracle.replace(/\$(\d+)/g, (_, index) => {
-                const parts = params[1].split(',').map(p => p.trim());
-                return parts[parseInt(index) - 1] || '255';
-              });
-            }
-          }
-          
-          mappings.push({
-            sybaseType: match,
-            oracleType: oracleType,
-            description: desc
-          });
-        }
-      });
-    }
+
+  collectDataTypes(script).forEach(dataType => {
+    const sybaseType = dataType.text.toLowerCase().replace(/\s+/g, '');
+    if (foundTypes.has(sybaseType)) return;
+    const mapped = mapType(dataType.text);
+    if (!mapped) return;
+    foundTypes.add(sybaseType);
+    mappings.push({
+      sybaseType: dataType.text,
+      oracleType: mapped.oracleType,
+      description: mapped.description
+    });
   });
 
   return mappings;
 };
 
 // Analyze code complexity quantitatively
-const analyzeCodeComplexity = (code: string) => {
+const analyzeCodeComplexity = (script: SqlScript) => {
   // Remove trailing blank lines for consistent line counting
-  const cleanedCode = code.replace(/\n+$/, '');
-  const lines = cleanedCode.split('\n');
-  const totalLines = lines.length;
-  const commentLines = lines.filter(line => line.trim().startsWith('--') || line.trim().startsWith('/*')).length;
-  const emptyLines = lines.filter(line => line.trim() === '').length;
-  const codeLines = totalLines - commentLines - emptyLines;
-  
-  // Calculate cyclomatic complexity (simplified)
-  const controlStructures = (code.match(/\b(if|while|for|case|when|loop)\b/gi) || []).length;
-  const functions = (code.match(/\b(create|procedure|function|trigger)\b/gi) || []).length;
+  const cleanedCode = script.source.replace(/\n+$/, '');
+  const totalLines = cleanedCode.split('\n').length;
+
+  // Classify lines by the tokens on them; comment markers inside strings don't count
+  const codeLineSet = new Set<number>();
+  const commentLineSet = new Set<number>();
+  script.tokens.forEach(token => {
+    const target = token.type === 'comment' ? commentLineSet : codeLineSet;
+    for (let line = token.line; line <= token.endLine; line++) target.add(line);
+  });
+  const codeLines = codeLineSet.size;
+  const commentLines = Array.from(commentLineSet).filter(line => !codeLineSet.has(line)).length;
+  const emptyLines = totalLines - codeLines - commentLines;
+
+  // Calculate cyclomatic complexity (simplified): decision points plus one per routine
+  const words = script.tokens.filter(token => token.type === 'word');
+  const branches = words.filter((token, index) =>
+    ['IF', 'ELSIF', 'CASE', 'WHEN'].includes(token.upper) && words[index - 1]?.upper !== 'END'
+  ).length;
+  const controlStructures = branches + analyzeLoops(script);
+  let functions = 0;
+  walkScript(script, statement => {
+    if (['createProcedure', 'createFunction', 'createTrigger'].includes(statement.kind)) functions++;
+  });
   const complexity = controlStructures + functions + 1;
   
   // Custom maintainability index: more sensitive, not stuck at 100
@@ -221,24 +780,22 @@ const analyzeCodeComplexity = (code: string) => {
   };
 };
 
-// Analyze loops in code
-const analyzeLoops = (code: string) => {
-  const loopPatterns = [
-    /\bwhile\s+/gi,
-    /\bfor\s+/gi,
-    /\bloop\b/gi,
-    /\bcursor\s+for\s+/gi,
-    /\bopen\s+.*\s+for\s+/gi
-  ];
-  
+// Analyze loops in code: T-SQL WHILE plus PL/SQL WHILE/FOR/basic LOOPs.
+// The LOOP keyword that opens a WHILE or FOR loop, and END LOOP, are not counted again.
+const analyzeLoops = (script: SqlScript) => {
+  const words = script.tokens.filter(token => token.type === 'word');
   let totalLoops = 0;
-  loopPatterns.forEach(pattern => {
-    const matches = code.match(pattern);
-    if (matches) {
-      totalLoops += matches.length;
+  let headerOpen = false;
+  words.forEach((token, index) => {
+    if (token.upper === 'WHILE' || (token.upper === 'FOR' && words[index + 2]?.upper === 'IN')) {
+      totalLoops++;
+      headerOpen = true;
+    } else if (token.upper === 'LOOP' && words[index - 1]?.upper !== 'END') {
+      if (headerOpen) headerOpen = false;
+      else totalLoops++;
     }
   });
-  
+
   return totalLoops;
 };
 
@@ -247,8 +804,8 @@ const generatePerformanceMetrics = (
   originalComplexity: any,
   convertedComplexity: any,
   conversionTime: number,
-  originalCode: string,
-  convertedCode: string
+  originalScript: SqlScript,
+  convertedScript: SqlScript
 ) => {
   const improvementPercentage = Math.round(
     ((originalComplexity.maintainabilityIndex - convertedComplexity.maintainabilityIndex) / originalComplexity.maintainabilityIndex) * 100
@@ -260,8 +817,8 @@ const generatePerformanceMetrics = (
   const linesReduced = originalLines - convertedLines;
 
   // Calculate loops reduced
-  const originalLoops = analyzeLoops(originalCode);
-  const convertedLoops = analyzeLoops(convertedCode);
+  const originalLoops = analyzeLoops(originalScript);
+  const convertedLoops = analyzeLoops(convertedScript);
   const loopsReduced = originalLoops - convertedLoops;
 
   // Calculate complexity increase
@@ -367,7 +924,59 @@ const generateQuantitativeIssues = (
   return issues;
 };
 
-export const generateConversionReport = (results: ConversionResult[]): string => {
+const formatSignatureChanges = (changes: SignatureChange[]): string => {
+  if (changes.length === 0) return '- No procedure parameter lists changed\n';
+  return `These procedures have a different parameter list in Oracle; every caller must be changed.\n${changes.map(change => `
+### ${change.procedure} (${change.fileName})
+- Sybase: \`${change.sybaseSignature}\`
+- Oracle: \`${change.oracleSignature}\`
+${change.changes.map(description => `- ${description}`).join('\n')}
+`).join('')}`;
+};
+
+const formatRenames = (identifiers: IdentifierOptions): string => {
+  if (identifiers.renames.length === 0) return `- Every identifier is valid in Oracle (up to ${identifiers.maxLength} characters)\n`;
+  const formatRename = (rename: IdentifierRename) =>
+    `| ${rename.kind} | ${formatRenamedName(rename)} | ${rename.oracleName} | ${describeRenameReasons(rename, identifiers.maxLength)} | ${rename.files.join(', ')} |`;
+  return `These identifiers were renamed in every converted file; application code and dynamic SQL must use the Oracle names.
+
+| Kind | Sybase | Oracle | Reason | Files |
+| --- | --- | --- | --- | --- |
+${identifiers.renames.map(formatRename).join('\n')}
+`;
+};
+
+const formatErrorNumbers = (errorNumbers: ErrorNumberOptions): string => {
+  if (errorNumbers.mappings.length === 0) return '- No raiserror or sp_addmessage error numbers\n';
+  const formatMapping = (mapping: ErrorNumberMapping) =>
+    `| ${mapping.sybaseNumber} | ${formatOracleErrorCode(mapping.oracleNumber)} | ${mapping.message ?? mapping.formats.join('; ')} | ${mapping.files.join(', ')} |`;
+  return `Every converted file raises these codes; the application must catch the Oracle codes instead of the Sybase numbers.
+
+| Sybase | Oracle | Message | Files |
+| --- | --- | --- | --- |
+${errorNumbers.mappings.map(formatMapping).join('\n')}
+`;
+};
+
+const formatPercent = (score: number) => `${Math.round(score * 100)}%`;
+
+// "72% (validity 100%: no syntax errors; size 60%: ...)"
+const formatConfidence = (confidence?: ConfidenceScore): string =>
+  confidence
+    ? `${formatPercent(confidence.score)} (${confidence.factors.map(factor => `${factor.name} ${formatPercent(factor.score)}: ${factor.detail}`).join('; ')})`
+    : 'not scored';
+
+// "85% agreement (gemini-2.5-pro 85%, gpt-4o failed: ...)"
+const formatConsensus = (consensus: ConsensusReport): string =>
+  `${consensus.agreement}% agreement (${consensus.alternatives.map(alternative =>
+    `${alternative.aiModel ?? alternative.requestedModel} ${alternative.error ? `failed: ${alternative.error}` : `${alternative.agreement}%, ${alternative.disagreements} disagreement${alternative.disagreements === 1 ? '' : 's'}`}`
+  ).join('; ')})`;
+
+export const generateConversionReport = (
+  results: ConversionResult[],
+  identifiers: IdentifierOptions = DEFAULT_IDENTIFIER_OPTIONS,
+  errorNumbers: ErrorNumberOptions = DEFAULT_ERROR_NUMBER_OPTIONS
+): string => {
   const successCount = results.filter(r => r.status === 'success').length;
   const warningCount = results.filter(r => r.status === 'warning').length;
   const errorCount = results.filter(r => r.status === 'error').length;
@@ -396,6 +1005,14 @@ export const generateConversionReport = (results: ConversionResult[]): string =>
   const totalConvertedLoops = results.reduce((sum, result) => 
     sum + (result.performance?.convertedLoops || 0), 0
   );
+
+  // Every caller of these procedures has to change
+  const signatureChanges = findSignatureChanges(results);
+
+  const scored = results.filter(result => result.confidence);
+  const averageConfidence = scored.length > 0
+    ? scored.reduce((sum, result) => sum + result.confidence!.score, 0) / scored.length
+    : null;
   
   return `
 # Code Conversion Report
@@ -407,6 +1024,7 @@ Generated: ${new Date().toLocaleString()}
 - Successful: ${successCount}
 - Warnings: ${warningCount}
 - Errors: ${errorCount}
+- Average Confidence: ${averageConfidence === null ? 'not scored' : `${formatPercent(averageConfidence)} over ${scored.length} files`}
 
 ## Performance Metrics
 - Total Lines Reduced: ${totalLinesReduced}
@@ -432,8 +1050,15 @@ ${results.map(result => `
 - Loops Reduced: ${result.performance?.loopsReduced || 0}
 - Conversion Time: ${result.performance?.conversionTimeMs || 0}ms
 - Performance Score: ${result.performance?.performanceScore || 0}/100
-`).join('')}
+- Confidence: ${formatConfidence(result.confidence)}
+${result.consensus ? `- Consensus: ${formatConsensus(result.consensus)}\n` : ''}`).join('')}
 
+## Rename Map
+${formatRenames(identifiers)}
+## Error Number Map
+${formatErrorNumbers(errorNumbers)}
+## Signature Changes
+${formatSignatureChanges(signatureChanges)}
 ## Recommendations
 - Review all converted code for accuracy
 - Test in Oracle environment
@@ -0,0 +1,463 @@
+import { Token, tokenize } from './sybaseParser';
+import { buildSourceMap, findMappedEntries } from './sourceMap';
+import { createTypeMapper, TypeMapper } from './sybaseTypes';
+
+// Deterministic Oracle translations of convert() with date styles, dateadd, datediff, datepart,
+// datename and getutcdate. The rule engine rewrites the source with them; AI output is checked
+// against them statement by statement (located through the source map). Weeks start on Sunday as
+// with the default @@datefirst, and nothing depends on the NLS settings of the Oracle session.
+
+export type DatePart =
+  | 'year' | 'quarter' | 'month' | 'week' | 'day' | 'dayofyear' | 'weekday'
+  | 'hour' | 'minute' | 'second' | 'millisecond' | 'microsecond' | 'nanosecond'
+  | 'calweekofyear' | 'calyearofweek' | 'caldayofweek';
+
+// Names and abbreviations Sybase accepts for each date part
+export const DATE_PARTS: Record<string, DatePart> = {
+  year: 'year', yy: 'year', yyyy: 'year',
+  quarter: 'quarter', qq: 'quarter', q: 'quarter',
+  month: 'month', mm: 'month', m: 'month',
+  week: 'week', wk: 'week', ww: 'week',
+  day: 'day', dd: 'day', d: 'day',
+  dayofyear: 'dayofyear', dy: 'dayofyear', y: 'dayofyear',
+  weekday: 'weekday', dw: 'weekday',
+  hour: 'hour', hh: 'hour',
+  minute: 'minute', mi: 'minute', n: 'minute',
+  second: 'second', ss: 'second', s: 'second',
+  millisecond: 'millisecond', ms: 'millisecond',
+  microsecond: 'microsecond', us: 'microsecond', mcs: 'microsecond',
+  nanosecond: 'nanosecond', ns: 'nanosecond',
+  calweekofyear: 'calweekofyear', cwk: 'calweekofyear',
+  calyearofweek: 'calyearofweek', cyr: 'calyearofweek',
+  caldayofweek: 'caldayofweek', cdw: 'caldayofweek',
+};
+
+export interface DateStyle {
+  mask: string; // Oracle format model
+  length: number; // characters of the Sybase output
+}
+
+// convert() style codes; 1-99 have two-digit years, 100-199 the same format with four
+export const SYBASE_DATE_STYLES: Record<number, DateStyle> = {
+  0: { mask: 'Mon DD YYYY HH:MIAM', length: 19 },
+  100: { mask: 'Mon DD YYYY HH:MIAM', length: 19 },
+  1: { mask: 'MM/DD/YY', length: 8 },
+  101: { mask: 'MM/DD/YYYY', length: 10 },
+  2: { mask: 'YY.MM.DD', length: 8 },
+  102: { mask: 'YYYY.MM.DD', length: 10 },
+  3: { mask: 'DD/MM/YY', length: 8 },
+  103: { mask: 'DD/MM/YYYY', length: 10 },
+  4: { mask: 'DD.MM.YY', length: 8 },
+  104: { mask: 'DD.MM.YYYY', length: 10 },
+  5: { mask: 'DD-MM-YY', length: 8 },
+  105: { mask: 'DD-MM-YYYY', length: 10 },
+  6: { mask: 'DD Mon YY', length: 9 },
+  106: { mask: 'DD Mon YYYY', length: 11 },
+  7: { mask: 'Mon DD, YY', length: 10 },
+  107: { mask: 'Mon DD, YYYY', length: 12 },
+  8: { mask: 'HH24:MI:SS', length: 8 },
+  108: { mask: 'HH24:MI:SS', length: 8 },
+  9: { mask: 'Mon DD YYYY HH:MI:SS:FF3AM', length: 26 },
+  109: { mask: 'Mon DD YYYY HH:MI:SS:FF3AM', length: 26 },
+  10: { mask: 'MM-DD-YY', length: 8 },
+  110: { mask: 'MM-DD-YYYY', length: 10 },
+  11: { mask: 'YY/MM/DD', length: 8 },
+  111: { mask: 'YYYY/MM/DD', length: 10 },
+  12: { mask: 'YYMMDD', length: 6 },
+  112: { mask: 'YYYYMMDD', length: 8 },
+  13: { mask: 'YY/DD/MM', length: 8 },
+  113: { mask: 'YYYY/DD/MM', length: 10 },
+  14: { mask: 'MM/YY/DD', length: 8 },
+  114: { mask: 'MM/YYYY/DD', length: 10 },
+  15: { mask: 'DD/YY/MM', length: 8 },
+  115: { mask: 'DD/YYYY/MM', length: 10 },
+  16: { mask: 'Mon DD YY HH24:MI:SS', length: 18 },
+  116: { mask: 'Mon DD YYYY HH24:MI:SS', length: 20 },
+  17: { mask: 'HH:MIAM', length: 7 },
+  117: { mask: 'HH:MIAM', length: 7 },
+  18: { mask: 'HH24:MI', length: 5 },
+  118: { mask: 'HH24:MI', length: 5 },
+  19: { mask: 'HH:MI:SS:FF3AM', length: 14 },
+  20: { mask: 'HH24:MI:SS:FF3', length: 12 },
+  21: { mask: 'YY/MM/DD HH24:MI:SS', length: 17 },
+  121: { mask: 'YYYY/MM/DD HH24:MI:SS', length: 19 },
+  22: { mask: 'YY/MM/DD HH:MI AM', length: 17 },
+  122: { mask: 'YYYY/MM/DD HH:MI AM', length: 19 },
+  23: { mask: 'YYYY-MM-DD"T"HH24:MI:SS', length: 19 },
+  123: { mask: 'YYYY-MM-DD"T"HH24:MI:SS', length: 19 },
+  36: { mask: 'HH:MI:SS.FF6AM', length: 17 },
+  136: { mask: 'HH:MI:SS.FF6AM', length: 17 },
+  37: { mask: 'HH24:MI:SS.FF6', length: 15 },
+  137: { mask: 'HH24:MI:SS.FF6', length: 15 },
+  38: { mask: 'Mon DD YYYY HH:MI:SS.FF6AM', length: 29 },
+  138: { mask: 'Mon DD YYYY HH:MI:SS.FF6AM', length: 29 },
+  39: { mask: 'Mon DD YYYY HH24:MI:SS.FF6', length: 27 },
+  139: { mask: 'Mon DD YYYY HH24:MI:SS.FF6', length: 27 },
+  40: { mask: 'YYYY-MM-DD HH24:MI:SS.FF6', length: 26 },
+  140: { mask: 'YYYY-MM-DD HH24:MI:SS.FF6', length: 26 },
+};
+
+export type DateFunction = 'convert' | 'dateadd' | 'datediff' | 'datepart' | 'datename' | 'getutcdate';
+
+export interface DateTranslation {
+  fn: DateFunction;
+  line: number;
+  sybase: string;
+  oracle: string | null; // null when the style or date part has no translation
+  part?: DatePart;
+  style?: number;
+  reason?: string; // why there is no translation
+}
+
+const FUNCTIONS = new Set(['CONVERT', 'DATEADD', 'DATEDIFF', 'DATEPART', 'DATENAME', 'GETUTCDATE']);
+const CHARACTER_TYPES = new Set(['CHAR', 'VARCHAR', 'NCHAR', 'NVARCHAR', 'UNICHAR', 'UNIVARCHAR', 'TEXT']);
+const DATE_TYPES = new Set(['DATETIME', 'SMALLDATETIME', 'BIGDATETIME', 'DATE', 'TIME', 'BIGTIME']);
+// Month and day names in the format come out in English, as in Sybase us_english
+const NLS_LANGUAGE = "'NLS_DATE_LANGUAGE=AMERICAN'";
+
+const hasDateFunctions = (code: string) => /\b(convert|dateadd|datediff|datepart|datename|getutcdate)\s*\(/i.test(code);
+
+// Expressions used as operands keep their meaning
+const wrap = (expression: string) =>
+  /^[@\w.#$]+$|^[\w.]+\s*\([^()]*(\([^()]*\)[^()]*)*\)$|^'[^']*'$/.test(expression.trim()) ? expression.trim() : `(${expression.trim()})`;
+
+// FF format elements need a TIMESTAMP; getdate() has milliseconds in Sybase
+const asTimestamp = (expression: string) =>
+  /^getdate\s*\(\s*\)$/i.test(expression.trim()) ? 'SYSTIMESTAMP' : `CAST(${expression.trim()} AS TIMESTAMP)`;
+
+const datePartExpression = (part: DatePart, date: string): string => {
+  const d = wrap(date);
+  const toNumber = (format: string) => `TO_NUMBER(TO_CHAR(${d}, '${format}'))`;
+  switch (part) {
+    case 'year': return `EXTRACT(YEAR FROM ${d})`;
+    case 'month': return `EXTRACT(MONTH FROM ${d})`;
+    case 'day': return `EXTRACT(DAY FROM ${d})`;
+    case 'quarter': return toNumber('Q');
+    case 'dayofyear': return toNumber('DDD');
+    // Week 1 holds January 1st; weeks start on Sunday (31 December 1899 was a Sunday)
+    case 'week': return `(FLOOR((TRUNC(${d}) - TRUNC(${d}, 'YYYY') + MOD(TRUNC(${d}, 'YYYY') - DATE '1899-12-31', 7)) / 7) + 1)`;
+    case 'weekday': return `(MOD(TRUNC(${d}) - DATE '1899-12-31', 7) + 1)`;
+    case 'hour': return toNumber('HH24');
+    case 'minute': return toNumber('MI');
+    case 'second': return toNumber('SS');
+    case 'millisecond': return `TO_NUMBER(TO_CHAR(${asTimestamp(date)}, 'FF3'))`;
+    case 'microsecond': return `TO_NUMBER(TO_CHAR(${asTimestamp(date)}, 'FF6'))`;
+    case 'nanosecond': return `TO_NUMBER(TO_CHAR(${asTimestamp(date)}, 'FF9'))`;
+    case 'calweekofyear': return toNumber('IW');
+    case 'calyearofweek': return toNumber('IYYY');
+    // ISO day of the week, Monday = 1 (1 January 1900 was a Monday)
+    case 'caldayofweek': return `(MOD(TRUNC(${d}) - DATE '1900-01-01', 7) + 1)`;
+  }
+};
+
+const dateAddExpression = (part: DatePart, number: string, date: string): string => {
+  const n = wrap(number);
+  const d = wrap(date);
+  const interval = (amount: string, unit: string) => `${d} + NUMTODSINTERVAL(${amount}, '${unit}')`;
+  switch (part) {
+    case 'year':
+    case 'calyearofweek': return `ADD_MONTHS(${d}, 12 * ${n})`;
+    case 'quarter': return `ADD_MONTHS(${d}, 3 * ${n})`;
+    case 'month': return `ADD_MONTHS(${d}, ${n})`;
+    case 'week':
+    case 'calweekofyear': return `(${d} + 7 * ${n})`;
+    case 'day':
+    case 'dayofyear':
+    case 'weekday':
+    case 'caldayofweek': return `(${d} + ${n})`;
+    case 'hour': return `(${interval(n, 'HOUR')})`;
+    case 'minute': return `(${interval(n, 'MINUTE')})`;
+    case 'second': return `(${interval(n, 'SECOND')})`;
+    case 'millisecond': return `(${interval(`${n} / 1000`, 'SECOND')})`;
+    case 'microsecond': return `(${interval(`${n} / 1000000`, 'SECOND')})`;
+    case 'nanosecond': return `(${interval(`${n} / 1000000000`, 'SECOND')})`;
+  }
+};
+
+// datediff counts the boundaries crossed between the two dates, not elapsed units
+const dateDiffExpression = (part: DatePart, start: string, end: string): string => {
+  const a = wrap(start);
+  const b = wrap(end);
+  const elapsedSeconds = (interval: string) =>
+    `(EXTRACT(DAY FROM ${interval}) * 86400 + EXTRACT(HOUR FROM ${interval}) * 3600 + EXTRACT(MINUTE FROM ${interval}) * 60 + EXTRACT(SECOND FROM ${interval}))`;
+  const interval = `(CAST(${b} AS TIMESTAMP) - CAST(${a} AS TIMESTAMP))`;
+  switch (part) {
+    case 'year': return `(EXTRACT(YEAR FROM ${b}) - EXTRACT(YEAR FROM ${a}))`;
+    case 'calyearofweek': return `(TO_NUMBER(TO_CHAR(${b}, 'IYYY')) - TO_NUMBER(TO_CHAR(${a}, 'IYYY')))`;
+    case 'quarter': return `(MONTHS_BETWEEN(TRUNC(${b}, 'Q'), TRUNC(${a}, 'Q')) / 3)`;
+    case 'month': return `MONTHS_BETWEEN(TRUNC(${b}, 'MM'), TRUNC(${a}, 'MM'))`;
+    // Sunday-based weeks: the ISO (Monday) week of the following day
+    case 'week': return `((TRUNC(${b} + 1, 'IW') - TRUNC(${a} + 1, 'IW')) / 7)`;
+    case 'calweekofyear': return `((TRUNC(${b}, 'IW') - TRUNC(${a}, 'IW')) / 7)`;
+    case 'day':
+    case 'dayofyear':
+    case 'weekday':
+    case 'caldayofweek': return `(TRUNC(${b}) - TRUNC(${a}))`;
+    case 'hour': return `ROUND((TRUNC(${b}, 'HH24') - TRUNC(${a}, 'HH24')) * 24)`;
+    case 'minute': return `ROUND((TRUNC(${b}, 'MI') - TRUNC(${a}, 'MI')) * 1440)`;
+    case 'second': return `ROUND((CAST(${b} AS DATE) - CAST(${a} AS DATE)) * 86400)`;
+    case 'millisecond': return `TRUNC(${elapsedSeconds(interval)} * 1000)`;
+    case 'microsecond': return `TRUNC(${elapsedSeconds(interval)} * 1000000)`;
+    case 'nanosecond': return `TRUNC(${elapsedSeconds(interval)} * 1000000000)`;
+  }
+};
+
+const dateNameExpression = (part: DatePart, date: string): string => {
+  switch (part) {
+    case 'month': return `TO_CHAR(${wrap(date)}, 'fmMonth', ${NLS_LANGUAGE})`;
+    case 'weekday': return `TO_CHAR(${wrap(date)}, 'fmDay', ${NLS_LANGUAGE})`;
+    default: return `TO_CHAR(${datePartExpression(part, date)})`;
+  }
+};
+
+// convert(type, expression [, style]): TO_CHAR / TO_DATE / TO_TIMESTAMP for date styles, CAST otherwise
+const convertExpression = (type: string, expression: string, styleText: string | undefined, mapType: TypeMapper): Pick<DateTranslation, 'oracle' | 'style' | 'reason'> => {
+  const typeName = type.match(/^\w+/)?.[0].toUpperCase() ?? '';
+  const length = type.match(/\(\s*(\d+)\s*\)/)?.[1];
+  const oracleType = mapType(type)?.oracleType ?? (CHARACTER_TYPES.has(typeName) && !length ? mapType(`${type}(30)`)?.oracleType : undefined);
+  if (styleText === undefined || !(CHARACTER_TYPES.has(typeName) || DATE_TYPES.has(typeName))) {
+    return oracleType
+      ? { oracle: `CAST(${expression.trim()} AS ${oracleType})` }
+      : { oracle: null, reason: `${type} has no Oracle type mapping` };
+  }
+  const style = Number(styleText);
+  const format = Number.isInteger(style) ? SYBASE_DATE_STYLES[style] : undefined;
+  if (!format) return { oracle: null, style, reason: `${styleText.trim()} is not a Sybase date style` };
+  const language = /Mon/.test(format.mask) ? `, ${NLS_LANGUAGE}` : '';
+  if (CHARACTER_TYPES.has(typeName)) {
+    const date = /FF/.test(format.mask) ? asTimestamp(expression) : wrap(expression);
+    const text = `TO_CHAR(${date}, '${format.mask}'${language})`;
+    // convert() cuts the text to the declared length (30 when none is given)
+    const declared = length ? Number(length) : 30;
+    return { oracle: declared < format.length ? `SUBSTR(${text}, 1, ${declared})` : text, style };
+  }
+  const parse = oracleType === 'DATE' && !/FF/.test(format.mask) ? 'TO_DATE' : 'TO_TIMESTAMP';
+  return { oracle: `${parse}(${expression.trim()}, '${format.mask}'${language})`, style };
+};
+
+interface Call {
+  fn: DateFunction;
+  start: number; // token index of the function name
+  close: number; // token index of the closing parenthesis
+  args: [number, number][]; // token ranges, end exclusive
+}
+
+// Top-level arguments of the call whose "(" is at `open`
+const callArguments = (tokens: Token[], open: number): { close: number; args: [number, number][] } | null => {
+  const args: [number, number][] = [];
+  let depth = 0;
+  let argStart = open + 1;
+  for (let i = open; i < tokens.length; i++) {
+    const value = tokens[i].value;
+    if (value === '(') depth++;
+    if (value === ')' && --depth === 0) {
+      if (i > argStart) args.push([argStart, i]);
+      return { close: i, args };
+    }
+    if (value === ',' && depth === 1) {
+      args.push([argStart, i]);
+      argStart = i + 1;
+    }
+  }
+  return null;
+};
+
+// Rewrite every translatable call, innermost first; calls without a translation are kept
+export const translateDateFunctions = (code: string, mapType: TypeMapper = createTypeMapper()): { code: string; translations: DateTranslation[] } => {
+  if (!hasDateFunctions(code)) return { code, translations: [] };
+  const tokens = tokenize(code).filter(token => token.type !== 'comment');
+  // By the token index of the call; arguments of calls that cannot be translated are visited twice
+  const translations = new Map<number, DateTranslation>();
+
+  const findCall = (index: number): Call | null => {
+    const token = tokens[index];
+    if (token.type !== 'word' || !FUNCTIONS.has(token.upper) || tokens[index + 1]?.value !== '(') return null;
+    const call = callArguments(tokens, index + 1);
+    return call && { fn: token.value.toLowerCase() as DateFunction, start: index, ...call };
+  };
+
+  // Source text of a token range with the calls inside it translated
+  const render = (from: number, to: number): string => {
+    if (from >= to) return '';
+    let output = '';
+    let cursor = tokens[from].offset;
+    for (let i = from; i < to; i++) {
+      const call = findCall(i);
+      if (!call || call.close >= to) continue;
+      const args = call.args.map(([start, end]) => render(start, end));
+      const translation = translateCall(call, args);
+      if (translation.oracle === null) continue;
+      output += code.slice(cursor, tokens[i].offset) + translation.oracle;
+      cursor = tokens[call.close].end;
+      i = call.close;
+    }
+    return output + code.slice(cursor, tokens[to - 1].end);
+  };
+
+  const translateCall = (call: Call, args: string[]): DateTranslation => {
+    const base = { fn: call.fn, line: tokens[call.start].line, sybase: code.slice(tokens[call.start].offset, tokens[call.close].end) };
+    const record = (translation: Omit<DateTranslation, 'fn' | 'line' | 'sybase'>) => {
+      const result = { ...base, ...translation };
+      translations.set(call.start, result);
+      return result;
+    };
+    if (call.fn === 'getutcdate') return record({ oracle: args.length === 0 ? 'SYS_EXTRACT_UTC(SYSTIMESTAMP)' : null, reason: 'getutcdate takes no arguments' });
+    if (call.fn === 'convert') {
+      if (args.length < 2 || args.length > 3) return record({ oracle: null, reason: 'convert takes a type, an expression and an optional style' });
+      return record(convertExpression(args[0].trim(), args[1], args[2], mapType));
+    }
+    const partText = args[0]?.trim() ?? '';
+    const part = DATE_PARTS[partText.toLowerCase()];
+    if (!part) return record({ oracle: null, reason: `${partText} is not a Sybase date part` });
+    const expected = call.fn === 'dateadd' || call.fn === 'datediff' ? 3 : 2;
+    if (args.length !== expected) return record({ oracle: null, part, reason: `${call.fn} takes ${expected} arguments` });
+    switch (call.fn) {
+      case 'dateadd': return record({ oracle: dateAddExpression(part, args[1], args[2]), part });
+      case 'datediff': return record({ oracle: dateDiffExpression(part, args[1], args[2]), part });
+      case 'datepart': return record({ oracle: datePartExpression(part, args[1]), part });
+      default: return record({ oracle: dateNameExpression(part, args[1]), part });
+    }
+  };
+
+  if (tokens.length === 0) return { code, translations: [] };
+  const rendered = code.slice(0, tokens[0].offset) + render(0, tokens.length) + code.slice(tokens[tokens.length - 1].end);
+  return { code: rendered, translations: Array.from(translations.entries()).sort(([a], [b]) => a - b).map(([, translation]) => translation) };
+};
+
+export interface DateFunctionNote {
+  line: number; // in the Sybase source
+  targetLine?: number; // in the converted code, when the source map locates it
+  code: string;
+  severity: 'info' | 'warning' | 'error';
+  description: string;
+  suggestedFix: string;
+}
+
+const normalize = (text: string) => text.toUpperCase().replace(/\s+/g, '');
+
+// Format models passed to TO_CHAR, TO_DATE and TO_TIMESTAMP, without FM modifiers
+const formatModels = (text: string): string[] =>
+  Array.from(text.matchAll(/\bTO_(?:CHAR|DATE|TIMESTAMP)\s*\([^;]*?,\s*'([^']*)'/gi), match =>
+    normalize(match[1]).replace(/FM/g, '').replace(/HH12/g, 'HH'));
+
+// How the converted code differs from the library's translation, if it does
+const checkTranslation = (translation: DateTranslation, region: string): Pick<DateFunctionNote, 'severity' | 'description'> | null => {
+  const upper = region.toUpperCase();
+  const has = (pattern: RegExp) => pattern.test(upper);
+  const call = translation.sybase;
+  const expected = translation.oracle!;
+  if (normalize(region).includes(normalize(expected))) return null;
+
+  const leftover = translation.fn === 'convert'
+    ? has(/\bCONVERT\s*\(\s*(VAR)?CHAR|\bCONVERT\s*\(\s*(N|UNI)(VAR)?CHAR|\bCONVERT\s*\(\s*(SMALL|BIG)?DATETIME|\bCONVERT\s*\(\s*(DATE|TIME)\b/)
+    : has(new RegExp(`\\b${translation.fn.toUpperCase()}\\s*\\(`));
+  if (leftover) {
+    return {
+      severity: 'error',
+      description: translation.fn === 'convert'
+        ? `${call} was left as CONVERT(), which is Oracle's character set conversion and fails with a type as first argument`
+        : `${call} was left as ${translation.fn.toUpperCase()}(), which does not exist in Oracle (ORA-00904)`,
+    };
+  }
+
+  if (translation.fn === 'convert') {
+    if (translation.style === undefined) return null;
+    const style = SYBASE_DATE_STYLES[translation.style];
+    const models = formatModels(region);
+    if (models.includes(normalize(style.mask))) return null;
+    return {
+      severity: 'warning',
+      description: models.length > 0
+        ? `${call} uses style ${translation.style} ('${style.mask}'), but the converted code uses ${models.map(model => `'${model}'`).join(', ')}`
+        : `${call} uses style ${translation.style} ('${style.mask}'), but the converted code has no TO_CHAR/TO_DATE with that format; CAST and implicit conversion follow the session's NLS settings`,
+    };
+  }
+
+  const part = translation.part!;
+  const monthBased = ['year', 'quarter', 'month', 'calyearofweek'].includes(part);
+  const subDay = ['hour', 'minute', 'second', 'millisecond', 'microsecond', 'nanosecond'].includes(part);
+  const dayBased = ['day', 'dayofyear', 'weekday', 'caldayofweek'].includes(part);
+  switch (translation.fn) {
+    case 'dateadd':
+      if (monthBased && !has(/\bADD_MONTHS\b/)) {
+        return has(/\bNUMTOYMINTERVAL\b|\bINTERVAL\b/)
+          ? { severity: 'warning', description: `${call} became interval arithmetic, which fails for days the target month does not have (ORA-01839); dateadd moves to the month's last day` }
+          : { severity: 'warning', description: `${call} adds ${part === 'month' ? 'months' : part === 'quarter' ? 'quarters' : 'years'}, but the converted code does not use ADD_MONTHS` };
+      }
+      if (subDay && !has(/\bNUMTODSINTERVAL\b|\bINTERVAL\b|\/\s*(24|1440|86400)\b/)) {
+        return { severity: 'warning', description: `${call} adds ${part}s, but the converted code adds no interval or fraction of a day, so it may add whole days` };
+      }
+      return null;
+    case 'datediff':
+      if (part === 'year' && has(/\bMONTHS_BETWEEN\b/)) {
+        return { severity: 'warning', description: `${call} counts year boundaries crossed; MONTHS_BETWEEN / 12 counts complete years, so 31 December to 1 January gives 0 instead of 1` };
+      }
+      if ((part === 'month' || part === 'quarter') && !(has(/\bMONTHS_BETWEEN\b/) && has(/\bTRUNC\b/))) {
+        return {
+          severity: 'warning',
+          description: has(/\bMONTHS_BETWEEN\b/)
+            ? `${call} counts ${part} boundaries crossed; MONTHS_BETWEEN without TRUNC returns fractional months`
+            : `${call} counts ${part} boundaries crossed, but the converted code does not use MONTHS_BETWEEN`,
+        };
+      }
+      if ((dayBased || part === 'week' || part === 'calweekofyear') && !has(/\bTRUNC\b/)) {
+        return { severity: 'warning', description: `${call} counts midnights crossed; subtracting the dates without TRUNC returns elapsed days including fractions` };
+      }
+      if (subDay && !has(/\b(TRUNC|ROUND|FLOOR|EXTRACT)\b/)) {
+        return { severity: 'warning', description: `${call} returns a whole number of ${part}s; the converted date subtraction returns a fraction` };
+      }
+      return null;
+    case 'datepart':
+    case 'datename':
+      if (part === 'weekday' && translation.fn === 'datepart' && has(/'D'/)) {
+        return { severity: 'warning', description: `${call}: TO_CHAR(..., 'D') depends on NLS_TERRITORY; datepart(weekday) counts from Sunday` };
+      }
+      if (part === 'week' && has(/'(WW|IW)'/)) {
+        return { severity: 'warning', description: `${call} numbers Sunday-based weeks from 1 January; Oracle's WW and IW weeks are numbered differently` };
+      }
+      if (part === 'dayofyear' && !has(/'DDD'/)) {
+        return { severity: 'warning', description: `${call} returns the day of the year, but the converted code has no 'DDD' format` };
+      }
+      if (translation.fn === 'datename' && (part === 'month' || part === 'weekday') &&
+        formatModels(region).some(model => /MONTH|DAY/.test(model)) && !has(/'FM/)) {
+        return { severity: 'warning', description: `${call}: TO_CHAR with '${part === 'month' ? 'Month' : 'Day'}' pads the name with blanks to 9 characters; use the fm modifier` };
+      }
+      return null;
+    default:
+      return null;
+  }
+};
+
+// Date functions of the source the converted code translates differently from the library
+export const findDateFunctionNotes = (sourceCode: string, convertedCode: string, mapType: TypeMapper = createTypeMapper()): DateFunctionNote[] => {
+  const { translations } = translateDateFunctions(sourceCode, mapType);
+  if (translations.length === 0) return [];
+  const sourceLines = sourceCode.split('\n');
+  const sourceMap = buildSourceMap(sourceCode, convertedCode);
+  const convertedLines = convertedCode.split('\n');
+
+  const notes: DateFunctionNote[] = [];
+  translations.forEach(translation => {
+    const code = sourceLines[translation.line - 1]?.trim() ?? translation.sybase;
+    if (translation.oracle === null) {
+      notes.push({
+        line: translation.line,
+        code,
+        severity: 'warning',
+        description: `${translation.sybase} has no deterministic Oracle translation: ${translation.reason}`,
+        suggestedFix: 'Translate it by hand and check the result against Sybase output',
+      });
+      return;
+    }
+    // The converted lines of this call; the whole output when the source map has no match
+    const entries = findMappedEntries(sourceMap, 'source', translation.line);
+    const targetLine = entries.length > 0 ? Math.min(...entries.map(entry => entry.targetStart)) : undefined;
+    const region = entries.length > 0
+      ? convertedLines.slice(targetLine! - 1, Math.max(...entries.map(entry => entry.targetEnd))).join('\n')
+      : convertedCode;
+    const difference = checkTranslation(translation, region);
+    if (!difference) return;
+    notes.push({ line: translation.line, targetLine, code, ...difference, suggestedFix: translation.oracle });
+  });
+  return notes;
+};
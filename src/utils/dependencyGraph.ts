@@ -0,0 +1,220 @@
+import { CodeFile } from '@/types';
+import { getCreatedObject, isStatementKeyword, objectBaseName, parseSybase, SchemaObjectKind, Token } from './sybaseParser';
+
+// Dependency analysis across uploaded files: which objects each file creates, which objects
+// created elsewhere it references (tables, views, called procedures and functions), and an
+// order in which to convert them so dependencies are converted before their dependents.
+
+export interface DependencyNode {
+  fileId: string;
+  fileName: string;
+  objects: { name: string; kind: SchemaObjectKind }[]; // objects created by the file
+  level: number; // 0 for files with no dependencies, otherwise 1 + the deepest dependency
+}
+
+export interface DependencyEdge {
+  from: string; // fileId of the referencing file
+  to: string; // fileId of the file that creates `object`
+  object: string;
+  kind: SchemaObjectKind;
+}
+
+export interface DependencyGraph {
+  nodes: DependencyNode[];
+  edges: DependencyEdge[];
+  order: string[]; // fileIds, dependencies first
+  cycles: string[][]; // groups of fileIds that depend on each other
+}
+
+// Objects of the same depth convert in this order
+const KIND_PRIORITY: Record<SchemaObjectKind, number> = { table: 0, view: 1, function: 2, procedure: 3, trigger: 4 };
+
+interface FileAnalysis {
+  content: string;
+  objects: { name: string; kind: SchemaObjectKind }[];
+  references: Set<string>; // base names of the objects the file references
+}
+
+// Keywords followed by the name of a table, view or procedure
+const REFERENCE_KEYWORDS = new Set(['FROM', 'JOIN', 'INTO', 'UPDATE', 'DELETE', 'EXEC', 'EXECUTE', 'REFERENCES', 'TABLE']);
+
+// Clauses that end the table list of a FROM
+const FROM_LIST_END = new Set(['WHERE', 'GROUP', 'ORDER', 'HAVING', 'ON', 'UNION', 'EXCEPT', 'INTERSECT', 'FOR', 'COMPUTE', 'AT']);
+
+const isName = (token: Token | undefined): token is Token =>
+  !!token && (token.type === 'word' || token.type === 'quotedIdentifier');
+
+// Names in reference positions: after REFERENCE_KEYWORDS, every table of a FROM list, the table of
+// CREATE TRIGGER ... ON and called functions. Column names and variables never count, even when
+// they match an object created elsewhere.
+const collectReferences = (tokens: Token[]): Set<string> => {
+  const references = new Set<string>();
+  const add = (token: Token) => {
+    // #temp tables are local to the session and never a cross-file dependency
+    if (!token.value.startsWith('#')) references.add(objectBaseName(token.value));
+  };
+  // Index of the last part of the name starting at `index`: "dbo.orders" -> "orders"
+  const nameEnd = (index: number) => {
+    let end = index;
+    while (tokens[end + 1]?.value === '.' && isName(tokens[end + 2])) end += 2;
+    return end;
+  };
+  const fromLists: number[] = []; // paren depths of the FROM lists being read
+  let depth = 0;
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    const inFromList = fromLists[fromLists.length - 1] === depth;
+    if (token.type === 'punctuation' && token.value === '(') {
+      depth++;
+    } else if (token.type === 'punctuation' && token.value === ')') {
+      depth--;
+      while (fromLists.length > 0 && fromLists[fromLists.length - 1] > depth) fromLists.pop();
+    } else if (token.type === 'punctuation' && token.value === ',' && inFromList && isName(tokens[index + 1])) {
+      index = nameEnd(index + 1);
+      add(tokens[index]);
+    } else if (token.type === 'word' && REFERENCE_KEYWORDS.has(token.upper) && isName(tokens[index + 1])) {
+      if (token.upper === 'FROM') fromLists.push(depth);
+      index = nameEnd(index + 1);
+      add(tokens[index]);
+    } else if (token.type === 'word' && token.upper === 'ON' && tokens[index - 2]?.upper === 'TRIGGER' && isName(tokens[index + 1])) {
+      index = nameEnd(index + 1);
+      add(tokens[index]);
+    } else if (isName(token) && tokens[index + 1]?.value === '(') {
+      add(token);
+    } else if (inFromList && token.type === 'word' && (FROM_LIST_END.has(token.upper) || isStatementKeyword(token))) {
+      fromLists.pop();
+    }
+  }
+  return references;
+};
+
+// Parsing is the expensive part; reuse it until the file's content changes
+const analysisCache = new Map<string, FileAnalysis>();
+
+const analyzeFile = (file: CodeFile): FileAnalysis => {
+  const cached = analysisCache.get(file.id);
+  if (cached && cached.content === file.content) return cached;
+
+  const script = parseSybase(file.content);
+  const objects = script.batches.flatMap(batch => batch.statements.flatMap(statement => getCreatedObject(statement) ?? []));
+  const references = collectReferences(script.tokens.filter(token => token.type !== 'comment'));
+  const analysis = { content: file.content, objects, references };
+  analysisCache.set(file.id, analysis);
+  return analysis;
+};
+
+export const buildDependencyGraph = (files: CodeFile[]): DependencyGraph => {
+  const analyses = new Map(files.map(file => [file.id, analyzeFile(file)]));
+  // Forget files that were removed
+  Array.from(analysisCache.keys()).forEach(fileId => {
+    if (!analyses.has(fileId)) analysisCache.delete(fileId);
+  });
+
+  // Where each object is created; the first file wins if several create the same name
+  const creators = new Map<string, { fileId: string; name: string; kind: SchemaObjectKind }>();
+  files.forEach(file => analyses.get(file.id)!.objects.forEach(object => {
+    const key = objectBaseName(object.name);
+    if (!creators.has(key)) creators.set(key, { fileId: file.id, ...object });
+  }));
+
+  const edges: DependencyEdge[] = [];
+  files.forEach(file => {
+    analyses.get(file.id)!.references.forEach(name => {
+      const creator = creators.get(name);
+      if (creator && creator.fileId !== file.id) {
+        edges.push({ from: file.id, to: creator.fileId, object: creator.name, kind: creator.kind });
+      }
+    });
+  });
+
+  const dependencies = new Map(files.map(file => [file.id, new Set<string>()]));
+  edges.forEach(edge => dependencies.get(edge.from)!.add(edge.to));
+
+  // Kahn's algorithm; among ready files, tables go before views, functions, procedures and triggers
+  const rank = (fileId: string) => Math.min(5, ...analyses.get(fileId)!.objects.map(object => KIND_PRIORITY[object.kind]));
+  const position = new Map(files.map((file, index) => [file.id, index]));
+  const byPriority = (a: string, b: string) => rank(a) - rank(b) || position.get(a)! - position.get(b)!;
+
+  const remaining = new Map(files.map(file => [file.id, dependencies.get(file.id)!.size]));
+  const dependents = new Map(files.map(file => [file.id, [] as string[]]));
+  dependencies.forEach((targets, fileId) => targets.forEach(target => dependents.get(target)!.push(fileId)));
+
+  const order: string[] = [];
+  let ready = files.map(file => file.id).filter(id => remaining.get(id) === 0).sort(byPriority);
+  while (ready.length > 0) {
+    const next = ready.shift()!;
+    order.push(next);
+    dependents.get(next)!.forEach(dependent => {
+      remaining.set(dependent, remaining.get(dependent)! - 1);
+      if (remaining.get(dependent) === 0) ready = [...ready, dependent].sort(byPriority);
+    });
+  }
+
+  // Whatever is left sits on or behind a cycle; report the cycles and convert the rest by priority
+  const unresolved = files.map(file => file.id).filter(id => !order.includes(id));
+  const cycles = findCycles(unresolved, dependencies);
+  order.push(...unresolved.sort(byPriority));
+
+  const levels = new Map<string, number>();
+  order.forEach(fileId => {
+    const depths = Array.from(dependencies.get(fileId)!).map(target => levels.get(target) ?? 0);
+    levels.set(fileId, depths.length > 0 ? Math.max(...depths) + 1 : 0);
+  });
+
+  const nodes = files.map(file => ({
+    fileId: file.id,
+    fileName: file.name,
+    objects: analyses.get(file.id)!.objects,
+    level: levels.get(file.id) ?? 0,
+  }));
+  return { nodes, edges, order, cycles };
+};
+
+// Strongly connected components (Tarjan) among the unresolved files that really form a cycle
+const findCycles = (fileIds: string[], dependencies: Map<string, Set<string>>): string[][] => {
+  const candidates = new Set(fileIds);
+  const index = new Map<string, number>();
+  const lowLink = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+  let counter = 0;
+
+  const visit = (fileId: string) => {
+    index.set(fileId, counter);
+    lowLink.set(fileId, counter);
+    counter++;
+    stack.push(fileId);
+    onStack.add(fileId);
+    dependencies.get(fileId)!.forEach(target => {
+      if (!candidates.has(target)) return;
+      if (!index.has(target)) {
+        visit(target);
+        lowLink.set(fileId, Math.min(lowLink.get(fileId)!, lowLink.get(target)!));
+      } else if (onStack.has(target)) {
+        lowLink.set(fileId, Math.min(lowLink.get(fileId)!, index.get(target)!));
+      }
+    });
+    if (lowLink.get(fileId) === index.get(fileId)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== fileId);
+      if (component.length > 1) cycles.push(component.reverse());
+    }
+  };
+
+  fileIds.forEach(fileId => {
+    if (!index.has(fileId)) visit(fileId);
+  });
+  return cycles;
+};
+
+// Files whose objects `fileId` references, in conversion order
+export const getDependencies = (graph: DependencyGraph, fileId: string): string[] => {
+  const targets = new Set(graph.edges.filter(edge => edge.from === fileId).map(edge => edge.to));
+  return graph.order.filter(id => targets.has(id));
+};
@@ -0,0 +1,343 @@
+import { Token, tokenize } from './sybaseParser';
+import { buildSourceMap, findMappedEntries } from './sourceMap';
+
+// Oracle stores '' as NULL; Sybase keeps it a string of its own. Comparisons with '' are never true,
+// LENGTH('') is NULL rather than 0, isnull(x, '') no longer yields a string and every '' written
+// to a variable or column becomes NULL. Each such construct in the source is looked up in the
+// converted code (through the source map) to see whether it survived the conversion unchanged.
+
+export type EmptyStringConstruct = 'comparison' | 'in-list' | 'case' | 'length' | 'isnull' | 'nullif' | 'assignment';
+
+export interface EmptyStringNote {
+  line: number; // in the Sybase source
+  targetLine?: number; // in the converted code, when the source map locates it
+  code: string;
+  construct: EmptyStringConstruct;
+  severity: 'info' | 'warning' | 'error';
+  description: string;
+  suggestedFix: string;
+}
+
+interface Finding {
+  construct: EmptyStringConstruct;
+  line: number;
+  text: string; // the construct as written
+  operand: string; // the expression tested, converted or assigned
+  negated?: boolean; // <> '' / len(x) > 0 style tests
+  concatenated?: boolean; // isnull(x, '') inside a concatenation
+  target?: string; // variable or column receiving ''
+  rest?: string; // other values of an IN list
+}
+
+const COMPARISONS = new Set(['=', '<>', '!=', '^=']);
+const NVL_FUNCTIONS = new Set(['ISNULL', 'COALESCE', 'NVL']);
+const LENGTH_FUNCTIONS = new Set(['LEN', 'DATALENGTH', 'CHAR_LENGTH', 'LENGTH', 'LENGTHB']);
+// Keywords a tested expression follows; anything else before "x = ''" makes it an assignment
+const CONDITION_STARTS = new Set(['WHERE', 'AND', 'OR', 'ON', 'WHEN', 'IF', 'WHILE', 'HAVING', 'NOT', 'ELSIF', '(']);
+
+const hasEmptyStringRisks = (code: string) => /''|""|\b(len|datalength|char_length|length|lengthb)\s*\(/i.test(code);
+
+const isEmptyString = (token?: Token) => token?.type === 'string' && (token.value === "''" || token.value === '""');
+
+const isValue = (token?: Token) =>
+  token !== undefined && ['word', 'quotedIdentifier', 'variable', 'string', 'number'].includes(token.type);
+
+// Index of the parenthesis matching the one at `index`, searching in `direction`
+const matchParen = (tokens: Token[], index: number, direction: 1 | -1): number => {
+  const [open, close] = direction === 1 ? ['(', ')'] : [')', '('];
+  let depth = 0;
+  for (let i = index; i >= 0 && i < tokens.length; i += direction) {
+    if (tokens[i].value === open) depth++;
+    if (tokens[i].value === close && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// First token of the operand ending at `end`: a dotted name, a variable, a literal or a function call
+const operandStart = (tokens: Token[], end: number): number => {
+  let start = end;
+  if (tokens[end]?.value === ')') {
+    start = matchParen(tokens, end, -1);
+    if (start === -1) return end;
+    if (tokens[start - 1]?.type === 'word') start--;
+  } else if (!isValue(tokens[end])) {
+    return -1;
+  }
+  while (tokens[start - 1]?.value === '.' && isValue(tokens[start - 2])) start -= 2;
+  return start;
+};
+
+// Last token of the operand starting at `start`
+const operandEnd = (tokens: Token[], start: number): number => {
+  let end = start;
+  while (tokens[end + 1]?.value === '.' && isValue(tokens[end + 2])) end += 2;
+  if (tokens[end]?.type === 'word' && tokens[end + 1]?.value === '(') {
+    const close = matchParen(tokens, end + 1, 1);
+    return close === -1 ? end : close;
+  }
+  return isValue(tokens[end]) ? end : -1;
+};
+
+// isnull(x, '') / coalesce(x, '') / nvl(x, ''): the tokens of x
+const nvlArgument = (tokens: Token[], start: number, end: number): [number, number] | null => {
+  if (!NVL_FUNCTIONS.has(tokens[start]?.upper) || tokens[start + 1]?.value !== '(' || tokens[end]?.value !== ')') return null;
+  if (!isEmptyString(tokens[end - 1]) || tokens[end - 2]?.value !== ',') return null;
+  return end - 3 >= start + 2 ? [start + 2, end - 3] : null;
+};
+
+// Every construct of `code` whose meaning depends on '' not being NULL
+const findConstructs = (code: string): Finding[] => {
+  const tokens = tokenize(code).filter(token => token.type !== 'comment');
+  const textOf = (from: number, to: number) => code.slice(tokens[from].offset, tokens[to].end);
+  // isnull(x, '') is reported with the comparison when it is compared with ''
+  const withinComparison = new Set<number>();
+  const findings: Finding[] = [];
+
+  // The expression tested, with isnull(x, '') reduced to x
+  const testedOperand = (start: number, end: number) => {
+    const argument = nvlArgument(tokens, start, end);
+    if (argument) withinComparison.add(start);
+    return argument ? textOf(argument[0], argument[1]) : textOf(start, end);
+  };
+
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+
+    if (isEmptyString(token)) {
+      // v := '' (Oracle)
+      if (previous?.value === '=' && tokens[index - 2]?.value === ':') {
+        const start = operandStart(tokens, index - 3);
+        if (start !== -1) findings.push({ construct: 'assignment', line: token.line, text: textOf(start, index), operand: "''", target: textOf(start, index - 3) });
+        return;
+      }
+      // x = '' / x <> '' / '' = x
+      if (COMPARISONS.has(previous?.value) || COMPARISONS.has(next?.value)) {
+        const operator = COMPARISONS.has(previous?.value) ? previous.value : next.value;
+        const left = COMPARISONS.has(previous?.value);
+        const end = left ? index - 2 : operandEnd(tokens, index + 2);
+        const start = left ? operandStart(tokens, end) : index + 2;
+        if (start === -1 || end === -1) return;
+        const before = tokens[(left ? start : index) - 1];
+        // set @x = '', select @x = '', update ... set col = '' and parameter defaults (@p varchar(10) = '')
+        if (operator === '=' && left && !CONDITION_STARTS.has(before?.value === '(' ? '(' : before?.upper ?? '')) {
+          const target = before?.type === 'variable' ? before.value : textOf(start, end);
+          findings.push({ construct: 'assignment', line: token.line, text: textOf(before?.type === 'variable' ? start - 1 : start, index), operand: "''", target });
+          return;
+        }
+        findings.push({
+          construct: 'comparison',
+          line: token.line,
+          text: left ? textOf(start, index) : textOf(index, end),
+          operand: testedOperand(start, end),
+          negated: operator !== '=',
+        });
+        return;
+      }
+      // x in ('', 'a')
+      let open = index - 1;
+      while (open >= 0 && (tokens[open].value === ',' || tokens[open].type === 'string' || tokens[open].type === 'number')) open--;
+      if (tokens[open]?.value === '(' && tokens[open - 1]?.upper === 'IN') {
+        const close = matchParen(tokens, open, 1);
+        const start = operandStart(tokens, tokens[open - 2]?.upper === 'NOT' ? open - 3 : open - 2);
+        if (close === -1 || start === -1) return;
+        const values = tokens.slice(open + 1, close).filter(value => value.value !== ',' && !isEmptyString(value)).map(value => value.value);
+        findings.push({
+          construct: 'in-list',
+          line: token.line,
+          text: textOf(start, close),
+          operand: textOf(start, tokens[open - 2]?.upper === 'NOT' ? open - 3 : open - 2),
+          negated: tokens[open - 2]?.upper === 'NOT',
+          rest: values.join(', '),
+        });
+        return;
+      }
+      // case x when '' then
+      if (previous?.upper === 'WHEN' && next?.upper === 'THEN') {
+        let depth = 0;
+        for (let i = index - 2; i >= 0; i--) {
+          if (tokens[i].value === ')') depth++;
+          if (tokens[i].value === '(') depth--;
+          if (depth !== 0 || tokens[i].upper !== 'CASE') continue;
+          const firstWhen = tokens.findIndex((candidate, position) => position > i && candidate.upper === 'WHEN');
+          if (firstWhen > i + 1) {
+            findings.push({ construct: 'case', line: token.line, text: textOf(i, index + 1), operand: textOf(i + 1, firstWhen - 1) });
+          }
+          break;
+        }
+        return;
+      }
+      // set @x = '' in a declaration default, := '' / DEFAULT '', values (..., '', ...) and return ''
+      if (previous?.upper === 'DEFAULT' || previous?.upper === 'RETURN') {
+        findings.push({ construct: 'assignment', line: token.line, text: textOf(index - 1, index), operand: "''", target: previous.upper === 'RETURN' ? 'the return value' : undefined });
+        return;
+      }
+      let depth = 0;
+      for (let i = index - 1; i >= 0 && tokens[i].value !== ';'; i--) {
+        if (tokens[i].value === ')') depth++;
+        if (tokens[i].value === '(' && --depth < 0) {
+          if (tokens[i - 1]?.upper === 'VALUES') {
+            findings.push({ construct: 'assignment', line: token.line, text: textOf(i - 1, matchParen(tokens, i, 1)), operand: "''" });
+          }
+          break;
+        }
+      }
+      return;
+    }
+
+    // len(x) = 0 / 0 = len(x) / len(x) < 1
+    if (LENGTH_FUNCTIONS.has(token.upper) && next?.value === '(') {
+      const close = matchParen(tokens, index + 1, 1);
+      if (close === -1) return;
+      const after = tokens[close + 1];
+      const value = tokens[close + 2];
+      const before = tokens[index - 1];
+      const zeroAfter = value?.value === '0' && ['=', '<='].includes(after?.value) || value?.value === '1' && after?.value === '<';
+      const zeroBefore = tokens[index - 2]?.value === '0' && ['=', '>='].includes(before?.value);
+      const nonZero = value?.value === '0' && ['<>', '!=', '>'].includes(after?.value) || value?.value === '1' && after?.value === '>=';
+      if (!zeroAfter && !zeroBefore && !nonZero) return;
+      findings.push({
+        construct: 'length',
+        line: token.line,
+        text: zeroBefore ? textOf(index - 2, close) : textOf(index, close + 2),
+        operand: textOf(index + 2, close - 1),
+        negated: nonZero,
+      });
+      return;
+    }
+
+    // isnull(x, '') / nullif(x, '')
+    if ((NVL_FUNCTIONS.has(token.upper) || token.upper === 'NULLIF') && next?.value === '(') {
+      const close = matchParen(tokens, index + 1, 1);
+      if (close === -1 || !isEmptyString(tokens[close - 1]) || tokens[close - 2]?.value !== ',' || close - 3 < index + 2) return;
+      if (withinComparison.has(index) || COMPARISONS.has(tokens[close + 1]?.value) && isEmptyString(tokens[close + 2])) return;
+      const concatenation = ['+', '||'];
+      findings.push({
+        construct: token.upper === 'NULLIF' ? 'nullif' : 'isnull',
+        line: token.line,
+        text: textOf(index, close),
+        operand: textOf(index + 2, close - 3),
+        concatenated: concatenation.includes(previous?.value) || concatenation.includes(tokens[close + 1]?.value),
+      });
+    }
+  });
+  return findings;
+};
+
+// Variables assigned '' that the code later tests for NULL, where '' now passes the test
+const testedForNull = (code: string, variable: string): boolean => {
+  const name = variable.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`${name}\\s+is\\s+(not\\s+)?null\\b|\\b(isnull|coalesce|nvl)\\s*\\(\\s*${name}\\b`, 'i').test(code);
+};
+
+const describe = (finding: Finding): { severity: EmptyStringNote['severity']; description: string; suggestedFix: string } | null => {
+  const { operand } = finding;
+  switch (finding.construct) {
+    case 'comparison':
+      return finding.negated
+        ? {
+          severity: 'error',
+          description: `${finding.text} is never true in Oracle, where '' is NULL, so rows or branches with a value are no longer selected`,
+          suggestedFix: `${operand} IS NOT NULL`,
+        }
+        : {
+          severity: 'error',
+          description: `${finding.text} is never true in Oracle, where '' is NULL, so empty values are no longer found`,
+          suggestedFix: `${operand} IS NULL (empty strings are stored as NULL; this also matches values that were NULL in Sybase)`,
+        };
+    case 'in-list': {
+      const others = finding.rest ? `${operand} ${finding.negated ? 'NOT IN' : 'IN'} (${finding.rest})` : '';
+      return finding.negated
+        ? {
+          severity: 'error',
+          description: `${finding.text} is never true in Oracle: NOT IN with '' compares with NULL, so no row is selected`,
+          suggestedFix: others ? `${operand} IS NOT NULL AND ${others}` : `${operand} IS NOT NULL`,
+        }
+        : {
+          severity: 'error',
+          description: `${finding.text} no longer matches empty values: '' in the list is NULL in Oracle and never equal to anything`,
+          suggestedFix: others ? `(${operand} IS NULL OR ${others})` : `${operand} IS NULL`,
+        };
+    }
+    case 'case':
+      return {
+        severity: 'error',
+        description: `${finding.text}: the WHEN '' branch never runs in Oracle, where '' is NULL and never equal to ${operand}`,
+        suggestedFix: `CASE WHEN ${operand} IS NULL THEN ...`,
+      };
+    case 'length':
+      return finding.negated
+        ? null // NULL fails "> 0" just like '' did
+        : {
+          severity: 'error',
+          description: `${finding.text} is never true in Oracle: LENGTH('') is NULL, not 0`,
+          suggestedFix: `${operand} IS NULL`,
+        };
+    case 'isnull':
+      return finding.concatenated
+        ? {
+          severity: 'info',
+          description: `${finding.text} returns NULL in Oracle; in a concatenation that is harmless, as || treats NULL as ''`,
+          suggestedFix: `${operand} (drop the isnull; Oracle concatenation already skips NULL)`,
+        }
+        : {
+          severity: 'warning',
+          description: `${finding.text} returns NULL in Oracle instead of '', so NOT NULL columns, callers and later comparisons see NULL`,
+          suggestedFix: `NVL(${operand}, ' ') if a non-NULL value is required; otherwise handle NULL where the value is used`,
+        };
+    case 'nullif':
+      return {
+        severity: 'info',
+        description: `${finding.text} has no effect in Oracle: '' already is NULL`,
+        suggestedFix: operand,
+      };
+    case 'assignment':
+      return {
+        severity: 'warning',
+        description: finding.target
+          ? `${finding.text} stores NULL in ${finding.target} in Oracle, where '' is NULL; IS NULL tests now succeed and NOT NULL columns reject it (ORA-01400)`
+          : `${finding.text} stores NULL in Oracle, where '' is NULL; NOT NULL columns reject it (ORA-01400) and the row no longer matches = ''`,
+        suggestedFix: finding.target?.startsWith('@')
+          ? `Treat NULL as empty in the IS NULL tests of ${finding.target}, or assign ' ' if it must stay distinct from NULL`
+          : finding.target && finding.target !== 'the return value'
+            ? `${finding.target} = NULL with ${finding.target} nullable, or ${finding.target} = ' ' where an empty value must stay distinct from NULL`
+            : `NULL, with the column nullable and callers expecting NULL, or ' ' where an empty value must stay distinct from NULL`,
+      };
+  }
+};
+
+export const findEmptyStringNotes = (sourceCode: string, convertedCode: string): EmptyStringNote[] => {
+  if (!hasEmptyStringRisks(sourceCode)) return [];
+  const findings = findConstructs(sourceCode)
+    // Variables assigned '' only matter when they are tested for NULL
+    .filter(finding => finding.construct !== 'assignment' || !finding.target?.startsWith('@') || testedForNull(sourceCode, finding.target));
+  if (findings.length === 0) return [];
+
+  const sourceLines = sourceCode.split('\n');
+  const sourceMap = buildSourceMap(sourceCode, convertedCode);
+  const remaining = hasEmptyStringRisks(convertedCode) ? findConstructs(convertedCode) : [];
+
+  const notes: EmptyStringNote[] = [];
+  findings.forEach(finding => {
+    const details = describe(finding);
+    if (!details) return;
+    // The converted lines of this construct; the whole output when the source map has no match
+    const entries = findMappedEntries(sourceMap, 'source', finding.line);
+    const targetLine = entries.length > 0 ? Math.min(...entries.map(entry => entry.targetStart)) : undefined;
+    const lastLine = entries.length > 0 ? Math.max(...entries.map(entry => entry.targetEnd)) : Infinity;
+    const survived = remaining.some(other =>
+      other.construct === finding.construct && other.line >= (targetLine ?? 1) && other.line <= lastLine);
+    const note = { line: finding.line, targetLine, code: sourceLines[finding.line - 1]?.trim() ?? finding.text, construct: finding.construct };
+    if (survived) {
+      notes.push({ ...note, ...details, description: `Line ${finding.line}: ${details.description}` });
+    } else if (details.severity !== 'info') {
+      notes.push({
+        ...note,
+        severity: 'info',
+        description: `Line ${finding.line}: ${finding.text} was rewritten in conversion; '' is NULL in Oracle, so check the rewrite treats empty and NULL values as intended`,
+        suggestedFix: details.suggestedFix,
+      });
+    }
+  });
+  return notes;
+};
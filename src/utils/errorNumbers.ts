@@ -0,0 +1,380 @@
+import { CodeFile, ErrorNumberMapping, ErrorNumberOptions } from '@/types';
+import { parseSybase, Token, walkScript } from './sybaseParser';
+import { buildSourceMap, findMappedEntries } from './sourceMap';
+
+// Sybase user errors (raiserror, rollback trigger with raiserror, sp_addmessage) and the Oracle codes
+// they become. RAISE_APPLICATION_ERROR only accepts -20000 .. -20999, and applications catch specific
+// numbers, so every number found in the uploaded files gets one code for the whole project: numbers
+// already in 20000 .. 20999 keep their value, the others take the free codes in ascending order.
+
+export const DEFAULT_ERROR_NUMBER_OPTIONS: ErrorNumberOptions = { mappings: [] };
+
+const FIRST_CODE = 20000;
+const LAST_CODE = 20999;
+// What a rollback trigger without an error number raises; never allocated to another number
+export const DEFAULT_ERROR_CODE = -20000;
+
+const inOracleRange = (errorNumber: number) => errorNumber >= FIRST_CODE && errorNumber <= LAST_CODE;
+
+interface ErrorRaise {
+  line: number;
+  start: number; // Offsets of the raiserror statement
+  end: number;
+  errorNumber?: number; // undefined when raised from a variable
+  numberText: string;
+  message?: Token; // Format string or variable
+  args: string[]; // Source text of the arguments
+  trigger: boolean; // rollback trigger with raiserror, converted with the trigger
+  errordata: boolean;
+}
+
+interface AddedMessage {
+  line: number;
+  start: number;
+  end: number;
+  errorNumber: number;
+  message?: string;
+}
+
+// Sybase accepts both '...' and "..." strings
+const unquote = (literal: string) => literal.slice(1, -1).replace(literal[0] === '"' ? /""/g : /''/g, literal[0]);
+const toOracleString = (text: string) => `'${text.replace(/'/g, "''")}'`;
+
+// Comma separated arguments at parenthesis depth 0
+const splitArguments = (tokens: Token[]): Token[][] => {
+  const args: Token[][] = [[]];
+  let depth = 0;
+  tokens.forEach(token => {
+    if (token.value === '(') depth++;
+    if (token.value === ')') depth--;
+    if (token.value === ',' && depth === 0) args.push([]);
+    else args[args.length - 1].push(token);
+  });
+  return args.filter(arg => arg.length > 0);
+};
+
+const scanErrors = (code: string): { raises: ErrorRaise[]; added: AddedMessage[] } => {
+  const script = parseSybase(code);
+  const tokens = script.tokens.filter(token => token.type !== 'comment');
+  const raises: ErrorRaise[] = [];
+  const added: AddedMessage[] = [];
+  walkScript(script, statement => {
+    const own = statement.tokens.filter(token => token.type !== 'comment' && token.value !== ';');
+    if (own.length === 0) return;
+    const last = own[own.length - 1];
+
+    // raiserror number [format | @variable] [, args] [with errordata ...]
+    if (statement.kind === 'simple' && statement.keyword === 'RAISERROR') {
+      const numberToken = own[1];
+      if (numberToken?.type !== 'number' && numberToken?.type !== 'variable') return;
+      const rest = own.slice(2);
+      const withIndex = rest.findIndex(token => token.upper === 'WITH');
+      const clause = withIndex >= 0 ? rest.slice(0, withIndex) : rest;
+      const message = clause[0] && clause[0].value !== ',' ? clause[0] : undefined;
+      const argTokens = clause.slice(message ? 1 : 0);
+      raises.push({
+        line: statement.line,
+        start: own[0].offset,
+        end: last.end,
+        errorNumber: numberToken.type === 'number' ? parseInt(numberToken.value) : undefined,
+        numberText: numberToken.value,
+        message: message?.type === 'string' || message?.type === 'variable' ? message : undefined,
+        args: argTokens[0]?.value === ',' ? splitArguments(argTokens.slice(1)).map(arg => code.slice(arg[0].offset, arg[arg.length - 1].end)) : [],
+        trigger: tokens[tokens.indexOf(own[0]) - 1]?.upper === 'WITH',
+        errordata: withIndex >= 0,
+      });
+      return;
+    }
+
+    // [exec] sp_addmessage number, message [, language ...], positional or @message_num / @message_text
+    const call = own[0].upper === 'EXEC' || own[0].upper === 'EXECUTE' ? own.slice(1) : own;
+    if (call[0]?.upper !== 'SP_ADDMESSAGE') return;
+    const args = splitArguments(call.slice(1));
+    const named = (name: string) => args.find(arg => arg[0].upper === name && arg[1]?.value === '=')?.[2];
+    const numberToken = named('@MESSAGE_NUM') ?? (args[0]?.[1]?.value === '=' ? undefined : args[0]?.[0]);
+    const textToken = named('@MESSAGE_TEXT') ?? (args[1]?.[1]?.value === '=' ? undefined : args[1]?.[0]);
+    if (numberToken?.type !== 'number') return;
+    // The statement's own semicolon goes with it
+    const semicolon = statement.tokens[statement.tokens.length - 1];
+    added.push({
+      line: statement.line,
+      start: own[0].offset,
+      end: semicolon?.value === ';' ? semicolon.end : last.end,
+      errorNumber: parseInt(numberToken.value),
+      message: textToken?.type === 'string' ? unquote(textToken.value) : undefined,
+    });
+  });
+  return { raises, added };
+};
+
+interface FileErrors {
+  raised: { errorNumber: number; format?: string }[];
+  added: { errorNumber: number; message?: string }[];
+}
+
+// Parsing is the expensive part; reuse it until the file's content changes
+const fileCache = new Map<string, { name: string; content: string; errors: FileErrors }>();
+
+const analyzeFile = (file: CodeFile): FileErrors => {
+  const cached = fileCache.get(file.id);
+  if (cached && cached.name === file.name && cached.content === file.content) return cached.errors;
+  const errors: FileErrors = { raised: [], added: [] };
+  if (/\b(raiserror|sp_addmessage)\b/i.test(file.content)) {
+    const { raises, added } = scanErrors(file.content);
+    raises.forEach(raise => {
+      if (raise.errorNumber === undefined) return;
+      errors.raised.push({ errorNumber: raise.errorNumber, format: raise.message?.type === 'string' ? unquote(raise.message.value) : undefined });
+    });
+    added.forEach(({ errorNumber, message }) => errors.added.push({ errorNumber, message }));
+  }
+  fileCache.set(file.id, { name: file.name, content: file.content, errors });
+  return errors;
+};
+
+// Every error number of the uploaded files with its Oracle code. The allocation depends only on the
+// set of numbers, so converting the files in any order or one at a time gives the same codes.
+export const findErrorNumberMappings = (files: CodeFile[]): ErrorNumberMapping[] => {
+  const byNumber = new Map<number, ErrorNumberMapping>();
+  const mappingFor = (errorNumber: number, fileName: string) => {
+    const mapping = byNumber.get(errorNumber) ?? { sybaseNumber: errorNumber, oracleNumber: null, formats: [], files: [] };
+    byNumber.set(errorNumber, mapping);
+    if (!mapping.files.includes(fileName)) mapping.files.push(fileName);
+    return mapping;
+  };
+  files.forEach(file => {
+    const { raised, added } = analyzeFile(file);
+    added.forEach(({ errorNumber, message }) => {
+      const mapping = mappingFor(errorNumber, file.name);
+      mapping.message = mapping.message ?? message;
+    });
+    raised.forEach(({ errorNumber, format }) => {
+      const mapping = mappingFor(errorNumber, file.name);
+      if (format !== undefined && !mapping.formats.includes(format)) mapping.formats.push(format);
+    });
+  });
+
+  const mappings = Array.from(byNumber.values()).sort((a, b) => a.sybaseNumber - b.sybaseNumber);
+  const taken = new Set([-DEFAULT_ERROR_CODE, ...mappings.filter(mapping => inOracleRange(mapping.sybaseNumber)).map(mapping => mapping.sybaseNumber)]);
+  let next = FIRST_CODE;
+  mappings.forEach(mapping => {
+    if (inOracleRange(mapping.sybaseNumber)) {
+      mapping.oracleNumber = -mapping.sybaseNumber;
+      return;
+    }
+    while (next <= LAST_CODE && taken.has(next)) next++;
+    mapping.oracleNumber = next <= LAST_CODE ? -next++ : null;
+  });
+  return mappings;
+};
+
+// The Oracle code of a Sybase error number: the project's map, else the number itself where it fits
+export const getOracleErrorNumber = (errorNumber: number, options: ErrorNumberOptions): number | null => {
+  const mapping = options.mappings.find(candidate => candidate.sybaseNumber === errorNumber);
+  if (mapping) return mapping.oracleNumber;
+  return inOracleRange(errorNumber) ? -errorNumber : null;
+};
+
+// RAISE_APPLICATION_ERROR for a raiserror; %1!, %2!, ... placeholders are filled in with REPLACE
+const buildRaise = (raise: ErrorRaise, oracleNumber: number, catalog: Map<number, string>): string => {
+  const added = raise.errorNumber !== undefined ? catalog.get(raise.errorNumber) : undefined;
+  const message = raise.message
+    ? raise.message.type === 'string' ? toOracleString(unquote(raise.message.value)) : raise.message.value
+    : toOracleString(added ?? `Error ${raise.numberText}`);
+  const formatted = raise.args.reduce((text, arg, i) => `REPLACE(${text}, '%${i + 1}!', ${arg})`, message);
+  return `RAISE_APPLICATION_ERROR(${oracleNumber}, ${formatted})`;
+};
+
+// sp_addmessage text of the project, then of the code itself
+const buildCatalog = (added: AddedMessage[], options: ErrorNumberOptions): Map<number, string> => {
+  const catalog = new Map<number, string>();
+  options.mappings.forEach(mapping => { if (mapping.message !== undefined) catalog.set(mapping.sybaseNumber, mapping.message); });
+  added.forEach(({ errorNumber, message }) => { if (message !== undefined && !catalog.has(errorNumber)) catalog.set(errorNumber, message); });
+  return catalog;
+};
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// raiserror with a literal number becomes RAISE_APPLICATION_ERROR with the mapped code, and
+// sp_addmessage a comment, as Oracle has no message catalog. Raises from variables, with errordata
+// and of numbers without a code are left for the RAISERROR pattern; trigger rollbacks are converted
+// with the trigger.
+export const rewriteErrorNumbers = (code: string, options: ErrorNumberOptions): string => {
+  if (!/\b(raiserror|sp_addmessage)\b/i.test(code)) return code;
+  const { raises, added } = scanErrors(code);
+  const catalog = buildCatalog(added, options);
+  const edits: TextEdit[] = [];
+  raises.forEach(raise => {
+    if (raise.trigger || raise.errordata || raise.errorNumber === undefined) return;
+    const oracleNumber = getOracleErrorNumber(raise.errorNumber, options);
+    if (oracleNumber === null) return;
+    edits.push({ start: raise.start, end: raise.end, text: buildRaise(raise, oracleNumber, catalog) });
+  });
+  added.forEach(message => {
+    const oracleNumber = getOracleErrorNumber(message.errorNumber, options);
+    if (oracleNumber === null) return;
+    edits.push({ start: message.start, end: message.end, text: `/* sp_addmessage ${message.errorNumber}: raised with RAISE_APPLICATION_ERROR(${oracleNumber}, ...) */` });
+  });
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), code);
+};
+
+const RAISE_CALL = /RAISE_APPLICATION_ERROR\s*\(\s*(-?\s*\d+)/gi;
+
+// The converted lines of a source line, as [start, end] offsets of the converted code
+const convertedRegion = (sourceMap: ReturnType<typeof buildSourceMap>, lineOffsets: number[], line: number): [number, number] | null => {
+  const entries = findMappedEntries(sourceMap, 'source', line);
+  if (entries.length === 0) return null;
+  const first = Math.min(...entries.map(entry => entry.targetStart));
+  const last = Math.max(...entries.map(entry => entry.targetEnd));
+  return [lineOffsets[first - 1] ?? 0, lineOffsets[last] ?? Infinity];
+};
+
+const lineStartOffsets = (code: string): number[] => {
+  const offsets = [0];
+  for (let i = 0; i < code.length; i++) if (code[i] === '\n') offsets.push(i + 1);
+  return offsets;
+};
+
+// Give the RAISE_APPLICATION_ERROR calls of converted code (typically AI output) the codes of the
+// project's map. Each raise of the source is matched, in order, with the calls in its converted lines.
+export const applyErrorNumbers = (sourceCode: string, convertedCode: string, options: ErrorNumberOptions): string => {
+  if (!/\braiserror\b/i.test(sourceCode) || !/RAISE_APPLICATION_ERROR/i.test(convertedCode)) return convertedCode;
+  const raises = scanErrors(sourceCode).raises.filter(raise => raise.errorNumber !== undefined);
+  const sourceMap = buildSourceMap(sourceCode, convertedCode);
+  const lineOffsets = lineStartOffsets(convertedCode);
+  const edits: TextEdit[] = [];
+  const claimed = new Set<number>();
+  raises.forEach(raise => {
+    const oracleNumber = getOracleErrorNumber(raise.errorNumber!, options);
+    const region = convertedRegion(sourceMap, lineOffsets, raise.line);
+    if (oracleNumber === null || !region) return;
+    const call = Array.from(convertedCode.slice(region[0], region[1]).matchAll(RAISE_CALL))
+      .map(match => ({ start: region[0] + match.index! + match[0].length - match[1].length, value: match[1] }))
+      .find(candidate => !claimed.has(candidate.start));
+    if (!call) return;
+    claimed.add(call.start);
+    if (parseInt(call.value.replace(/\s/g, '')) !== oracleNumber) {
+      edits.push({ start: call.start, end: call.start + call.value.length, text: String(oracleNumber) });
+    }
+  });
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), convertedCode);
+};
+
+// Prompt lines: the codes of the error numbers the code raises or adds
+export const describeErrorNumbers = (code: string, options: ErrorNumberOptions): string[] => {
+  if (!/\b(raiserror|sp_addmessage)\b/i.test(code)) return [];
+  const { raises, added } = scanErrors(code);
+  const catalog = buildCatalog(added, options);
+  const numbers = Array.from(new Set([...raises.map(raise => raise.errorNumber), ...added.map(message => message.errorNumber)]
+    .filter((errorNumber): errorNumber is number => errorNumber !== undefined))).sort((a, b) => a - b);
+  return numbers.map(errorNumber => {
+    const oracleNumber = getOracleErrorNumber(errorNumber, options);
+    const message = catalog.get(errorNumber);
+    return oracleNumber === null
+      ? `- ${errorNumber}: no code left in -20000 .. -20999; raise ${DEFAULT_ERROR_CODE} with the number in the message`
+      : `- ${errorNumber} -> RAISE_APPLICATION_ERROR(${oracleNumber}, ...)${message !== undefined ? ` with the sp_addmessage text ${toOracleString(message)}` : ''}`;
+  });
+};
+
+export const formatOracleErrorCode = (oracleNumber: number | null): string =>
+  oracleNumber === null ? 'none' : `ORA${oracleNumber}`;
+
+// The map as CSV for the application team: one row per Sybase error number
+export const formatErrorNumbersCsv = (options: ErrorNumberOptions): string => {
+  const field = (value: string) => /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+  const rows = options.mappings.map(mapping => [
+    String(mapping.sybaseNumber),
+    mapping.oracleNumber === null ? '' : String(mapping.oracleNumber),
+    mapping.oracleNumber === null ? '' : formatOracleErrorCode(mapping.oracleNumber),
+    mapping.message ?? '',
+    mapping.formats.join(' | '),
+    mapping.files.join('; '),
+  ]);
+  return [['sybase_number', 'oracle_number', 'oracle_error', 'message', 'raised_with', 'files'], ...rows]
+    .map(row => row.map(field).join(','))
+    .join('\r\n') + '\r\n';
+};
+
+export interface ErrorNumberNote {
+  line: number;
+  targetLine?: number;
+  code: string;
+  severity: 'info' | 'warning' | 'error';
+  description: string;
+  suggestedFix: string;
+}
+
+// Raises that cannot be mapped, numbers that change, and converted code raising a different code
+export const findErrorNumberNotes = (sourceCode: string, convertedCode: string, options: ErrorNumberOptions): ErrorNumberNote[] => {
+  if (!/\braiserror\b/i.test(sourceCode)) return [];
+  const { raises, added } = scanErrors(sourceCode);
+  const catalog = buildCatalog(added, options);
+  const sourceLines = sourceCode.split('\n');
+  const sourceMap = buildSourceMap(sourceCode, convertedCode);
+  const convertedLines = convertedCode.split('\n');
+  const renumbered = new Set<number>();
+
+  const notes: ErrorNumberNote[] = [];
+  raises.forEach(raise => {
+    const code = sourceLines[raise.line - 1]?.trim() ?? '';
+    const entries = findMappedEntries(sourceMap, 'source', raise.line);
+    const targetLine = entries.length > 0 ? Math.min(...entries.map(entry => entry.targetStart)) : undefined;
+    if (raise.errorNumber === undefined) {
+      notes.push({
+        line: raise.line,
+        targetLine,
+        code,
+        severity: 'warning',
+        description: `raiserror takes its error number from ${raise.numberText}, so it cannot be mapped to an Oracle code up front; callers catching specific numbers will not see it`,
+        suggestedFix: `Map the values ${raise.numberText} can take onto the codes of the error map with a CASE, or raise ${DEFAULT_ERROR_CODE} with the number in the message`,
+      });
+      return;
+    }
+    const oracleNumber = getOracleErrorNumber(raise.errorNumber, options);
+    if (oracleNumber === null) {
+      notes.push({
+        line: raise.line,
+        targetLine,
+        code,
+        severity: 'error',
+        description: `Error ${raise.errorNumber} has no Oracle code: the project raises more error numbers than -20000 .. -20999 holds`,
+        suggestedFix: 'Let errors the application does not catch share a code, and carry the Sybase number in the message',
+      });
+      return;
+    }
+    if (!inOracleRange(raise.errorNumber) && !renumbered.has(raise.errorNumber)) {
+      renumbered.add(raise.errorNumber);
+      notes.push({
+        line: raise.line,
+        targetLine,
+        code,
+        severity: 'info',
+        description: `Error ${raise.errorNumber} is outside Oracle's user error range and is raised as ${formatOracleErrorCode(oracleNumber)}`,
+        suggestedFix: `Catch ${oracleNumber} instead of ${raise.errorNumber} in the application (see the error map CSV)`,
+      });
+    }
+    const region = entries.length > 0
+      ? convertedLines.slice(targetLine! - 1, Math.max(...entries.map(entry => entry.targetEnd))).join('\n')
+      : convertedCode;
+    const raised = Array.from(region.matchAll(RAISE_CALL)).map(match => parseInt(match[1].replace(/\s/g, '')));
+    if (raised.includes(oracleNumber)) return;
+    notes.push({
+      line: raise.line,
+      targetLine,
+      code,
+      severity: 'warning',
+      description: raised.length > 0
+        ? `raiserror ${raise.errorNumber} should raise ${oracleNumber} under the project's error map; the converted code raises ${raised.join(', ')}`
+        : `raiserror ${raise.errorNumber} should raise ${oracleNumber} under the project's error map; the converted code has no RAISE_APPLICATION_ERROR for it`,
+      suggestedFix: raise.trigger ? `RAISE_APPLICATION_ERROR(${oracleNumber}, ...)` : buildRaise(raise, oracleNumber, catalog),
+    });
+  });
+  return notes;
+};
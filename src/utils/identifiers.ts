@@ -0,0 +1,411 @@
+import { CodeFile, IdentifierOptions, IdentifierRename, OracleVersion, RenameReason } from '@/types';
+import { objectBaseName, parseSybase, Token, tokenize, walkScript } from './sybaseParser';
+
+// Identifiers Sybase accepts and Oracle rejects: names longer than 30 characters before 12.2 (128 from
+// 12.2 on), Oracle reserved words such as comment, date, level or size, and names differing only by
+// case, which Oracle folds to the same upper-case name. Every uploaded file is scanned so each name
+// gets one Oracle name for the whole project; the source is renamed before it is converted.
+
+export const DEFAULT_IDENTIFIER_OPTIONS: IdentifierOptions = { maxLength: 128, renames: [] };
+
+// 12c is taken as 12.1, which still has the 30 character limit
+export const getIdentifierMaxLength = (version: OracleVersion): number =>
+  version === '11g' || version === '12c' ? 30 : 128;
+
+// Oracle SQL reserved words (V$RESERVED_WORDS.RESERVED = 'Y')
+export const ORACLE_RESERVED_WORDS = new Set([
+  'ACCESS', 'ADD', 'ALL', 'ALTER', 'AND', 'ANY', 'AS', 'ASC', 'AUDIT', 'BETWEEN', 'BY', 'CHAR', 'CHECK',
+  'CLUSTER', 'COLUMN', 'COMMENT', 'COMPRESS', 'CONNECT', 'CREATE', 'CURRENT', 'DATE', 'DECIMAL', 'DEFAULT',
+  'DELETE', 'DESC', 'DISTINCT', 'DROP', 'ELSE', 'EXCLUSIVE', 'EXISTS', 'FILE', 'FLOAT', 'FOR', 'FROM',
+  'GRANT', 'GROUP', 'HAVING', 'IDENTIFIED', 'IMMEDIATE', 'IN', 'INCREMENT', 'INDEX', 'INITIAL', 'INSERT',
+  'INTEGER', 'INTERSECT', 'INTO', 'IS', 'LEVEL', 'LIKE', 'LOCK', 'LONG', 'MAXEXTENTS', 'MINUS', 'MLSLABEL',
+  'MODE', 'MODIFY', 'NOAUDIT', 'NOCOMPRESS', 'NOT', 'NOWAIT', 'NULL', 'NUMBER', 'OF', 'OFFLINE', 'ON',
+  'ONLINE', 'OPTION', 'OR', 'ORDER', 'PCTFREE', 'PRIOR', 'PUBLIC', 'RAW', 'RENAME', 'RESOURCE', 'REVOKE',
+  'ROW', 'ROWID', 'ROWNUM', 'ROWS', 'SELECT', 'SESSION', 'SET', 'SHARE', 'SIZE', 'SMALLINT', 'START',
+  'SUCCESSFUL', 'SYNONYM', 'SYSDATE', 'TABLE', 'THEN', 'TO', 'TRIGGER', 'UID', 'UNION', 'UNIQUE', 'UPDATE',
+  'USER', 'VALIDATE', 'VALUES', 'VARCHAR', 'VARCHAR2', 'VIEW', 'WHENEVER', 'WHERE', 'WITH',
+]);
+
+// Oracle parameter names carry the converter's p_ prefix
+const PARAMETER_PREFIX = 'p_';
+
+type SchemaKind = Exclude<IdentifierRename['kind'], 'column' | 'parameter'>;
+
+interface Definition {
+  kind: IdentifierRename['kind'];
+  name: string;
+  scope?: string;
+}
+
+// Unqualified and unbracketed, case kept: "dbo.[Order Lines]" -> "Order Lines"
+const bareName = (name: string) => name.split('.').pop()!.replace(/^\[|\]$/g, '');
+
+const findDefinitions = (code: string): Definition[] => {
+  const definitions: Definition[] = [];
+  walkScript(parseSybase(code), statement => {
+    switch (statement.kind) {
+      case 'createTable':
+        if (statement.temporary) break;
+        definitions.push({ kind: 'table', name: bareName(statement.name) });
+        statement.columns.forEach(column => definitions.push({ kind: 'column', name: bareName(column.name), scope: bareName(statement.name) }));
+        break;
+      case 'createProcedure':
+      case 'createFunction':
+        definitions.push({ kind: statement.kind === 'createProcedure' ? 'procedure' : 'function', name: bareName(statement.name) });
+        statement.parameters.forEach(parameter => definitions.push({ kind: 'parameter', name: parameter.name, scope: bareName(statement.name) }));
+        break;
+      case 'createTrigger':
+        definitions.push({ kind: 'trigger', name: bareName(statement.name) });
+        break;
+      case 'createView':
+        definitions.push({ kind: 'view', name: bareName(statement.name) });
+        break;
+    }
+  });
+  return definitions;
+};
+
+// Parsing is the expensive part; reuse it until the file's content changes
+const fileCache = new Map<string, { name: string; content: string; definitions: Definition[] }>();
+
+const analyzeFile = (file: CodeFile): Definition[] => {
+  const cached = fileCache.get(file.id);
+  if (cached && cached.name === file.name && cached.content === file.content) return cached.definitions;
+  const definitions = /\bcreate\b/i.test(file.content) ? findDefinitions(file.content) : [];
+  fileCache.set(file.id, { name: file.name, content: file.content, definitions });
+  return definitions;
+};
+
+// base, then base_2, base_3, ... shortened to fit
+const uniqueName = (base: string, isTaken: (name: string) => boolean, maxLength: number): string => {
+  let candidate = base.slice(0, maxLength);
+  for (let suffix = 2; isTaken(candidate); suffix++) {
+    candidate = `${base.slice(0, maxLength - String(suffix).length - 1)}_${suffix}`;
+  }
+  return candidate;
+};
+
+interface Assignment {
+  oracleName: string;
+  reasons: RenameReason[];
+  conflictsWith: string[];
+}
+
+// Names of one namespace (tables, views, procedures and functions share one in Oracle): valid names
+// keep theirs, the first of several names differing only by case keeps it, the rest are renamed to a
+// name still free
+const assignNames = (names: string[], maxLength: number, checkReserved: boolean): Map<string, Assignment> => {
+  const problems = (name: string): RenameReason[] => [
+    ...(checkReserved && ORACLE_RESERVED_WORDS.has(name.toUpperCase()) ? ['reserved' as const] : []),
+    ...(name.length > maxLength ? ['length' as const] : []),
+  ];
+  const taken = new Map<string, string>(); // upper-case Oracle name -> Sybase name holding it
+  names.forEach(name => {
+    if (problems(name).length === 0 && !taken.has(name.toUpperCase())) taken.set(name.toUpperCase(), name);
+  });
+  const assignments = new Map<string, Assignment>();
+  names.forEach(name => {
+    if (taken.get(name.toUpperCase()) === name) return;
+    const reasons = problems(name);
+    const conflictsWith: string[] = [];
+    if (reasons.length === 0) {
+      reasons.push('case');
+      conflictsWith.push(taken.get(name.toUpperCase())!);
+    }
+    const base = (reasons.includes('reserved') ? `${name}_` : name).slice(0, maxLength);
+    const holder = taken.get(base.toUpperCase());
+    if (holder && !reasons.includes('case')) {
+      reasons.push('collision');
+      conflictsWith.push(holder);
+    }
+    const oracleName = uniqueName(base, candidate => taken.has(candidate.toUpperCase()), maxLength);
+    taken.set(oracleName.toUpperCase(), name);
+    assignments.set(name, { oracleName, reasons, conflictsWith });
+  });
+  return assignments;
+};
+
+// Columns are referenced without their table, so a column name gets the same Oracle name in every
+// table; it has to be free in each table that has the column
+const assignColumnNames = (columns: Definition[], maxLength: number): Map<string, Assignment> => {
+  const taken = new Map<string, Map<string, string>>(); // table -> upper-case Oracle name -> Sybase name
+  const tablesOf = new Map<string, string[]>();
+  columns.forEach(column => {
+    if (!taken.has(column.scope!)) taken.set(column.scope!, new Map());
+    tablesOf.set(column.name, [...(tablesOf.get(column.name) ?? []), column.scope!]);
+  });
+  const problems = (name: string): RenameReason[] => [
+    ...(ORACLE_RESERVED_WORDS.has(name.toUpperCase()) ? ['reserved' as const] : []),
+    ...(name.length > maxLength ? ['length' as const] : []),
+  ];
+  columns.forEach(column => {
+    const tableNames = taken.get(column.scope!)!;
+    if (problems(column.name).length === 0 && !tableNames.has(column.name.toUpperCase())) tableNames.set(column.name.toUpperCase(), column.name);
+  });
+
+  const assignments = new Map<string, Assignment>();
+  Array.from(tablesOf.keys()).forEach(name => {
+    const tables = tablesOf.get(name)!;
+    const upper = name.toUpperCase();
+    const lost = tables.filter(table => taken.get(table)!.get(upper) !== name);
+    const reasons = problems(name);
+    if (reasons.length === 0 && lost.length === 0) return;
+    const conflictsWith: string[] = [];
+    if (reasons.length === 0) {
+      reasons.push('case');
+      conflictsWith.push(...new Set(lost.map(table => taken.get(table)!.get(upper)!)));
+    }
+    // Renamed in every table, including those where the name was free
+    tables.forEach(table => {
+      if (taken.get(table)!.get(upper) === name) taken.get(table)!.delete(upper);
+    });
+    const isTaken = (candidate: string) => tables.some(table => taken.get(table)!.has(candidate.toUpperCase()));
+    const base = (reasons.includes('reserved') ? `${name}_` : name).slice(0, maxLength);
+    if (isTaken(base) && !reasons.includes('case')) {
+      reasons.push('collision');
+      conflictsWith.push(...new Set(tables.flatMap(table => taken.get(table)!.get(base.toUpperCase()) ?? [])));
+    }
+    const oracleName = uniqueName(base, isTaken, maxLength);
+    tables.forEach(table => taken.get(table)!.set(oracleName.toUpperCase(), name));
+    assignments.set(name, { oracleName, reasons, conflictsWith });
+  });
+  return assignments;
+};
+
+export const findIdentifierRenames = (files: CodeFile[], maxLength: number): IdentifierRename[] => {
+  const definitions = files.flatMap(file => analyzeFile(file).map(definition => ({ ...definition, fileName: file.name })));
+  const filesOf = (kind: IdentifierRename['kind'], name: string, scope?: string) =>
+    Array.from(new Set(definitions
+      .filter(definition => definition.kind === kind && definition.name === name && definition.scope === scope)
+      .map(definition => definition.fileName)));
+  const unique = <T,>(values: T[]) => Array.from(new Set(values));
+  const renames: IdentifierRename[] = [];
+
+  // Tables, views, procedures and functions share a namespace; triggers have their own
+  const schemaKinds: SchemaKind[][] = [['table', 'view', 'procedure', 'function'], ['trigger']];
+  schemaKinds.forEach(kinds => {
+    const objects = definitions.filter(definition => (kinds as string[]).includes(definition.kind));
+    const assignments = assignNames(unique(objects.map(object => object.name)), maxLength, true);
+    assignments.forEach((assignment, name) => {
+      const kind = objects.find(object => object.name === name)!.kind;
+      renames.push({ kind, name, ...assignment, files: filesOf(kind, name) });
+    });
+  });
+
+  const columns = definitions.filter(definition => definition.kind === 'column');
+  const columnAssignments = assignColumnNames(columns, maxLength);
+  unique(columns.map(column => `${column.scope}\u0000${column.name}`)).forEach(key => {
+    const [scope, name] = key.split('\u0000');
+    const assignment = columnAssignments.get(name);
+    if (assignment) renames.push({ kind: 'column', name, scope, ...assignment, files: filesOf('column', name, scope) });
+  });
+
+  // Parameters per routine; only the prefixed name has to fit
+  const parameters = definitions.filter(definition => definition.kind === 'parameter');
+  unique(parameters.map(parameter => parameter.scope!)).forEach(scope => {
+    const names = unique(parameters.filter(parameter => parameter.scope === scope).map(parameter => parameter.name));
+    assignNames(names, maxLength - PARAMETER_PREFIX.length, false).forEach((assignment, name) => {
+      renames.push({
+        kind: 'parameter',
+        name,
+        scope,
+        ...assignment,
+        oracleName: `${PARAMETER_PREFIX}${assignment.oracleName}`,
+        files: filesOf('parameter', name, scope),
+      });
+    });
+  });
+  return renames;
+};
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// A data type rather than a column: @var date, convert(date, ...), cast(... as date) and the type
+// following the column name in CREATE TABLE
+const isTypePosition = (tokens: Token[], index: number, inCreateTable: boolean): boolean => {
+  const previous = tokens[index - 1];
+  if (!previous) return false;
+  if (previous.type === 'variable') return true;
+  if (previous.value === '(' && tokens[index - 2]?.upper === 'CONVERT') return true;
+  if (previous.upper === 'AS' && tokens[index + 1]?.value === ')') return true;
+  return inCreateTable && (previous.type === 'word' || previous.type === 'quotedIdentifier') &&
+    ['(', ','].includes(tokens[index - 2]?.value);
+};
+
+// Words after which an expression starts rather than ends
+const EXPRESSION_START = new Set([
+  'SELECT', 'DISTINCT', 'TOP', 'BY', 'WHERE', 'HAVING', 'AND', 'OR', 'NOT', 'SET', 'ON', 'WHEN', 'THEN', 'ELSE',
+  'CASE', 'IN', 'IS', 'AS', 'RETURN', 'FROM', 'INTO', 'VALUES', 'LIKE', 'BETWEEN', 'EXISTS', 'PRINT',
+]);
+
+const endsExpression = (token: Token | undefined): boolean =>
+  !!token && (token.type === 'number' || token.type === 'quotedIdentifier' || token.type === 'string' ||
+    token.type === 'variable' || token.value === ')' || (token.type === 'word' && !EXPRESSION_START.has(token.upper)));
+
+// An unquoted word used as the keyword a renamed column happens to share its name with: ORDER BY ... ASC / DESC,
+// CREATE / DROP INDEX and (index name) hints, START WITH and LOCK TABLE ... IN SHARE / EXCLUSIVE MODE
+const isKeywordPosition = (tokens: Token[], index: number): boolean => {
+  const token = tokens[index];
+  if (token.type !== 'word') return false;
+  const previous = tokens[index - 1];
+  const next = tokens[index + 1];
+  switch (token.upper) {
+    case 'ASC':
+    case 'DESC':
+      return endsExpression(previous);
+    case 'INDEX':
+      return ['CREATE', 'DROP', 'UNIQUE', 'CLUSTERED', 'NONCLUSTERED'].includes(previous?.upper ?? '') ||
+        (previous?.value === '(' && (next?.type === 'word' || next?.type === 'number'));
+    case 'START':
+      return next?.upper === 'WITH';
+    case 'MODE':
+      return ['SHARE', 'EXCLUSIVE'].includes(previous?.upper ?? '');
+    default:
+      return false;
+  }
+};
+
+// Exact name first; other spellings only where no other name differs just by case
+const indexRenames = <T extends IdentifierRename | IdentifierRename[]>(entries: [string, T][]) => {
+  const exact = new Map(entries);
+  const folded = new Map(entries
+    .filter(([, value]) => ([] as IdentifierRename[]).concat(value).every(rename => !rename.reasons.includes('case') && rename.conflictsWith.length === 0))
+    .map(([name, value]) => [name.toUpperCase(), value]));
+  return (name: string): T | undefined => exact.get(name) ?? folded.get(name.toUpperCase());
+};
+
+// Renames of the project that the code uses, and the edits applying them
+const scanIdentifiers = (code: string, options: IdentifierOptions): { edits: TextEdit[]; used: IdentifierRename[] } => {
+  if (options.renames.length === 0) return { edits: [], used: [] };
+  const script = parseSybase(code);
+  const tokens = script.tokens.filter(token => token.type !== 'comment');
+  const findObject = indexRenames(options.renames
+    .filter(rename => rename.kind !== 'column' && rename.kind !== 'parameter')
+    .map(rename => [rename.name, rename] as [string, IdentifierRename]));
+  const columns = new Map<string, IdentifierRename[]>();
+  options.renames.filter(rename => rename.kind === 'column').forEach(rename => columns.set(rename.name, [...(columns.get(rename.name) ?? []), rename]));
+  const findColumns = indexRenames(Array.from(columns.entries()));
+
+  const tableRanges: [number, number][] = [];
+  const routines: { start: number; end: number; findParameter: (name: string) => IdentifierRename | undefined }[] = [];
+  walkScript(script, statement => {
+    const range: [number, number] = [statement.tokens[0]?.offset ?? 0, statement.tokens[statement.tokens.length - 1]?.end ?? 0];
+    if (statement.kind === 'createTable') tableRanges.push(range);
+    if (statement.kind === 'createProcedure' || statement.kind === 'createFunction') {
+      const scope = bareName(statement.name);
+      const parameters = options.renames.filter(rename => rename.kind === 'parameter' && rename.scope === scope);
+      if (parameters.length > 0) {
+        routines.push({ start: range[0], end: range[1], findParameter: indexRenames(parameters.map(rename => [`@${rename.name}`, rename])) });
+      }
+    }
+  });
+
+  const edits: TextEdit[] = [];
+  const used = new Set<IdentifierRename>();
+  tokens.forEach((token, index) => {
+    if (token.type === 'variable') {
+      const rename = routines.find(routine => token.offset >= routine.start && token.end <= routine.end)?.findParameter(token.value);
+      if (!rename) return;
+      used.add(rename);
+      edits.push({ start: token.offset, end: token.end, text: `@${rename.oracleName.slice(PARAMETER_PREFIX.length)}` });
+      return;
+    }
+    if (token.type !== 'word' && token.type !== 'quotedIdentifier') return;
+    const name = token.value.replace(/^\[|\]$/g, '');
+    const object = findObject(name);
+    if (object) {
+      used.add(object);
+      edits.push({ start: token.offset, end: token.end, text: object.oracleName });
+      return;
+    }
+    const columnRenames = findColumns(name);
+    const inCreateTable = tableRanges.some(([start, end]) => token.offset >= start && token.end <= end);
+    if (!columnRenames || isTypePosition(tokens, index, inCreateTable) || isKeywordPosition(tokens, index)) return;
+    columnRenames.forEach(rename => used.add(rename));
+    edits.push({ start: token.offset, end: token.end, text: columnRenames[0].oracleName });
+  });
+  return { edits, used: options.renames.filter(rename => used.has(rename)) };
+};
+
+export const findUsedRenames = (code: string, options: IdentifierOptions): IdentifierRename[] =>
+  scanIdentifiers(code, options).used;
+
+// Every use of a renamed identifier gets its Oracle name; strings and comments are left alone
+export const rewriteIdentifiers = (code: string, options: IdentifierOptions): string => {
+  const { edits } = scanIdentifiers(code, options);
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((result, edit) => result.slice(0, edit.start) + edit.text + result.slice(edit.end), code);
+};
+
+export const describeRenameReasons = (rename: IdentifierRename, maxLength: number): string =>
+  rename.reasons.map(reason => {
+    switch (reason) {
+      case 'length': return `longer than ${maxLength} characters`;
+      case 'reserved': return 'Oracle reserved word';
+      case 'case': return `differs only by case from ${rename.conflictsWith.join(', ')}`;
+      case 'collision': return `shortened name taken by ${rename.conflictsWith.join(', ')}`;
+    }
+  }).join(', ');
+
+export const formatRenamedName = (rename: IdentifierRename): string =>
+  rename.kind === 'parameter' ? `${rename.scope} @${rename.name}` : rename.scope ? `${rename.scope}.${rename.name}` : rename.name;
+
+// Prompt lines: the Oracle names of the renamed identifiers the code uses
+export const describeIdentifierRenames = (code: string, options: IdentifierOptions): string[] =>
+  findUsedRenames(code, options).map(rename =>
+    `- ${rename.kind} ${formatRenamedName(rename)} -> ${rename.oracleName} (${describeRenameReasons(rename, options.maxLength)})`);
+
+export interface IdentifierNote {
+  code: string;
+  severity: 'info' | 'warning' | 'error';
+  description: string;
+  suggestedFix: string;
+}
+
+// Renames affecting the code, and identifiers of the converted code Oracle still rejects
+export const findIdentifierNotes = (sourceCode: string, convertedCode: string, options: IdentifierOptions): IdentifierNote[] => {
+  const notes: IdentifierNote[] = [];
+  const used = findUsedRenames(sourceCode, options);
+  used.filter(rename => rename.reasons.includes('case') || rename.reasons.includes('collision')).forEach(rename => notes.push({
+    code: rename.name,
+    severity: 'warning',
+    description: `${rename.kind[0].toUpperCase()}${rename.kind.slice(1)} ${formatRenamedName(rename)} becomes ${rename.oracleName} (${describeRenameReasons(rename, options.maxLength)})`,
+    suggestedFix: 'Check which of the names callers, reports and dynamic SQL mean, and use the Oracle name there',
+  }));
+  const plain = used.filter(rename => !rename.reasons.includes('case') && !rename.reasons.includes('collision'));
+  if (plain.length > 0) {
+    notes.push({
+      code: plain.map(rename => rename.name).join(', '),
+      severity: 'info',
+      description: `Renamed for Oracle: ${plain.map(rename => `${formatRenamedName(rename)} -> ${rename.oracleName} (${describeRenameReasons(rename, options.maxLength)})`).join('; ')}`,
+      suggestedFix: 'Use the Oracle names in application code and dynamic SQL',
+    });
+  }
+
+  const tooLong = new Set(tokenize(convertedCode)
+    .filter(token => (token.type === 'word' || token.type === 'quotedIdentifier') && token.value.replace(/^["[]|["\]]$/g, '').length > options.maxLength)
+    .map(token => token.value));
+  tooLong.forEach(name => notes.push({
+    code: name,
+    severity: 'error',
+    description: `${name} is ${name.length} characters long; the target Oracle version allows ${options.maxLength} (ORA-00972)`,
+    suggestedFix: `Shorten it to ${options.maxLength} characters, consistently in every file`,
+  }));
+  walkScript(parseSybase(convertedCode), statement => {
+    if (statement.kind !== 'createTable') return;
+    statement.columns
+      .filter(column => ORACLE_RESERVED_WORDS.has(column.name.toUpperCase()))
+      .forEach(column => notes.push({
+        code: column.name,
+        severity: 'error',
+        description: `Column ${column.name} of ${objectBaseName(statement.name)} is an Oracle reserved word (ORA-00904)`,
+        suggestedFix: `Rename it, e.g. to ${column.name}_, in every file that uses it`,
+      }));
+  });
+  return notes;
+};
@@ -0,0 +1,240 @@
+import { CodeFile, IdentityColumn, IdentityOptions, IdentityStrategy, OracleVersion } from '@/types';
+import { nestedLists, objectBaseName, ownTokens, parseSybase, SqlScript, Statement, Token, walkScript } from './sybaseParser';
+
+// IDENTITY columns and @@identity. Identity columns are collected from every uploaded file, so a
+// procedure inserting into a table defined in another file gets the same sequence names and the
+// same RETURNING INTO / CURRVAL rewrite as every other procedure of the project.
+
+// Oracle before 12.2 limits identifiers to 30 characters
+const MAX_NAME_LENGTH = 30;
+
+export const DEFAULT_IDENTITY_OPTIONS: IdentityOptions = { strategy: 'identity', columns: [] };
+
+// Identity columns exist from 12c on; older targets need a sequence and a trigger
+export const getIdentityStrategy = (version: OracleVersion): IdentityStrategy =>
+  version === '11g' ? 'sequence' : 'identity';
+
+const objectName = (table: string, suffix: string) =>
+  `${objectBaseName(table).replace(/^#+/, '').toUpperCase().slice(0, MAX_NAME_LENGTH - suffix.length)}${suffix}`;
+
+export const getSequenceName = (table: string) => objectName(table, '_SEQ');
+export const getIdentityTriggerName = (table: string) => objectName(table, '_BI_TRG');
+
+export const findIdentityColumn = (columns: IdentityColumn[], table: string): IdentityColumn | undefined =>
+  columns.find(column => objectBaseName(column.table) === objectBaseName(table));
+
+// Sybase allows one IDENTITY column per table; the first definition of a table wins
+const collectIdentityColumns = (script: SqlScript, fileName: string, includeTemporary: boolean): IdentityColumn[] => {
+  const columns: IdentityColumn[] = [];
+  walkScript(script, statement => {
+    if (statement.kind !== 'createTable' || (statement.temporary && !includeTemporary)) return;
+    const column = statement.columns.find(c => c.identity);
+    if (!column || findIdentityColumn(columns, statement.name)) return;
+    columns.push({
+      table: statement.name,
+      column: column.name,
+      fileName,
+      line: column.line,
+      sequenceName: getSequenceName(statement.name),
+      triggerName: getIdentityTriggerName(statement.name),
+    });
+  });
+  return columns;
+};
+
+// Parsing is the expensive part; reuse it until the file's content changes
+const fileColumnsCache = new Map<string, { name: string; content: string; columns: IdentityColumn[] }>();
+
+const getFileIdentityColumns = (file: CodeFile): IdentityColumn[] => {
+  const cached = fileColumnsCache.get(file.id);
+  if (cached && cached.name === file.name && cached.content === file.content) return cached.columns;
+  const columns = collectIdentityColumns(parseSybase(file.content), file.name, false);
+  fileColumnsCache.set(file.id, { name: file.name, content: file.content, columns });
+  return columns;
+};
+
+// #temp tables are local to the procedure that creates them and are left out
+export const findIdentityColumns = (files: CodeFile[]): IdentityColumn[] => {
+  const columns: IdentityColumn[] = [];
+  files.forEach(file => {
+    getFileIdentityColumns(file).forEach(column => {
+      if (!findIdentityColumn(columns, column.table)) columns.push(column);
+    });
+  });
+  return columns;
+};
+
+export const buildSequenceDDL = (
+  column: Pick<IdentityColumn, 'table' | 'column' | 'sequenceName' | 'triggerName'>,
+  start: number = 1,
+  increment: number = 1
+): string => [
+  `CREATE SEQUENCE ${column.sequenceName} START WITH ${start} INCREMENT BY ${increment};`,
+  '',
+  `CREATE OR REPLACE TRIGGER ${column.triggerName}`,
+  `BEFORE INSERT ON ${column.table}`,
+  'FOR EACH ROW',
+  `WHEN (NEW.${column.column} IS NULL)`,
+  'BEGIN',
+  `  :NEW.${column.column} := ${column.sequenceName}.NEXTVAL;`,
+  'END;',
+  '/',
+].join('\n');
+
+export type IdentityRewrite = 'returning' | 'currval' | 'unresolved';
+
+// One statement reading @@identity
+export interface IdentityUsage {
+  line: number;
+  code: string;
+  rewrite: IdentityRewrite;
+  detail: string; // The Oracle replacement, or why there is none
+  column?: IdentityColumn; // Identity column of the table inserted into before the statement
+  variable?: string; // Set for "select @v = @@identity" / "set @v = @@identity"
+  insertLine?: number;
+  tokens: Token[];
+  insertTokens?: Token[];
+}
+
+interface InsertInfo {
+  table: string;
+  tokens: Token[];
+  line: number;
+  singleRow: boolean; // INSERT ... VALUES, which can take a RETURNING clause
+  returning?: string; // Variable already receiving the identity through RETURNING
+}
+
+const isIdentityVariable = (token: Token) => token.type === 'variable' && token.upper === '@@IDENTITY';
+
+const withoutTerminator = (tokens: Token[]) =>
+  tokens[tokens.length - 1]?.value === ';' ? tokens.slice(0, -1) : tokens;
+
+const describeInsert = (tokens: Token[]): InsertInfo => {
+  let index = tokens[1]?.upper === 'INTO' ? 2 : 1;
+  let table = '';
+  // owner.name: parts joined by dots
+  while (tokens[index] && (tokens[index].type === 'word' || tokens[index].type === 'quotedIdentifier' || tokens[index].value === '.')) {
+    table += tokens[index++].value;
+    if (tokens[index - 1].value !== '.' && tokens[index]?.value !== '.') break;
+  }
+  let depth = 0;
+  const singleRow = tokens.some(token => {
+    if (token.value === '(') depth++;
+    if (token.value === ')') depth--;
+    return depth === 0 && token.type === 'word' && token.upper === 'VALUES';
+  });
+  return { table, tokens, line: tokens[0].line, singleRow };
+};
+
+// Find every @@identity read in `code` and decide how it is converted. An assignment right after a
+// single-row INSERT becomes RETURNING INTO on that INSERT; anything else reads the table's sequence
+// with CURRVAL, which only exists under the sequence strategy.
+export const findIdentityUsages = (code: string, options: IdentityOptions): IdentityUsage[] => {
+  if (!/@@identity\b/i.test(code)) return [];
+  const script = parseSybase(code);
+  // Tables created in this code, #temp tables included, then the rest of the project
+  const columns = [...collectIdentityColumns(script, '', true), ...options.columns];
+  const usages: IdentityUsage[] = [];
+
+  const analyze = (statementTokens: Token[], insert: InsertInfo | null): IdentityUsage => {
+    const tokens = withoutTerminator(statementTokens);
+    const assigned = tokens.length === 4 && ['SELECT', 'SET'].includes(tokens[0].upper) &&
+      tokens[1].type === 'variable' && tokens[2].value === '=' && isIdentityVariable(tokens[3]);
+    const usage = {
+      line: tokens[0].line,
+      code: code.slice(tokens[0].offset, tokens[tokens.length - 1].end),
+      variable: assigned ? tokens[1].value.slice(1) : undefined,
+      insertLine: insert?.line,
+      tokens: statementTokens,
+      insertTokens: insert?.tokens,
+    };
+    if (!insert) {
+      return { ...usage, rewrite: 'unresolved', detail: 'No INSERT precedes it in the same routine' };
+    }
+    const column = findIdentityColumn(columns, insert.table);
+    if (!column) {
+      return { ...usage, rewrite: 'unresolved', detail: `${insert.table} has no IDENTITY column in the uploaded files` };
+    }
+    if (assigned && insert.singleRow && !insert.returning) {
+      insert.returning = usage.variable;
+      return { ...usage, column, rewrite: 'returning', detail: `RETURNING ${column.column} INTO @${usage.variable} on the INSERT at line ${insert.line}` };
+    }
+    if (options.strategy === 'sequence') {
+      return { ...usage, column, rewrite: 'currval', detail: `${column.sequenceName}.CURRVAL` };
+    }
+    const reason = !insert.singleRow
+      ? 'INSERT ... SELECT can insert several rows, so RETURNING INTO cannot capture the value'
+      : insert.returning
+        ? `the INSERT at line ${insert.line} already returns ${column.column} into @${insert.returning}`
+        : '@@identity is not assigned to a variable, so there is no RETURNING INTO target';
+    return { ...usage, column, rewrite: 'unresolved', detail: `Identity columns have no named sequence for CURRVAL and ${reason}` };
+  };
+
+  // Statements see the last INSERT of their own list or an enclosing one; routines start afresh
+  const visitList = (statements: Statement[], inherited: InsertInfo | null) => {
+    let insert = inherited;
+    statements.forEach(statement => {
+      const tokens = ownTokens(statement);
+      if (tokens.some(isIdentityVariable)) usages.push(analyze(tokens, insert));
+      if (statement.kind === 'dml' && statement.verb === 'INSERT') insert = describeInsert(statement.tokens);
+      const routine = statement.kind === 'createProcedure' || statement.kind === 'createFunction' || statement.kind === 'createTrigger';
+      nestedLists(statement).forEach(list => visitList(list, routine ? null : insert));
+    });
+  };
+  script.batches.forEach(batch => visitList(batch.statements, null));
+  return usages;
+};
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Apply the RETURNING INTO and CURRVAL rewrites to the Sybase code; unresolved usages are left as they are
+export const rewriteIdentityUsages = (code: string, options: IdentityOptions): { code: string; usages: IdentityUsage[] } => {
+  const usages = findIdentityUsages(code, options);
+  const edits: TextEdit[] = [];
+
+  usages.forEach(usage => {
+    if (usage.rewrite === 'returning' && usage.insertTokens) {
+      const insertEnd = withoutTerminator(usage.insertTokens);
+      const end = insertEnd[insertEnd.length - 1].end;
+      edits.push({ start: end, end, text: ` RETURNING ${usage.column!.column} INTO @${usage.variable}` });
+      // The assignment is gone; drop its line too when nothing else is on it
+      let start = usage.tokens[0].offset;
+      let stop = usage.tokens[usage.tokens.length - 1].end;
+      const lineStart = code.lastIndexOf('\n', start - 1) + 1;
+      const lineEnd = code.indexOf('\n', stop);
+      if (!code.slice(lineStart, start).trim() && !code.slice(stop, lineEnd === -1 ? undefined : lineEnd).trim()) {
+        start = lineStart;
+        stop = lineEnd === -1 ? code.length : lineEnd + 1;
+      }
+      edits.push({ start, end: stop, text: '' });
+    } else if (usage.rewrite === 'currval') {
+      usage.tokens.filter(isIdentityVariable).forEach(token =>
+        edits.push({ start: token.offset, end: token.end, text: `${usage.column!.sequenceName}.CURRVAL` }));
+    }
+  });
+
+  const rewritten = edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), code);
+  return { code: rewritten, usages };
+};
+
+// Instructions for the model: how the identity columns created in `code` and its @@identity reads are converted
+export const describeIdentityConversion = (code: string, options: IdentityOptions): string[] => {
+  const lines = collectIdentityColumns(parseSybase(code), '', true).map(column => {
+    const projectColumn = findIdentityColumn(options.columns, column.table) ?? column;
+    return options.strategy === 'identity'
+      ? `- ${column.table}.${column.column}: GENERATED BY DEFAULT ON NULL AS IDENTITY (no sequence or trigger)`
+      : `- ${column.table}.${column.column}: sequence ${projectColumn.sequenceName} and BEFORE INSERT trigger ${projectColumn.triggerName} setting :NEW.${column.column} from ${projectColumn.sequenceName}.NEXTVAL when it is NULL`;
+  });
+  findIdentityUsages(code, options).forEach(usage => {
+    lines.push(usage.rewrite === 'unresolved'
+      ? `- Line ${usage.line} \`${usage.code}\`: cannot be rewritten mechanically (${usage.detail}); keep the behaviour and add a comment`
+      : `- Line ${usage.line} \`${usage.code}\`: ${usage.rewrite === 'returning' ? `use ${usage.detail} and drop the assignment` : `replace @@identity with ${usage.detail}`}`);
+  });
+  return lines;
+};
@@ -0,0 +1,156 @@
+// Shared job queue for batch conversions: a concurrency limit across all jobs, a token bucket
+// per AI provider, and exponential backoff with jitter for transient provider errors.
+
+const env = import.meta.env;
+
+export const DEFAULT_CONCURRENCY = Number(env.VITE_CONVERSION_CONCURRENCY) || 4;
+export const DEFAULT_REQUESTS_PER_MINUTE = Number(env.VITE_PROVIDER_REQUESTS_PER_MINUTE) || 60;
+export const DEFAULT_MAX_RETRIES = Number(env.VITE_PROVIDER_MAX_RETRIES) || 4;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30000;
+
+// Resolves after `ms`, or rejects as soon as `signal` aborts
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  signal?.throwIfAborted();
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(signal!.reason);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export interface JobQueue {
+  add: <T>(job: () => Promise<T>) => Promise<T>;
+  setConcurrency: (concurrency: number) => void;
+  pending: () => number; // Jobs waiting for a slot
+  running: () => number;
+}
+
+// Runs at most `concurrency` jobs at a time, in the order they were added
+export const createJobQueue = (concurrency: number = DEFAULT_CONCURRENCY): JobQueue => {
+  let limit = Math.max(1, concurrency);
+  let active = 0;
+  const waiting: (() => void)[] = [];
+
+  const next = () => {
+    while (active < limit && waiting.length > 0) {
+      active++;
+      waiting.shift()!();
+    }
+  };
+
+  return {
+    add: <T>(job: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+      waiting.push(() => {
+        job().then(resolve, reject).finally(() => {
+          active--;
+          next();
+        });
+      });
+      next();
+    }),
+    setConcurrency: (concurrency) => {
+      limit = Math.max(1, concurrency);
+      next();
+    },
+    pending: () => waiting.length,
+    running: () => active,
+  };
+};
+
+// Batch concurrency chosen in the conversion panel, remembered per browser
+export const CONCURRENCY_STORAGE_KEY = 'conversion.concurrency';
+
+export const getStoredConcurrency = (): number => {
+  const stored = typeof localStorage === 'undefined' ? NaN : Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY));
+  return Number.isInteger(stored) && stored > 0 ? stored : DEFAULT_CONCURRENCY;
+};
+
+// Queue shared by every batch conversion in the app, whichever view starts it
+export const conversionQueue = createJobQueue(getStoredConcurrency());
+
+export interface TokenBucket {
+  take: (signal?: AbortSignal) => Promise<void>;
+}
+
+// Allows bursts of up to `capacity` requests, refilled evenly at `requestsPerMinute`
+export const createTokenBucket = (
+  requestsPerMinute: number,
+  capacity: number = Math.max(1, Math.ceil(requestsPerMinute / 6))
+): TokenBucket => {
+  const refillPerMs = requestsPerMinute / 60000;
+  let tokens = capacity;
+  let lastRefill = Date.now();
+  // Callers are served in order so a burst cannot starve earlier waiters
+  let queue: Promise<void> = Promise.resolve();
+
+  const refill = () => {
+    const now = Date.now();
+    tokens = Math.min(capacity, tokens + (now - lastRefill) * refillPerMs);
+    lastRefill = now;
+  };
+
+  return {
+    take: (signal) => {
+      const turn = queue.then(async () => {
+        refill();
+        while (tokens < 1) {
+          await sleep(Math.ceil((1 - tokens) / refillPerMs), signal);
+          refill();
+        }
+        tokens -= 1;
+      });
+      queue = turn.catch(() => undefined);
+      return turn;
+    },
+  };
+};
+
+const providerBuckets = new Map<string, TokenBucket>();
+
+// One bucket per provider, shared by all conversions
+export const getProviderBucket = (providerId: string): TokenBucket => {
+  let bucket = providerBuckets.get(providerId);
+  if (!bucket) {
+    bucket = createTokenBucket(DEFAULT_REQUESTS_PER_MINUTE);
+    providerBuckets.set(providerId, bucket);
+  }
+  return bucket;
+};
+
+// Rate limiting, overload and network failures are worth retrying; bad requests and auth errors are not
+export const isTransientError = (error: unknown): boolean => {
+  const message = error instanceof Error ? error.message : String(error);
+  if (/\b(429|500|502|503|504)\b/.test(message)) return true;
+  if (/rate.?limit|too many requests|overloaded|resource.?exhausted|unavailable|timed? ?out|ECONNRESET/i.test(message)) return true;
+  // fetch() rejects with a TypeError when the network request itself fails
+  return error instanceof TypeError && /fetch|network/i.test(message);
+};
+
+export interface RetryOptions {
+  maxRetries?: number;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+// Exponential backoff with full jitter: wait a random time up to base * 2^attempt, capped
+export const retryWithBackoff = async <T>(
+  operation: () => Promise<T>,
+  { maxRetries = DEFAULT_MAX_RETRIES, signal, onRetry }: RetryOptions = {}
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation();
+    } catch (error) {
+      if (signal?.aborted || attempt > maxRetries || !isTransientError(error)) throw error;
+      const delayMs = Math.round(Math.random() * Math.min(MAX_RETRY_DELAY_MS, BASE_RETRY_DELAY_MS * 2 ** attempt));
+      console.warn(`[QUEUE] Transient error, retry ${attempt} of ${maxRetries} in ${delayMs}ms`, error);
+      onRetry?.(attempt, delayMs, error);
+      await sleep(delayMs, signal);
+    }
+  }
+};
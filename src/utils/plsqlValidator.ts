@@ -0,0 +1,535 @@
+// Structural syntax checker for Oracle PL/SQL / SQL*Plus scripts.
+// It is not a full Oracle grammar: it lexes the script and checks what most often breaks
+// AI-converted code at compile time - block nesting (BEGIN/END, IF/END IF, LOOP/END LOOP,
+// CASE/END CASE), missing THEN/LOOP/IS, missing semicolons, unbalanced parentheses,
+// SELECT without INTO inside PL/SQL, and leftover T-SQL syntax (@variables, [names], GO).
+
+export interface PlsqlSyntaxError {
+  line: number;
+  message: string;
+  suggestedFix?: string;
+}
+
+type PlsqlTokenType = 'word' | 'quoted' | 'string' | 'number' | 'operator' | 'punctuation' | 'slash';
+
+interface PlsqlToken {
+  type: PlsqlTokenType;
+  value: string;
+  upper: string;
+  line: number;
+  lineStart: boolean; // first token on its line
+}
+
+type FrameKind = 'unit' | 'declare' | 'package' | 'compound' | 'block' | 'if' | 'loop' | 'case';
+
+interface Frame {
+  kind: FrameKind;
+  line: number;
+  name?: string;
+  inException?: boolean;
+}
+
+const TWO_CHAR_OPERATORS = new Set([':=', '=>', '..', '||', '**', '<>', '!=', '^=', '~=', '<=', '>=', '<<', '>>']);
+
+// Keywords that cannot appear at the start of a line in the middle of a PL/SQL statement
+const STATEMENT_BOUNDARY = new Set(['END', 'ELSIF', 'ELSE', 'EXCEPTION', 'BEGIN', 'IF', 'WHILE', 'LOOP', 'FOR', 'DECLARE', 'RETURN', 'EXIT']);
+
+// ... or in the middle of a top-level SQL statement
+const TOP_LEVEL_BOUNDARY = new Set(['CREATE', 'BEGIN', 'DECLARE', 'ALTER', 'DROP', 'INSERT', 'UPDATE', 'DELETE', 'GRANT', 'COMMIT']);
+
+// Timing points of a compound trigger: BEFORE STATEMENT, AFTER EACH ROW, INSTEAD OF EACH ROW, ...
+const TIMING_POINT_WORDS = ['BEFORE', 'AFTER', 'INSTEAD', 'OF', 'EACH', 'ROW', 'STATEMENT'];
+
+// SQL*Plus commands are line based and need no terminator
+const SQLPLUS_COMMANDS = new Set(['SET', 'SHOW', 'PROMPT', 'SPOOL', 'EXEC', 'EXECUTE', 'WHENEVER', 'REM', 'REMARK', 'CONNECT', 'DEFINE']);
+
+const WORD_PATTERN = /[A-Za-z_][\w$#]*/y;
+const VARIABLE_PATTERN = /@@?\w*/y;
+const TEMP_TABLE_PATTERN = /#+\w+/y;
+const NUMBER_PATTERN = /(\d+(\.(?!\.)\d*)?|\.\d+)(e[+-]?\d+)?[fd]?/iy;
+
+const FRAME_LABELS: Record<FrameKind, string> = {
+  unit: 'declaration section',
+  declare: 'DECLARE section',
+  package: 'package',
+  compound: 'compound trigger',
+  block: 'BEGIN block',
+  if: 'IF statement',
+  loop: 'LOOP',
+  case: 'CASE statement',
+};
+
+const FRAME_CLOSERS: Record<FrameKind, string> = {
+  unit: 'BEGIN ... END',
+  declare: 'BEGIN ... END',
+  package: 'END',
+  compound: 'END',
+  block: 'END',
+  if: 'END IF',
+  loop: 'END LOOP',
+  case: 'END CASE',
+};
+
+const tokenize = (code: string, errors: PlsqlSyntaxError[]): PlsqlToken[] => {
+  const tokens: PlsqlToken[] = [];
+  let line = 1;
+  let lastLine = 0;
+  let i = 0;
+
+  const push = (type: PlsqlTokenType, value: string, startLine: number) => {
+    tokens.push({ type, value, upper: value.toUpperCase(), line: startLine, lineStart: startLine !== lastLine });
+    lastLine = line;
+  };
+  const advanceTo = (index: number) => {
+    for (; i < index; i++) {
+      if (code[i] === '\n') line++;
+    }
+  };
+  const sticky = (pattern: RegExp) => {
+    pattern.lastIndex = i;
+    return pattern.exec(code)?.[0] ?? code[i];
+  };
+
+  while (i < code.length) {
+    const ch = code[i];
+    const next = code[i + 1];
+    const start = i;
+    const startLine = line;
+
+    if (/\s/.test(ch)) {
+      advanceTo(i + 1);
+    } else if (ch === '-' && next === '-') {
+      const end = code.indexOf('\n', i);
+      advanceTo(end === -1 ? code.length : end);
+    } else if (ch === '/' && next === '*') {
+      const end = code.indexOf('*/', i + 2);
+      if (end === -1) errors.push({ line: startLine, message: 'Unterminated /* comment' });
+      advanceTo(end === -1 ? code.length : end + 2);
+    } else if (/[qQ]/.test(ch) && next === "'" && i + 2 < code.length) {
+      // Alternative quoting: q'[...]', q'{...}', q'!...!'
+      const open = code[i + 2];
+      const close = ({ '[': ']', '{': '}', '(': ')', '<': '>' } as Record<string, string>)[open] ?? open;
+      const end = code.indexOf(`${close}'`, i + 3);
+      if (end === -1) errors.push({ line: startLine, message: 'Unterminated q-quoted string literal' });
+      advanceTo(end === -1 ? code.length : end + 2);
+      push('string', code.slice(start, i), startLine);
+    } else if (ch === "'") {
+      let j = i + 1;
+      while (j < code.length && !(code[j] === "'" && code[j + 1] !== "'")) j += code[j] === "'" ? 2 : 1;
+      if (j >= code.length) errors.push({ line: startLine, message: 'Unterminated string literal', suggestedFix: "Close the string with a single quote (double any embedded quotes: '')" });
+      advanceTo(Math.min(j + 1, code.length));
+      push('string', code.slice(start, i), startLine);
+    } else if (ch === '"') {
+      const end = code.indexOf('"', i + 1);
+      if (end === -1) errors.push({ line: startLine, message: 'Unterminated quoted identifier' });
+      advanceTo(end === -1 ? code.length : end + 1);
+      push('quoted', code.slice(start, i), startLine);
+    } else if (ch === '@') {
+      const variable = sticky(VARIABLE_PATTERN);
+      errors.push({
+        line: startLine,
+        message: `T-SQL variable "${variable}" is not valid in PL/SQL`,
+        suggestedFix: 'Declare a PL/SQL variable (e.g. v_name) and reference it without "@"'
+      });
+      advanceTo(i + variable.length);
+      push('word', variable, startLine);
+    } else if (ch === '[') {
+      const end = code.indexOf(']', i);
+      errors.push({
+        line: startLine,
+        message: 'Square-bracket identifiers are not valid in Oracle',
+        suggestedFix: 'Remove the brackets or use a double-quoted identifier'
+      });
+      advanceTo(end === -1 ? code.length : end + 1);
+      push('quoted', code.slice(start, i), startLine);
+    } else if (ch === '#' && /\w/.test(next ?? '')) {
+      const name = sticky(TEMP_TABLE_PATTERN);
+      errors.push({
+        line: startLine,
+        message: `T-SQL temporary table "${name}" is not valid in Oracle`,
+        suggestedFix: 'Use a global temporary table or a PL/SQL collection'
+      });
+      advanceTo(i + name.length);
+      push('word', name, startLine);
+    } else if (/\d/.test(ch) || (ch === '.' && /\d/.test(next ?? ''))) {
+      advanceTo(i + sticky(NUMBER_PATTERN).length);
+      push('number', code.slice(start, i), startLine);
+    } else if (/[A-Za-z_]/.test(ch)) {
+      advanceTo(i + sticky(WORD_PATTERN).length);
+      push('word', code.slice(start, i), startLine);
+    } else if ('(),;'.includes(ch)) {
+      advanceTo(i + 1);
+      push('punctuation', ch, startLine);
+    } else {
+      const operator = TWO_CHAR_OPERATORS.has(code.slice(i, i + 2)) ? code.slice(i, i + 2) : ch;
+      advanceTo(i + operator.length);
+      push('operator', operator, startLine);
+    }
+  }
+
+  // A "/" alone on its line executes the preceding unit in SQL*Plus
+  tokens.forEach((token, index) => {
+    if (token.value === '/' && token.lineStart && (tokens[index + 1]?.line ?? Infinity) > token.line) {
+      token.type = 'slash';
+    }
+  });
+  return tokens;
+};
+
+export const validatePlsql = (code: string): PlsqlSyntaxError[] => {
+  const errors: PlsqlSyntaxError[] = [];
+  const tokens = tokenize(code, errors);
+  const stack: Frame[] = [];
+  let pos = 0;
+
+  const peek = (offset = 0): PlsqlToken | undefined => tokens[pos + offset];
+  const isWord = (token: PlsqlToken | undefined, ...words: string[]) =>
+    !!token && token.type === 'word' && (words.length === 0 || words.includes(token.upper));
+  const isPunct = (token: PlsqlToken | undefined, value: string) =>
+    !!token && token.type === 'punctuation' && token.value === value;
+  const top = () => stack[stack.length - 1];
+  const error = (line: number, message: string, suggestedFix?: string) => errors.push({ line, message, suggestedFix });
+
+  const expectSemicolon = (after: PlsqlToken) => {
+    if (isPunct(peek(), ';')) {
+      pos++;
+    } else {
+      error(after.line, `Missing ";" after ${after.upper === 'END' ? 'END' : `END ${after.upper}`}`, 'Terminate the statement with ";"');
+    }
+  };
+
+  // Scan a header (IF/ELSIF/WHEN condition, loop header, subprogram spec) up to one of `targets`
+  // at paren depth 0. Returns the target token, or undefined if a terminator came first.
+  const scanTo = (targets: string[]): PlsqlToken | undefined => {
+    let depth = 0;
+    let caseDepth = 0;
+    while (peek()) {
+      const token = peek()!;
+      // ";" never appears inside an expression, so it ends the header even when parentheses are open
+      if (isPunct(token, ';') || token.type === 'slash') return undefined;
+      if (isPunct(token, '(')) depth++;
+      else if (isPunct(token, ')')) depth = Math.max(0, depth - 1);
+      else if (isWord(token, 'CASE')) caseDepth++;
+      else if (isWord(token, 'END') && caseDepth > 0) caseDepth--;
+      else if (depth === 0 && caseDepth === 0) {
+        if (isWord(token, ...targets)) {
+          pos++;
+          return token;
+        }
+        if (token.lineStart && isWord(token, 'BEGIN', 'END', 'DECLARE', 'EXCEPTION', 'ELSIF', 'ELSE')) return undefined;
+      }
+      pos++;
+    }
+    return undefined;
+  };
+
+  const closeFrame = (frame: Frame) => {
+    error(frame.line, `${FRAME_LABELS[frame.kind]}${frame.name ? ` ${frame.name}` : ''} is missing ${FRAME_CLOSERS[frame.kind]}`,
+      `Add ${FRAME_CLOSERS[frame.kind]} to close the ${FRAME_LABELS[frame.kind]} opened at line ${frame.line}`);
+  };
+
+  // END IF / END LOOP / END CASE
+  const closeCompound = (endToken: PlsqlToken, kind: 'if' | 'loop' | 'case', keyword: PlsqlToken) => {
+    pos++;
+    const index = stack.map(f => f.kind).lastIndexOf(kind);
+    if (index === -1 || stack.slice(index + 1).some(f => f.kind === 'block' || f.kind === 'unit')) {
+      error(endToken.line, `END ${keyword.upper} without a matching ${keyword.upper}`);
+    } else {
+      // Anything still open inside it was never closed
+      while (stack.length - 1 > index) closeFrame(stack.pop()!);
+      stack.pop();
+    }
+    // END LOOP label;
+    if (kind === 'loop' && isWord(peek()) && !peek()!.lineStart) pos++;
+    expectSemicolon(keyword);
+  };
+
+  const parseEnd = () => {
+    const endToken = peek()!;
+    pos++;
+    const next = peek();
+    if (isWord(next, 'IF')) return closeCompound(endToken, 'if', next!);
+    if (isWord(next, 'LOOP')) return closeCompound(endToken, 'loop', next!);
+    if (isWord(next, 'CASE')) return closeCompound(endToken, 'case', next!);
+
+    // END [name]; or END AFTER EACH ROW; closing a timing point section of a compound trigger
+    if (isWord(next, 'BEFORE', 'AFTER', 'INSTEAD') && !next!.lineStart) {
+      while (isWord(peek(), ...TIMING_POINT_WORDS) && !peek()!.lineStart) pos++;
+    } else if ((next?.type === 'word' || next?.type === 'quoted') && !next.lineStart) pos++;
+    while (stack.length > 0 && ['if', 'loop', 'case'].includes(top().kind)) {
+      const frame = stack.pop()!;
+      error(endToken.line, `Expected ${FRAME_CLOSERS[frame.kind]} before END (${FRAME_LABELS[frame.kind]} opened at line ${frame.line})`,
+        `Add ${FRAME_CLOSERS[frame.kind]};`);
+    }
+    const frame = stack.pop();
+    if (!frame) {
+      error(endToken.line, 'END without a matching BEGIN');
+    } else if (frame.kind === 'unit' || frame.kind === 'declare') {
+      error(endToken.line, `BEGIN expected: ${FRAME_LABELS[frame.kind]} opened at line ${frame.line} has no executable section`);
+    }
+    expectSemicolon(endToken);
+  };
+
+  // Any other statement: runs to ";" (or "/" at top level)
+  const parseStatement = () => {
+    const first = peek()!;
+    const topLevel = stack.length === 0;
+    const statementTokens: PlsqlToken[] = [first];
+    let depth = 0;
+    let caseDepth = 0;
+    let openParenLine = 0;
+    let last = first;
+    pos++;
+
+    // e.g. PRINT 'text' left over from T-SQL
+    if (!topLevel && isWord(first) && !isWord(first, 'RETURN', 'SELECT') &&
+        ['string', 'number'].includes(peek()?.type ?? '') && !peek()!.lineStart) {
+      error(first.line, `Unexpected literal after "${first.value}"`, first.upper === 'PRINT' ? 'Use DBMS_OUTPUT.PUT_LINE(...)' : undefined);
+    }
+    if (!topLevel && first.upper === 'SET' && !isWord(peek(), 'TRANSACTION', 'ROLE', 'CONSTRAINT', 'CONSTRAINTS')) {
+      error(first.line, 'T-SQL SET assignment is not valid in PL/SQL', 'Use "variable := value;"');
+    }
+
+    let terminated = false;
+    while (peek()) {
+      const token = peek()!;
+      if (token.type === 'slash') {
+        if (topLevel) {
+          pos++;
+          terminated = true;
+        }
+        break;
+      }
+      if (isPunct(token, ';')) {
+        pos++;
+        terminated = true;
+        break;
+      }
+      if (isPunct(token, '(')) {
+        if (depth === 0) openParenLine = token.line;
+        depth++;
+      } else if (isPunct(token, ')')) {
+        if (depth === 0) error(token.line, 'Unmatched ")"');
+        else depth--;
+      } else if (isWord(token, 'CASE')) {
+        caseDepth++;
+      } else if (isWord(token, 'END') && caseDepth > 0) {
+        caseDepth--;
+      } else if (depth === 0 && caseDepth === 0) {
+        const boundary = topLevel ? TOP_LEVEL_BOUNDARY : STATEMENT_BOUNDARY;
+        // MERGE ... THEN UPDATE/INSERT and SELECT ... FOR UPDATE continue the statement
+        if (token.lineStart && token.type === 'word' && boundary.has(token.upper) && !isWord(last, 'THEN') &&
+            !(token.upper === 'FOR' && isWord(peek(1), 'UPDATE'))) {
+          break;
+        }
+        // A new assignment on the next line: "x := 1 <newline> y := 2;"
+        if (!topLevel && token.lineStart && token.type === 'word' && peek(1)?.value === ':=') break;
+      }
+      statementTokens.push(token);
+      last = token;
+      pos++;
+    }
+
+    if (depth > 0) error(openParenLine, 'Unclosed "(" in statement', 'Add the missing ")"');
+    if (!terminated && (!topLevel || peek())) {
+      error(last.line, 'Missing ";" at end of statement', 'Terminate the statement with ";"');
+    }
+    // PLS-00428: an INTO clause is expected in this SELECT statement
+    if (!topLevel && isWord(first, 'SELECT', 'WITH')) {
+      let parens = 0;
+      const hasInto = statementTokens.some(token => {
+        if (isPunct(token, '(')) parens++;
+        if (isPunct(token, ')')) parens--;
+        return parens === 0 && isWord(token, 'INTO', 'BULK');
+      });
+      if (!hasInto) {
+        error(first.line, 'SELECT inside PL/SQL requires an INTO clause', 'Add INTO variables, or return the rows through a SYS_REFCURSOR');
+      }
+    }
+  };
+
+  const parseCreate = () => {
+    const createToken = peek()!;
+    pos++;
+    if (isWord(peek(), 'OR') && isWord(peek(1), 'REPLACE')) pos += 2;
+    if (isWord(peek(), 'EDITIONABLE', 'NONEDITIONABLE')) pos++;
+    const objectType = peek();
+
+    if (isWord(objectType, 'PROCEDURE', 'FUNCTION', 'PACKAGE') ||
+        (isWord(objectType, 'TYPE') && isWord(peek(1), 'BODY'))) {
+      const name = peek(isWord(peek(1), 'BODY') ? 2 : 1)?.value;
+      pos++;
+      if (!scanTo(['IS', 'AS'])) {
+        error(createToken.line, `IS or AS expected in ${objectType!.upper} ${name ?? ''} header`.trim());
+        return;
+      }
+      stack.push({ kind: isWord(objectType, 'PROCEDURE', 'FUNCTION') ? 'unit' : 'package', line: createToken.line, name });
+      return;
+    }
+    if (isWord(objectType, 'TRIGGER')) {
+      pos++;
+      // The body starts directly with DECLARE or BEGIN, or is a COMPOUND TRIGGER of timing point sections
+      const body = scanTo(['DECLARE', 'BEGIN', 'COMPOUND']);
+      if (!body) {
+        error(createToken.line, 'Trigger body (DECLARE, BEGIN or COMPOUND TRIGGER) expected');
+        return;
+      }
+      if (isWord(body, 'COMPOUND')) {
+        if (isWord(peek(), 'TRIGGER')) pos++;
+        else error(body.line, 'TRIGGER expected after COMPOUND');
+        stack.push({ kind: 'compound', line: createToken.line });
+        return;
+      }
+      pos--;
+      return;
+    }
+    // CREATE TABLE / VIEW / INDEX / SEQUENCE / TYPE ...: plain SQL
+    pos--;
+    parseStatement();
+  };
+
+  while (pos < tokens.length) {
+    const token = peek()!;
+
+    if (token.type === 'slash') {
+      while (stack.length > 0) closeFrame(stack.pop()!);
+      pos++;
+      continue;
+    }
+    if (isPunct(token, ';')) {
+      pos++;
+      continue;
+    }
+    // <<label>>
+    if (token.value === '<<') {
+      while (peek() && peek()!.value !== '>>') pos++;
+      pos++;
+      continue;
+    }
+    if (token.type !== 'word') {
+      parseStatement();
+      continue;
+    }
+
+    switch (token.upper) {
+      case 'CREATE':
+        if (stack.length > 0) {
+          error(token.line, 'CREATE statement inside an unclosed block', `Close the ${FRAME_LABELS[top().kind]} opened at line ${top().line} first`);
+          while (stack.length > 0) closeFrame(stack.pop()!);
+        }
+        parseCreate();
+        break;
+      case 'GO':
+        error(token.line, 'GO batch separator is not valid in Oracle', 'Replace GO with "/" on its own line');
+        pos++;
+        break;
+      case 'DECLARE':
+        if (isWord(peek(2), 'CURSOR')) {
+          error(token.line, 'T-SQL cursor declaration is not valid in PL/SQL', `Declare it in the declaration section as "CURSOR ${peek(1)?.value ?? 'name'} IS SELECT ..."`);
+          parseStatement();
+          break;
+        }
+        stack.push({ kind: 'declare', line: token.line });
+        pos++;
+        break;
+      case 'BEGIN':
+        if (stack.length > 0 && ['unit', 'declare', 'package'].includes(top().kind)) {
+          top().kind = 'block';
+        } else {
+          stack.push({ kind: 'block', line: token.line });
+        }
+        pos++;
+        break;
+      case 'END':
+        parseEnd();
+        break;
+      case 'IF':
+      case 'ELSIF':
+        if (token.upper === 'ELSIF' && top()?.kind !== 'if') error(token.line, 'ELSIF without a matching IF');
+        pos++;
+        if (!scanTo(['THEN'])) error(token.line, `THEN expected after ${token.upper} condition`, 'Add THEN after the condition');
+        if (token.upper === 'IF') stack.push({ kind: 'if', line: token.line });
+        break;
+      case 'ELSE':
+        if (!['if', 'case'].includes(top()?.kind)) error(token.line, 'ELSE without a matching IF or CASE');
+        pos++;
+        break;
+      case 'WHILE':
+      case 'FOR':
+        pos++;
+        if (!scanTo(['LOOP'])) error(token.line, `LOOP expected after ${token.upper} header`, 'Add LOOP ... END LOOP around the loop body');
+        stack.push({ kind: 'loop', line: token.line });
+        break;
+      case 'LOOP':
+        stack.push({ kind: 'loop', line: token.line });
+        pos++;
+        break;
+      case 'CASE':
+        stack.push({ kind: 'case', line: token.line });
+        pos++;
+        // Simple CASE selector: CASE x WHEN ...
+        if (scanTo(['WHEN'])) pos--;
+        else error(token.line, 'WHEN expected in CASE statement');
+        break;
+      case 'WHEN':
+        if (top()?.kind !== 'case' && !(top()?.kind === 'block' && top().inException)) {
+          error(token.line, 'WHEN outside of a CASE statement or EXCEPTION section');
+        }
+        pos++;
+        if (!scanTo(['THEN'])) error(token.line, 'THEN expected after WHEN condition');
+        break;
+      case 'EXCEPTION':
+        // "e_custom EXCEPTION;" declarations start with a name, so this is a handler section
+        if (top()?.kind !== 'block' || top().inException) error(token.line, 'EXCEPTION section outside of a BEGIN block');
+        else top().inException = true;
+        pos++;
+        break;
+      case 'BEFORE':
+      case 'AFTER':
+      case 'INSTEAD':
+        if (top()?.kind === 'compound') {
+          // Timing point section: BEFORE STATEMENT IS BEGIN ... END BEFORE STATEMENT;
+          const start = pos;
+          if (!scanTo(['IS'])) error(token.line, `IS expected after ${token.upper} timing point`);
+          const name = tokens.slice(start, pos - 1).map(t => t.upper).join(' ');
+          stack.push({ kind: 'unit', line: token.line, name });
+          break;
+        }
+        parseStatement();
+        break;
+      case 'PROCEDURE':
+      case 'FUNCTION':
+        if (stack.length > 0 && ['unit', 'declare', 'package', 'compound'].includes(top().kind)) {
+          // Nested subprogram: a spec ends with ";", a body continues with IS/AS
+          const name = peek(1)?.value;
+          pos++;
+          if (scanTo(['IS', 'AS'])) stack.push({ kind: 'unit', line: token.line, name });
+          else if (isPunct(peek(), ';')) pos++;
+          break;
+        }
+        parseStatement();
+        break;
+      default:
+        if (stack.length === 0 && SQLPLUS_COMMANDS.has(token.upper)) {
+          // SQL*Plus command: the rest of the line
+          const line = token.line;
+          while (peek() && peek()!.line === line) pos++;
+          break;
+        }
+        parseStatement();
+    }
+  }
+
+  while (stack.length > 0) closeFrame(stack.pop()!);
+
+  // One report per line and message, in line order
+  const seen = new Set<string>();
+  return errors
+    .filter(e => {
+      const key = `${e.line}:${e.message}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.line - b.line);
+};
@@ -0,0 +1,81 @@
+import { CodeFile, PromptTemplate, PromptTemplateRef } from '@/types';
+
+// Conversion prompt templates. Placeholders are written {{name}}; sections without content render
+// as empty strings, so templates can reference every placeholder unconditionally.
+
+export const PROMPT_PLACEHOLDERS = {
+  source: 'Sybase code to convert, with a note on anything the rule engine already converted',
+  typeMappings: 'Mandatory data type mappings of the project',
+  identity: 'How IDENTITY columns and @@identity in the code are converted, consistent across the project',
+  tempTables: 'What replaces the #temp tables the code uses, with their Oracle definitions',
+  resultSets: 'How result sets of the procedures the code defines or calls are returned, consistent across the project',
+  triggers: 'Oracle form (row-level, statement-level or compound) of the triggers the code defines, and why',
+  renames: 'Oracle names of the identifiers the code uses that the project-wide rename map changes',
+  errorNumbers: 'Oracle codes of the error numbers the code raises, from the project-wide error map',
+  dependencies: 'Converted Oracle DDL and signatures of objects the code references',
+  examples: 'Reviewer corrections of earlier conversions using the same constructs',
+  chunkContext: 'Position of this part in a large script and the table definitions it uses',
+  fileName: 'Name of the file being converted',
+  objectType: 'table, procedure, trigger or other',
+} as const;
+
+export type PromptPlaceholder = keyof typeof PROMPT_PLACEHOLDERS;
+export type PromptValues = Record<PromptPlaceholder, string>;
+
+export const PROMPT_OBJECT_TYPES: CodeFile['type'][] = ['table', 'procedure', 'trigger', 'other'];
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(\w+)\s*\}\}/g;
+// Context sections end with a blank line, so they stack directly in front of {{source}}
+const CONTEXT = '{{typeMappings}}{{identity}}{{tempTables}}{{resultSets}}{{triggers}}{{renames}}{{errorNumbers}}{{dependencies}}{{examples}}{{chunkContext}}{{source}}';
+
+const BUILT_IN_CONTENT: Record<CodeFile['type'], string> = {
+  table: `Convert the following Sybase table DDL to Oracle. Map every column type, keep constraint and index names, convert IDENTITY columns, defaults and CHECK constraints, and create indexes as separate statements. Output only the converted Oracle code.\n\n${CONTEXT}`,
+  procedure: `Convert the following Sybase stored procedure to an Oracle PL/SQL procedure. Rename @variables, declare every variable with an Oracle type, convert OUTPUT parameters to OUT, return result sets as the result set section says (SYS_REFCURSOR OUT parameters when there is none), and replace @@error checks with exception handling. Output only the converted Oracle code.\n\n${CONTEXT}`,
+  trigger: `Convert the following Sybase trigger to an Oracle trigger in the form the trigger section gives. Replace the inserted and deleted tables with :NEW and :OLD in a row-level trigger, or a compound trigger when the logic needs the whole statement or reads its own table, and replace rollback trigger/raiserror with RAISE_APPLICATION_ERROR. Output only the converted Oracle code.\n\n${CONTEXT}`,
+  other: `Convert the following Sybase SQL code to Oracle PL/SQL. Ensure 100% accuracy and best practices. Output only the converted Oracle code.\n\n${CONTEXT}`,
+};
+
+export const getBuiltInPromptTemplate = (objectType: CodeFile['type']): PromptTemplate => ({
+  objectType,
+  version: 0,
+  content: BUILT_IN_CONTENT[objectType],
+  notes: 'Built-in template',
+});
+
+// An ad hoc prompt: the caller's instructions followed by the usual context and source
+export const createCustomPromptTemplate = (objectType: CodeFile['type'], instructions: string): PromptTemplate => ({
+  objectType,
+  version: 0,
+  content: `${instructions.trim()}\n\n${CONTEXT}`,
+});
+
+export const getPromptTemplateRef = (template: PromptTemplate, custom: boolean = false): PromptTemplateRef => ({
+  id: template.id,
+  objectType: template.objectType,
+  version: template.version,
+  source: custom ? 'custom' : template.version > 0 ? 'library' : 'built-in',
+});
+
+// Fill in the placeholders. Sections the template leaves out are appended at the end so source
+// code and mandatory mappings are never dropped by an incomplete template.
+export const renderPromptTemplate = (content: string, values: PromptValues): string => {
+  const used = new Set<string>();
+  const rendered = content.replace(PLACEHOLDER_PATTERN, (text, name: string) => {
+    if (!(name in values)) return text;
+    used.add(name);
+    return values[name as PromptPlaceholder];
+  });
+  const missing = (['typeMappings', 'identity', 'tempTables', 'resultSets', 'triggers', 'renames', 'errorNumbers', 'dependencies', 'examples', 'chunkContext', 'source'] as const)
+    .filter(name => !used.has(name) && values[name]);
+  return missing.length > 0 ? `${rendered.trimEnd()}\n\n${missing.map(name => values[name]).join('')}` : rendered;
+};
+
+// Problems worth showing while a template is edited
+export const validatePromptTemplate = (content: string): string[] => {
+  const names = Array.from(content.matchAll(PLACEHOLDER_PATTERN), match => match[1]);
+  const problems = Array.from(new Set(names.filter(name => !(name in PROMPT_PLACEHOLDERS))))
+    .map(name => `Unknown placeholder {{${name}}}`);
+  if (!content.trim()) problems.push('Template is empty');
+  if (!names.includes('source')) problems.push('{{source}} is missing; the code will be appended at the end');
+  return problems;
+};
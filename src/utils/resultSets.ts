@@ -0,0 +1,321 @@
+import { CodeFile, OracleVersion, ResultSetOptions, ResultSetProcedure, ResultSetStrategy } from '@/types';
+import { CreateProcedureStatement, nestedLists, objectBaseName, parseSybase, Statement, Token, walkScript, walkStatements } from './sybaseParser';
+
+// Procedures returning result sets. A bare SELECT in a Sybase procedure sends rows to the client,
+// and so does EXEC of another such procedure. Every uploaded file is scanned so each procedure gets
+// one set of cursor names for the whole project: OUT SYS_REFCURSOR parameters appended to its
+// parameter list (callers pass them on), or local cursors returned with DBMS_SQL.RETURN_RESULT (12c+).
+
+export const DEFAULT_RESULT_SET_OPTIONS: ResultSetOptions = { strategy: 'refcursor', procedures: [] };
+
+// Implicit results exist from 12c on; 11g targets get cursor parameters instead
+export const getResultSetStrategy = (preferred: ResultSetStrategy, version: OracleVersion): ResultSetStrategy =>
+  preferred === 'implicit' && version === '11g' ? 'refcursor' : preferred;
+
+// Parameters keep the rule engine's p_ prefix, local cursors its v_ prefix
+export const getCursorName = (cursor: string, strategy: ResultSetStrategy) =>
+  `${strategy === 'refcursor' ? 'p' : 'v'}_${cursor}`;
+
+const withoutTerminator = (tokens: Token[]) =>
+  tokens[tokens.length - 1]?.value === ';' ? tokens.slice(0, -1) : tokens;
+
+// SELECT sending rows to the client: not SELECT @var = ..., not SELECT ... INTO
+export const isResultSetSelect = (statement: Statement): boolean => {
+  if (statement.kind !== 'dml' || statement.verb !== 'SELECT') return false;
+  if (statement.tokens[1]?.type === 'variable' && statement.tokens[2]?.value === '=') return false;
+  let depth = 0;
+  return !statement.tokens.some(token => {
+    if (token.value === '(') depth++;
+    if (token.value === ')') depth--;
+    return depth === 0 && token.type === 'word' && token.upper === 'INTO';
+  });
+};
+
+// EXEC [@status =] name ...: the called procedure
+const calledProcedure = (statement: Statement): string | null => {
+  if (statement.kind !== 'simple' || statement.keyword !== 'EXEC') return null;
+  const tokens = statement.tokens;
+  const index = tokens[1]?.type === 'variable' && tokens[2]?.value === '=' ? 3 : 1;
+  let name = '';
+  for (let i = index; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token.type !== 'word' && token.type !== 'quotedIdentifier' && token.value !== '.') break;
+    if (name && token.value !== '.' && !name.endsWith('.')) break;
+    name += token.value;
+  }
+  return name || null;
+};
+
+// What sends rows to the client, in source order
+type ResultSource =
+  | { kind: 'select'; statement: Statement }
+  | { kind: 'exec'; statement: Statement; procedure: string };
+
+interface ProcedureSources {
+  name: string;
+  line: number;
+  taken: Set<string>; // Parameter and variable names, which cursor names must avoid
+  sources: ResultSource[];
+}
+
+const findSources = (procedure: CreateProcedureStatement): ProcedureSources => {
+  const taken = new Set(procedure.parameters.map(parameter => parameter.name.toLowerCase()));
+  const sources: ResultSource[] = [];
+  walkStatements(procedure.body, statement => {
+    if (statement.kind === 'declare') statement.variables.forEach(variable => taken.add(variable.name.toLowerCase()));
+    if (isResultSetSelect(statement)) sources.push({ kind: 'select', statement });
+    const called = calledProcedure(statement);
+    if (called) sources.push({ kind: 'exec', statement, procedure: called });
+  });
+  return { name: procedure.name, line: procedure.line, taken, sources };
+};
+
+const findProcedureSources = (code: string): ProcedureSources[] => {
+  const procedures: ProcedureSources[] = [];
+  walkScript(parseSybase(code), statement => {
+    if (statement.kind === 'createProcedure') procedures.push(findSources(statement));
+  });
+  return procedures;
+};
+
+interface FileProcedures {
+  name: string;
+  content: string;
+  procedures: ProcedureSources[];
+}
+
+// Parsing is the expensive part; reuse it until the file's content changes
+const fileCache = new Map<string, FileProcedures>();
+
+const analyzeFile = (file: CodeFile): FileProcedures => {
+  const cached = fileCache.get(file.id);
+  if (cached && cached.name === file.name && cached.content === file.content) return cached;
+  const procedures = /\bselect\b/i.test(file.content) ? findProcedureSources(file.content) : [];
+  const analysis = { name: file.name, content: file.content, procedures };
+  fileCache.set(file.id, analysis);
+  return analysis;
+};
+
+const cursorNames = (count: number, taken: Set<string>): string[] =>
+  Array.from({ length: count }, (_, index) => {
+    let name = index === 0 ? 'result' : `result${index + 1}`;
+    while (taken.has(name)) name = `rs_${name}`;
+    return name;
+  });
+
+export const findResultSetProcedures = (files: CodeFile[], strategy: ResultSetStrategy): ResultSetProcedure[] => {
+  const all = files.flatMap(file => analyzeFile(file).procedures.map(procedure => ({ procedure, fileName: file.name })));
+  const byName = new Map(all.map(entry => [objectBaseName(entry.procedure.name), entry]));
+
+  // Result sets a procedure sends, including those of the procedures it calls; recursion counts once
+  const counts = new Map<string, number>();
+  const countResultSets = (key: string, visiting: Set<string>): number => {
+    if (counts.has(key)) return counts.get(key)!;
+    const entry = byName.get(key);
+    if (!entry || visiting.has(key)) return 0;
+    visiting.add(key);
+    const count = entry.procedure.sources.reduce((sum, source) =>
+      sum + (source.kind === 'select' ? 1 : countResultSets(objectBaseName(source.procedure), visiting)), 0);
+    visiting.delete(key);
+    counts.set(key, count);
+    return count;
+  };
+
+  return all.flatMap(({ procedure, fileName }) => {
+    const total = countResultSets(objectBaseName(procedure.name), new Set());
+    if (total === 0) return [];
+    const forwards = Array.from(new Set(procedure.sources.flatMap(source =>
+      source.kind === 'exec' && (counts.get(objectBaseName(source.procedure)) ?? 0) > 0 ? [source.procedure] : [])));
+    // Implicit results of called procedures reach the client on their own
+    const own = procedure.sources.filter(source => source.kind === 'select').length;
+    return [{
+      name: procedure.name,
+      fileName,
+      line: procedure.line,
+      cursors: cursorNames(strategy === 'refcursor' ? total : own, procedure.taken),
+      forwards,
+    }];
+  });
+};
+
+export const findResultSetProcedure = (procedures: ResultSetProcedure[], name: string) =>
+  procedures.find(procedure => objectBaseName(procedure.name) === objectBaseName(name));
+
+// Cursors of a procedure, per result source in source order
+const assignCursors = (sources: ResultSource[], project: ResultSetProcedure, options: ResultSetOptions) => {
+  const assigned = new Map<Statement, string[]>();
+  let next = 0;
+  sources.forEach(source => {
+    if (source.kind === 'select') {
+      assigned.set(source.statement, project.cursors.slice(next, next + 1));
+      next++;
+    } else if (options.strategy === 'refcursor') {
+      const callee = findResultSetProcedure(options.procedures, source.procedure);
+      const count = callee?.cursors.length ?? 0;
+      assigned.set(source.statement, project.cursors.slice(next, next + count));
+      next += count;
+    }
+  });
+  return assigned;
+};
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const lineIndent = (code: string, offset: number) =>
+  code.slice(code.lastIndexOf('\n', offset - 1) + 1, offset).match(/^\s*/)?.[0] ?? '';
+
+// Rewrite the result set SELECTs of the project's procedures in `code` as OPEN ... FOR. Cursor
+// parameters are appended to the procedure header; implicit results get a local cursor declared at
+// the top of the body and DBMS_SQL.RETURN_RESULT after the SELECT. EXEC calls are left to the model.
+export const rewriteResultSets = (code: string, options: ResultSetOptions): string => {
+  if (options.procedures.length === 0 || !/\bselect\b/i.test(code)) return code;
+  const edits: TextEdit[] = [];
+
+  walkScript(parseSybase(code), statement => {
+    if (statement.kind !== 'createProcedure') return;
+    const project = findResultSetProcedure(options.procedures, statement.name);
+    if (!project) return;
+    const sources = findSources(statement).sources;
+    const assigned = assignCursors(sources, project, options);
+    const selects = sources.filter(source => source.kind === 'select' && (assigned.get(source.statement) ?? []).length > 0);
+    if (selects.length === 0) return;
+
+    if (options.strategy === 'refcursor') {
+      // After the last parameter (inside the parentheses, if any), or after the name
+      const asIndex = statement.tokens.findIndex(token => token.type === 'word' && token.upper === 'AS');
+      if (asIndex < 1) return;
+      let last = statement.tokens[asIndex - 1];
+      if (last.value === ')') last = statement.tokens[asIndex - 2];
+      const parameters = project.cursors.map(cursor => `@${cursor} sys_refcursor output`);
+      const separator = statement.parameters.length > 0 ? ', ' : last.value === '(' ? '' : ' ';
+      edits.push({ start: last.end, end: last.end, text: `${separator}${parameters.join(', ')}` });
+    } else {
+      // Declarations go to the top of the body, inside the BEGIN that wraps it
+      const first = statement.body[0];
+      const anchor = statement.body.length === 1 && first.kind === 'block' && first.body.length > 0 ? first.body[0] : first;
+      const indent = lineIndent(code, anchor.tokens[0].offset);
+      const declarations = selects.map(source => `declare @${assigned.get(source.statement)![0]} sys_refcursor`);
+      edits.push({ start: anchor.tokens[0].offset, end: anchor.tokens[0].offset, text: `${declarations.join(`\n${indent}`)}\n${indent}` });
+    }
+
+    // SELECTs that are the whole branch of an IF / WHILE need a block for the added statement
+    const branches = new Set<Statement>();
+    walkStatements(statement.body, nested => {
+      if (nested.kind === 'if' || nested.kind === 'while') nestedLists(nested).forEach(list => branches.add(list[0]));
+    });
+
+    selects.forEach(source => {
+      const cursor = assigned.get(source.statement)![0];
+      const tokens = withoutTerminator(source.statement.tokens);
+      const start = tokens[0].offset;
+      const end = tokens[tokens.length - 1].end;
+      if (options.strategy === 'refcursor') {
+        edits.push({ start, end: start, text: `open @${cursor} for ` });
+        return;
+      }
+      const indent = lineIndent(code, start);
+      if (branches.has(source.statement)) {
+        edits.push({ start, end: start, text: `begin\n${indent}  open @${cursor} for ` });
+        edits.push({ start: end, end, text: `\n${indent}  dbms_sql.return_result(@${cursor})\n${indent}end` });
+      } else {
+        edits.push({ start, end: start, text: `open @${cursor} for ` });
+        edits.push({ start: end, end, text: `\n${indent}dbms_sql.return_result(@${cursor})` });
+      }
+    });
+  });
+
+  // Edits at the same offset keep the order they were made in: the declarations of a body without
+  // BEGIN ... END go in front of the OPEN of its first SELECT
+  return edits
+    .map((edit, index) => ({ ...edit, index }))
+    .sort((a, b) => b.start - a.start || b.index - a.index)
+    .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), code);
+};
+
+const list = (names: string[]) => names.join(', ');
+
+// Instructions for the model covering the result set procedures `code` defines or calls
+export const describeResultSetConversion = (code: string, options: ResultSetOptions): string[] => {
+  if (options.procedures.length === 0) return [];
+  const lines: string[] = [];
+  const defined = new Set<string>();
+
+  findProcedureSources(code).forEach(procedure => {
+    const project = findResultSetProcedure(options.procedures, procedure.name);
+    if (!project) return;
+    defined.add(objectBaseName(procedure.name));
+    const cursors = project.cursors.map(cursor => getCursorName(cursor, options.strategy));
+    if (options.strategy === 'refcursor') {
+      const forwards = project.forwards.length > 0 ? `, passing the cursors of ${list(project.forwards)} on to the procedures called` : '';
+      lines.push(`- ${procedure.name} returns its result sets through OUT SYS_REFCURSOR parameters ${list(cursors)}, added after the existing parameters in this order. OPEN each one FOR the SELECT that returned the rows, in source order${forwards}.`);
+    } else if (cursors.length > 0) {
+      lines.push(`- ${procedure.name} keeps its parameter list. OPEN a local SYS_REFCURSOR (${list(cursors)}, in source order) FOR each SELECT that returned rows and return it with DBMS_SQL.RETURN_RESULT.`);
+    }
+  });
+
+  // Calls to result set procedures converted in other files
+  if (options.strategy === 'refcursor') {
+    const script = parseSybase(code);
+    const called = new Set<string>();
+    walkScript(script, statement => {
+      const name = calledProcedure(statement);
+      if (name) called.add(name);
+    });
+    called.forEach(name => {
+      const project = findResultSetProcedure(options.procedures, name);
+      if (!project || defined.has(objectBaseName(name))) return;
+      const cursors = project.cursors.map(cursor => getCursorName(cursor, 'refcursor'));
+      lines.push(`- ${project.name} (converted elsewhere) has OUT SYS_REFCURSOR parameters ${list(cursors)} after its existing parameters: pass a SYS_REFCURSOR for each.`);
+    });
+  }
+  return lines;
+};
+
+export interface ResultSetNote {
+  procedure: string;
+  severity: 'info' | 'warning';
+  description: string;
+  suggestedFix: string;
+}
+
+// How the result sets of the procedures `code` defines reach the client, and whether the converted
+// code still returns them
+export const findResultSetNotes = (code: string, convertedCode: string, options: ResultSetOptions): ResultSetNote[] => {
+  if (options.procedures.length === 0) return [];
+  const converted = convertedCode.toUpperCase();
+  return findProcedureSources(code).flatMap(procedure => {
+    const project = findResultSetProcedure(options.procedures, procedure.name);
+    if (!project) return [];
+    const notes: ResultSetNote[] = [];
+    const note = (severity: ResultSetNote['severity'], description: string, suggestedFix: string) =>
+      notes.push({ procedure: project.name, severity, description, suggestedFix });
+    const cursors = project.cursors.map(cursor => getCursorName(cursor, options.strategy));
+
+    if (options.strategy === 'refcursor') {
+      note('warning',
+        `${project.name} returns result sets, so its parameter list ends with OUT SYS_REFCURSOR ${list(cursors)}; every caller must pass a cursor for each and fetch the rows from it`,
+        'Change the callers listed under Signature Changes in the conversion report');
+      const missing = cursors.filter(cursor => !new RegExp(`\\b${cursor.toUpperCase()}\\s+(IN\\s+)?OUT\\s+SYS_REFCURSOR\\b`).test(converted));
+      if (missing.length > 0) {
+        note('warning',
+          `The converted ${project.name} has no OUT SYS_REFCURSOR parameter ${list(missing)}, so a result set is not returned`,
+          `Add ${list(missing.map(cursor => `${cursor} OUT SYS_REFCURSOR`))} after the existing parameters and OPEN it FOR the SELECT`);
+      }
+    } else if (cursors.length > 0) {
+      note('info',
+        `${project.name} returns its result sets with DBMS_SQL.RETURN_RESULT; clients must read them as implicit results (JDBC getMoreResults, ODP.NET implicit REF CURSORs)`,
+        'Check the client code that reads these result sets');
+      const returned = (converted.match(/\bDBMS_SQL\s*\.\s*RETURN_RESULT\b/g) || []).length;
+      if (returned < cursors.length) {
+        note('warning',
+          `${project.name} returns ${cursors.length} result set(s) in Sybase, but the converted code calls DBMS_SQL.RETURN_RESULT ${returned} time(s)`,
+          'OPEN a SYS_REFCURSOR FOR each result set SELECT and pass it to DBMS_SQL.RETURN_RESULT');
+      }
+    }
+    return notes;
+  });
+};
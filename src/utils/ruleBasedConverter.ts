@@ -0,0 +1,780 @@
+import { ConversionOptions, ErrorNumberOptions, IdentityOptions } from '@/types';
+import { createTypeMapper, TypeMapper } from './sybaseTypes';
+import { buildSequenceDDL, DEFAULT_IDENTITY_OPTIONS, findIdentityColumn, getIdentityTriggerName, getSequenceName, rewriteIdentityUsages } from './identityColumns';
+import { DEFAULT_TEMP_TABLE_OPTIONS, rewriteTempTables } from './tempTables';
+import { DEFAULT_RESULT_SET_OPTIONS, rewriteResultSets } from './resultSets';
+import { DEFAULT_IDENTIFIER_OPTIONS, rewriteIdentifiers } from './identifiers';
+import { translateDateFunctions } from './dateFunctions';
+import { DEFAULT_ERROR_NUMBER_OPTIONS, rewriteErrorNumbers } from './errorNumbers';
+import { analyzeTriggers, buildTriggerHeader, getTriggerErrorNumber, TriggerAnalysis } from './triggers';
+import { isStatementKeyword, objectBaseName, ownTokens, parseSybase, walkScript } from './sybaseParser';
+
+// Deterministic Sybase T-SQL -> Oracle PL/SQL rewriter.
+// Covers the rules listed in the "Syntax Differences" reference (variables, concatenation,
+// IF/WHILE blocks, ISNULL, GETDATE, TOP n, TRY/CATCH) plus simple DDL, CONVERT() and date functions,
+// IDENTITY columns, @@identity, #temp tables as global temporary tables, result set SELECTs as cursors,
+// row-level or statement-level triggers, the project's identifier renames and RAISERROR with the
+// project's error numbers. Anything it does not understand is reported in `unhandledConstructs` so the
+// AI only has to finish the hard parts.
+
+export const RULES_MODEL_ID = 'rules';
+export const RULES_ENGINE_VERSION = 'rules-v10';
+
+export interface RuleConversionResult {
+  code: string;
+  appliedRules: string[];
+  unhandledConstructs: string[];
+  complete: boolean; // true when no construct was left for the AI
+}
+
+// The project context the rules use; the rest of ConversionOptions is ignored
+export type RuleOptions = Pick<ConversionOptions, 'typeRules' | 'identity' | 'tempTables' | 'resultSets' | 'identifiers' | 'errorNumbers'>;
+
+export const isRulesOnlyModel = (aiModel: string = ''): boolean =>
+  aiModel.trim().toLowerCase() === RULES_MODEL_ID;
+
+// Constructs outside the rule set; their presence means the output still needs AI/human work
+const UNHANDLED_CONSTRUCTS: { name: string; pattern: RegExp }[] = [
+  { name: '@@error checks', pattern: /@@error\b/i },
+  { name: '@@identity', pattern: /@@identity\b/i },
+  { name: '@@trancount', pattern: /@@trancount\b/i },
+  { name: 'global variables', pattern: /@@(?!rowcount\b|error\b|identity\b|trancount\b)\w+/i },
+  { name: 'temporary tables', pattern: /(^|[^\w])#\w+/ },
+  { name: 'cursors', pattern: /\bcursor\b/i },
+  { name: 'SELECT variable assignment', pattern: /\bselect\s+@\w+\s*=/i },
+  { name: 'EXEC calls', pattern: /\bexec(ute)?\b/i },
+  { name: 'RAISERROR', pattern: /(?<!\bwith\s+)\braiserror\b/i }, // not rollback trigger with raiserror
+  { name: 'CONVERT()', pattern: /\bconvert\s*\(/i },
+  { name: 'date functions', pattern: /\b(datediff|dateadd|datepart|datename)\s*\(/i },
+  { name: 'CHARINDEX()', pattern: /\bcharindex\s*\(/i },
+  { name: 'transaction control', pattern: /\b(begin|commit|rollback|save)\s+tran(saction)?\b/i },
+  { name: 'CREATE FUNCTION', pattern: /\bcreate\s+function\b/i },
+  { name: 'IF EXISTS / subquery conditions', pattern: /\b(if|while)\s+(not\s+)?(exists\b|[^\n]*\(\s*select\b)/i },
+  { name: 'OBJECT_ID()', pattern: /\bobject_id\s*\(/i },
+  { name: 'SET ROWCOUNT', pattern: /\bset\s+rowcount\b/i },
+  { name: 'outer join operators (*=, =*)', pattern: /\*=|=\*/ },
+  { name: 'RETURN with a value', pattern: /\breturn[ \t]+(?!end\b)[^\s;]/i },
+  { name: 'GOTO', pattern: /\bgoto\b/i },
+];
+
+const STATEMENT_START = /^(select|insert|update|delete|set|declare|if|else|while|return|print|exec|execute|begin|end|commit|rollback|raiserror|open|fetch|close|deallocate|create|drop|alter|truncate|break|continue|waitfor|grant|revoke|goto|dbms_sql|raise_application_error)\b/i;
+const INLINE_STATEMENT = /\b(return|select|open|set|insert|update|delete|exec|execute|print|raiserror|break|continue|goto|rollback|commit|raise_application_error)\b/i;
+const CONTINUATION_TAIL = /(,|\(|\+|-|\*|\/|=|<|>|\|\||\b(and|or|not|union|all|then|else|set|from|where|select|values|into|by|on|join|as|in|exists|when|case|between|like|for))$/i;
+
+const STRING_MARK = '\u0000';
+const COMMENT_MARK = '\u0001';
+const MARKED_LITERAL = new RegExp(`[${STRING_MARK}${COMMENT_MARK}](\\d+)[${STRING_MARK}${COMMENT_MARK}]`, 'g');
+
+interface Masked {
+  masked: string;
+  restore: (text: string) => string;
+}
+
+// Hide string literals and comments so the rules never rewrite their contents
+const maskLiterals = (code: string, applied: Set<string>): Masked => {
+  const literals: string[] = [];
+  const masked = code.replace(/'(?:[^']|'')*'|"(?:[^"]|"")*"|--[^\n]*|\/\*[\s\S]*?\*\//g, match => {
+    literals.push(match);
+    const mark = match.startsWith("'") || match.startsWith('"') ? STRING_MARK : COMMENT_MARK;
+    return `${mark}${literals.length - 1}${mark}`;
+  });
+  const restore = (text: string) =>
+    text.replace(MARKED_LITERAL, (_, index) => {
+      const literal = literals[parseInt(index)];
+      if (literal.startsWith('"')) {
+        // Sybase treats "..." as a string literal; Oracle treats it as an identifier
+        applied.add('Double-quoted strings -> single quotes');
+        return `'${literal.slice(1, -1).replace(/""/g, '"').replace(/'/g, "''")}'`;
+      }
+      return literal;
+    });
+  return { masked, restore };
+};
+
+const isCommentOnly = (line: string) => new RegExp(`^(${COMMENT_MARK}\\d+${COMMENT_MARK}\\s*)+$`).test(line);
+
+// Count parentheses, ignoring masked literals
+const parenDelta = (line: string) => (line.match(/\(/g) || []).length - (line.match(/\)/g) || []).length;
+
+// Split a comma separated list at paren depth 0
+const splitTopLevel = (text: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const ch of text) {
+    if (ch === '(') depth++;
+    if (ch === ')') depth--;
+    if (ch === ',' && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  if (current.trim()) parts.push(current);
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+const convertType = (typeText: string, mapType: TypeMapper, applied: Set<string>, stripLength = false): string => {
+  const mapped = mapType(typeText);
+  if (!mapped) return typeText.toUpperCase();
+  applied.add('Data types');
+  // PL/SQL parameters cannot carry a length or precision
+  return stripLength ? mapped.oracleType.replace(/\s*\(.*\)$/, '') : mapped.oracleType;
+};
+
+// Put BEGIN / END / ELSE blocks on their own lines (CASE ... END expressions are left alone)
+const normalizeBlockKeywords = (code: string): string => {
+  let caseDepth = 0;
+  return code.replace(/\b(case|begin|end|else)\b(\s+(tran(saction)?|try|catch)\b)?/gi, (match, keyword: string, suffix, _t, _s, offset: number, whole: string) => {
+    const word = keyword.toLowerCase();
+    if (word === 'case') {
+      caseDepth++;
+      return match;
+    }
+    if (caseDepth > 0) {
+      if (word === 'end') caseDepth--;
+      return match;
+    }
+    if (word === 'begin' && suffix && /tran/i.test(suffix)) return match;
+    const lineStart = whole.lastIndexOf('\n', offset - 1) + 1;
+    const before = whole.slice(lineStart, offset);
+    const indent = before.match(/^\s*/)?.[0] ?? '';
+    const prefix = before.trim() ? `\n${indent}` : '';
+    const afterIndex = offset + match.length;
+    const lineEnd = whole.indexOf('\n', afterIndex);
+    const rest = whole.slice(afterIndex, lineEnd === -1 ? undefined : lineEnd).trim();
+    const restIsComment = rest === '' || isCommentOnly(rest) || /^;$/.test(rest);
+    const suffixBreak = word !== 'else' && !restIsComment ? `\n${indent}` : '';
+    return `${prefix}${match}${suffixBreak}`;
+  });
+};
+
+interface BlockFrame {
+  kind: 'if' | 'else' | 'while' | 'begin' | 'try' | 'catch';
+  single: boolean;
+  indent: string;
+}
+
+interface StatementState {
+  keyword: string;
+  parenDepth: number;
+  caseDepth: number;
+  top?: string;
+  wrapClose?: boolean;
+}
+
+interface BodyConversion {
+  lines: string[];
+  declarations: string[];
+  hasControlFlow: boolean;
+  hasSelect: boolean; // SELECT statements, which need INTO or a cursor inside PL/SQL blocks
+  balanced: boolean;
+}
+
+// Lines (0-based) that open with a statement keyword the parser reads as part of the statement before
+// them: INSERT ... SELECT, UPDATE ... SET, SELECT ... UNION SELECT. After a VALUES list they start a new one.
+const findContinuedLines = (code: string): Set<number> => {
+  const continued = new Set<number>();
+  const unmasked = code
+    .replace(new RegExp(`${STRING_MARK}\\d+${STRING_MARK}`, 'g'), "''")
+    .replace(new RegExp(`${COMMENT_MARK}\\d+${COMMENT_MARK}`, 'g'), ' ');
+  walkScript(parseSybase(unmasked), statement => {
+    ownTokens(statement).forEach((token, index, tokens) => {
+      if (index > 0 && tokens[index - 1].endLine < token.line && isStatementKeyword(token)) continued.add(token.line - 1);
+    });
+  });
+  return continued;
+};
+
+// Convert the statements of one batch / procedure body
+const convertBody = (
+  body: string,
+  params: Set<string>,
+  mapType: TypeMapper,
+  applied: Set<string>,
+  unhandled: Set<string>
+): BodyConversion => {
+  const lines = normalizeBlockKeywords(body).split('\n');
+  // Kept in step with `lines` as inline IF / ELSE bodies are split onto lines of their own
+  const continuedLines = lines.map(() => false);
+  findContinuedLines(lines.join('\n')).forEach(index => { continuedLines[index] = true; });
+  const out: string[] = [];
+  const declarations: string[] = [];
+  const stack: BlockFrame[] = [];
+  let hasControlFlow = false;
+  let hasSelect = false;
+  let stmt: StatementState | null = null;
+  let i = 0;
+
+  const renameVariables = (text: string) =>
+    text.replace(/(?<!@)@(\w+)/g, (_, name: string) => {
+      applied.add('@variables');
+      return params.has(name.toLowerCase()) ? `p_${name}` : `v_${name}`;
+    });
+
+  const transformExpression = (text: string) => {
+    let result = text
+      .replace(/@@rowcount\b/gi, () => { applied.add('@@ROWCOUNT -> SQL%ROWCOUNT'); return 'SQL%ROWCOUNT'; })
+      .replace(/\bisnull\s*\(/gi, () => { applied.add('ISNULL -> NVL'); return 'NVL('; })
+      .replace(/\bgetdate\s*\(\s*\)/gi, () => { applied.add('GETDATE() -> SYSDATE'); return 'SYSDATE'; })
+      .replace(/\blen\s*\(/gi, () => { applied.add('LEN -> LENGTH'); return 'LENGTH('; })
+      .replace(/\bsubstring\s*\(/gi, () => { applied.add('SUBSTRING -> SUBSTR'); return 'SUBSTR('; })
+      .replace(new RegExp(`(${STRING_MARK}\\d+${STRING_MARK})\\s*\\+(?!=)`, 'g'), (_, lit) => { applied.add('String concatenation'); return `${lit} ||`; })
+      .replace(new RegExp(`\\+\\s*(${STRING_MARK}\\d+${STRING_MARK})`, 'g'), (_, lit) => { applied.add('String concatenation'); return `|| ${lit}`; })
+      .replace(/\b(clustered|nonclustered)\s+/gi, () => { applied.add('Index options'); return ''; });
+    result = renameVariables(result);
+    return result;
+  };
+
+  const nextMeaningful = (from: number): number => {
+    for (let j = from; j < lines.length; j++) {
+      const t = lines[j].trim();
+      if (t && !isCommentOnly(t)) return j;
+    }
+    return -1;
+  };
+
+  const terminate = (line: string, suffix: string) => {
+    // Keep trailing comments after the terminator
+    const match = line.match(new RegExp(`^(.*?)(\\s*(?:${COMMENT_MARK}\\d+${COMMENT_MARK}\\s*)*)$`));
+    const code = match ? match[1] : line;
+    const comment = match ? match[2] : '';
+    const base = code.replace(/;\s*$/, '');
+    return `${base}${suffix};${comment}`;
+  };
+
+  const endStatement = () => {
+    const lastIndex = out.length - 1;
+    if (stmt && lastIndex >= 0) {
+      let suffix = '';
+      if (stmt.wrapClose) suffix += ')';
+      if (stmt.top) {
+        suffix += ` FETCH FIRST ${stmt.top} ROWS ONLY`;
+        applied.add('TOP n -> FETCH FIRST n ROWS ONLY');
+      }
+      out[lastIndex] = terminate(out[lastIndex], suffix);
+    }
+    stmt = null;
+    closeSingleFrames();
+  };
+
+  const closeSingleFrames = () => {
+    while (stack.length > 0 && stack[stack.length - 1].single) {
+      // Stop once an ELSE / ELSIF branch has been opened in place of the closed frame
+      if (closeFrame(stack.pop()!)) break;
+    }
+  };
+
+  // Open the body of an IF / ELSIF / ELSE / WHILE: either a BEGIN...END block or a single statement
+  const openBody = (kind: BlockFrame['kind'], indent: string) => {
+    const next = nextMeaningful(i + 1);
+    if (next !== -1 && /^begin;?$/i.test(lines[next].trim())) {
+      for (let j = i + 1; j < next; j++) out.push(lines[j]);
+      i = next;
+      stack.push({ kind, single: false, indent });
+    } else {
+      stack.push({ kind, single: true, indent });
+    }
+  };
+
+  const openConditional = (keyword: 'IF' | 'ELSIF' | 'WHILE', text: string, indent: string) => {
+    hasControlFlow = true;
+    let condition = text;
+    // Inline body: "IF @x = 1 RETURN"
+    let depth = 0;
+    const words = condition.matchAll(/\(|\)|\b\w+\b/g);
+    for (const word of words) {
+      if (word[0] === '(') depth++;
+      else if (word[0] === ')') depth--;
+      else if (depth === 0 && INLINE_STATEMENT.test(word[0]) && word.index! > 0) {
+        lines.splice(i + 1, 0, `${indent}  ${condition.slice(word.index)}`);
+        continuedLines.splice(i + 1, 0, false);
+        condition = condition.slice(0, word.index).trim();
+        break;
+      }
+    }
+    // Conditions spanning several lines
+    while (i + 1 < lines.length) {
+      const next = lines[i + 1].trim();
+      const open = parenDelta(condition) > 0;
+      if (!next || (!open && (STATEMENT_START.test(next) || !/^(and|or)\b/i.test(next)))) break;
+      condition += ` ${next}`;
+      i++;
+    }
+    const head = keyword === 'WHILE' ? `WHILE ${transformExpression(condition)} LOOP` : `${keyword} ${transformExpression(condition)} THEN`;
+    applied.add(keyword === 'WHILE' ? 'WHILE...BEGIN...END -> WHILE...LOOP' : 'IF...BEGIN...END -> IF...THEN...END IF');
+    out.push(`${indent}${head}`);
+    openBody(keyword === 'WHILE' ? 'while' : 'if', indent);
+  };
+
+  // Returns true when the frame continues into an ELSE / ELSIF branch
+  const closeFrame = (frame: BlockFrame): boolean => {
+    const { indent } = frame;
+    if (frame.kind === 'while') {
+      out.push(`${indent}END LOOP;`);
+    } else if (frame.kind === 'if') {
+      const next = nextMeaningful(i + 1);
+      const nextLine = next !== -1 ? lines[next].trim() : '';
+      const elseIf = nextLine.match(/^else\s+if\b(.*)$/i);
+      if (elseIf) {
+        i = next;
+        openConditional('ELSIF', elseIf[1].trim(), indent);
+        return true;
+      }
+      const elseMatch = nextLine.match(/^else\b(.*)$/i);
+      if (elseMatch) {
+        i = next;
+        out.push(`${indent}ELSE`);
+        const rest = elseMatch[1].trim();
+        if (rest) {
+          lines.splice(i + 1, 0, `${indent}  ${rest}`);
+          continuedLines.splice(i + 1, 0, false);
+          stack.push({ kind: 'else', single: !/^begin;?$/i.test(rest), indent });
+          if (/^begin;?$/i.test(rest)) i++;
+        } else {
+          openBody('else', indent);
+        }
+        return true;
+      }
+      out.push(`${indent}END IF;`);
+    } else if (frame.kind === 'else') {
+      out.push(`${indent}END IF;`);
+    } else if (frame.kind === 'catch') {
+      out.push(`${indent}END;`);
+    } else {
+      out.push(`${indent}END;`);
+    }
+    closeSingleFrames();
+    return false;
+  };
+
+  for (i = 0; i < lines.length; i++) {
+    const raw = lines[i];
+    const trimmed = raw.trim();
+    const indent = raw.match(/^\s*/)?.[0] ?? '';
+
+    if (!trimmed || isCommentOnly(trimmed)) {
+      out.push(raw);
+      continue;
+    }
+
+    // Continuation of a multi-line statement (including CASE ... END expressions)
+    if (stmt && (stmt.caseDepth > 0 || stmt.parenDepth > 0 || !STATEMENT_START.test(trimmed) || continuedLines[i] ||
+        (/^select\b/i.test(trimmed) && stmt.keyword === 'create'))) {
+      pushStatementLine(raw);
+      continue;
+    }
+    if (stmt) endStatement();
+
+    if (/^if\b/i.test(trimmed)) {
+      openConditional('IF', trimmed.slice(2).trim(), indent);
+      continue;
+    }
+    if (/^while\b/i.test(trimmed)) {
+      openConditional('WHILE', trimmed.slice(5).trim(), indent);
+      continue;
+    }
+    if (/^begin\s+try;?$/i.test(trimmed)) {
+      hasControlFlow = true;
+      applied.add('TRY/CATCH -> EXCEPTION');
+      out.push(`${indent}BEGIN`);
+      stack.push({ kind: 'try', single: false, indent });
+      continue;
+    }
+    if (/^end\s+try;?$/i.test(trimmed)) {
+      if (stack[stack.length - 1]?.kind === 'try') stack.pop();
+      continue;
+    }
+    if (/^begin\s+catch;?$/i.test(trimmed)) {
+      out.push(`${indent}EXCEPTION`);
+      out.push(`${indent}  WHEN OTHERS THEN`);
+      stack.push({ kind: 'catch', single: false, indent });
+      continue;
+    }
+    if (/^end\s+catch;?$/i.test(trimmed)) {
+      const frame = stack.pop();
+      closeFrame(frame && frame.kind === 'catch' ? frame : { kind: 'catch', single: false, indent });
+      continue;
+    }
+    if (/^begin;?$/i.test(trimmed)) {
+      hasControlFlow = true;
+      out.push(`${indent}BEGIN`);
+      stack.push({ kind: 'begin', single: false, indent });
+      continue;
+    }
+    if (/^end;?$/i.test(trimmed)) {
+      const frame = stack.pop();
+      if (frame) closeFrame(frame);
+      else unhandled.add('unbalanced BEGIN/END');
+      continue;
+    }
+    if (/^else\b/i.test(trimmed)) {
+      unhandled.add('unbalanced IF/ELSE');
+      out.push(raw);
+      continue;
+    }
+
+    // DECLARE @a int, @b varchar(10): collected into the declaration section
+    if (/^declare\s+@/i.test(trimmed)) {
+      let text = trimmed.slice(7);
+      while ((parenDelta(text) > 0 || /,\s*$/.test(text)) && i + 1 < lines.length) {
+        text += ` ${lines[++i].trim()}`;
+      }
+      // Comments inside the DECLARE are moved after the last declaration
+      const commentPattern = new RegExp(`${COMMENT_MARK}\\d+${COMMENT_MARK}`, 'g');
+      const comments = text.match(commentPattern) || [];
+      text = text.replace(commentPattern, '').trim();
+      for (const decl of splitTopLevel(text.replace(/;\s*$/, ''))) {
+        const match = decl.match(/^@(\w+)\s+(?:as\s+)?([\s\S]+?)(?:\s*=\s*([\s\S]+))?$/i);
+        if (!match) {
+          unhandled.add('DECLARE syntax');
+          continue;
+        }
+        const init = match[3] ? ` := ${transformExpression(match[3])}` : '';
+        declarations.push(`v_${match[1]} ${convertType(match[2], mapType, applied)}${init};`);
+        applied.add('@variables');
+      }
+      if (comments.length > 0 && declarations.length > 0) {
+        declarations[declarations.length - 1] += ` ${comments.join(' ')}`;
+      }
+      continue;
+    }
+    if (/^set\s+nocount\b/i.test(trimmed)) {
+      applied.add('SET NOCOUNT removed');
+      continue;
+    }
+    if (/^break;?$/i.test(trimmed)) {
+      applied.add('BREAK -> EXIT');
+      stmt = { keyword: 'break', parenDepth: 0, caseDepth: 0 };
+      out.push(`${indent}EXIT`);
+      endStatement();
+      continue;
+    }
+
+    startStatement(raw, trimmed, indent);
+  }
+
+  function startStatement(raw: string, trimmed: string, indent: string) {
+    const keyword = trimmed.match(/^\w+/)?.[0].toLowerCase() ?? '';
+    if (keyword === 'select') hasSelect = true;
+    stmt = { keyword, parenDepth: 0, caseDepth: 0 };
+    let text = trimmed;
+    const assignment = text.match(/^set\s+@(\w+)\s*=\s*([\s\S]*)$/i);
+    if (assignment) {
+      text = `@${assignment[1]} := ${assignment[2]}`;
+    } else if (/^print\b/i.test(text)) {
+      text = `DBMS_OUTPUT.PUT_LINE(${text.slice(5).trim().replace(/;\s*$/, '')}`;
+      stmt.wrapClose = true;
+      stmt.parenDepth = -1; // the closing paren is added when the statement ends
+      applied.add('PRINT -> DBMS_OUTPUT.PUT_LINE');
+    }
+    // Also after OPEN cursor FOR, where result set SELECTs end up
+    const top = text.match(/^(open\s+@\w+\s+for\s+)?select\s+(distinct\s+)?top\s+(\d+)\s+/i);
+    if (top) {
+      stmt.top = top[3];
+      text = `${top[1] || ''}SELECT ${top[2] || ''}${text.slice(top[0].length)}`;
+    }
+    pushStatementLine(`${indent}${text}`);
+  }
+
+  function pushStatementLine(line: string) {
+    if (!stmt) return;
+    stmt.parenDepth += parenDelta(line);
+    stmt.caseDepth += (line.match(/\bcase\b/gi) || []).length - (line.match(/\bend\b/gi) || []).length;
+    out.push(transformExpression(line));
+    const next = nextMeaningful(i + 1);
+    const code = line.replace(new RegExp(`${COMMENT_MARK}\\d+${COMMENT_MARK}`, 'g'), '').trim();
+    const nextLine = next === -1 ? '' : lines[next].trim();
+    const continues = stmt.parenDepth > 0 || stmt.caseDepth > 0 || CONTINUATION_TAIL.test(code) ||
+      (next !== -1 && !STATEMENT_START.test(nextLine)) ||
+      (next !== -1 && continuedLines[next]) ||
+      // CREATE VIEW ... AS, whose query the parser reads as the view body
+      (/^select\b/i.test(nextLine) && stmt.keyword === 'create');
+    if (!continues) endStatement();
+  }
+
+  if (stmt) endStatement();
+  const balanced = stack.length === 0;
+  if (!balanced) unhandled.add('unbalanced block structure');
+  return { lines: out, declarations, hasControlFlow, hasSelect, balanced };
+};
+
+const IDENTITY_CLAUSE = /\s*\bidentity\b(?:\s*\(\s*(\d+)\s*,\s*(\d+)\s*\))?/i;
+
+// Map column types inside CREATE TABLE definitions; statements are terminated by convertBody.
+// Sequences and triggers of IDENTITY columns are returned separately to follow the table.
+const convertTableColumns = (
+  batch: string,
+  mapType: TypeMapper,
+  applied: Set<string>,
+  identity: IdentityOptions
+): { code: string; sequences: string[] } => {
+  const sequences: string[] = [];
+  const convertColumn = (table: string, definition: string) => {
+    // Leading whitespace may carry the comment that trailed the previous column
+    const match = definition.match(new RegExp(`^(\\s*(?:${COMMENT_MARK}\\d+${COMMENT_MARK}\\s*)*)(\\w+)(\\s+)(\\w+(?:\\s*\\(\\s*\\d+(?:\\s*,\\s*\\d+)?\\s*\\))?)([\\s\\S]*)$`));
+    if (!match || /^(constraint|primary|foreign|unique|check)$/i.test(match[2])) return definition;
+    const [, indent, column, space, type, columnTail] = match;
+    let tail = columnTail;
+    const identityClause = tail.match(IDENTITY_CLAUSE);
+    if (identityClause) {
+      const [, start = '1', increment = '1'] = identityClause;
+      if (identity.strategy === 'identity') {
+        applied.add('IDENTITY -> GENERATED AS IDENTITY');
+        const options = start !== '1' || increment !== '1' ? ` (START WITH ${start} INCREMENT BY ${increment})` : '';
+        tail = tail.replace(IDENTITY_CLAUSE, ` GENERATED BY DEFAULT ON NULL AS IDENTITY${options}`);
+      } else {
+        applied.add('IDENTITY -> SEQUENCE + trigger');
+        tail = tail.replace(IDENTITY_CLAUSE, '');
+        // Names shared with the @@identity rewrites in other files
+        const names = findIdentityColumn(identity.columns, table) ?? { sequenceName: getSequenceName(table), triggerName: getIdentityTriggerName(table) };
+        sequences.push(buildSequenceDDL({ table, column, ...names }, parseInt(start), parseInt(increment)));
+      }
+    }
+    return `${indent}${column}${space}${mapType(type) ? convertType(type, mapType, applied) : type}${tail}`;
+  };
+
+  let result = '';
+  let position = 0;
+  for (const header of batch.matchAll(/\bcreate\s+table\s+([\w.#]+)\s*\(/gi)) {
+    const bodyStart = header.index! + header[0].length;
+    if (bodyStart <= position) continue;
+    applied.add('CREATE TABLE');
+    result += batch.slice(position, bodyStart);
+    // Walk to the closing paren, rewriting each top-level column definition
+    let depth = 1;
+    let segmentStart = bodyStart;
+    let index = bodyStart;
+    for (; index < batch.length && depth > 0; index++) {
+      const ch = batch[index];
+      if (ch === '(') depth++;
+      if (ch === ')') depth--;
+      if ((ch === ',' && depth === 1) || depth === 0) {
+        result += `${convertColumn(header[1], batch.slice(segmentStart, index))}${ch}`;
+        segmentStart = index + 1;
+      }
+    }
+    result += batch.slice(segmentStart, index);
+    position = index;
+  }
+  return { code: result + batch.slice(position), sequences };
+};
+
+// CREATE PROC name @a int, @b varchar(10) output AS ...
+const convertProcedure = (
+  batch: string,
+  mapType: TypeMapper,
+  applied: Set<string>,
+  unhandled: Set<string>
+): string | null => {
+  // Comments above CREATE PROCEDURE are kept above CREATE OR REPLACE
+  const leading = batch.match(new RegExp(`^(?:\\s*${COMMENT_MARK}\\d+${COMMENT_MARK})*`))![0];
+  const source = batch.slice(leading.length);
+  const header =
+    source.match(/^(\s*)create\s+proc(?:edure)?\s+([\w.]+)\s*\(([\s\S]*?)\)\s*\bas\b/i) ||
+    source.match(/^(\s*)create\s+proc(?:edure)?\s+([\w.]+)\s*([\s\S]*?)\s*\bas\b/i);
+  if (!header) return null;
+  const [, indent, name, paramText] = header;
+  const params = new Set<string>();
+  const paramLines: string[] = [];
+  for (const param of splitTopLevel(paramText)) {
+    const match = param.match(/^@(\w+)\s+([\w]+(?:\s*\([^)]*\))?)(?:\s*=\s*([^\s]+))?\s*(output|out)?$/i);
+    if (!match) {
+      unhandled.add('procedure parameter syntax');
+      continue;
+    }
+    params.add(match[1].toLowerCase());
+    // Cursor parameters only pass a result set out
+    const mode = match[4] ? (/^sys_refcursor$/i.test(match[2]) ? 'OUT' : 'IN OUT') : 'IN';
+    // OUT and IN OUT parameters cannot have a default (PLS-00230): callers that omitted it must pass a variable
+    if (match[3] && match[4]) unhandled.add('default on OUTPUT parameter');
+    const defaultValue = match[3] && !match[4] ? ` DEFAULT ${match[3].replace(/^null$/i, 'NULL')}` : '';
+    paramLines.push(`  p_${match[1]} ${mode} ${convertType(match[2], mapType, applied, true)}${defaultValue}`);
+  }
+
+  let body = source.slice(header[0].length);
+  // Strip the outer BEGIN ... END that wraps the whole procedure body
+  const outer = body.match(/^\s*begin\b(?!\s+(tran|try))([\s\S]*)\bend\s*;?\s*$/i);
+  if (outer && isWrappingBlock(outer[2])) body = outer[2];
+
+  const converted = convertBody(body, params, mapType, applied, unhandled);
+  if (converted.hasSelect) unhandled.add('result set SELECT');
+  // Sybase lets a procedure modify any parameter; Oracle IN parameters are read-only
+  const assignsInput = paramLines.some(line => {
+    const match = line.match(/^\s*(p_\w+) IN (?!OUT\b)/);
+    return match !== null && converted.lines.some(l => new RegExp(`^\\s*${match[1]}\\s*:=`, 'i').test(l));
+  });
+  if (assignsInput) unhandled.add('assignment to input parameter');
+  applied.add('CREATE PROCEDURE');
+  const signature = paramLines.length > 0 ? ` (\n${paramLines.join(',\n')}\n)` : '';
+  return [
+    ...(leading.trim() ? [leading.trim()] : []),
+    `${indent.replace(/^\s*\n/, '')}CREATE OR REPLACE PROCEDURE ${name}${signature} AS`,
+    ...converted.declarations.map(d => `  ${d}`),
+    'BEGIN',
+    ...trimBlankEdges(converted.lines),
+    `END ${name};`,
+    '/',
+  ].join('\n');
+};
+
+const PSEUDO_TABLE = /\b(inserted|deleted)\b/i;
+
+// CREATE TRIGGER name ON table FOR INSERT, UPDATE AS ...: row-level and statement-level triggers.
+// Compound triggers are left to the AI.
+const convertTrigger = (
+  batch: string,
+  triggers: TriggerAnalysis[],
+  mapType: TypeMapper,
+  applied: Set<string>,
+  unhandled: Set<string>,
+  errorNumbers: ErrorNumberOptions
+): string | null => {
+  const leading = batch.match(new RegExp(`^(?:\\s*${COMMENT_MARK}\\d+${COMMENT_MARK})*`))![0];
+  const source = batch.slice(leading.length);
+  const header = source.match(/^\s*create\s+trigger\s+([\w.]+)\s+on\s+[\w.]+\s+for\s+[\w\s,]+?\bas\b/i);
+  const trigger = header && triggers.find(candidate => objectBaseName(candidate.name) === objectBaseName(header[1]));
+  if (!header || !trigger) return null;
+  if (trigger.form === 'compound') {
+    unhandled.add('compound trigger');
+    return batch;
+  }
+
+  let body = source.slice(header[0].length);
+  const outer = body.match(/^\s*begin\b(?!\s+(tran|try))([\s\S]*)\bend\s*;?\s*$/i);
+  if (outer && isWrappingBlock(outer[2])) body = outer[2];
+  body = body
+    .replace(/\bupdate\s*\(\s*(\w+)\s*\)/gi, (_, column: string) => {
+      applied.add('update() -> UPDATING()');
+      // update(column) is true for inserts as well
+      const test = `UPDATING('${column.toUpperCase()}')`;
+      return trigger.events.includes('INSERT') ? `(INSERTING OR ${test})` : test;
+    })
+    .replace(/\brollback\s+trigger\b(?:\s+with\s+raiserror\s+(\d+)\s*,?\s*([^\s;]+))?/gi, (_, errorNumber?: string, message?: string) => {
+      applied.add('rollback trigger -> RAISE_APPLICATION_ERROR');
+      const number = getTriggerErrorNumber(errorNumber ? parseInt(errorNumber) : undefined, errorNumbers);
+      return `RAISE_APPLICATION_ERROR(${number}, ${message ?? `'Statement refused by ${trigger.name}'`})`;
+    });
+  if (trigger.form === 'row') {
+    body = body.replace(/\b(inserted|deleted)\s*\.\s*(\w+)/gi, (_, table: string, column: string) => {
+      applied.add('inserted/deleted columns -> :NEW/:OLD');
+      return `${table.toLowerCase() === 'inserted' ? ':NEW' : ':OLD'}.${column}`;
+    });
+  }
+
+  const converted = convertBody(body, new Set(), mapType, applied, unhandled);
+  if (converted.hasSelect) unhandled.add('result set SELECT');
+  // FROM inserted and aliased columns need the queries rewritten
+  if (converted.lines.some(line => PSEUDO_TABLE.test(line))) unhandled.add('trigger pseudo-tables');
+  if (trigger.selfUpdates.length > 0) unhandled.add('UPDATE of the trigger table');
+  applied.add(trigger.form === 'row' ? 'CREATE TRIGGER -> row-level trigger' : 'CREATE TRIGGER -> statement-level trigger');
+  return [
+    ...(leading.trim() ? [leading.trim()] : []),
+    ...buildTriggerHeader(trigger),
+    ...(converted.declarations.length > 0 ? ['DECLARE', ...converted.declarations.map(d => `  ${d}`)] : []),
+    'BEGIN',
+    ...trimBlankEdges(converted.lines),
+    'END;',
+    '/',
+  ].join('\n');
+};
+
+// True when BEGIN/END inside `inner` are balanced, i.e. the outer pair wraps the whole body
+const isWrappingBlock = (inner: string): boolean => {
+  let depth = 0;
+  let caseDepth = 0;
+  for (const match of inner.matchAll(/\b(case|begin|end)\b(\s+(tran(saction)?|try|catch)\b)?/gi)) {
+    const word = match[1].toLowerCase();
+    if (word === 'case') caseDepth++;
+    else if (word === 'end' && caseDepth > 0) caseDepth--;
+    else if (word === 'begin' && !/tran/i.test(match[2] || '')) depth++;
+    else if (word === 'end') depth--;
+    if (depth < 0) return false;
+  }
+  return depth === 0;
+};
+
+const trimBlankEdges = (lines: string[]): string[] => {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && !lines[start].trim()) start++;
+  while (end > start && !lines[end - 1].trim()) end--;
+  return lines.slice(start, end);
+};
+
+export const convertWithRules = (code: string, options: RuleOptions = {}): RuleConversionResult => {
+  const {
+    typeRules = [], identity = DEFAULT_IDENTITY_OPTIONS, tempTables = DEFAULT_TEMP_TABLE_OPTIONS,
+    resultSets = DEFAULT_RESULT_SET_OPTIONS, identifiers = DEFAULT_IDENTIFIER_OPTIONS, errorNumbers = DEFAULT_ERROR_NUMBER_OPTIONS
+  } = options;
+  const mapType = createTypeMapper(typeRules);
+  const applied = new Set<string>();
+  const unhandled = new Set<string>();
+  // @@identity reads become RETURNING INTO / CURRVAL before anything else; the rest stay unhandled
+  const identityRewrite = rewriteIdentityUsages(code, identity);
+  if (identityRewrite.usages.some(usage => usage.rewrite === 'returning')) applied.add('@@identity -> RETURNING INTO');
+  if (identityRewrite.usages.some(usage => usage.rewrite === 'currval')) applied.add('@@identity -> sequence CURRVAL');
+  const tempTableCode = rewriteTempTables(identityRewrite.code, tempTables);
+  if (tempTableCode !== identityRewrite.code) applied.add('#temp tables -> global temporary tables');
+  const resultSetCode = rewriteResultSets(tempTableCode, resultSets);
+  if (resultSetCode !== tempTableCode) {
+    applied.add(resultSets.strategy === 'refcursor' ? 'Result sets -> OUT SYS_REFCURSOR' : 'Result sets -> DBMS_SQL.RETURN_RESULT');
+  }
+  // Last, as the other passes look objects up by their Sybase names
+  const renamedCode = rewriteIdentifiers(resultSetCode, identifiers);
+  if (renamedCode !== resultSetCode) applied.add('Identifier renames');
+  // Calls without a translation stay and are reported by the CONVERT() / date function patterns
+  const dates = translateDateFunctions(renamedCode, mapType);
+  if (dates.translations.some(translation => translation.fn === 'convert' && translation.oracle !== null)) applied.add('CONVERT() -> TO_CHAR / TO_DATE / CAST');
+  if (dates.translations.some(translation => translation.fn !== 'convert' && translation.oracle !== null)) applied.add('Date functions -> Oracle date arithmetic');
+  // Raises the map has no code for stay and are reported by the RAISERROR pattern
+  const sourceCode = rewriteErrorNumbers(dates.code, errorNumbers);
+  if (sourceCode !== dates.code) applied.add('RAISERROR -> RAISE_APPLICATION_ERROR');
+  const triggers = analyzeTriggers(sourceCode);
+  const { masked, restore } = maskLiterals(sourceCode, applied);
+
+  UNHANDLED_CONSTRUCTS.forEach(({ name, pattern }) => {
+    if (pattern.test(masked)) unhandled.add(name);
+  });
+
+  const batches = masked.split(/^\s*go\s*$/im).filter(batch => batch.trim());
+  const output = batches.map(batch => {
+    const procedure = convertProcedure(batch, mapType, applied, unhandled);
+    if (procedure !== null) return procedure;
+    const trigger = convertTrigger(batch, triggers, mapType, applied, unhandled, errorNumbers);
+    if (trigger !== null) return trigger;
+    if (/\bcreate\s+trigger\b/i.test(batch)) unhandled.add('CREATE TRIGGER');
+    if (PSEUDO_TABLE.test(batch)) unhandled.add('trigger pseudo-tables');
+
+    const tables = convertTableColumns(batch, mapType, applied, identity);
+    const converted = convertBody(tables.code, new Set(), mapType, applied, unhandled);
+    const lines = trimBlankEdges(converted.lines);
+    if (converted.declarations.length === 0 && !converted.hasControlFlow) {
+      return [lines.join('\n'), ...tables.sequences].join('\n\n');
+    }
+    // Variables or control flow need an anonymous PL/SQL block
+    if (converted.hasSelect) unhandled.add('result set SELECT');
+    applied.add('Anonymous PL/SQL block');
+    return [
+      [
+        ...(converted.declarations.length > 0 ? ['DECLARE', ...converted.declarations.map(d => `  ${d}`)] : []),
+        'BEGIN',
+        ...lines.map(line => `  ${line}`),
+        'END;',
+        '/',
+      ].join('\n'),
+      ...tables.sequences,
+    ].join('\n\n');
+  });
+
+  const convertedCode = restore(output.join('\n\n')).trim();
+  const unhandledConstructs = Array.from(unhandled);
+  console.log(`[RULES] Applied ${applied.size} rules, ${unhandledConstructs.length} constructs left for AI`);
+  return {
+    code: convertedCode,
+    appliedRules: Array.from(applied),
+    unhandledConstructs,
+    complete: unhandledConstructs.length === 0,
+  };
+};
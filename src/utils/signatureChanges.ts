@@ -0,0 +1,130 @@
+import { ConversionResult, SignatureChange } from '@/types';
+import { objectBaseName, parseSybase, Token, tokenize, VariableDefinition, walkScript } from './sybaseParser';
+
+// Procedures whose parameter list changed in conversion, so their callers have to change too.
+// The Sybase parameters come from the source, the Oracle ones from the header of the converted code,
+// which makes the comparison independent of whoever converted it. Parameters are matched by name
+// without @ and the usual p_ prefix; renaming alone does not change positional calls.
+
+interface OracleParameter {
+  name: string;
+  mode: string; // IN, OUT or IN OUT
+  dataType: string;
+  hasDefault: boolean;
+}
+
+const parameterKey = (name: string) => name.replace(/^@/, '').replace(/^(p|in|out|io)_/i, '').toLowerCase();
+
+const joinTokens = (tokens: Token[]) =>
+  tokens.map(token => token.value).join(' ').replace(/\s*([(),.%])\s*/g, '$1').replace(/,/g, ', ');
+
+// CREATE [OR REPLACE] [EDITIONABLE | NONEDITIONABLE] PROCEDURE name [(parameters)] IS | AS
+const findOracleProcedures = (code: string): Map<string, OracleParameter[]> => {
+  const tokens = tokenize(code).filter(token => token.type !== 'comment');
+  const procedures = new Map<string, OracleParameter[]>();
+  tokens.forEach((token, index) => {
+    if (token.upper !== 'PROCEDURE' || !tokens.slice(Math.max(0, index - 4), index).some(previous => previous.upper === 'CREATE')) return;
+    let position = index + 1;
+    let name = '';
+    while (tokens[position] && (tokens[position].value === '.' || name === '' || name.endsWith('.'))) {
+      name += tokens[position].value.replace(/^"|"$/g, '');
+      position++;
+    }
+    const parameters: OracleParameter[] = [];
+    if (tokens[position]?.value === '(') {
+      let depth = 0;
+      let current: Token[] = [];
+      for (position++; position < tokens.length; position++) {
+        const next = tokens[position];
+        if (next.value === '(') depth++;
+        if (next.value === ')' && depth-- === 0) break;
+        if (next.value === ',' && depth === 0) {
+          parameters.push(parseOracleParameter(current));
+          current = [];
+        } else {
+          current.push(next);
+        }
+      }
+      if (current.length > 0) parameters.push(parseOracleParameter(current));
+    }
+    procedures.set(objectBaseName(name), parameters);
+  });
+  return procedures;
+};
+
+// name [IN] [OUT] [NOCOPY] type [DEFAULT | := value]
+const parseOracleParameter = (tokens: Token[]): OracleParameter => {
+  let position = 1;
+  const modes: string[] = [];
+  while (['IN', 'OUT', 'NOCOPY'].includes(tokens[position]?.upper)) {
+    if (tokens[position].upper !== 'NOCOPY') modes.push(tokens[position].upper);
+    position++;
+  }
+  const defaultIndex = tokens.findIndex((token, index) => index >= position && (token.upper === 'DEFAULT' || token.value === ':='));
+  const typeTokens = tokens.slice(position, defaultIndex === -1 ? undefined : defaultIndex);
+  return {
+    name: tokens[0]?.value ?? '',
+    mode: modes.length > 0 ? modes.join(' ') : 'IN',
+    dataType: joinTokens(typeTokens).toUpperCase(),
+    hasDefault: defaultIndex !== -1,
+  };
+};
+
+const describeSybase = (name: string, parameters: VariableDefinition[]) =>
+  `${name}(${parameters.map(parameter =>
+    `@${parameter.name} ${parameter.dataType.text}${parameter.defaultValue !== undefined ? ` = ${parameter.defaultValue}` : ''}${parameter.output ? ' output' : ''}`).join(', ')})`;
+
+const describeOracle = (name: string, parameters: OracleParameter[]) =>
+  `${name}(${parameters.map(parameter => `${parameter.name} ${parameter.mode} ${parameter.dataType}${parameter.hasDefault ? ' DEFAULT ...' : ''}`).join(', ')})`;
+
+const compareParameters = (sybase: VariableDefinition[], oracle: OracleParameter[]): string[] => {
+  const changes: string[] = [];
+  const matched = new Set<OracleParameter>();
+  const order: number[] = [];
+
+  sybase.forEach(parameter => {
+    const counterpart = oracle.find(candidate => !matched.has(candidate) && parameterKey(candidate.name) === parameterKey(parameter.name));
+    if (!counterpart) {
+      changes.push(`@${parameter.name} was removed`);
+      return;
+    }
+    matched.add(counterpart);
+    order.push(oracle.indexOf(counterpart));
+    const outgoing = counterpart.mode.includes('OUT');
+    if (parameter.output && !outgoing) changes.push(`@${parameter.name} is no longer an output parameter (${counterpart.name} ${counterpart.mode})`);
+    if (!parameter.output && outgoing) changes.push(`@${parameter.name} became ${counterpart.mode} (${counterpart.name}); callers must pass a variable`);
+    if (parameter.defaultValue !== undefined && !counterpart.hasDefault) {
+      changes.push(`@${parameter.name} lost its default (${parameter.defaultValue}); callers must pass it`);
+    }
+  });
+  if (order.some((position, index) => index > 0 && position < order[index - 1])) changes.push('parameters are in a different order');
+  oracle.forEach((parameter, index) => {
+    if (matched.has(parameter)) return;
+    const place = index < oracle.length - 1 ? ` at position ${index + 1}` : ' at the end';
+    changes.push(`${parameter.name} ${parameter.mode} ${parameter.dataType} was added${place}${parameter.hasDefault ? ' (with a default)' : ''}`);
+  });
+  return changes;
+};
+
+export const findSignatureChanges = (results: ConversionResult[]): SignatureChange[] =>
+  results.flatMap(result => {
+    if (!result.convertedCode || !/\bproc(edure)?\b/i.test(result.originalFile.content)) return [];
+    const oracleProcedures = findOracleProcedures(result.convertedCode);
+    const changes: SignatureChange[] = [];
+    walkScript(parseSybase(result.originalFile.content), statement => {
+      if (statement.kind !== 'createProcedure') return;
+      const key = objectBaseName(statement.name);
+      const oracle = oracleProcedures.get(key);
+      if (!oracle) return;
+      const differences = compareParameters(statement.parameters, oracle);
+      if (differences.length === 0) return;
+      changes.push({
+        procedure: statement.name,
+        fileName: result.originalFile.name,
+        sybaseSignature: describeSybase(statement.name, statement.parameters),
+        oracleSignature: describeOracle(statement.name, oracle),
+        changes: differences,
+      });
+    });
+    return changes;
+  });
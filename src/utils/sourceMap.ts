@@ -0,0 +1,192 @@
+import { SourceMapEntry } from '@/types';
+import { parseSybase, Statement, Token, tokenize, walkScript } from './sybaseParser';
+import { significantWords } from './translationMemory';
+
+// Line-level source maps between a Sybase script and its Oracle conversion. The Sybase side is
+// split into statements by the parser, the Oracle side on statement terminators and block headers,
+// and the two sequences are aligned in order by the identifiers they share.
+
+export type SourceMapSide = 'source' | 'target';
+
+interface Segment {
+  start: number;
+  end: number;
+  words: Set<string>;
+}
+
+// Fraction of shared identifiers below which two statements are not considered the same
+const MIN_SCORE = 0.3;
+// Alignment is quadratic; beyond this many statement pairs no map is produced
+const MAX_ALIGNMENT_CELLS = 4_000_000;
+
+// Oracle words ending a header line ("IF x THEN", "LOOP", "AS", ...) that starts a segment of its own
+const ORACLE_HEADER_ENDS = new Set(['THEN', 'LOOP', 'IS', 'AS', 'BEGIN', 'ELSE', 'DECLARE', 'EXCEPTION']);
+
+const toSegment = (tokens: Token[]): Segment | null => {
+  const words = significantWords(tokens);
+  if (tokens.length === 0 || words.size === 0) return null;
+  return { start: tokens[0].line, end: tokens[tokens.length - 1].endLine, words };
+};
+
+// The first statement nested in a container; its header is everything in front of it
+const firstChild = (statement: Statement): Statement | undefined => {
+  switch (statement.kind) {
+    case 'createProcedure':
+    case 'createFunction':
+    case 'createTrigger':
+    case 'createView':
+      return statement.body[0];
+    case 'if':
+      return statement.then;
+    case 'while':
+      return statement.body;
+    default:
+      return undefined;
+  }
+};
+
+const sourceSegments = (sybaseCode: string): Segment[] => {
+  const segments: Segment[] = [];
+  walkScript(parseSybase(sybaseCode), statement => {
+    // BEGIN ... END and TRY/CATCH wrappers carry no identifiers of their own
+    if (statement.kind === 'block' || statement.kind === 'tryCatch') return;
+    const child = firstChild(statement);
+    const childStart = child?.tokens[0]?.offset;
+    const tokens = childStart === undefined ? statement.tokens : statement.tokens.filter(token => token.offset < childStart);
+    const segment = toSegment(tokens.filter(token => token.type !== 'comment'));
+    if (segment) segments.push(segment);
+  });
+  return segments.sort((a, b) => a.start - b.start);
+};
+
+// Statements of Oracle code: split on ";" and after block headers ending a line. SQL*Plus "/"
+// terminators on a line of their own and comments are left out.
+export const splitOracleStatements = (oracleCode: string): Token[][] => {
+  const statements: Token[][] = [];
+  const tokens = tokenize(oracleCode).filter(token => token.type !== 'comment');
+  let current: Token[] = [];
+  tokens.forEach((token, index) => {
+    const previous = tokens[index - 1];
+    const next = tokens[index + 1];
+    const standalone = (!previous || previous.endLine < token.line) && (!next || next.line > token.endLine);
+    if (!(token.value === '/' && standalone)) current.push(token);
+    const endsHeader = token.type === 'word' && ORACLE_HEADER_ENDS.has(token.upper) && (!next || next.line > token.endLine);
+    if ((token.value === ';' || endsHeader || !next) && current.length > 0) {
+      statements.push(current);
+      current = [];
+    }
+  });
+  return statements;
+};
+
+const targetSegments = (oracleCode: string): Segment[] =>
+  splitOracleStatements(oracleCode)
+    .map(toSegment)
+    .filter((segment): segment is Segment => segment !== null);
+
+const similarity = (a: Set<string>, b: Set<string>): number => {
+  let shared = 0;
+  a.forEach(word => {
+    if (b.has(word)) shared++;
+  });
+  return shared / Math.sqrt(a.size * b.size);
+};
+
+// Map the lines of `sybaseCode` to the lines of `oracleCode` they were converted to
+export const buildSourceMap = (sybaseCode: string, oracleCode: string): SourceMapEntry[] => {
+  const sources = sourceSegments(sybaseCode);
+  const targets = targetSegments(oracleCode);
+  const n = sources.length;
+  const m = targets.length;
+  if (n === 0 || m === 0 || n * m > MAX_ALIGNMENT_CELLS) return [];
+
+  // Order-preserving alignment maximizing the total similarity of matched statements
+  const width = m + 1;
+  const best = new Float64Array((n + 1) * width);
+  for (let i = 1; i <= n; i++) {
+    for (let j = 1; j <= m; j++) {
+      const score = similarity(sources[i - 1].words, targets[j - 1].words);
+      const matched = score >= MIN_SCORE ? best[(i - 1) * width + j - 1] + score : 0;
+      best[i * width + j] = Math.max(best[(i - 1) * width + j], best[i * width + j - 1], matched);
+    }
+  }
+
+  const matchOf = new Array<number>(m).fill(-1);
+  for (let i = n, j = m; i > 0 && j > 0;) {
+    const value = best[i * width + j];
+    if (value === best[(i - 1) * width + j]) i--;
+    else if (value === best[i * width + j - 1]) j--;
+    else {
+      matchOf[j - 1] = i - 1;
+      i--;
+      j--;
+    }
+  }
+
+  // Oracle statements left over (a DECLARE split into several variables, an added exception
+  // handler line) usually continue the match before them, otherwise they may start the next one
+  const matched = matchOf.map((source, index) => ({ source, index })).filter(match => match.source >= 0);
+  matchOf.forEach((source, index) => {
+    if (source >= 0) return;
+    const neighbour = [matched.filter(match => match.index < index).pop(), matched.find(match => match.index > index)]
+      .find(match => match && similarity(sources[match.source].words, targets[index].words) >= MIN_SCORE);
+    if (neighbour) matchOf[index] = neighbour.source;
+  });
+
+  const entries: SourceMapEntry[] = [];
+  matchOf.forEach((source, index) => {
+    if (source < 0) return;
+    const { start: sourceStart, end: sourceEnd } = sources[source];
+    const { start: targetStart, end: targetEnd } = targets[index];
+    const last = entries[entries.length - 1];
+    if (last && last.sourceStart === sourceStart && last.sourceEnd === sourceEnd && targetStart <= last.targetEnd + 1) {
+      last.targetEnd = Math.max(last.targetEnd, targetEnd);
+    } else {
+      entries.push({ sourceStart, sourceEnd, targetStart, targetEnd });
+    }
+  });
+  return entries;
+};
+
+const range = (entry: SourceMapEntry, side: SourceMapSide): [number, number] =>
+  side === 'source' ? [entry.sourceStart, entry.sourceEnd] : [entry.targetStart, entry.targetEnd];
+
+// Entries covering `line` on one side; the other side of each is the corresponding region
+export const findMappedEntries = (sourceMap: SourceMapEntry[], side: SourceMapSide, line: number): SourceMapEntry[] =>
+  sourceMap.filter(entry => {
+    const [start, end] = range(entry, side);
+    return line >= start && line <= end;
+  });
+
+// The (fractional) line on the other side corresponding to `line`, interpolated between mapped
+// regions so both panes of a viewer can scroll together
+export const mapLine = (
+  sourceMap: SourceMapEntry[],
+  side: SourceMapSide,
+  line: number,
+  lineCount: number,
+  otherLineCount: number
+): number => {
+  const other: SourceMapSide = side === 'source' ? 'target' : 'source';
+  const anchors: [number, number][] = [[1, 1]];
+  [...sourceMap]
+    .sort((a, b) => range(a, side)[0] - range(b, side)[0])
+    .forEach(entry => {
+      const [start, end] = range(entry, side);
+      const [otherStart, otherEnd] = range(entry, other);
+      anchors.push([start, otherStart], [end + 1, otherEnd + 1]);
+    });
+  anchors.push([lineCount + 1, otherLineCount + 1]);
+
+  // Keep the anchors that move forward on both sides so the mapping never scrolls backwards
+  const monotonic: [number, number][] = [];
+  anchors.forEach(anchor => {
+    const previous = monotonic[monotonic.length - 1];
+    if (!previous || (anchor[0] > previous[0] && anchor[1] >= previous[1])) monotonic.push(anchor);
+  });
+  const upper = monotonic.findIndex(anchor => anchor[0] > line);
+  if (upper <= 0) return Math.min(line, otherLineCount + 1);
+  const [fromA, toA] = monotonic[upper - 1];
+  const [fromB, toB] = monotonic[upper];
+  return toA + ((line - fromA) / (fromB - fromA)) * (toB - toA);
+};
@@ -0,0 +1,781 @@
+// Tokenizer and parser for Sybase ASE T-SQL.
+// Produces a lightweight AST (batches -> statements) that the analyzers consume instead of
+// running regexes over raw text, so comments, string literals and column names are never
+// mistaken for keywords or data types. The parser is tolerant: anything it does not
+// recognise becomes an `other` statement rather than an error.
+
+export type TokenType =
+  | 'word'
+  | 'quotedIdentifier'
+  | 'variable'
+  | 'string'
+  | 'number'
+  | 'operator'
+  | 'punctuation'
+  | 'comment';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  upper: string;
+  line: number;
+  endLine: number;
+  offset: number;
+  end: number;
+}
+
+export interface DataTypeRef {
+  name: string;
+  args: string[];
+  text: string; // e.g. "varchar(30)", as written in the source
+  line: number;
+}
+
+export interface VariableDefinition {
+  name: string; // without the leading @
+  dataType: DataTypeRef;
+  defaultValue?: string;
+  output: boolean;
+  line: number;
+}
+
+export interface ColumnDefinition {
+  name: string;
+  dataType: DataTypeRef;
+  nullable: boolean | null; // null when the definition does not say
+  identity: boolean;
+  defaultValue?: string;
+  line: number;
+}
+
+interface StatementBase {
+  line: number;
+  endLine: number;
+  tokens: Token[];
+}
+
+export interface CreateTableStatement extends StatementBase {
+  kind: 'createTable';
+  name: string;
+  temporary: boolean;
+  columns: ColumnDefinition[];
+}
+
+export interface CreateProcedureStatement extends StatementBase {
+  kind: 'createProcedure';
+  name: string;
+  parameters: VariableDefinition[];
+  body: Statement[];
+}
+
+export interface CreateFunctionStatement extends StatementBase {
+  kind: 'createFunction';
+  name: string;
+  parameters: VariableDefinition[];
+  returnType?: DataTypeRef;
+  body: Statement[];
+}
+
+export interface CreateTriggerStatement extends StatementBase {
+  kind: 'createTrigger';
+  name: string;
+  table: string;
+  events: string[]; // INSERT / UPDATE / DELETE
+  body: Statement[];
+}
+
+export interface CreateViewStatement extends StatementBase {
+  kind: 'createView';
+  name: string;
+  body: Statement[];
+}
+
+export interface DeclareStatement extends StatementBase {
+  kind: 'declare';
+  variables: VariableDefinition[];
+}
+
+export interface DeclareCursorStatement extends StatementBase {
+  kind: 'declareCursor';
+  name: string;
+}
+
+export interface IfStatement extends StatementBase {
+  kind: 'if';
+  condition: Token[];
+  then: Statement;
+  else?: Statement;
+}
+
+export interface WhileStatement extends StatementBase {
+  kind: 'while';
+  condition: Token[];
+  body: Statement;
+}
+
+export interface BlockStatement extends StatementBase {
+  kind: 'block';
+  body: Statement[];
+}
+
+export interface TryCatchStatement extends StatementBase {
+  kind: 'tryCatch';
+  body: Statement[];
+  handler: Statement[];
+}
+
+export interface DmlStatement extends StatementBase {
+  kind: 'dml';
+  verb: 'SELECT' | 'INSERT' | 'UPDATE' | 'DELETE' | 'MERGE' | 'TRUNCATE';
+}
+
+// SET, EXEC, RETURN, PRINT, RAISERROR, transaction control, cursor operations, other DDL
+export interface SimpleStatement extends StatementBase {
+  kind: 'simple';
+  keyword: string;
+}
+
+export interface OtherStatement extends StatementBase {
+  kind: 'other';
+}
+
+export type Statement =
+  | CreateTableStatement
+  | CreateProcedureStatement
+  | CreateFunctionStatement
+  | CreateTriggerStatement
+  | CreateViewStatement
+  | DeclareStatement
+  | DeclareCursorStatement
+  | IfStatement
+  | WhileStatement
+  | BlockStatement
+  | TryCatchStatement
+  | DmlStatement
+  | SimpleStatement
+  | OtherStatement;
+
+export interface Batch {
+  statements: Statement[];
+  startLine: number;
+  endLine: number;
+  separatorLine?: number; // line of the "go" that ends the batch
+}
+
+export interface SqlScript {
+  source: string;
+  tokens: Token[]; // every token, including comments
+  batches: Batch[];
+}
+
+const STATEMENT_START = new Set([
+  'SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'TRUNCATE', 'SET', 'DECLARE', 'IF', 'WHILE',
+  'BEGIN', 'RETURN', 'PRINT', 'EXEC', 'EXECUTE', 'RAISERROR', 'GOTO', 'BREAK', 'CONTINUE',
+  'OPEN', 'FETCH', 'CLOSE', 'DEALLOCATE', 'COMMIT', 'ROLLBACK', 'SAVE', 'CREATE', 'DROP',
+  'ALTER', 'GRANT', 'REVOKE', 'WAITFOR', 'USE', 'DUMP', 'LOAD', 'CHECKPOINT', 'READTEXT', 'WRITETEXT',
+]);
+
+const DML_VERBS = new Set(['SELECT', 'INSERT', 'UPDATE', 'DELETE', 'MERGE', 'TRUNCATE']);
+
+// Keywords after which a statement keyword continues the current statement ("for update", "union select")
+const CONTINUATION_PREFIX = new Set(['FOR', 'ON', 'UNION', 'ALL', 'EXCEPT', 'INTERSECT', '(']);
+
+const COLUMN_CONSTRAINT_START = new Set(['CONSTRAINT', 'PRIMARY', 'FOREIGN', 'UNIQUE', 'CHECK', 'INDEX']);
+
+const VARIABLE_PATTERN = /@@?[\w#$]*/y;
+const NUMBER_PATTERN = /0x[0-9a-f]+|\d*\.?\d+(e[+-]?\d+)?/iy;
+const WORD_PATTERN = /[\w#$]+/y;
+
+const TWO_CHAR_OPERATORS = new Set(['<=', '>=', '<>', '!=', '!<', '!>', '*=', '=*', '||', '+=', '-=']);
+
+export const tokenize = (code: string): Token[] => {
+  const tokens: Token[] = [];
+  let line = 1;
+  let i = 0;
+
+  const push = (type: TokenType, start: number, startLine: number) => {
+    const value = code.slice(start, i);
+    tokens.push({ type, value, upper: value.toUpperCase(), line: startLine, endLine: line, offset: start, end: i });
+  };
+  const advanceTo = (index: number) => {
+    for (; i < index; i++) {
+      if (code[i] === '\n') line++;
+    }
+  };
+  // Length of a sticky pattern match at the current position
+  const matchLength = (pattern: RegExp) => {
+    pattern.lastIndex = i;
+    return Math.max(1, pattern.exec(code)?.[0].length ?? 1);
+  };
+
+  while (i < code.length) {
+    const ch = code[i];
+    const next = code[i + 1];
+    const start = i;
+    const startLine = line;
+
+    if (/\s/.test(ch)) {
+      advanceTo(i + 1);
+    } else if (ch === '-' && next === '-') {
+      const end = code.indexOf('\n', i);
+      advanceTo(end === -1 ? code.length : end);
+      push('comment', start, startLine);
+    } else if (ch === '/' && next === '*') {
+      const end = code.indexOf('*/', i + 2);
+      advanceTo(end === -1 ? code.length : end + 2);
+      push('comment', start, startLine);
+    } else if (ch === "'" || ch === '"') {
+      // Quotes are escaped by doubling; with quoted_identifier off "..." is a string in Sybase
+      let j = i + 1;
+      while (j < code.length) {
+        if (code[j] === ch) {
+          if (code[j + 1] === ch) j += 2;
+          else break;
+        } else {
+          j++;
+        }
+      }
+      advanceTo(Math.min(j + 1, code.length));
+      push('string', start, startLine);
+    } else if (ch === '[') {
+      const end = code.indexOf(']', i);
+      advanceTo(end === -1 ? code.length : end + 1);
+      push('quotedIdentifier', start, startLine);
+    } else if (ch === '@') {
+      advanceTo(i + matchLength(VARIABLE_PATTERN));
+      push('variable', start, startLine);
+    } else if (/\d/.test(ch) || (ch === '.' && /\d/.test(next ?? ''))) {
+      advanceTo(i + matchLength(NUMBER_PATTERN));
+      push('number', start, startLine);
+    } else if (/[A-Za-z_#$]/.test(ch)) {
+      advanceTo(i + matchLength(WORD_PATTERN));
+      push('word', start, startLine);
+    } else if ('(),;.'.includes(ch)) {
+      advanceTo(i + 1);
+      push('punctuation', start, startLine);
+    } else {
+      advanceTo(i + (TWO_CHAR_OPERATORS.has(code.slice(i, i + 2)) ? 2 : 1));
+      push('operator', start, startLine);
+    }
+  }
+  return tokens;
+};
+
+// Statement parser over the significant (non-comment) tokens of one batch
+const createParser = (source: string, tokens: Token[]) => {
+  let pos = 0;
+
+  const peek = (offset = 0): Token | undefined => tokens[pos + offset];
+  const isWord = (token: Token | undefined, ...words: string[]) =>
+    !!token && token.type === 'word' && (words.length === 0 || words.includes(token.upper));
+  const isPunct = (token: Token | undefined, value: string) =>
+    !!token && token.type === 'punctuation' && token.value === value;
+  const textOf = (from: number, to: number) =>
+    from < to ? source.slice(tokens[from].offset, tokens[to - 1].end) : '';
+  const base = (start: number): StatementBase => {
+    const end = Math.max(pos, start + 1);
+    return {
+      line: tokens[start].line,
+      endLine: tokens[Math.min(end, tokens.length) - 1].endLine,
+      tokens: tokens.slice(start, end),
+    };
+  };
+
+  // owner.name, db..name, [quoted] or #temp
+  const parseName = (): string => {
+    const start = pos;
+    while (peek() && (peek()!.type === 'word' || peek()!.type === 'quotedIdentifier' || isPunct(peek(), '.'))) {
+      pos++;
+      if (peek(-1)!.type !== 'punctuation' && !isPunct(peek(), '.')) break;
+    }
+    return textOf(start, pos);
+  };
+
+  const parseDataType = (): DataTypeRef | undefined => {
+    const first = peek();
+    if (!first || (first.type !== 'word' && first.type !== 'quotedIdentifier')) return undefined;
+    const start = pos;
+    pos++;
+    // Two-word types
+    if ((first.upper === 'DOUBLE' && isWord(peek(), 'PRECISION')) ||
+        (first.upper === 'UNSIGNED' && isWord(peek())) ||
+        (['CHAR', 'CHARACTER', 'NCHAR'].includes(first.upper) && isWord(peek(), 'VARYING'))) {
+      pos++;
+    }
+    const nameEnd = pos;
+    const args: string[] = [];
+    if (isPunct(peek(), '(')) {
+      pos++;
+      while (peek() && !isPunct(peek(), ')')) {
+        if (!isPunct(peek(), ',')) args.push(peek()!.value);
+        pos++;
+      }
+      pos++;
+    }
+    return { name: textOf(start, nameEnd), args, text: textOf(start, pos), line: first.line };
+  };
+
+  // Tokens up to the next depth-0 comma (or stop word), returned as source text
+  const parseExpressionText = (stopWords: string[] = []): string => {
+    const start = pos;
+    let depth = 0;
+    while (peek()) {
+      const token = peek()!;
+      if (isPunct(token, '(')) depth++;
+      if (isPunct(token, ')')) {
+        if (depth === 0) break;
+        depth--;
+      }
+      if (depth === 0 && (isPunct(token, ',') || isPunct(token, ';') || isWord(token, ...stopWords) ||
+          (token.type === 'word' && STATEMENT_START.has(token.upper) && pos > start))) {
+        break;
+      }
+      pos++;
+    }
+    return textOf(start, pos);
+  };
+
+  // @name [as] type [= default] [output], ...
+  const parseVariableList = (terminators: string[]): VariableDefinition[] => {
+    const variables: VariableDefinition[] = [];
+    while (peek()?.type === 'variable') {
+      const nameToken = peek()!;
+      pos++;
+      if (isWord(peek(), 'AS')) pos++;
+      const dataType = parseDataType();
+      if (!dataType) break;
+      let defaultValue: string | undefined;
+      if (peek()?.value === '=') {
+        pos++;
+        defaultValue = parseExpressionText(['OUTPUT', 'OUT', ...terminators]);
+      }
+      let output = false;
+      if (isWord(peek(), 'OUTPUT', 'OUT')) {
+        output = true;
+        pos++;
+      }
+      variables.push({ name: nameToken.value.slice(1), dataType, defaultValue, output, line: nameToken.line });
+      if (!isPunct(peek(), ',')) break;
+      pos++;
+    }
+    return variables;
+  };
+
+  // Does a statement keyword at depth 0 continue the current statement?
+  // `sawSource`: the INSERT already has its VALUES list or SELECT, so another SELECT starts a new statement
+  const isContinuation = (verb: string, token: Token, sawSet: boolean, sawSource: boolean = false): boolean => {
+    const previous = peek(-1);
+    if (previous && CONTINUATION_PREFIX.has(previous.type === 'word' ? previous.upper : previous.value)) return true;
+    if (token.upper === 'SELECT' && ((verb === 'INSERT' && !sawSource) || verb === 'DECLARE')) return true;
+    if ((token.upper === 'EXEC' || token.upper === 'EXECUTE') && verb === 'INSERT' && !sawSource) return true;
+    if (token.upper === 'SET' && verb === 'UPDATE' && !sawSet) return true;
+    return false;
+  };
+
+  // Consume a statement without nested statements: runs to ';' or the next statement keyword
+  const consumeStatement = (verb: string) => {
+    pos++;
+    let depth = 0;
+    let caseDepth = 0;
+    let sawSet = false;
+    let sawSource = false;
+    while (peek()) {
+      const token = peek()!;
+      if (isPunct(token, '(')) depth++;
+      else if (isPunct(token, ')')) {
+        if (depth === 0) break;
+        depth--;
+      } else if (isWord(token, 'CASE')) {
+        caseDepth++;
+      } else if (isWord(token, 'END') && caseDepth > 0) {
+        caseDepth--;
+      } else if (depth === 0 && caseDepth === 0) {
+        if (isPunct(token, ';')) {
+          pos++;
+          break;
+        }
+        if (isWord(token, 'END', 'ELSE')) break;
+        if (isWord(token, 'VALUES')) sawSource = true;
+        if (token.type === 'word' && STATEMENT_START.has(token.upper)) {
+          if (!isContinuation(verb, token, sawSet, sawSource)) break;
+          if (token.upper === 'SET') sawSet = true;
+          if (isWord(token, 'SELECT', 'EXEC', 'EXECUTE')) sawSource = true;
+        }
+      }
+      pos++;
+    }
+  };
+
+  // IF / WHILE conditions run until the first statement keyword outside parentheses
+  const parseCondition = (): Token[] => {
+    const start = pos;
+    let depth = 0;
+    while (peek()) {
+      const token = peek()!;
+      if (isPunct(token, '(')) depth++;
+      if (isPunct(token, ')')) depth--;
+      // update(column) inside trigger conditions is a function, not a statement
+      const isFunctionCall = token.upper === 'UPDATE' && isPunct(peek(1), '(');
+      if (depth <= 0 && token.type === 'word' && STATEMENT_START.has(token.upper) && !isFunctionCall &&
+          !isContinuation('', token, false)) break;
+      pos++;
+    }
+    return tokens.slice(start, pos);
+  };
+
+  const skipSemicolons = () => {
+    while (isPunct(peek(), ';')) pos++;
+  };
+
+  const parseStatements = (stop: (token: Token) => boolean): Statement[] => {
+    const statements: Statement[] = [];
+    skipSemicolons();
+    while (peek() && !stop(peek()!)) {
+      const before = pos;
+      statements.push(parseStatement());
+      if (pos === before) pos++; // never stall on unexpected input
+      skipSemicolons();
+    }
+    return statements;
+  };
+
+  const parseCreate = (): Statement => {
+    const start = pos;
+    pos++;
+    if (isWord(peek(), 'OR') && isWord(peek(1), 'REPLACE')) pos += 2;
+    const objectType = peek()?.upper ?? '';
+
+    if (objectType === 'TABLE') {
+      pos++;
+      const name = parseName();
+      const columns: ColumnDefinition[] = [];
+      if (isPunct(peek(), '(')) {
+        pos++;
+        while (peek() && !isPunct(peek(), ')')) {
+          columns.push(...parseColumnDefinition());
+          if (isPunct(peek(), ',')) pos++;
+        }
+        pos++;
+      }
+      // Trailing options such as "lock datarows" or "on segment"
+      while (peek() && !isPunct(peek(), ';') && !(peek()!.type === 'word' && STATEMENT_START.has(peek()!.upper))) pos++;
+      return { kind: 'createTable', name, temporary: name.startsWith('#'), columns, ...base(start) };
+    }
+
+    if (objectType === 'PROC' || objectType === 'PROCEDURE' || objectType === 'FUNCTION') {
+      pos++;
+      const name = parseName();
+      if (isPunct(peek(), ';') && peek(1)?.type === 'number') pos += 2; // procedure group number
+      const parenthesized = isPunct(peek(), '(');
+      if (parenthesized) pos++;
+      const parameters = parseVariableList(['AS', 'WITH', 'RETURNS']);
+      if (parenthesized && isPunct(peek(), ')')) pos++;
+      let returnType: DataTypeRef | undefined;
+      if (isWord(peek(), 'RETURNS')) {
+        pos++;
+        returnType = parseDataType();
+      }
+      while (peek() && !isWord(peek(), 'AS')) pos++; // WITH RECOMPILE, WITH EXECUTE AS ...
+      pos++;
+      const body = parseStatements(() => false);
+      return objectType === 'FUNCTION'
+        ? { kind: 'createFunction', name, parameters, returnType, body, ...base(start) }
+        : { kind: 'createProcedure', name, parameters, body, ...base(start) };
+    }
+
+    if (objectType === 'TRIGGER') {
+      pos++;
+      const name = parseName();
+      let table = '';
+      if (isWord(peek(), 'ON')) {
+        pos++;
+        table = parseName();
+      }
+      const events: string[] = [];
+      while (peek() && !isWord(peek(), 'AS')) {
+        if (isWord(peek(), 'INSERT', 'UPDATE', 'DELETE')) events.push(peek()!.upper);
+        pos++;
+      }
+      pos++;
+      const body = parseStatements(() => false);
+      return { kind: 'createTrigger', name, table, events, body, ...base(start) };
+    }
+
+    if (objectType === 'VIEW') {
+      pos++;
+      const name = parseName();
+      while (peek() && !isWord(peek(), 'AS')) pos++;
+      pos++;
+      const body = parseStatements(() => false);
+      return { kind: 'createView', name, body, ...base(start) };
+    }
+
+    // CREATE INDEX / DEFAULT / RULE / ...
+    pos = start;
+    consumeStatement('CREATE');
+    return { kind: 'simple', keyword: 'CREATE', ...base(start) };
+  };
+
+  const parseColumnDefinition = (): ColumnDefinition[] => {
+    const first = peek()!;
+    const start = pos;
+    const skipToComma = () => {
+      let depth = 0;
+      while (peek() && !(depth === 0 && (isPunct(peek(), ',') || isPunct(peek(), ')')))) {
+        if (isPunct(peek(), '(')) depth++;
+        if (isPunct(peek(), ')')) depth--;
+        pos++;
+      }
+    };
+    if (first.type === 'word' && COLUMN_CONSTRAINT_START.has(first.upper)) {
+      skipToComma();
+      return [];
+    }
+    pos++;
+    const dataType = parseDataType();
+    if (!dataType) {
+      skipToComma();
+      return [];
+    }
+    const column: ColumnDefinition = { name: first.value, dataType, nullable: null, identity: false, line: first.line };
+    let depth = 0;
+    while (peek() && !(depth === 0 && (isPunct(peek(), ',') || isPunct(peek(), ')')))) {
+      const token = peek()!;
+      if (isPunct(token, '(')) depth++;
+      if (isPunct(token, ')')) depth--;
+      if (depth === 0 && isWord(token, 'IDENTITY')) column.identity = true;
+      if (depth === 0 && isWord(token, 'NULL')) column.nullable = !isWord(peek(-1), 'NOT');
+      if (depth === 0 && isWord(token, 'DEFAULT')) {
+        pos++;
+        const valueStart = pos;
+        let valueDepth = 0;
+        while (peek() && !(valueDepth === 0 && (isPunct(peek(), ',') || isPunct(peek(), ')') ||
+            isWord(peek(), 'NULL', 'NOT', 'CONSTRAINT', 'PRIMARY', 'UNIQUE', 'CHECK', 'REFERENCES', 'IDENTITY')))) {
+          if (isPunct(peek(), '(')) valueDepth++;
+          if (isPunct(peek(), ')')) valueDepth--;
+          pos++;
+        }
+        column.defaultValue = textOf(valueStart, pos);
+        continue;
+      }
+      pos++;
+    }
+    if (pos === start) pos++;
+    return [column];
+  };
+
+  const parseDeclare = (): Statement => {
+    const start = pos;
+    if (isWord(peek(1)) && isWord(peek(2), 'CURSOR')) {
+      const name = peek(1)!.value;
+      consumeStatement('DECLARE');
+      return { kind: 'declareCursor', name, ...base(start) };
+    }
+    pos++;
+    const variables = parseVariableList([]);
+    return { kind: 'declare', variables, ...base(start) };
+  };
+
+  const parseBegin = (): Statement => {
+    const start = pos;
+    const next = peek(1);
+    if (isWord(next, 'TRAN', 'TRANSACTION', 'DISTRIBUTED')) {
+      consumeStatement('BEGIN');
+      return { kind: 'simple', keyword: 'BEGIN TRANSACTION', ...base(start) };
+    }
+    if (isWord(next, 'TRY')) {
+      pos += 2;
+      const body = parseStatements(token => isWord(token, 'END') && isWord(peek(1), 'TRY'));
+      pos += 2;
+      let handler: Statement[] = [];
+      if (isWord(peek(), 'BEGIN') && isWord(peek(1), 'CATCH')) {
+        pos += 2;
+        handler = parseStatements(token => isWord(token, 'END') && isWord(peek(1), 'CATCH'));
+        pos += 2;
+      }
+      return { kind: 'tryCatch', body, handler, ...base(start) };
+    }
+    pos++;
+    const body = parseStatements(token => isWord(token, 'END'));
+    if (isWord(peek(), 'END')) pos++;
+    return { kind: 'block', body, ...base(start) };
+  };
+
+  const parseBranch = (): Statement => {
+    skipSemicolons();
+    if (!peek()) {
+      return { kind: 'other', line: peek(-1)?.line ?? 1, endLine: peek(-1)?.endLine ?? 1, tokens: [] };
+    }
+    return parseStatement();
+  };
+
+  function parseStatement(): Statement {
+    const start = pos;
+    const token = peek()!;
+    if (token.type === 'word') {
+      const keyword = token.upper;
+      if (keyword === 'CREATE') return parseCreate();
+      if (keyword === 'DECLARE') return parseDeclare();
+      if (keyword === 'BEGIN') return parseBegin();
+      if (keyword === 'IF') {
+        pos++;
+        const condition = parseCondition();
+        const thenBranch = parseBranch();
+        skipSemicolons();
+        let elseBranch: Statement | undefined;
+        if (isWord(peek(), 'ELSE')) {
+          pos++;
+          elseBranch = parseBranch();
+        }
+        return { kind: 'if', condition, then: thenBranch, else: elseBranch, ...base(start) };
+      }
+      if (keyword === 'WHILE') {
+        pos++;
+        const condition = parseCondition();
+        const body = parseBranch();
+        return { kind: 'while', condition, body, ...base(start) };
+      }
+      if (DML_VERBS.has(keyword)) {
+        consumeStatement(keyword);
+        return { kind: 'dml', verb: keyword as DmlStatement['verb'], ...base(start) };
+      }
+      if (STATEMENT_START.has(keyword)) {
+        consumeStatement(keyword);
+        return { kind: 'simple', keyword: keyword === 'EXECUTE' ? 'EXEC' : keyword, ...base(start) };
+      }
+      // Labels used as GOTO targets
+      if (peek(1)?.value === ':') {
+        pos += 2;
+        return { kind: 'simple', keyword: 'LABEL', ...base(start) };
+      }
+    }
+    // Unrecognised input (including stray END / ELSE): consume up to the next statement
+    consumeStatement('');
+    return { kind: 'other', ...base(start) };
+  }
+
+  return { parseAll: () => parseStatements(() => false) };
+};
+
+// "go" alone on its line (optionally with a repeat count) separates batches
+const isBatchSeparator = (tokens: Token[], index: number): boolean => {
+  const token = tokens[index];
+  if (token.type !== 'word' || token.upper !== 'GO') return false;
+  const previous = tokens[index - 1];
+  if (previous && previous.endLine === token.line && previous.type !== 'comment') return false;
+  let next = index + 1;
+  if (tokens[next]?.type === 'number' && tokens[next].line === token.line) next++;
+  return !tokens[next] || tokens[next].line > token.line || tokens[next].type === 'comment';
+};
+
+export const parseSybase = (source: string): SqlScript => {
+  const tokens = tokenize(source);
+  const batches: Batch[] = [];
+  let current: Token[] = [];
+
+  const flush = (separatorLine?: number) => {
+    if (current.length === 0) return;
+    batches.push({
+      statements: createParser(source, current).parseAll(),
+      startLine: current[0].line,
+      endLine: current[current.length - 1].endLine,
+      separatorLine,
+    });
+    current = [];
+  };
+
+  tokens.forEach((token, index) => {
+    if (token.type === 'comment') return;
+    if (isBatchSeparator(tokens, index)) {
+      flush(token.line);
+      return;
+    }
+    current.push(token);
+  });
+  flush();
+  return { source, tokens, batches };
+};
+
+// Tokens of the statement itself, not of the statements nested in it
+export const ownTokens = (statement: Statement): Token[] => {
+  switch (statement.kind) {
+    case 'if':
+    case 'while':
+      return statement.condition;
+    case 'dml':
+    case 'simple':
+    case 'declare':
+    case 'declareCursor':
+    case 'other':
+      return statement.tokens;
+    default:
+      return [];
+  }
+};
+
+// Statement lists nested directly in a statement: routine bodies, blocks and branches
+export const nestedLists = (statement: Statement): Statement[][] => {
+  switch (statement.kind) {
+    case 'createProcedure':
+    case 'createFunction':
+    case 'createTrigger':
+    case 'createView':
+    case 'block':
+      return [statement.body];
+    case 'tryCatch':
+      return [statement.body, statement.handler];
+    case 'if':
+      return statement.else ? [[statement.then], [statement.else]] : [[statement.then]];
+    case 'while':
+      return [[statement.body]];
+    default:
+      return [];
+  }
+};
+
+// Visit every statement, including those nested in blocks, branches and routine bodies
+export const walkStatements = (statements: Statement[], visit: (statement: Statement) => void): void => {
+  statements.forEach(statement => {
+    visit(statement);
+    nestedLists(statement).forEach(list => walkStatements(list, visit));
+  });
+};
+
+export const walkScript = (script: SqlScript, visit: (statement: Statement) => void): void =>
+  script.batches.forEach(batch => walkStatements(batch.statements, visit));
+
+// A keyword that starts a statement unless it continues the one before it ("insert ... select")
+export const isStatementKeyword = (token: Token): boolean => token.type === 'word' && STATEMENT_START.has(token.upper);
+
+export type SchemaObjectKind = 'table' | 'procedure' | 'function' | 'trigger' | 'view';
+
+// The schema object a statement creates, if any
+export const getCreatedObject = (statement: Statement): { name: string; kind: SchemaObjectKind } | null => {
+  switch (statement.kind) {
+    case 'createTable': return { name: statement.name, kind: 'table' };
+    case 'createProcedure': return { name: statement.name, kind: 'procedure' };
+    case 'createFunction': return { name: statement.name, kind: 'function' };
+    case 'createTrigger': return { name: statement.name, kind: 'trigger' };
+    case 'createView': return { name: statement.name, kind: 'view' };
+    default: return null;
+  }
+};
+
+// Unqualified, unquoted, lower-case object name: "dbo.[Orders]" -> "orders"
+export const objectBaseName = (name: string) => name.split('.').pop()!.replace(/^\[|\]$/g, '').toLowerCase();
+
+// Every data type written in a type position: table columns, parameters, variables, return types
+export const collectDataTypes = (script: SqlScript): DataTypeRef[] => {
+  const types: DataTypeRef[] = [];
+  walkScript(script, statement => {
+    if (statement.kind === 'createTable') {
+      statement.columns.forEach(column => types.push(column.dataType));
+    } else if (statement.kind === 'createProcedure' || statement.kind === 'createFunction') {
+      statement.parameters.forEach(param => types.push(param.dataType));
+      if (statement.kind === 'createFunction' && statement.returnType) types.push(statement.returnType);
+    } else if (statement.kind === 'declare') {
+      statement.variables.forEach(variable => types.push(variable.dataType));
+    }
+  });
+  return types;
+};
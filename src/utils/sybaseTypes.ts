@@ -0,0 +1,137 @@
+import { DataTypeRule } from '@/types';
+import { tokenize } from './sybaseParser';
+
+// Sybase ASE to Oracle data type rules shared by the analyzers and the rule-based converter
+
+export interface SybaseTypeRule {
+  pattern: RegExp;
+  oracle: string;
+  desc: string;
+}
+
+export const SYBASE_TYPE_RULES: SybaseTypeRule[] = [
+  // Numeric types
+  { pattern: /\bint\b/gi, oracle: 'NUMBER(10)', desc: 'Integer type' },
+  { pattern: /\binteger\b/gi, oracle: 'NUMBER(10)', desc: 'Integer type' },
+  { pattern: /\bsmallint\b/gi, oracle: 'NUMBER(5)', desc: 'Small integer type' },
+  { pattern: /\bbigint\b/gi, oracle: 'NUMBER(19)', desc: 'Big integer type' },
+  { pattern: /\btinyint\b/gi, oracle: 'NUMBER(3)', desc: 'Tiny integer type' },
+  { pattern: /\bdecimal\s*\(\s*(\d+)\s*,\s*(\d+)\s*\)/gi, oracle: 'NUMBER($1,$2)', desc: 'Decimal with precision and scale' },
+  { pattern: /\bnumeric\s*\(\s*(\d+)\s*,\s*(\d+)\s*\)/gi, oracle: 'NUMBER($1,$2)', desc: 'Numeric with precision and scale' },
+  { pattern: /\bfloat\b/gi, oracle: 'BINARY_FLOAT', desc: 'Floating point number' },
+  { pattern: /\breal\b/gi, oracle: 'BINARY_FLOAT', desc: 'Real number' },
+  { pattern: /\bmoney\b/gi, oracle: 'NUMBER(19,4)', desc: 'Money type' },
+  { pattern: /\bsmallmoney\b/gi, oracle: 'NUMBER(10,4)', desc: 'Small money type' },
+  
+  // Character types
+  { pattern: /\bchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'CHAR($1)', desc: 'Fixed-length character string' },
+  { pattern: /\bvarchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'VARCHAR2($1)', desc: 'Variable-length character string' },
+  { pattern: /\bnchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'NCHAR($1)', desc: 'Fixed-length Unicode string' },
+  { pattern: /\bnvarchar\s*\(\s*(\d+)\s*\)/gi, oracle: 'NVARCHAR2($1)', desc: 'Variable-length Unicode string' },
+  { pattern: /\btext\b/gi, oracle: 'CLOB', desc: 'Large text data' },
+  { pattern: /\bntext\b/gi, oracle: 'NCLOB', desc: 'Large Unicode text data' },
+  
+  // Binary types
+  { pattern: /\bbinary\s*\(\s*(\d+)\s*\)/gi, oracle: 'RAW($1)', desc: 'Fixed-length binary data' },
+  { pattern: /\bvarbinary\s*\(\s*(\d+)\s*\)/gi, oracle: 'RAW($1)', desc: 'Variable-length binary data' },
+  { pattern: /\bimage\b/gi, oracle: 'BLOB', desc: 'Large binary data' },
+  
+  // Date/Time types
+  { pattern: /\bdatetime\b/gi, oracle: 'TIMESTAMP', desc: 'Date and time' },
+  { pattern: /\bsmalldatetime\b/gi, oracle: 'TIMESTAMP', desc: 'Small date and time' },
+  { pattern: /\bdate\b/gi, oracle: 'DATE', desc: 'Date only' },
+  { pattern: /\btime\b/gi, oracle: 'TIMESTAMP', desc: 'Time only' },
+  { pattern: /\btimestamp\b/gi, oracle: 'TIMESTAMP', desc: 'Timestamp' },
+  
+  // Boolean type
+  { pattern: /\bbit\b/gi, oracle: 'NUMBER(1)', desc: 'Boolean type (0 or 1)' },
+  
+  // Other types
+  { pattern: /\buniqueidentifier\b/gi, oracle: 'RAW(16)', desc: 'Unique identifier' },
+  { pattern: /\bsql_variant\b/gi, oracle: 'VARCHAR2(4000)', desc: 'SQL variant type' },
+  { pattern: /\bxml\b/gi, oracle: 'XMLTYPE', desc: 'XML data type' }
+];
+
+// Map a single Sybase type expression (e.g. "varchar(30)", "int") to its Oracle equivalent
+export const mapSybaseType = (typeText: string): { oracleType: string; description: string } | null => {
+  const text = typeText.trim();
+  for (const rule of SYBASE_TYPE_RULES) {
+    const anchored = new RegExp(`^(?:${rule.pattern.source})$`, 'i');
+    const match = text.match(anchored);
+    if (match) {
+      return {
+        oracleType: rule.oracle.replace(/\$(\d+)/g, (_, index) => match[parseInt(index)] || '255'),
+        description: rule.desc,
+      };
+    }
+  }
+  return null;
+};
+
+export type TypeMapper = (typeText: string) => { oracleType: string; description: string } | null;
+
+const normalizeTypeText = (text: string) => text.replace(/\s+/g, '').toLowerCase();
+
+// Mapping with project rules applied first: an exact type text match ("numeric(1,0)") wins over
+// a type name match ("numeric"), and anything without a rule falls back to SYBASE_TYPE_RULES
+export const createTypeMapper = (rules: DataTypeRule[] = []): TypeMapper => {
+  const byText = new Map(rules.map(rule => [normalizeTypeText(rule.sybaseType), rule]));
+
+  const map = (typeText: string, depth: number): ReturnType<TypeMapper> => {
+    const match = typeText.trim().match(/^([\w#$]+)\s*(?:\(([^)]*)\))?$/);
+    const rule = byText.get(normalizeTypeText(typeText)) ?? (match ? byText.get(match[1].toLowerCase()) : undefined);
+    if (!rule) return mapSybaseType(typeText);
+
+    // User-defined types without an explicit target map through their base type (which may itself be a UDT)
+    if (!rule.oracleType.trim()) {
+      const base = rule.baseType && depth < 5 ? map(rule.baseType, depth + 1) : null;
+      return base && { ...base, description: rule.description || `User-defined type based on ${rule.baseType}` };
+    }
+    const args = match?.[2]?.split(',').map(arg => arg.trim()) ?? [];
+    return {
+      oracleType: rule.oracleType.replace(/\$(\d+)/g, (_, index) => args[parseInt(index) - 1] ?? '').replace(/\(\s*,?\s*\)/g, ''),
+      description: rule.description || (rule.source === 'sp_addtype' ? `User-defined type based on ${rule.baseType}` : 'Project data type rule'),
+    };
+  };
+  return typeText => map(typeText, 0);
+};
+
+// Combine rule sets; for the same Sybase type the earlier set wins
+export const mergeTypeRules = (...ruleSets: DataTypeRule[][]): DataTypeRule[] => {
+  const merged = new Map<string, DataTypeRule>();
+  ruleSets.flat().forEach(rule => {
+    const key = normalizeTypeText(rule.sybaseType);
+    if (!merged.has(key)) merged.set(key, rule);
+  });
+  return Array.from(merged.values());
+};
+
+// User-defined types created with sp_addtype, e.g. exec sp_addtype ssn_type, 'varchar(11)', 'not null'
+export const extractUserDefinedTypes = (code: string): DataTypeRule[] => {
+  const tokens = tokenize(code).filter(token => token.type !== 'comment');
+  const unquote = (value: string) => value.replace(/^(['"])([\s\S]*)\1$/, '$2').trim();
+  const types: DataTypeRule[] = [];
+  tokens.forEach((token, index) => {
+    if (token.type !== 'word' || token.upper !== 'SP_ADDTYPE') return;
+    const [name, comma, baseType] = tokens.slice(index + 1, index + 4);
+    if (!name || comma?.value !== ',' || !baseType || !['word', 'string', 'quotedIdentifier'].includes(name.type)) return;
+    if (baseType.type !== 'word' && baseType.type !== 'string') return;
+    types.push({ sybaseType: unquote(name.value), oracleType: '', source: 'sp_addtype', baseType: unquote(baseType.value) });
+  });
+  return types;
+};
+
+// Prompt lines for the project rules, resolved to their Oracle types
+export const describeTypeRules = (rules: DataTypeRule[]): string[] => {
+  const mapType = createTypeMapper(rules);
+  return rules.flatMap(rule => {
+    const mapped = rule.source === 'sp_addtype' ? mapType(rule.sybaseType) : null;
+    if (!mapped?.oracleType && !rule.oracleType) return [];
+    // Show argument placeholders the way people write them: varchar(n) -> VARCHAR2(n CHAR)
+    const placeholders = Array.from(new Set(rule.oracleType.match(/\$\d/g) ?? [])).sort();
+    const argName = (placeholder: string) => ['n', 's', 'x'][parseInt(placeholder.slice(1)) - 1] ?? 'x';
+    const sybaseType = placeholders.length > 0 ? `${rule.sybaseType}(${placeholders.map(argName).join(',')})` : rule.sybaseType;
+    const oracleType = mapped?.oracleType ?? rule.oracleType.replace(/\$\d/g, argName);
+    return [`- ${sybaseType}${rule.baseType ? ` (user-defined type, ${rule.baseType})` : ''} -> ${oracleType}`];
+  });
+};
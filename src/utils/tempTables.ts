@@ -0,0 +1,309 @@
+import { CodeFile, DataTypeRule, OracleVersion, TempTable, TempTableColumn, TempTableOptions, TempTableStrategy } from '@/types';
+import { parseSybase, Statement, Token, tokenize, walkScript } from './sybaseParser';
+import { createTypeMapper, TypeMapper } from './sybaseTypes';
+
+// #temp tables. Every uploaded file is scanned so that a #temp table gets one Oracle replacement for
+// the whole project: a global temporary table created once by shared DDL, a private temporary table
+// created at run time (18c+), or a collection of a schema-level object type.
+
+// Oracle before 12.2 limits identifiers to 30 characters
+const MAX_NAME_LENGTH = 30;
+
+export const DEFAULT_TEMP_TABLE_OPTIONS: TempTableOptions = { strategy: 'global', tables: [] };
+
+// Private temporary tables exist from 18c on; older targets get global temporary tables instead
+export const getTempTableStrategy = (preferred: TempTableStrategy, version: OracleVersion): TempTableStrategy =>
+  preferred === 'private' && (version === '11g' || version === '12c') ? 'global' : preferred;
+
+const tableKey = (name: string) => name.replace(/^#+/, '').toLowerCase();
+
+const upperBase = (name: string, suffixLength: number) =>
+  name.replace(/^#+/, '').toUpperCase().slice(0, MAX_NAME_LENGTH - suffixLength);
+
+export const getTempTableOracleName = (name: string, strategy: TempTableStrategy): string => {
+  switch (strategy) {
+    case 'global':
+      return `TT_${upperBase(name, 3)}`;
+    case 'private':
+      // The default PRIVATE_TEMP_TABLE_PREFIX
+      return `ORA$PTT_${upperBase(name, 8)}`;
+    case 'collection':
+      return `${upperBase(name, 4)}_TAB`;
+  }
+};
+
+// Object type of one collection element and the variable holding the collection
+export const getCollectionNames = (name: string) => ({
+  recordType: `${upperBase(name, 4)}_REC`,
+  variable: `v_${name.replace(/^#+/, '').toLowerCase()}`,
+});
+
+interface FileTempTables {
+  name: string;
+  content: string;
+  created: Map<string, TempTableColumn[] | null>; // null when created by SELECT INTO
+  referenced: Map<string, string>; // key -> name as first written
+}
+
+const withoutTerminator = (tokens: Token[]) =>
+  tokens[tokens.length - 1]?.value === ';' ? tokens.slice(0, -1) : tokens;
+
+// SELECT ... INTO #t: the INTO keyword and the table name token, outside subqueries
+const findSelectInto = (statement: Statement): [Token, Token] | null => {
+  if (statement.kind !== 'dml' || statement.verb !== 'SELECT') return null;
+  let depth = 0;
+  for (let i = 0; i < statement.tokens.length - 1; i++) {
+    const token = statement.tokens[i];
+    if (token.value === '(') depth++;
+    if (token.value === ')') depth--;
+    const next = statement.tokens[i + 1];
+    if (depth === 0 && token.type === 'word' && token.upper === 'INTO' && next.type === 'word' && next.value.startsWith('#')) {
+      return [token, next];
+    }
+  }
+  return null;
+};
+
+// DROP TABLE #t
+const findDroppedTable = (statement: Statement): Token | null => {
+  if (statement.kind !== 'simple' || statement.keyword !== 'DROP') return null;
+  const tokens = withoutTerminator(statement.tokens);
+  return tokens.length === 3 && tokens[1].upper === 'TABLE' && tokens[2].value.startsWith('#') ? tokens[2] : null;
+};
+
+// Parsing is the expensive part; reuse it until the file's content changes
+const fileCache = new Map<string, FileTempTables>();
+
+const analyzeFile = (file: CodeFile): FileTempTables => {
+  const cached = fileCache.get(file.id);
+  if (cached && cached.name === file.name && cached.content === file.content) return cached;
+
+  const created = new Map<string, TempTableColumn[] | null>();
+  const referenced = new Map<string, string>();
+  if (file.content.includes('#')) {
+    const script = parseSybase(file.content);
+    walkScript(script, statement => {
+      if (statement.kind === 'createTable' && statement.temporary) {
+        created.set(tableKey(statement.name), statement.columns.map(column => ({
+          name: column.name,
+          dataType: column.dataType.text,
+          nullable: column.nullable,
+        })));
+      }
+      const selectInto = findSelectInto(statement);
+      if (selectInto && !created.has(tableKey(selectInto[1].value))) created.set(tableKey(selectInto[1].value), null);
+    });
+    script.tokens.forEach(token => {
+      if (token.type === 'word' && /^#+\w/.test(token.value) && !referenced.has(tableKey(token.value))) {
+        referenced.set(tableKey(token.value), token.value);
+      }
+    });
+  }
+  const analysis = { name: file.name, content: file.content, created, referenced };
+  fileCache.set(file.id, analysis);
+  return analysis;
+};
+
+const columnSignature = (columns: TempTableColumn[]) =>
+  columns.map(column => `${column.name.toLowerCase()} ${column.dataType.replace(/\s+/g, '').toLowerCase()}`).join(',');
+
+export const findTempTables = (files: CodeFile[], strategy: TempTableStrategy): TempTable[] => {
+  const tables = new Map<string, TempTable>();
+  const signatures = new Map<string, string>();
+  files.forEach(file => {
+    const analysis = analyzeFile(file);
+    analysis.referenced.forEach((name, key) => {
+      const table = tables.get(key) ?? {
+        name,
+        oracleName: getTempTableOracleName(name, strategy),
+        columns: [],
+        files: [],
+        createdIn: [],
+        conflicting: false,
+      };
+      table.files.push(file.name);
+      const columns = analysis.created.get(key);
+      if (columns !== undefined) table.createdIn.push(file.name);
+      // The first CREATE TABLE defines the shared table; later different definitions are conflicts
+      if (columns) {
+        const signature = columnSignature(columns);
+        if (!signatures.has(key)) {
+          signatures.set(key, signature);
+          table.columns = columns;
+        } else if (signatures.get(key) !== signature) {
+          table.conflicting = true;
+        }
+      }
+      tables.set(key, table);
+    });
+  });
+  return Array.from(tables.values());
+};
+
+const findTable = (tables: TempTable[], name: string) => tables.find(table => tableKey(table.name) === tableKey(name));
+
+// Temp tables of the project that `code` uses
+const referencedTables = (code: string, options: TempTableOptions): TempTable[] => {
+  if (!code.includes('#')) return [];
+  const keys = new Set(tokenize(code)
+    .filter(token => token.type === 'word' && token.value.startsWith('#'))
+    .map(token => tableKey(token.value)));
+  return options.tables.filter(table => keys.has(tableKey(table.name)));
+};
+
+interface TextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Global temporary tables exist before the code runs, so the rewrite is mechanical: CREATE TABLE
+// and DROP TABLE empty the table, SELECT INTO inserts into it and every reference is renamed.
+// The other strategies need run-time DDL or collection code and are left to the model.
+export const rewriteTempTables = (code: string, options: TempTableOptions): string => {
+  if (options.strategy !== 'global' || referencedTables(code, options).length === 0) return code;
+  const script = parseSybase(code);
+  const edits: TextEdit[] = [];
+  const rewritten = new Set<Token>();
+
+  const replaceStatement = (statement: Statement, name: string) => {
+    const table = findTable(options.tables, name);
+    if (!table) return;
+    const tokens = withoutTerminator(statement.tokens);
+    edits.push({ start: tokens[0].offset, end: tokens[tokens.length - 1].end, text: `delete from ${table.oracleName}` });
+    tokens.forEach(token => rewritten.add(token));
+  };
+
+  walkScript(script, statement => {
+    if (statement.kind === 'createTable' && statement.temporary) {
+      replaceStatement(statement, statement.name);
+      return;
+    }
+    const dropped = findDroppedTable(statement);
+    if (dropped) {
+      replaceStatement(statement, dropped.value);
+      return;
+    }
+    const selectInto = findSelectInto(statement);
+    const table = selectInto && findTable(options.tables, selectInto[1].value);
+    if (selectInto && table) {
+      const [into, name] = selectInto;
+      const previous = statement.tokens[statement.tokens.indexOf(into) - 1];
+      edits.push({ start: statement.tokens[0].offset, end: statement.tokens[0].offset, text: `insert into ${table.oracleName} ` });
+      edits.push({ start: previous.end, end: name.end, text: '' });
+      rewritten.add(into);
+      rewritten.add(name);
+    }
+  });
+  script.tokens.forEach(token => {
+    if (token.type !== 'word' || !token.value.startsWith('#') || rewritten.has(token)) return;
+    const table = findTable(options.tables, token.value);
+    if (table) edits.push({ start: token.offset, end: token.end, text: table.oracleName });
+  });
+
+  return edits
+    .sort((a, b) => b.start - a.start)
+    .reduce((text, edit) => text.slice(0, edit.start) + edit.text + text.slice(edit.end), code);
+};
+
+const describeColumns = (table: TempTable, mapType: TypeMapper, withNullability: boolean): string =>
+  table.columns.map(column => {
+    const oracleType = mapType(column.dataType)?.oracleType ?? column.dataType.toUpperCase();
+    return `  ${column.name} ${oracleType}${withNullability && column.nullable === false ? ' NOT NULL' : ''}`;
+  }).join(',\n');
+
+// Oracle definition of one temp table under the project strategy
+export const buildTempTableDefinition = (table: TempTable, strategy: TempTableStrategy, mapType: TypeMapper): string => {
+  if (table.columns.length === 0) {
+    return `-- ${table.oracleName}: ${table.name} is only created by SELECT INTO (${table.createdIn.join(', ') || 'no file'}); define its columns`;
+  }
+  switch (strategy) {
+    case 'global':
+      return `CREATE GLOBAL TEMPORARY TABLE ${table.oracleName} (\n${describeColumns(table, mapType, true)}\n) ON COMMIT PRESERVE ROWS;`;
+    case 'private':
+      return `CREATE PRIVATE TEMPORARY TABLE ${table.oracleName} (\n${describeColumns(table, mapType, true)}\n) ON COMMIT PRESERVE DEFINITION;`;
+    case 'collection': {
+      const { recordType } = getCollectionNames(table.name);
+      return `CREATE OR REPLACE TYPE ${recordType} AS OBJECT (\n${describeColumns(table, mapType, false)}\n);\n/\n\nCREATE OR REPLACE TYPE ${table.oracleName} AS TABLE OF ${recordType};\n/`;
+    }
+  }
+};
+
+// Supporting DDL deployed once before the converted objects
+export const buildTempTableDDL = (options: TempTableOptions, typeRules: DataTypeRule[] = []): string => {
+  const mapType = createTypeMapper(typeRules);
+  const header = options.strategy === 'private'
+    ? '-- Private temporary tables are created by the procedures at run time; definitions for reference'
+    : `-- Supporting ${options.strategy === 'global' ? 'global temporary tables' : 'collection types'} for #temp tables`;
+  return [header, ...options.tables.map(table => buildTempTableDefinition(table, options.strategy, mapType))].join('\n\n');
+};
+
+const STRATEGY_INSTRUCTIONS: Record<TempTableStrategy, string> = {
+  global: 'Use these global temporary tables instead of the #temp tables. They already exist; do not create or drop them. CREATE TABLE #t and DROP TABLE #t become DELETE FROM the table, and SELECT ... INTO #t becomes INSERT INTO ... SELECT.',
+  private: 'Replace each #temp table with this private temporary table. Create it with EXECUTE IMMEDIATE where the #temp table is created, drop it with EXECUTE IMMEDIATE where it is dropped, and run every statement using it through EXECUTE IMMEDIATE, because static SQL cannot reference it.',
+  collection: 'Replace each #temp table with a local collection variable of these schema-level types. Load it with BULK COLLECT, change it with collection operations and query it with TABLE().',
+};
+
+// Instructions for the model covering the temp tables `code` uses
+export const describeTempTableConversion = (code: string, options: TempTableOptions, typeRules: DataTypeRule[] = []): string[] => {
+  const tables = referencedTables(code, options);
+  if (tables.length === 0) return [];
+  const mapType = createTypeMapper(typeRules);
+  return [
+    STRATEGY_INSTRUCTIONS[options.strategy],
+    ...tables.map(table => {
+      const target = options.strategy === 'collection'
+        ? `variable ${getCollectionNames(table.name).variable} of type ${table.oracleName}`
+        : table.oracleName;
+      return `- ${table.name} -> ${target}:\n${buildTempTableDefinition(table, options.strategy, mapType)}`;
+    }),
+  ];
+};
+
+export interface TempTableNote {
+  table: TempTable;
+  severity: 'info' | 'warning';
+  description: string;
+  suggestedFix: string;
+}
+
+// Where the Oracle replacement behaves differently from the #temp table, per table `code` uses
+export const findTempTableNotes = (code: string, options: TempTableOptions): TempTableNote[] => {
+  const tables = referencedTables(code, options);
+  const tokens = tables.length > 0 ? tokenize(code).filter(token => token.type !== 'comment') : [];
+  // CREATE TABLE #t or SELECT ... INTO #t in this code
+  const isCreatedHere = (table: TempTable) => tokens.some((token, index) =>
+    token.type === 'word' && tableKey(token.value) === tableKey(table.name) &&
+    ((tokens[index - 1]?.upper === 'TABLE' && tokens[index - 2]?.upper === 'CREATE') ||
+      (tokens[index - 1]?.upper === 'INTO' && tokens[index - 2]?.upper !== 'INSERT')));
+
+  return tables.flatMap(table => {
+    const notes: TempTableNote[] = [];
+    const note = (severity: TempTableNote['severity'], description: string, suggestedFix: string) =>
+      notes.push({ table, severity, description, suggestedFix });
+
+    if (options.strategy === 'global') {
+      note('info',
+        `${table.name} is the global temporary table ${table.oracleName} (ON COMMIT PRESERVE ROWS): its rows last until the session ends instead of being dropped with the procedure, and procedures running in the same session share them`,
+        'Deploy the temporary table DDL before this file; the converted code empties the table where the #temp table was created or dropped');
+      if (table.columns.length === 0) {
+        note('warning', `${table.name} is only created by SELECT INTO, so the columns of ${table.oracleName} are unknown`, `Add the columns to the CREATE GLOBAL TEMPORARY TABLE ${table.oracleName} statement`);
+      }
+      if (table.conflicting) {
+        note('warning', `${table.name} is created with different columns in ${table.createdIn.join(', ')}; ${table.oracleName} uses the first definition`, 'Rename the #temp tables so each definition gets its own global temporary table');
+      }
+    } else if (options.strategy === 'private') {
+      note('warning',
+        `${table.name} becomes the private temporary table ${table.oracleName} (ON COMMIT PRESERVE DEFINITION): static SQL cannot reference it, and it lasts until it is dropped or the session ends`,
+        'Run every statement using it through EXECUTE IMMEDIATE and drop it before the procedure returns');
+    } else {
+      note('warning',
+        `${table.name} becomes a collection held in session memory: large row counts use PGA memory, and there are no indexes or transactions on it`,
+        'Check the expected row count; use a global temporary table for large data');
+      if (!isCreatedHere(table)) {
+        note('warning', `${table.name} is created by another procedure; a local collection is not visible across procedures`, `Pass the ${table.oracleName} collection as a parameter`);
+      }
+    }
+    return notes;
+  });
+};
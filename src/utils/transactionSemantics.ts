@@ -0,0 +1,246 @@
+import { nestedLists, ownTokens, parseSybase, Statement, Token, tokenize } from './sybaseParser';
+import { buildSourceMap, findMappedEntries } from './sourceMap';
+
+// @@error, @@rowcount, @@trancount and transaction control. Sybase reports failures and row counts
+// through status variables that every statement resets, and nests transactions with a counter;
+// Oracle raises exceptions, counts rows of the last SQL statement only and has no nesting. Each use
+// in the source is checked against the converted code around it (located through the source map).
+
+export type TransactionNoteCategory = 'error-status' | 'transaction';
+
+export interface TransactionNote {
+  line: number; // in the Sybase source
+  targetLine?: number; // in the converted code, when the source map locates it
+  code: string;
+  category: TransactionNoteCategory;
+  severity: 'info' | 'warning' | 'error';
+  description: string;
+  suggestedFix: string;
+}
+
+type Routine = 'procedure' | 'function' | 'trigger' | null;
+
+interface StatusUse {
+  kind: '@@error' | '@@rowcount' | '@@trancount' | 'save' | 'rollback' | 'commit';
+  line: number;
+  checked: Statement | null; // the statement whose status is read
+  savepoint?: string;
+  routine: Routine;
+}
+
+const STATUS_VARIABLES = ['@@ERROR', '@@ROWCOUNT', '@@TRANCOUNT'] as const;
+const TRANSACTION_WORDS = ['TRAN', 'TRANSACTION', 'WORK'];
+
+const hasStatusChecks = (code: string) => /@@(error|rowcount|trancount)\b|\b(rollback|commit|save)\s+tran/i.test(code);
+
+const routineOf = (statement: Statement, current: Routine): Routine => {
+  switch (statement.kind) {
+    case 'createProcedure': return 'procedure';
+    case 'createFunction': return 'function';
+    case 'createTrigger': return 'trigger';
+    default: return current;
+  }
+};
+
+// ROLLBACK TRAN name / SAVE TRAN name: the savepoint, if any
+const savepointName = (tokens: Token[]): string | undefined => {
+  const index = TRANSACTION_WORDS.includes(tokens[1]?.upper) ? 2 : 1;
+  const name = tokens[index];
+  return name && (name.type === 'word' || name.type === 'quotedIdentifier') ? name.value.replace(/^\[|\]$/g, '') : undefined;
+};
+
+// Status reads and transaction control, each with the statement executed just before it
+const findStatusUses = (code: string): StatusUse[] => {
+  const uses: StatusUse[] = [];
+  const script = parseSybase(code);
+
+  // A statement sees the one before it in its list; the first of a nested list sees the statement
+  // before the enclosing one, and routines start afresh
+  const visitList = (statements: Statement[], inherited: Statement | null, routine: Routine) => {
+    let previous = inherited;
+    statements.forEach(statement => {
+      const tokens = ownTokens(statement);
+      const line = tokens[0]?.line ?? statement.line;
+      STATUS_VARIABLES.forEach(variable => {
+        if (tokens.some(token => token.type === 'variable' && token.upper === variable)) {
+          uses.push({ kind: variable.toLowerCase() as StatusUse['kind'], line, checked: previous, routine });
+        }
+      });
+      if (statement.kind === 'simple' && statement.keyword === 'SAVE' && TRANSACTION_WORDS.includes(tokens[1]?.upper)) {
+        uses.push({ kind: 'save', line, checked: previous, savepoint: savepointName(tokens), routine });
+      }
+      // ROLLBACK TRIGGER only undoes the trigger; it is left to the trigger conversion
+      if (statement.kind === 'simple' && statement.keyword === 'ROLLBACK' && tokens[1]?.upper !== 'TRIGGER') {
+        uses.push({ kind: 'rollback', line, checked: previous, savepoint: savepointName(tokens), routine });
+      }
+      if (statement.kind === 'simple' && statement.keyword === 'COMMIT') {
+        uses.push({ kind: 'commit', line, checked: previous, routine });
+      }
+      const nestedRoutine = routineOf(statement, routine);
+      nestedLists(statement).forEach(list => visitList(list, nestedRoutine === routine ? previous : null, nestedRoutine));
+      previous = statement;
+    });
+  };
+  script.batches.forEach(batch => visitList(batch.statements, null, null));
+  return uses;
+};
+
+// SELECT @var = ... FROM: converted to SELECT INTO, which raises instead of finding no rows
+const isSelectAssignment = (statement: Statement) =>
+  statement.kind === 'dml' && statement.verb === 'SELECT' &&
+  statement.tokens[1]?.type === 'variable' && statement.tokens[2]?.value === '=' &&
+  statement.tokens.some(token => token.upper === 'FROM');
+
+// SELECT @a = 1, @b = @@error: a plain assignment without a query
+const isAssignment = (statement: Statement) =>
+  (statement.kind === 'simple' && statement.keyword === 'SET') ||
+  (statement.kind === 'dml' && statement.verb === 'SELECT' && statement.tokens[1]?.type === 'variable' &&
+    !statement.tokens.some(token => token.upper === 'FROM'));
+
+const describeStatement = (statement: Statement): string => {
+  switch (statement.kind) {
+    case 'dml': return isAssignment(statement) ? 'assignment' : statement.verb;
+    case 'simple': return statement.keyword;
+    case 'if': return 'IF';
+    case 'while': return 'WHILE loop';
+    case 'block': return 'BEGIN ... END block';
+    default: return 'statement';
+  }
+};
+
+const tokensBetween = (tokens: Token[], from: number, to: number) =>
+  tokens.filter(token => token.line >= from && token.line <= to);
+
+const hasWord = (tokens: Token[], ...words: string[]) => tokens.some(token => words.includes(token.upper));
+
+// SQL%ROWCOUNT, cursor%FOUND, ...
+const hasAttribute = (tokens: Token[], ...attributes: string[]) =>
+  tokens.some((token, index) => attributes.includes(token.upper) && tokens[index - 1]?.value === '%');
+
+const hasSequence = (tokens: Token[], ...words: string[]) =>
+  tokens.some((_, index) => words.every((word, offset) => tokens[index + offset]?.upper === word));
+
+const hasExceptionHandler = (tokens: Token[]) => hasSequence(tokens, 'EXCEPTION', 'WHEN');
+
+export const findTransactionNotes = (sourceCode: string, convertedCode: string): TransactionNote[] => {
+  if (!hasStatusChecks(sourceCode)) return [];
+  const uses = findStatusUses(sourceCode);
+  if (uses.length === 0) return [];
+
+  const sourceLines = sourceCode.split('\n');
+  const sourceMap = buildSourceMap(sourceCode, convertedCode);
+  // Comments in the converted code never count as handling
+  const convertedTokens = tokenize(convertedCode).filter(token => token.type !== 'comment');
+  const exceptionHandler = hasExceptionHandler(convertedTokens);
+
+  const notes: TransactionNote[] = [];
+  const seen = new Set<string>();
+  uses.forEach(use => {
+    if (seen.has(`${use.kind}:${use.line}`)) return;
+    seen.add(`${use.kind}:${use.line}`);
+
+    // The converted lines of this statement; the whole output when the source map has no match
+    const entries = findMappedEntries(sourceMap, 'source', use.line);
+    const targetLine = entries.length > 0 ? Math.min(...entries.map(entry => entry.targetStart)) : undefined;
+    const region = entries.length > 0
+      ? tokensBetween(convertedTokens, targetLine!, Math.max(...entries.map(entry => entry.targetEnd)))
+      : convertedTokens;
+    const checked = use.checked ? `the ${describeStatement(use.checked)} at line ${use.checked.line}` : 'the previous statement';
+    const note = (category: TransactionNoteCategory, severity: TransactionNote['severity'], description: string, suggestedFix: string) =>
+      notes.push({ line: use.line, targetLine, code: sourceLines[use.line - 1]?.trim() ?? '', category, severity, description, suggestedFix });
+
+    switch (use.kind) {
+      case '@@error': {
+        if (!use.checked) break;
+        if (hasWord(region, 'SQLCODE', 'SQLERRM') && !exceptionHandler) {
+          note('error-status', 'error',
+            `@@error check at source line ${use.line} became SQLCODE outside an exception handler, where it is always 0, so the check never fires`,
+            'Move the handling into an EXCEPTION WHEN OTHERS block around the statement that can fail');
+        } else if (!exceptionHandler && !hasWord(region, 'SQLCODE', 'SQLERRM')) {
+          note('error-status', 'warning',
+            `@@error check after ${checked} was dropped: Oracle raises an exception instead of setting a status, so the error handling at source line ${use.line} never runs and the error reaches the caller`,
+            'Wrap the statement in BEGIN ... EXCEPTION WHEN OTHERS THEN ... END with the handling from the @@error branch');
+        }
+        break;
+      }
+      case '@@rowcount': {
+        if (!use.checked) break;
+        if (isSelectAssignment(use.checked)) {
+          if (!hasWord(convertedTokens, 'NO_DATA_FOUND')) {
+            note('error-status', 'warning',
+              `@@rowcount at source line ${use.line} checks ${checked}, which becomes SELECT INTO: it raises NO_DATA_FOUND or TOO_MANY_ROWS instead of setting a row count of 0 or more than 1`,
+              'Handle NO_DATA_FOUND (and TOO_MANY_ROWS) in an exception block around the SELECT INTO');
+          }
+        } else if (use.checked.kind === 'dml' && use.checked.verb === 'SELECT' && !isAssignment(use.checked)) {
+          note('error-status', 'warning',
+            `@@rowcount at source line ${use.line} counts the rows ${checked} returns to the client; a result set opened as a cursor does not set SQL%ROWCOUNT`,
+            'Count the rows with a separate COUNT(*) query, or count them while fetching');
+        } else if (use.checked.kind === 'dml' || (use.checked.kind === 'simple' && use.checked.keyword === 'FETCH')) {
+          if (!hasAttribute(region, 'ROWCOUNT', 'FOUND', 'NOTFOUND')) {
+            note('error-status', 'warning',
+              `@@rowcount after ${checked} was dropped from the converted code`,
+              use.checked.kind === 'dml' ? 'Read SQL%ROWCOUNT right after the statement' : 'Test the cursor with %FOUND / %NOTFOUND after the FETCH');
+          }
+        } else {
+          note('error-status', 'warning',
+            `@@rowcount at source line ${use.line} reflects ${checked}, not an earlier query; SQL%ROWCOUNT reports the last SQL statement, so the converted value differs`,
+            'Read @@rowcount and @@error in the statement right after the query, e.g. select @rows = @@rowcount, @err = @@error');
+        }
+        break;
+      }
+      case '@@trancount':
+        if (!hasWord(region, 'LOCAL_TRANSACTION_ID')) {
+          note('transaction', 'warning',
+            `@@trancount at source line ${use.line} has no Oracle equivalent: Oracle transactions do not nest, so there is no nesting level to test`,
+            'Test DBMS_TRANSACTION.LOCAL_TRANSACTION_ID IS NOT NULL for an open transaction, or let the caller decide whether to commit');
+        }
+        break;
+      case 'save': {
+        const statement = use.savepoint ? `save tran ${use.savepoint}` : 'save tran';
+        if (!use.savepoint || !hasSequence(convertedTokens, 'SAVEPOINT', use.savepoint.toUpperCase())) {
+          note('transaction', 'warning',
+            `${statement} at source line ${use.line} was dropped, so rolling back to it fails or undoes the whole transaction`,
+            `Convert it to SAVEPOINT ${use.savepoint ?? 'name'}`);
+        }
+        break;
+      }
+      case 'rollback':
+        if (use.routine === 'trigger') {
+          if (hasWord(region, 'ROLLBACK')) {
+            note('transaction', 'error',
+              `rollback at source line ${use.line} is inside a trigger; Oracle triggers cannot roll back (ORA-04092)`,
+              'Call RAISE_APPLICATION_ERROR to fail the triggering statement instead');
+          }
+        } else if (use.savepoint) {
+          const name = use.savepoint.toUpperCase();
+          if (hasSequence(convertedTokens, 'ROLLBACK', 'TO', name) || hasSequence(convertedTokens, 'ROLLBACK', 'TO', 'SAVEPOINT', name)) break;
+          if (hasWord(region, 'ROLLBACK')) {
+            note('transaction', 'error',
+              `rollback tran ${use.savepoint} at source line ${use.line} rolls back to a savepoint, but the converted ROLLBACK undoes the whole transaction`,
+              `Use ROLLBACK TO SAVEPOINT ${use.savepoint}`);
+          } else {
+            note('transaction', 'warning',
+              `rollback tran ${use.savepoint} at source line ${use.line} was dropped from the converted code`,
+              `Use ROLLBACK TO SAVEPOINT ${use.savepoint}`);
+          }
+        } else if (!hasWord(convertedTokens, 'ROLLBACK')) {
+          note('transaction', 'warning',
+            `rollback tran at source line ${use.line} was dropped: the converted code never rolls back`,
+            'Add ROLLBACK where the Sybase code rolls back, usually in the exception handler');
+        }
+        break;
+      case 'commit':
+        if (hasWord(region, 'COMMIT')) {
+          note('transaction', 'warning',
+            `commit tran at source line ${use.line} becomes COMMIT, which commits all work of the session including the caller's; in Sybase a commit inside the caller's transaction only decrements @@trancount`,
+            'Leave the commit to the caller, or use PRAGMA AUTONOMOUS_TRANSACTION if this work must commit on its own');
+        } else {
+          note('transaction', 'info',
+            `commit tran at source line ${use.line} has no COMMIT in the converted code; the work is committed when the caller commits`,
+            'Make sure every caller commits, or restore the COMMIT if this procedure runs on its own');
+        }
+        break;
+    }
+  });
+  return notes;
+};
@@ -0,0 +1,184 @@
+import { diffLines } from 'diff';
+import { TranslationExample } from '@/types';
+import { parseSybase, SqlScript, Statement, Token, tokenize, walkScript } from './sybaseParser';
+import { hashText } from './conversionCache';
+
+// Translation memory: corrections reviewers made to AI output (aiGeneratedCode -> convertedCode),
+// split into before/after pairs, tied to the Sybase statement they came from and indexed by the
+// Sybase constructs involved. Conversions of code using the same constructs get them as examples.
+
+const MAX_HUNK_LINES = 40;
+const MAX_CORRECTIONS_PER_FILE = 10;
+const MAX_SNIPPET_LINES = 15;
+const MAX_EXAMPLES = 3;
+const MAX_EXAMPLES_CHARS = 3000;
+
+// Built-in functions whose conversion commonly needs fixing
+const FUNCTION_CONSTRUCTS = new Set([
+  'CONVERT', 'CAST', 'ISNULL', 'GETDATE', 'DATEADD', 'DATEDIFF', 'DATEPART', 'DATENAME', 'CHARINDEX',
+  'PATINDEX', 'SUBSTRING', 'LEN', 'STR', 'STUFF', 'REPLICATE', 'RIGHT', 'LEFT', 'OBJECT_ID', 'NEWID',
+]);
+
+const KEYWORD_CONSTRUCTS: Record<string, string> = {
+  RAISERROR: 'raiserror',
+  PRINT: 'print',
+  TOP: 'top',
+  IDENTITY: 'identity',
+  CURSOR: 'cursor',
+  TRAN: 'transaction',
+  TRANSACTION: 'transaction',
+  EXEC: 'exec',
+  EXECUTE: 'exec',
+};
+
+// Words too common to tie a correction to a statement
+const COMMON_WORDS = new Set([
+  'SELECT', 'FROM', 'WHERE', 'AND', 'OR', 'NOT', 'NULL', 'BEGIN', 'END', 'AS', 'IS', 'IF', 'THEN',
+  'ELSE', 'SET', 'INTO', 'VALUES', 'ON', 'IN', 'BY', 'THE',
+]);
+
+// Sybase constructs used in a piece of code: global variables, built-in function calls, keywords
+export const detectConstructs = (tokens: Token[]): string[] => {
+  const constructs = new Set<string>();
+  tokens.forEach((token, index) => {
+    if (token.type === 'variable' && token.value.startsWith('@@')) {
+      constructs.add(token.value.toLowerCase());
+    } else if (token.type === 'word' && FUNCTION_CONSTRUCTS.has(token.upper) && tokens[index + 1]?.value === '(') {
+      constructs.add(`${token.value.toLowerCase()}()`);
+    } else if (token.type === 'word' && KEYWORD_CONSTRUCTS[token.upper]) {
+      constructs.add(KEYWORD_CONSTRUCTS[token.upper]);
+    } else if (token.type === 'word' && token.value.startsWith('#')) {
+      constructs.add('#temp table');
+    } else if (token.value === '*=' || token.value === '=*') {
+      constructs.add('outer join (*=)');
+    }
+  });
+  return Array.from(constructs);
+};
+
+// Oracle words standing for a Sybase construct, so "IF SQLCODE <> 0" can be traced to "if @@error <> 0"
+const ORACLE_EQUIVALENTS: Record<string, string> = {
+  SQLCODE: 'ERROR',
+  SQLERRM: 'ERROR',
+  RAISE_APPLICATION_ERROR: 'RAISERROR',
+  SYSDATE: 'GETDATE',
+  SYSTIMESTAMP: 'GETDATE',
+  NVL: 'ISNULL',
+  ROWNUM: 'TOP',
+};
+
+// Identifiers of a piece of Sybase or Oracle code in one vocabulary: @total, p_total and v_total are all TOTAL
+export const significantWords = (tokens: Token[]) => new Set(tokens
+  .filter(token => (token.type === 'word' || token.type === 'variable') && !COMMON_WORDS.has(token.upper))
+  .map(token => ORACLE_EQUIVALENTS[token.upper] ?? token.upper.replace(/^@+/, '').replace(/^[PV]_(?=\w)/, '')));
+
+// The innermost Sybase statement sharing the most identifiers with a changed line
+const findSourceStatement = (script: SqlScript, changedLine: string): Statement | null => {
+  const changedWords = significantWords(tokenize(changedLine));
+  if (changedWords.size === 0) return null;
+  let best: Statement | null = null;
+  let bestScore = 0;
+  walkScript(script, statement => {
+    const words = significantWords(statement.tokens);
+    const score = Array.from(words).filter(word => changedWords.has(word)).length;
+    // Nested statements are visited after their parent and win ties, so the smallest match is kept
+    if (score > bestScore || (score > 0 && score === bestScore && statement.tokens.length <= best!.tokens.length)) {
+      best = statement;
+      bestScore = score;
+    }
+  });
+  return best;
+};
+
+// Before/after pairs from a reviewed file: each changed region of the AI output becomes one correction
+export const mineCorrections = (sybaseCode: string, aiCode: string, correctedCode: string, sourceFile?: string): TranslationExample[] => {
+  const script = parseSybase(sybaseCode);
+  const sourceLines = sybaseCode.split('\n');
+  const corrections: TranslationExample[] = [];
+  let removed = '';
+  let added = '';
+
+  const flush = () => {
+    const before = removed.trimEnd();
+    const after = added.trimEnd();
+    removed = '';
+    added = '';
+    if (before.replace(/\s+/g, '') === after.replace(/\s+/g, '')) return;
+    if (before.split('\n').length + after.split('\n').length > MAX_HUNK_LINES) return;
+
+    // A changed region can span several source statements; trace each line on its own
+    const statements = Array.from(new Set(`${before}\n${after}`.split('\n')
+      .map(line => findSourceStatement(script, line))
+      .filter((statement): statement is Statement => statement !== null)));
+    const constructs = new Set([
+      ...statements.flatMap(statement => detectConstructs(statement.tokens)),
+      // Sybase-isms the model left in its output are what the reviewer fixed
+      ...detectConstructs(tokenize(before)),
+    ]);
+    // Unindexed corrections would never be selected
+    if (constructs.size === 0) return;
+
+    const firstLine = Math.min(...statements.map(statement => statement.line));
+    const lastLine = Math.max(...statements.map(statement => statement.endLine));
+    const snippet = statements.length > 0 && lastLine - firstLine < MAX_SNIPPET_LINES
+      ? sourceLines.slice(firstLine - 1, lastLine).join('\n').trim()
+      : '';
+    corrections.push({
+      constructs: Array.from(constructs),
+      sybaseCode: snippet,
+      aiCode: before,
+      correctedCode: after,
+      occurrences: 1,
+      sourceFile,
+    });
+  };
+
+  diffLines(aiCode, correctedCode, { ignoreWhitespace: true }).forEach(part => {
+    if (part.removed) removed += part.value;
+    else if (part.added) added += part.value;
+    else flush();
+  });
+  flush();
+  return corrections.slice(0, MAX_CORRECTIONS_PER_FILE);
+};
+
+// The same correction made on another file or day counts as one example seen more often
+export const correctionFingerprint = (example: TranslationExample): Promise<string> => {
+  const normalize = (code: string) => code.replace(/\s+/g, ' ').trim().toLowerCase();
+  return hashText(`${normalize(example.aiCode)}\n=>\n${normalize(example.correctedCode)}`);
+};
+
+// Examples sharing the most constructs with the code, most frequent corrections first
+export const selectTranslationExamples = (
+  memory: TranslationExample[],
+  sybaseCode: string,
+  limit: number = MAX_EXAMPLES
+): TranslationExample[] => {
+  if (memory.length === 0) return [];
+  const constructs = new Set(detectConstructs(tokenize(sybaseCode)));
+  const ranked = memory
+    .map(example => ({ example, shared: example.constructs.filter(construct => constructs.has(construct)).length }))
+    .filter(candidate => candidate.shared > 0)
+    .sort((a, b) => b.shared - a.shared || b.example.occurrences - a.example.occurrences);
+
+  const selected: TranslationExample[] = [];
+  let chars = 0;
+  for (const { example } of ranked) {
+    const size = example.sybaseCode.length + example.aiCode.length + example.correctedCode.length;
+    if (selected.length >= limit || chars + size > MAX_EXAMPLES_CHARS) continue;
+    selected.push(example);
+    chars += size;
+  }
+  return selected;
+};
+
+export const formatTranslationExamples = (examples: TranslationExample[]): string => {
+  if (examples.length === 0) return '';
+  const blocks = examples.map((example, index) => [
+    `Example ${index + 1} (${example.constructs.join(', ') || 'general'}):`,
+    example.sybaseCode ? `Sybase:\n${example.sybaseCode}` : '',
+    `Incorrect Oracle:\n${example.aiCode || '(missing)'}`,
+    `Corrected Oracle:\n${example.correctedCode || '(removed)'}`,
+  ].filter(Boolean).join('\n'));
+  return `Corrections reviewers made to earlier conversions; make the same fixes where they apply:\n\n${blocks.join('\n\n')}\n\n`;
+};
@@ -0,0 +1,355 @@
+import { ErrorNumberOptions } from '@/types';
+import { CreateTriggerStatement, objectBaseName, ownTokens, parseSybase, Statement, Token, tokenize, walkScript, walkStatements } from './sybaseParser';
+import { buildSourceMap, findMappedEntries } from './sourceMap';
+import { DEFAULT_ERROR_CODE, DEFAULT_ERROR_NUMBER_OPTIONS, getOracleErrorNumber } from './errorNumbers';
+
+// Sybase triggers fire once per statement and see the changed rows as the inserted and deleted
+// tables. Oracle triggers fire once per row with :NEW / :OLD, or once per statement without access
+// to the rows. How a trigger uses inserted/deleted decides its Oracle form: row-level when every use
+// reads one row at a time, compound when it needs all rows of the statement or reads or changes its
+// own table (a row-level trigger cannot: mutating table, ORA-04091), statement-level when it uses
+// neither table.
+
+export type TriggerForm = 'row' | 'statement' | 'compound';
+
+export interface TriggerStatement {
+  line: number;
+  code: string;
+  verb: string; // SELECT, UPDATE, ...
+}
+
+export interface TriggerRollback {
+  line: number;
+  code: string;
+  kind: 'trigger' | 'transaction'; // rollback trigger / rollback tran
+  errorNumber?: number; // rollback trigger with raiserror
+  message?: string; // the message literal, quotes included
+}
+
+export interface TriggerAnalysis {
+  name: string;
+  table: string;
+  events: string[]; // INSERT / UPDATE / DELETE
+  line: number;
+  form: TriggerForm;
+  timing: 'BEFORE' | 'AFTER';
+  reasons: string[]; // why this form was chosen
+  pseudoTables: string[]; // inserted / deleted, as far as used
+  selfUpdates: TriggerStatement[]; // UPDATE of the trigger's table joined with inserted
+  mutating: TriggerStatement[]; // other reads and writes of the trigger's table
+  rollbacks: TriggerRollback[];
+  updatedColumns: string[]; // update(column) tests
+}
+
+export interface TriggerNote {
+  trigger: string;
+  line: number; // in the Sybase source
+  targetLine?: number; // in the converted code
+  code: string;
+  severity: 'info' | 'warning' | 'error';
+  description: string;
+  suggestedFix: string;
+}
+
+const PSEUDO_TABLES = ['INSERTED', 'DELETED'];
+const TABLE_POSITIONS = ['FROM', 'JOIN', 'UPDATE', 'INTO', 'DELETE', ','];
+const AGGREGATES = ['COUNT', 'SUM', 'AVG', 'MIN', 'MAX'];
+
+const FORM_LABELS: Record<TriggerForm, string> = {
+  row: 'row-level',
+  statement: 'statement-level',
+  compound: 'compound',
+};
+
+// inserted / deleted as a table: in a FROM list or qualifying a column
+const pseudoTableRefs = (tokens: Token[]): Token[] =>
+  tokens.filter((token, index) => token.type === 'word' && PSEUDO_TABLES.includes(token.upper) &&
+    (['FROM', 'JOIN', ','].includes(tokens[index - 1]?.upper) || tokens[index + 1]?.value === '.'));
+
+// Positions naming the table as a table (FROM orders, UPDATE dbo.orders), not as a column qualifier
+const tableRefs = (tokens: Token[], table: string): number[] =>
+  tokens.flatMap((token, index) => {
+    if ((token.type !== 'word' && token.type !== 'quotedIdentifier') || objectBaseName(token.value) !== table) return [];
+    if (tokens[index + 1]?.value === '.') return [];
+    const before = tokens[index - 1]?.value === '.' ? tokens[index - 3] : tokens[index - 1];
+    return before && TABLE_POSITIONS.includes(before.upper) ? [index] : [];
+  });
+
+const hasAggregate = (tokens: Token[]) =>
+  tokens.some((token, index) => AGGREGATES.includes(token.upper) && tokens[index + 1]?.value === '(');
+
+// update(column) in IF / WHILE conditions
+const updatedColumns = (tokens: Token[]): string[] =>
+  tokens.flatMap((token, index) =>
+    token.upper === 'UPDATE' && tokens[index + 1]?.value === '(' && tokens[index + 3]?.value === ')' ? [tokens[index + 2].value] : []);
+
+// rollback trigger [with raiserror number message]. The parser ends the statement at RAISERROR, so
+// the rest is read from the tokens of the whole trigger.
+const parseRollback = (statement: Statement, triggerTokens: Token[], code: string): TriggerRollback | null => {
+  if (statement.kind !== 'simple' || statement.keyword !== 'ROLLBACK') return null;
+  if (statement.tokens[1]?.upper !== 'TRIGGER') return { line: statement.line, code, kind: 'transaction' };
+  const start = triggerTokens.indexOf(statement.tokens[0]);
+  const tokens = triggerTokens.slice(start, start + 7);
+  if (tokens[2]?.upper !== 'WITH' || tokens[3]?.upper !== 'RAISERROR') return { line: statement.line, code, kind: 'trigger' };
+  const number = tokens[4];
+  const message = tokens.slice(5).find(token => token.type === 'string' || token.type === 'variable');
+  return {
+    line: statement.line,
+    code,
+    kind: 'trigger',
+    errorNumber: number?.type === 'number' ? parseInt(number.value) : undefined,
+    // Sybase also accepts "..." strings; Oracle needs single quotes
+    message: message?.value.startsWith('"') ? `'${message.value.slice(1, -1).replace(/""/g, '"').replace(/'/g, "''")}'` : message?.value,
+  };
+};
+
+// Oracle user errors are -20000 .. -20999; Sybase user errors take their code from the project's error map
+export const getTriggerErrorNumber = (errorNumber?: number, errorNumbers: ErrorNumberOptions = DEFAULT_ERROR_NUMBER_OPTIONS): number =>
+  (errorNumber !== undefined ? getOracleErrorNumber(errorNumber, errorNumbers) : null) ?? DEFAULT_ERROR_CODE;
+
+const analyzeTrigger = (trigger: CreateTriggerStatement, sourceLines: string[]): TriggerAnalysis => {
+  const table = objectBaseName(trigger.table);
+  const codeAt = (line: number) => sourceLines[line - 1]?.trim() ?? '';
+  const pseudoTables = new Set<string>();
+  const selfUpdates: TriggerStatement[] = [];
+  const mutating: TriggerStatement[] = [];
+  const rollbacks: TriggerRollback[] = [];
+  const columns = new Set<string>();
+  const compoundReasons: string[] = [];
+  const rowReasons: string[] = [];
+  let changedData = false;
+
+  walkStatements(trigger.body, statement => {
+    const tokens = ownTokens(statement);
+    if (tokens.length === 0) return;
+    const line = tokens[0].line;
+    const refs = pseudoTableRefs(tokens);
+    refs.forEach(ref => pseudoTables.add(ref.upper.toLowerCase()));
+    const used = Array.from(new Set(refs.map(ref => ref.value.toLowerCase()))).join(' and ');
+
+    if (refs.length > 0 && hasAggregate(tokens)) {
+      compoundReasons.push(`the aggregate over ${used} at line ${line} needs all rows of the statement`);
+    }
+    if (!changedData && tokens.some(token => token.upper === '@@ROWCOUNT')) {
+      compoundReasons.push(`@@rowcount at line ${line} is the number of rows the statement changed`);
+    }
+    if (statement.kind === 'declareCursor' && refs.length > 0) {
+      rowReasons.push(`the cursor over ${used} at line ${line} walks the rows one at a time, which a row-level trigger does itself`);
+    }
+    if (statement.kind === 'if' || statement.kind === 'while') updatedColumns(tokens).forEach(column => columns.add(column));
+
+    const own = tableRefs(tokens, table);
+    if (own.length > 0) {
+      const verb = statement.kind === 'dml' ? statement.verb : statement.kind === 'simple' ? statement.keyword : 'SELECT';
+      // UPDATE orders SET ... FROM orders, inserted WHERE ...: the target is the trigger's table
+      const updatesTable = own[0] < tokens.findIndex(token => token.upper === 'SET');
+      const selfUpdate = statement.kind === 'dml' && statement.verb === 'UPDATE' && updatesTable &&
+        refs.some(ref => ref.upper === 'INSERTED') && trigger.events.some(event => event !== 'DELETE');
+      (selfUpdate ? selfUpdates : mutating).push({ line, code: codeAt(line), verb });
+    }
+    const rollback = parseRollback(statement, trigger.tokens, codeAt(line));
+    if (rollback) rollbacks.push(rollback);
+    if (statement.kind === 'dml' && statement.verb !== 'SELECT') changedData = true;
+  });
+
+  mutating.forEach(use => compoundReasons.push(
+    `the ${use.verb} at line ${use.line} ${use.verb === 'SELECT' ? 'reads' : 'changes'} ${table}, which a row-level trigger on ${table} cannot do (ORA-04091)`));
+  const form: TriggerForm = compoundReasons.length > 0 ? 'compound' : pseudoTables.size > 0 ? 'row' : 'statement';
+  const reasons = form === 'compound' ? compoundReasons
+    : form === 'row' ? [`${Array.from(pseudoTables).join(' and ')} ${pseudoTables.size > 1 ? 'are' : 'is'} only read one row at a time`, ...rowReasons]
+    : ['inserted and deleted are not used'];
+  return {
+    name: trigger.name,
+    table: trigger.table,
+    events: trigger.events,
+    line: trigger.line,
+    form,
+    // Columns of the changed rows are set through :NEW before the row is written
+    timing: form === 'row' && selfUpdates.length > 0 ? 'BEFORE' : 'AFTER',
+    reasons,
+    pseudoTables: Array.from(pseudoTables),
+    selfUpdates,
+    mutating,
+    rollbacks,
+    updatedColumns: Array.from(columns),
+  };
+};
+
+export const analyzeTriggers = (code: string): TriggerAnalysis[] => {
+  if (!/\bcreate\s+trigger\b/i.test(code)) return [];
+  const sourceLines = code.split('\n');
+  const triggers: TriggerAnalysis[] = [];
+  walkScript(parseSybase(code), statement => {
+    if (statement.kind === 'createTrigger') triggers.push(analyzeTrigger(statement, sourceLines));
+  });
+  return triggers;
+};
+
+// CREATE OR REPLACE TRIGGER name / timing events ON table / FOR EACH ROW
+export const buildTriggerHeader = (trigger: TriggerAnalysis): string[] => [
+  `CREATE OR REPLACE TRIGGER ${trigger.name}`,
+  `${trigger.timing} ${trigger.events.join(' OR ')} ON ${trigger.table}`,
+  ...(trigger.form === 'row' ? ['FOR EACH ROW'] : []),
+];
+
+const describeRollback = (rollback: TriggerRollback, trigger: string, errorNumbers: ErrorNumberOptions): string =>
+  rollback.kind === 'trigger'
+    ? `rollback trigger at line ${rollback.line}: RAISE_APPLICATION_ERROR(${getTriggerErrorNumber(rollback.errorNumber, errorNumbers)}, ${rollback.message ?? `'Statement refused by ${trigger}'`}), which fails the triggering statement`
+    : `rollback tran at line ${rollback.line}: an Oracle trigger cannot end the transaction; raise with RAISE_APPLICATION_ERROR and leave the rollback to the caller`;
+
+// Prompt lines: the form chosen for each trigger and how to convert what decided it
+export const describeTriggerConversion = (code: string, errorNumbers: ErrorNumberOptions = DEFAULT_ERROR_NUMBER_OPTIONS): string[] =>
+  analyzeTriggers(code).flatMap(trigger => {
+    const events = trigger.events.join(' OR ');
+    const lines = [`- ${trigger.name} on ${trigger.table}: ${FORM_LABELS[trigger.form]} trigger (${trigger.form === 'compound'
+      ? `COMPOUND TRIGGER FOR ${events} ON ${trigger.table}`
+      : buildTriggerHeader(trigger).slice(1).join(' ')}), because ${trigger.reasons.join('; ')}`];
+    if (trigger.form === 'row') {
+      lines.push('  - Replace inserted.column with :NEW.column and deleted.column with :OLD.column; queries over inserted/deleted become direct :NEW/:OLD references');
+    }
+    if (trigger.form === 'compound') {
+      lines.push('  - Collect the keys or values of the changed rows from :NEW/:OLD in AFTER EACH ROW and do the set-based work in AFTER STATEMENT, where the table can be read and changed');
+    }
+    trigger.selfUpdates.forEach(update => lines.push(
+      `  - The UPDATE of ${trigger.table} at line ${update.line} sets columns of the changed rows: assign :NEW.column in ${trigger.form === 'compound' ? 'a BEFORE EACH ROW section' : 'the BEFORE EACH ROW trigger'} instead`));
+    trigger.rollbacks.forEach(rollback => lines.push(`  - ${describeRollback(rollback, trigger.name, errorNumbers)}`));
+    if (trigger.updatedColumns.length > 0) {
+      const tests = trigger.updatedColumns.map(column => `UPDATING('${column.toUpperCase()}')`).join(', ');
+      lines.push(trigger.events.includes('INSERT')
+        ? `  - update() is also true for inserts: test INSERTING OR ${tests}`
+        : `  - update() becomes ${tests}`);
+    }
+    return lines;
+  });
+
+interface ConvertedTrigger {
+  name: string;
+  line: number;
+  form: TriggerForm;
+  events: string[];
+  body: Token[];
+}
+
+const hasSequence = (tokens: Token[], ...words: string[]) =>
+  tokens.some((_, index) => words.every((word, offset) => tokens[index + offset]?.upper === word));
+
+// CREATE [OR REPLACE] TRIGGER name ... [FOR EACH ROW | COMPOUND TRIGGER] DECLARE | BEGIN ...
+const findConvertedTriggers = (convertedCode: string): ConvertedTrigger[] => {
+  const tokens = tokenize(convertedCode).filter(token => token.type !== 'comment');
+  const starts = tokens.flatMap((token, index) => token.upper === 'CREATE' ? [index] : []);
+  return starts.flatMap((start, i) => {
+    const end = starts[i + 1] ?? tokens.length;
+    const triggerIndex = tokens.slice(start, Math.min(end, start + 5)).findIndex(token => token.upper === 'TRIGGER');
+    if (triggerIndex === -1) return [];
+    let position = start + triggerIndex + 1;
+    let name = '';
+    while (position < end && (name === '' || name.endsWith('.') || tokens[position].value === '.')) {
+      name += tokens[position].value.replace(/^"|"$/g, '');
+      position++;
+    }
+    const header: Token[] = [];
+    for (; position < end && !['DECLARE', 'BEGIN'].includes(tokens[position].upper); position++) {
+      header.push(tokens[position]);
+      if (tokens[position].upper === 'TRIGGER' && tokens[position - 1]?.upper === 'COMPOUND') {
+        position++;
+        break;
+      }
+    }
+    return [{
+      name: objectBaseName(name),
+      line: tokens[start].line,
+      form: hasSequence(header, 'COMPOUND', 'TRIGGER') ? 'compound' : hasSequence(header, 'FOR', 'EACH', 'ROW') ? 'row' : 'statement',
+      events: header.filter(token => ['INSERT', 'UPDATE', 'DELETE'].includes(token.upper)).map(token => token.upper),
+      body: tokens.slice(position, end),
+    }];
+  });
+};
+
+// Each trigger of the source against its converted counterpart
+export const findTriggerNotes = (sourceCode: string, convertedCode: string, errorNumbers: ErrorNumberOptions = DEFAULT_ERROR_NUMBER_OPTIONS): TriggerNote[] => {
+  const triggers = analyzeTriggers(sourceCode);
+  if (triggers.length === 0) return [];
+  const converted = findConvertedTriggers(convertedCode);
+  const sourceMap = buildSourceMap(sourceCode, convertedCode);
+  const notes: TriggerNote[] = [];
+
+  triggers.forEach(trigger => {
+    const table = objectBaseName(trigger.table);
+    const target = converted.find(candidate => candidate.name === objectBaseName(trigger.name)) ??
+      (triggers.length === 1 && converted.length === 1 ? converted[0] : undefined);
+    const note = (line: number, code: string, severity: TriggerNote['severity'], description: string, suggestedFix: string, targetLine?: number) =>
+      notes.push({ trigger: trigger.name, line, targetLine, code, severity, description, suggestedFix });
+    const header = `create trigger ${trigger.name}`;
+
+    if (!target) {
+      note(trigger.line, header, 'warning',
+        `Trigger ${trigger.name} has no CREATE TRIGGER in the converted code`,
+        `Convert it to a ${FORM_LABELS[trigger.form]} trigger on ${trigger.table}`);
+      return;
+    }
+    const body = target.body;
+    const missing = trigger.events.filter(event => !target.events.includes(event));
+    if (missing.length > 0) {
+      note(trigger.line, header, 'error',
+        `Trigger ${trigger.name} no longer fires on ${missing.join(' or ')}`,
+        `Add ${missing.join(' OR ')} to the triggering events`, target.line);
+    }
+    if (target.form !== trigger.form && target.form !== 'compound') {
+      note(trigger.line, header, 'warning',
+        `Trigger ${trigger.name} was converted to a ${FORM_LABELS[target.form]} trigger, but ${trigger.form === 'statement' ? 'it fires once per statement in Sybase and would now run once per changed row' : trigger.reasons.join('; ')}`,
+        `Convert it to a ${FORM_LABELS[trigger.form]} trigger`, target.line);
+    }
+    if (pseudoTableRefs(body).length > 0) {
+      note(trigger.line, header, 'error',
+        `Trigger ${trigger.name} still queries inserted/deleted, which do not exist in Oracle`,
+        'Use :NEW and :OLD in a row-level trigger, or rows collected in a compound trigger', target.line);
+    }
+    if (target.form === 'row' && tableRefs(body, table).length > 0) {
+      note(trigger.line, header, 'error',
+        `Row-level trigger ${trigger.name} reads or changes its own table ${trigger.table}, which raises ORA-04091 (mutating table) at run time`,
+        'Assign :NEW columns in a BEFORE EACH ROW trigger, or move the statement to the AFTER STATEMENT section of a compound trigger', target.line);
+    }
+    if (target.form === 'statement' && body.some((token, index) => token.value === ':' && ['NEW', 'OLD'].includes(body[index + 1]?.upper))) {
+      note(trigger.line, header, 'error',
+        `Statement-level trigger ${trigger.name} references :NEW or :OLD, which only row-level triggers have (ORA-04082)`,
+        'Add FOR EACH ROW, or use a compound trigger', target.line);
+    }
+
+    const raises = body.some(token => token.upper === 'RAISE_APPLICATION_ERROR' || token.upper === 'RAISE');
+    trigger.rollbacks.forEach(rollback => {
+      const entries = findMappedEntries(sourceMap, 'source', rollback.line);
+      const targetLine = entries.length > 0 ? Math.min(...entries.map(entry => entry.targetStart)) : target.line;
+      const errorNumber = getTriggerErrorNumber(rollback.errorNumber, errorNumbers);
+      if (rollback.kind === 'trigger') {
+        if (!raises) {
+          note(rollback.line, rollback.code, 'error',
+            `rollback trigger at source line ${rollback.line} was dropped, so ${trigger.name} no longer refuses the statement`,
+            `Call RAISE_APPLICATION_ERROR(${errorNumber}, ...) where the Sybase trigger rolled back`, targetLine);
+        } else if (rollback.errorNumber === undefined) {
+          note(rollback.line, rollback.code, 'warning',
+            `rollback trigger at source line ${rollback.line} undid the statement silently and the caller carried on; RAISE_APPLICATION_ERROR raises an exception in the caller instead`,
+            'Handle the exception in callers that expect to continue, or check the condition before the statement', targetLine);
+        } else {
+          note(rollback.line, rollback.code, 'info',
+            `rollback trigger with raiserror at source line ${rollback.line} becomes RAISE_APPLICATION_ERROR: the statement still fails, but callers now stop at the exception where Sybase carried on with the next statement`,
+            `Handle ORA${errorNumber} in callers that expect to continue`, targetLine);
+        }
+      } else if (!body.some(token => token.upper === 'ROLLBACK')) {
+        // A ROLLBACK left in the trigger is reported with the other transaction control
+        note(rollback.line, rollback.code, raises ? 'warning' : 'error',
+          `rollback tran at source line ${rollback.line} rolled back the caller's whole transaction and ended the batch; ${raises
+            ? 'the Oracle trigger only fails the triggering statement, so earlier work of the transaction stays until the caller rolls back'
+            : `the converted ${trigger.name} neither raises nor rolls back, so the statement succeeds`}`,
+          'Raise with RAISE_APPLICATION_ERROR and roll back in the caller\'s exception handler', targetLine);
+      }
+    });
+
+    if (trigger.updatedColumns.length > 0 && trigger.events.includes('INSERT') &&
+        body.some(token => token.upper === 'UPDATING') && !body.some(token => token.upper === 'INSERTING')) {
+      note(trigger.line, header, 'warning',
+        `update(${trigger.updatedColumns.join(', ')}) in ${trigger.name} is also true for inserts, but UPDATING is false when the trigger fires for an INSERT, so those branches no longer run for inserted rows`,
+        `Test INSERTING OR UPDATING('${trigger.updatedColumns[0].toUpperCase()}')`, target.line);
+    }
+  });
+  return notes;
+};
@@ -0,0 +1,53 @@
+-- Create data_type_rules table for per-project Sybase to Oracle type mappings
+CREATE TABLE public.data_type_rules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_name TEXT NOT NULL DEFAULT 'default',
+  sybase_type TEXT NOT NULL,
+  oracle_type TEXT NOT NULL DEFAULT '',
+  description TEXT,
+  source TEXT NOT NULL DEFAULT 'custom' CHECK (source IN ('custom', 'sp_addtype')),
+  base_type TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, project_name, sybase_type)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.data_type_rules ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own data type rules" 
+ON public.data_type_rules 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own data type rules" 
+ON public.data_type_rules 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own data type rules" 
+ON public.data_type_rules 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own data type rules" 
+ON public.data_type_rules 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create function to update timestamps
+CREATE OR REPLACE FUNCTION public.update_data_type_rules_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_data_type_rules_updated_at
+  BEFORE UPDATE ON public.data_type_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_data_type_rules_updated_at();
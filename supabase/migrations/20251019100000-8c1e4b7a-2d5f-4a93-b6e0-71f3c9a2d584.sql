@@ -0,0 +1,32 @@
+-- Create prompt_templates table: versioned conversion prompts per project and object type.
+-- Versions are never edited; saving a template inserts the next version and the highest one is active.
+CREATE TABLE public.prompt_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_name TEXT NOT NULL DEFAULT 'default',
+  object_type TEXT NOT NULL CHECK (object_type IN ('table', 'procedure', 'trigger', 'other')),
+  version INTEGER NOT NULL CHECK (version > 0),
+  content TEXT NOT NULL,
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, project_name, object_type, version)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.prompt_templates ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own prompt templates" 
+ON public.prompt_templates 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own prompt templates" 
+ON public.prompt_templates 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own prompt templates" 
+ON public.prompt_templates 
+FOR DELETE 
+USING (auth.uid() = user_id);
@@ -0,0 +1,36 @@
+-- Create conversion_cache table: conversion results keyed by normalized source hash, model and prompt
+CREATE TABLE public.conversion_cache (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  cache_key TEXT NOT NULL,
+  source_hash TEXT NOT NULL,
+  ai_model TEXT NOT NULL,
+  prompt_version TEXT NOT NULL,
+  result JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, cache_key)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.conversion_cache ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own cached conversions" 
+ON public.conversion_cache 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own cached conversions" 
+ON public.conversion_cache 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own cached conversions" 
+ON public.conversion_cache 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own cached conversions" 
+ON public.conversion_cache 
+FOR DELETE 
+USING (auth.uid() = user_id);
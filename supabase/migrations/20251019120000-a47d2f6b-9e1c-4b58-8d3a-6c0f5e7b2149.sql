@@ -0,0 +1,55 @@
+-- Create translation_memory table: reviewer corrections of AI conversions, used as few-shot examples
+CREATE TABLE public.translation_memory (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  project_name TEXT NOT NULL DEFAULT 'default',
+  fingerprint TEXT NOT NULL,
+  constructs TEXT[] NOT NULL DEFAULT '{}',
+  sybase_code TEXT NOT NULL DEFAULT '',
+  ai_code TEXT NOT NULL,
+  corrected_code TEXT NOT NULL,
+  occurrences INTEGER NOT NULL DEFAULT 1,
+  source_file TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, project_name, fingerprint)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.translation_memory ENABLE ROW LEVEL SECURITY;
+
+-- Create policies for user access
+CREATE POLICY "Users can view their own translation memory" 
+ON public.translation_memory 
+FOR SELECT 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own translation memory" 
+ON public.translation_memory 
+FOR INSERT 
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own translation memory" 
+ON public.translation_memory 
+FOR UPDATE 
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own translation memory" 
+ON public.translation_memory 
+FOR DELETE 
+USING (auth.uid() = user_id);
+
+-- Create function to update timestamps
+CREATE OR REPLACE FUNCTION public.update_translation_memory_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = now();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Create trigger for automatic timestamp updates
+CREATE TRIGGER update_translation_memory_updated_at
+  BEFORE UPDATE ON public.translation_memory
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_translation_memory_updated_at();
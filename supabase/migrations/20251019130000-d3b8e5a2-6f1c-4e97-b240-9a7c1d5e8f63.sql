@@ -0,0 +1,4 @@
+-- Conversion confidence of files in Dev Review; the review queue shows the lowest scores first
+ALTER TABLE public.unreviewed_files
+  ADD COLUMN confidence DOUBLE PRECISION CHECK (confidence BETWEEN 0 AND 1),
+  ADD COLUMN confidence_factors JSONB;